@@ -72,6 +72,7 @@ const mockSubscriptionInfo: SubscriptionInfo = {
   isActive: true,
   willRenew: true,
   isTrial: false,
+  entitlements: ["pro"],
   expirationDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
   productId: "com.app.monthly",
   originalPurchaseDate: new Date().toISOString(),
@@ -83,6 +84,7 @@ const mockFreeSubscriptionInfo: SubscriptionInfo = {
   isActive: false,
   willRenew: false,
   isTrial: false,
+  entitlements: [],
   expirationDate: null,
   productId: null,
   originalPurchaseDate: null,
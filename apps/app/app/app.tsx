@@ -28,13 +28,17 @@ import { GestureHandlerRootView } from "react-native-gesture-handler"
 import { initialWindowMetrics, SafeAreaProvider } from "react-native-safe-area-context"
 
 import { logEnvValidation } from "./config/env"
+import { queryClient, restoreQueryCache, startQueryPersistence } from "./hooks/queries"
 import { initI18n, initializeLanguage } from "./i18n"
 import { AppNavigator } from "./navigators/AppNavigator"
 import { useNavigationPersistence } from "./navigators/navigationUtilities"
 import { QueryProvider } from "./providers"
 import { LoadingScreen } from "./screens/LoadingScreen"
+import { analyticsQueue } from "./services/analyticsQueue"
 import { certificatePinning } from "./services/certificatePinning"
 import { logMockServicesStatus } from "./services/mocks"
+import { mutationOutbox } from "./services/mutationOutbox"
+import { networkMonitor } from "./services/NetworkMonitor"
 import { initPosthog } from "./services/posthog"
 import { initRevenueCat } from "./services/revenuecat"
 import { initSentry } from "./services/sentry"
@@ -151,6 +155,9 @@ export function App() {
 
   useEffect(() => {
     let isMounted = true
+    let stopAnalyticsQueue: (() => void) | undefined
+    let stopMutationOutbox: (() => void) | undefined
+    let stopQueryPersistence: (() => void) | undefined
     const initialize = async () => {
       try {
         logStartup("App initialize started")
@@ -171,6 +178,9 @@ export function App() {
           if (__DEV__) {
             logger.debug("auth store initialized")
           }
+          // The persisted cache is tied to the signed-in user, so restore it after auth
+          await restoreQueryCache(queryClient)
+          if (isMounted) stopQueryPersistence = startQueryPersistence(queryClient)
         })()
 
         await Promise.all([i18nPromise, authPromise])
@@ -205,7 +215,14 @@ export function App() {
         certificatePinning.initialize()
         securityCheck.log()
         initSentry()
-        initPosthog()
+        // Events queued before PostHog loaded wait for it, so send them once it has
+        void initPosthog().then(() => analyticsQueue.flush())
+        // Queued analytics and offline writes are sent on reconnect, so the monitor has to be running
+        void networkMonitor.initialize().then(() => {
+          if (!isMounted) return
+          stopAnalyticsQueue = analyticsQueue.start()
+          stopMutationOutbox = mutationOutbox.start()
+        })
         void initRevenueCat().catch((error) => {
           logger.error("RevenueCat initialization failed", {}, error as Error)
         })
@@ -229,6 +246,9 @@ export function App() {
     return () => {
       isMounted = false
       deferredInitialization.cancel()
+      stopAnalyticsQueue?.()
+      stopMutationOutbox?.()
+      stopQueryPersistence?.()
       // Clean up notification listeners to prevent memory leaks
       useNotificationStore.getState().cleanup()
     }
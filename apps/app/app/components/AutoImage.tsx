@@ -1,5 +1,7 @@
 import { useLayoutEffect, useState } from "react"
-import { Image, ImageProps, ImageURISource, Platform, PixelRatio } from "react-native"
+import { Dimensions, Image, ImageProps, ImageURISource, Platform, PixelRatio } from "react-native"
+
+import { useRequestPolicy } from "@/services/requestPolicy"
 
 export interface AutoImageProps extends ImageProps {
   /**
@@ -65,14 +67,42 @@ export function useAutoImage(
   }
 }
 
+/**
+ * Picks the smallest of several sizes of an image that fills the display width at the
+ * pixel density the current connection allows, or the largest if none does.
+ * @param {ImageURISource[]} sources - The sizes of the image, each with its `width`.
+ * @param {number} displayWidth - The width the image is shown at.
+ * @param {number} imageScale - The fraction of the screen's pixel density to load.
+ * @returns {ImageURISource} - The source to load.
+ */
+function selectSource(
+  sources: ImageURISource[],
+  displayWidth: number,
+  imageScale: number,
+): ImageURISource {
+  const sized = sources
+    .filter((source) => source.width)
+    .sort((a, b) => (a.width ?? 0) - (b.width ?? 0))
+  if (sized.length === 0) return sources[0]
+
+  const targetWidth = displayWidth * PixelRatio.get() * imageScale
+  return sized.find((source) => (source.width ?? 0) >= targetWidth) ?? sized[sized.length - 1]
+}
+
 /**
  * An Image component that automatically sizes a remote or data-uri image.
+ *
+ * Pass an array of sources with their `width` to let it load a smaller size on a slow
+ * connection (see `useRequestPolicy`).
  * @param {AutoImageProps} props - The props for the `AutoImage` component.
  * @returns {JSX.Element} The rendered `AutoImage` component.
  */
 export function AutoImage(props: AutoImageProps) {
   const { maxWidth, maxHeight, ...ImageProps } = props
-  const source = props.source as ImageURISource
+  const { imageScale } = useRequestPolicy()
+  const source = Array.isArray(props.source)
+    ? selectSource(props.source, maxWidth ?? Dimensions.get("window").width, imageScale)
+    : (props.source as ImageURISource)
   const headers = source?.headers
 
   const [width, height] = useAutoImage(
@@ -84,5 +114,5 @@ export function AutoImage(props: AutoImageProps) {
     [maxWidth, maxHeight],
   )
 
-  return <Image {...ImageProps} style={[{ width, height }, props.style]} />
+  return <Image {...ImageProps} source={source} style={[{ width, height }, props.style]} />
 }
@@ -3,6 +3,7 @@ import { View, ViewStyle, Pressable, Image, Alert, Platform, Linking } from "rea
 import * as DocumentPicker from "expo-document-picker"
 import * as ImagePicker from "expo-image-picker"
 import { Ionicons } from "@expo/vector-icons"
+import { useTranslation } from "react-i18next"
 import Animated, {
   useAnimatedStyle,
   useSharedValue,
@@ -13,6 +14,9 @@ import Animated, {
 } from "react-native-reanimated"
 import { StyleSheet, useUnistyles } from "react-native-unistyles"
 
+import { loadDeferredUploads, saveDeferredUploads } from "@/services/deferredUploads"
+import { useNetworkState } from "@/services/NetworkMonitor"
+import { shouldDeferUpload } from "@/services/requestPolicy"
 import { SPRING_CONFIG } from "@/utils/animations"
 import { logger } from "@/utils/Logger"
 
@@ -50,6 +54,16 @@ export interface FilePickerProps {
    * Callback when a file is removed
    */
   onRemove?: (file: PickedFile) => void
+  /**
+   * Upload a picked file. Large files wait for a better connection while the user is on
+   * cellular or a poor connection, if they turned on the `defer_large_uploads` preference.
+   */
+  onUpload?: (file: PickedFile) => Promise<void> | void
+  /**
+   * Where waiting uploads are stored, so they are still sent after a restart. Give each
+   * picker that uploads its own key.
+   */
+  uploadQueueKey?: string
   /**
    * Type of files to pick
    */
@@ -211,6 +225,8 @@ export function FilePicker(props: FilePickerProps) {
     value = [],
     onChange,
     onRemove,
+    onUpload,
+    uploadQueueKey = "default",
     fileType = "any",
     multiple = false,
     maxFiles = 10,
@@ -232,9 +248,14 @@ export function FilePicker(props: FilePickerProps) {
   } = props
 
   const { theme } = useUnistyles()
+  const { t } = useTranslation()
   const [isLoading, setIsLoading] = useState(false)
   const [permissionStatus, setPermissionStatus] = useState<PermissionStatus>("undetermined")
   const [showPermissionWarning, setShowPermissionWarning] = useState(false)
+  const [deferredUploads, setDeferredUploads] = useState<PickedFile[]>(() =>
+    loadDeferredUploads(uploadQueueKey),
+  )
+  const networkState = useNetworkState()
 
   const scale = useSharedValue(1)
 
@@ -251,6 +272,41 @@ export function FilePicker(props: FilePickerProps) {
     }
   }, [fileType])
 
+  const upload = useCallback(
+    (file: PickedFile) => {
+      Promise.resolve(onUpload?.(file)).catch((err: unknown) => {
+        logger.error("Error uploading file", { error: err, name: file.name })
+      })
+    },
+    [onUpload],
+  )
+
+  const uploadFiles = useCallback(
+    (files: PickedFile[]) => {
+      if (!onUpload) return
+      const deferred = files.filter((file) => shouldDeferUpload(file.size))
+      files.filter((file) => !deferred.includes(file)).forEach(upload)
+      if (deferred.length > 0) {
+        setDeferredUploads((current) => [...current, ...deferred])
+      }
+    },
+    [onUpload, upload],
+  )
+
+  // Keep the waiting files on disk until they are uploaded
+  useEffect(() => {
+    saveDeferredUploads(uploadQueueKey, deferredUploads)
+  }, [uploadQueueKey, deferredUploads])
+
+  // Upload held-back files once the connection allows
+  useEffect(() => {
+    if (!onUpload) return
+    const ready = deferredUploads.filter((file) => !shouldDeferUpload(file.size, networkState))
+    if (ready.length === 0) return
+    setDeferredUploads((current) => current.filter((file) => !ready.includes(file)))
+    ready.forEach(upload)
+  }, [networkState, deferredUploads, onUpload, upload])
+
   const animatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: scale.value }],
   }))
@@ -355,12 +411,11 @@ export function FilePicker(props: FilePickerProps) {
         const validFiles = newFiles.filter(validateFile)
 
         if (validFiles.length > 0) {
-          if (multiple) {
-            const totalFiles = [...value, ...validFiles].slice(0, maxFiles)
-            onChange?.(totalFiles)
-          } else {
-            onChange?.(validFiles.slice(0, 1))
-          }
+          const addedFiles = multiple
+            ? validFiles.slice(0, Math.max(maxFiles - value.length, 0))
+            : validFiles.slice(0, 1)
+          onChange?.(multiple ? [...value, ...addedFiles] : addedFiles)
+          uploadFiles(addedFiles)
         }
       }
     } catch (err) {
@@ -383,6 +438,7 @@ export function FilePicker(props: FilePickerProps) {
     maxFiles,
     value,
     onChange,
+    uploadFiles,
     validateFile,
     permissionStatus,
     showPermissionSetupAlert,
@@ -408,19 +464,18 @@ export function FilePicker(props: FilePickerProps) {
         const validFiles = newFiles.filter(validateFile)
 
         if (validFiles.length > 0) {
-          if (multiple) {
-            const totalFiles = [...value, ...validFiles].slice(0, maxFiles)
-            onChange?.(totalFiles)
-          } else {
-            onChange?.(validFiles.slice(0, 1))
-          }
+          const addedFiles = multiple
+            ? validFiles.slice(0, Math.max(maxFiles - value.length, 0))
+            : validFiles.slice(0, 1)
+          onChange?.(multiple ? [...value, ...addedFiles] : addedFiles)
+          uploadFiles(addedFiles)
         }
       }
     } catch (err) {
       logger.error("Error picking document", { error: err })
       Alert.alert("Error", "Failed to pick document. Please try again.")
     }
-  }, [multiple, maxFiles, value, onChange, validateFile, allowedExtensions])
+  }, [multiple, maxFiles, value, onChange, uploadFiles, validateFile, allowedExtensions])
 
   const handlePick = useCallback(async () => {
     if (disabled || isLoading) return
@@ -448,6 +503,7 @@ export function FilePicker(props: FilePickerProps) {
   const handleRemove = useCallback(
     (file: PickedFile) => {
       onRemove?.(file)
+      setDeferredUploads((current) => current.filter((f) => f.uri !== file.uri))
       const newFiles = value.filter((f) => f.uri !== file.uri)
       onChange?.(newFiles)
     },
@@ -586,7 +642,15 @@ export function FilePicker(props: FilePickerProps) {
               {/* File Info */}
               <View style={styles.fileInfo}>
                 <Text text={file.name} numberOfLines={1} weight="medium" size="sm" />
-                <Text text={formatFileSize(file.size)} size="xs" style={styles.fileSize} />
+                <Text
+                  text={
+                    deferredUploads.some((f) => f.uri === file.uri)
+                      ? `${formatFileSize(file.size)} · ${t("filePicker:waitingForConnection")}`
+                      : formatFileSize(file.size)
+                  }
+                  size="xs"
+                  style={styles.fileSize}
+                />
               </View>
 
               {/* Remove Button */}
@@ -1,7 +1,10 @@
+import type { CertificatePinConfig } from "../types/certificatePinning"
+
 export interface ConfigBaseProps {
   persistNavigation: "always" | "dev" | "prod" | "never"
   catchErrors: "always" | "dev" | "prod" | "never"
   exitRoutes: string[]
+  certificatePins: CertificatePinConfig[]
 }
 
 export type PersistNavigationConfig = ConfigBaseProps["persistNavigation"]
@@ -21,6 +24,25 @@ const BaseConfig: ConfigBaseProps = {
    * is pressed while in that screen. Only affects Android.
    */
   exitRoutes: ["Welcome"],
+
+  /**
+   * Certificate pins for your API and Supabase hosts. Pins in EXPO_PUBLIC_CERTIFICATE_PINS
+   * replace these for the same hostname. List the next key in `backupHashes` before
+   * rotating certificates, and set `expiresAt` so an outdated build stops checking.
+   *
+   * To get a hash:
+   * openssl s_client -servername your-domain.com -connect your-domain.com:443 < /dev/null | \
+   *   openssl x509 -pubkey -noout | openssl pkey -pubin -outform der | \
+   *   openssl dgst -sha256 -binary | openssl enc -base64
+   */
+  certificatePins: [
+    // {
+    //   hostname: "your-project.supabase.co",
+    //   publicKeyHashes: ["sha256/AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA="],
+    //   backupHashes: ["sha256/BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB="],
+    //   expiresAt: "2027-06-30",
+    // },
+  ],
 }
 
 export default BaseConfig
@@ -11,6 +11,7 @@ export const API_CONFIG = {
   TIMEOUT: 30000, // 30 seconds
   RETRY_ATTEMPTS: 3,
   RETRY_DELAY: 1000, // 1 second
+  LARGE_UPLOAD_BYTES: 5 * 1024 * 1024, // 5 MB, held back on slow connections when opted in
 } as const
 
 /**
@@ -80,6 +81,22 @@ export const SUBSCRIPTION_TIERS = {
   PRO: "pro",
 } as const
 
+/**
+ * RevenueCat Entitlement Identifiers
+ */
+export const ENTITLEMENTS = {
+  PRO: "pro",
+  STORAGE_PLUS: "storage_plus",
+} as const
+
+/**
+ * Credits granted by each consumable product (RevenueCat product identifier)
+ */
+export const CREDIT_PRODUCTS: Record<string, number> = {
+  credits_100: 100,
+  credits_500: 500,
+}
+
 /**
  * Error Messages
  */
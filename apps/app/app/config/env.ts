@@ -32,6 +32,11 @@ const readBooleanEnv = (key: string): boolean | undefined => {
   return undefined
 }
 
+const readPinningModeEnv = (): "enforce" | "report-only" | "off" | undefined => {
+  const value = readStringEnv("certificate_pinning_mode")?.toLowerCase()
+  return value === "enforce" || value === "report-only" || value === "off" ? value : undefined
+}
+
 const fallbackAppEnv = __DEV__ ? "development" : "production"
 const appEnvValue = readStringEnv("app_env")
 const resolvedAppEnv =
@@ -57,6 +62,10 @@ const EnvSchema = z
     // Sentry
     sentryDsn: z.string().optional(),
 
+    // Certificate pinning (pins are a JSON array of CertificatePinConfig)
+    certificatePins: z.string().optional(),
+    certificatePinningMode: z.enum(["enforce", "report-only", "off"]).optional(),
+
     // Google OAuth
     googleClientId: z.string().optional(),
     googleIosClientId: z.string().optional(),
@@ -107,6 +116,8 @@ const envInput: Partial<EnvConfig> = {
   posthogApiKey: readStringEnv("posthog_api_key"),
   posthogHost: readStringEnv("posthog_host"),
   sentryDsn: readStringEnv("sentry_dsn"),
+  certificatePins: readStringEnv("certificate_pins"),
+  certificatePinningMode: readPinningModeEnv(),
   googleClientId: readStringEnv("google_client_id"),
   googleIosClientId: readStringEnv("google_ios_client_id"),
   appleServicesId: readStringEnv("apple_services_id"),
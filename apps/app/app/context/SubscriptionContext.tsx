@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState } from "react"
 
 import { useAuth } from "./AuthContext"
+import { ENTITLEMENTS } from "../config/constants"
 import { revenueCat } from "../services/revenuecat"
 import type { SubscriptionInfo } from "../types/subscription"
 import { logger } from "../utils/Logger"
@@ -27,7 +28,7 @@ export const SubscriptionProvider = ({ children }: { children: React.ReactNode }
       if (user) {
         const { subscriptionInfo: info } = await revenueCat.logIn(user.id)
         setSubscriptionInfo(info)
-        setIsPro(info.isActive)
+        setIsPro(info.entitlements.includes(ENTITLEMENTS.PRO))
       } else {
         // When no user, get subscription info instead of calling logOut
         // logOut() fails if user is already anonymous
@@ -50,7 +51,7 @@ export const SubscriptionProvider = ({ children }: { children: React.ReactNode }
     // Set up subscription update listener
     const unsubscribe = revenueCat.addSubscriptionUpdateListener?.((info) => {
       setSubscriptionInfo(info)
-      setIsPro(info.isActive)
+      setIsPro(info.entitlements.includes(ENTITLEMENTS.PRO))
     })
 
     return () => {
@@ -68,7 +69,7 @@ export const SubscriptionProvider = ({ children }: { children: React.ReactNode }
       }
 
       setSubscriptionInfo(info)
-      setIsPro(info.isActive)
+      setIsPro(info.entitlements.includes(ENTITLEMENTS.PRO))
       return info
     } catch (e) {
       logger.error("Restore failed", { error: e })
@@ -11,6 +11,11 @@ import mmkvPlugin from "reactotron-react-native-mmkv"
 
 import type { AppStackParamList } from "@/navigators/navigationTypes"
 import { goBack, resetRoot, navigate, navigationRef } from "@/navigators/navigationUtilities"
+import { mockFaults } from "@/services/mocks/faults"
+import { mockRevenueCat } from "@/services/mocks/revenueCat"
+import { mockSupabaseHelpers } from "@/services/mocks/supabase"
+import { isUsingMockSupabase } from "@/services/supabase"
+import { getAnalyticsEventJsonSchema } from "@/utils/analyticsSchema"
 import { storage } from "@/utils/storage"
 
 import { Reactotron } from "./ReactotronClient"
@@ -97,6 +102,194 @@ reactotron.onCustomCommand({
   },
 })
 
+reactotron.onCustomCommand<[{ name: "fixture"; type: ArgType.String }]>({
+  command: "loadMockFixture",
+  handler: async (args) => {
+    const { fixture } = args ?? {}
+    if (!isUsingMockSupabase) {
+      Reactotron.log("Mock fixtures are only available with mock Supabase")
+    } else if (!fixture || !mockSupabaseHelpers.getFixtureNames().includes(fixture)) {
+      Reactotron.log(
+        `Unknown fixture. Available: ${mockSupabaseHelpers.getFixtureNames().join(", ")}`,
+      )
+    } else {
+      await mockSupabaseHelpers.loadFixture(fixture)
+      Reactotron.log(`Loaded mock fixture: ${fixture}`)
+    }
+  },
+  title: "Load Mock Fixture",
+  description:
+    "Replaces mock Supabase data with a bundled fixture (new-user, onboarded-user, heavy-data).",
+  args: [{ name: "fixture", type: ArgType.String }],
+})
+
+reactotron.onCustomCommand<[{ name: "name"; type: ArgType.String }]>({
+  command: "saveMockSnapshot",
+  handler: async (args) => {
+    const { name } = args ?? {}
+    if (!isUsingMockSupabase || !name) {
+      Reactotron.log("Could not save snapshot. Requires mock Supabase and a name.")
+      return
+    }
+    await mockSupabaseHelpers.snapshot(name)
+    Reactotron.log(`Saved mock snapshot: ${name}`)
+  },
+  title: "Save Mock Snapshot",
+  description: "Saves the current mock Supabase users, session, tables and files under a name.",
+  args: [{ name: "name", type: ArgType.String }],
+})
+
+reactotron.onCustomCommand<[{ name: "name"; type: ArgType.String }]>({
+  command: "restoreMockSnapshot",
+  handler: async (args) => {
+    const { name } = args ?? {}
+    if (!isUsingMockSupabase || !name) {
+      Reactotron.log("Could not restore snapshot. Requires mock Supabase and a name.")
+      return
+    }
+    if (await mockSupabaseHelpers.restore(name)) {
+      Reactotron.log(`Restored mock snapshot: ${name}`)
+    } else {
+      const names = (await mockSupabaseHelpers.listSnapshots()).map((snapshot) => snapshot.name)
+      Reactotron.log(`Unknown snapshot. Saved: ${names.join(", ") || "none"}`)
+    }
+  },
+  title: "Restore Mock Snapshot",
+  description: "Restores mock Supabase data from a snapshot saved with Save Mock Snapshot.",
+  args: [{ name: "name", type: ArgType.String }],
+})
+
+reactotron.onCustomCommand({
+  command: "toggleMockOffline",
+  handler: () => {
+    mockFaults.setOffline(!mockFaults.isOffline())
+    Reactotron.log(`Mock services are ${mockFaults.isOffline() ? "offline" : "online"}`)
+  },
+  title: "Toggle Mock Offline",
+  description: "Fails every mock service call and reports no connection from networkMonitor.",
+})
+
+reactotron.onCustomCommand<
+  [{ name: "operation"; type: ArgType.String }, { name: "times"; type: ArgType.String }]
+>({
+  command: "failNextMockCalls",
+  handler: (args) => {
+    const { operation, times } = args ?? {}
+    if (!operation) {
+      Reactotron.log("Enter an operation, e.g. supabase.auth.* or revenuecat.purchasePackage")
+      return
+    }
+    const count = Number(times) || 1
+    mockFaults.failNext(operation, count)
+    Reactotron.log(`The next ${count} ${operation} call(s) will fail`)
+  },
+  title: "Fail Next Mock Calls",
+  description: "Fails the next N mock calls matching an operation pattern with a network error.",
+  args: [
+    { name: "operation", type: ArgType.String },
+    { name: "times", type: ArgType.String },
+  ],
+})
+
+reactotron.onCustomCommand<
+  [{ name: "operation"; type: ArgType.String }, { name: "latency"; type: ArgType.String }]
+>({
+  command: "addMockLatency",
+  handler: (args) => {
+    const { operation, latency } = args ?? {}
+    const ms = Number(latency)
+    if (!operation || !ms) {
+      Reactotron.log("Enter an operation pattern and a latency in milliseconds")
+      return
+    }
+    mockFaults.setRule(operation, { latency: ms })
+    Reactotron.log(`Added ${ms}ms to ${operation} calls`)
+  },
+  title: "Add Mock Latency",
+  description: "Slows down mock calls matching an operation pattern.",
+  args: [
+    { name: "operation", type: ArgType.String },
+    { name: "latency", type: ArgType.String },
+  ],
+})
+
+reactotron.onCustomCommand({
+  command: "clearMockFaults",
+  handler: () => {
+    mockFaults.reset()
+    Reactotron.log("Cleared mock fault rules and went back online")
+  },
+  title: "Clear Mock Faults",
+  description: "Removes every mock failure and latency rule and ends offline simulation.",
+})
+
+reactotron.onCustomCommand<[{ name: "days"; type: ArgType.String }]>({
+  command: "advanceMockClock",
+  handler: (args) => {
+    const days = Number(args?.days)
+    if (!days || days <= 0) {
+      Reactotron.log("Enter a number of days to move the mock RevenueCat clock forward")
+      return
+    }
+    mockRevenueCat.advanceTime(days)
+    Reactotron.log(`Mock RevenueCat clock is now ${mockRevenueCat.now().toISOString()}`)
+  },
+  title: "Advance Mock Clock",
+  description:
+    "Moves mock RevenueCat forward by days, applying renewals, expiries and billing retry.",
+  args: [{ name: "days", type: ArgType.String }],
+})
+
+reactotron.onCustomCommand({
+  command: "cancelMockSubscription",
+  handler: () => {
+    mockRevenueCat.cancelSubscription()
+    Reactotron.log("Mock subscription will not renew")
+  },
+  title: "Cancel Mock Subscription",
+  description: "Turns off auto-renew; the subscription expires at the end of the period.",
+})
+
+reactotron.onCustomCommand({
+  command: "toggleMockBillingIssue",
+  handler: () => {
+    mockRevenueCat.setBillingIssue(!mockRevenueCat.isBillingFailing())
+    Reactotron.log(`Mock renewals will ${mockRevenueCat.isBillingFailing() ? "fail" : "succeed"}`)
+  },
+  title: "Toggle Mock Billing Issue",
+  description: "Makes mock renewals fail into a grace period, or fixes billing and renews.",
+})
+
+reactotron.onCustomCommand<[{ name: "code"; type: ArgType.String }]>({
+  command: "redeemMockOfferCode",
+  handler: (args) => {
+    if (!args?.code) {
+      Reactotron.log("Enter an offer code, e.g. FREEMONTH or ANNUAL50")
+      return
+    }
+    mockRevenueCat
+      .redeemOfferCode(args.code)
+      .then(() => Reactotron.log(`Redeemed offer code ${args.code}`))
+      .catch((error: Error) => Reactotron.log(`Offer code not redeemed: ${error.message}`))
+  },
+  title: "Redeem Mock Offer Code",
+  description: "Redeems a mock RevenueCat offer code for the first period of a subscription.",
+  args: [{ name: "code", type: ArgType.String }],
+})
+
+reactotron.onCustomCommand({
+  command: "exportAnalyticsSchema",
+  handler: () => {
+    Reactotron.display({
+      name: "ANALYTICS SCHEMA",
+      preview: "JSON Schema for every event in AnalyticsEventCatalog",
+      value: JSON.stringify(getAnalyticsEventJsonSchema(), null, 2),
+    })
+  },
+  title: "Export Analytics Schema",
+  description: "Shows the JSON Schema of all analytics events, ready to copy for the data team.",
+})
+
 /**
  * We're going to add `console.tron` to the Reactotron object.
  * Now, anywhere in our app in development, we can use Reactotron like so:
@@ -0,0 +1,161 @@
+/**
+ * Query Persistence Tests
+ *
+ * Per-key opt-in, encrypted storage for sensitive queries, the version/user buster,
+ * expiry, throttled writes and purge
+ */
+
+import { QueryClient } from "@tanstack/react-query"
+import { MMKV } from "react-native-mmkv"
+
+import { analyticsKeys, userKeys, widgetKeys } from "../queries/queryKeys"
+import {
+  clearPersistedQueryCache,
+  persistQueryCache,
+  PERSISTED_QUERY_MAX_AGE_MS,
+  restoreQueryCache,
+  startQueryPersistence,
+} from "../queries/queryPersistence"
+
+let mockUserId: string | null = "user-1"
+
+jest.mock("react-native-mmkv", () => ({
+  MMKV: jest.fn().mockImplementation(() => {
+    const data = new Map<string, string>()
+    return {
+      getString: (key: string) => data.get(key),
+      set: jest.fn((key: string, value: string) => data.set(key, value)),
+      delete: (key: string) => data.delete(key),
+    }
+  }),
+}))
+
+jest.mock("expo-secure-store", () => {
+  const items = new Map<string, string>()
+  return {
+    WHEN_UNLOCKED_THIS_DEVICE_ONLY: 1,
+    getItemAsync: jest.fn(async (key: string) => items.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      items.set(key, value)
+    }),
+  }
+})
+
+jest.mock("../../stores/auth", () => ({
+  useAuthStore: { getState: () => ({ user: mockUserId ? { id: mockUserId } : null }) },
+}))
+
+interface MockStore {
+  getString: (key: string) => string | undefined
+  set: jest.Mock
+}
+
+function getStore(id: string): MockStore | undefined {
+  const { calls, results } = jest.mocked(MMKV).mock
+  const index = calls.findIndex(([config]) => config?.id === id)
+  return index === -1 ? undefined : results[index].value
+}
+
+const plainCache = () => getStore("query-cache")?.getString("shipnative.queryCache")
+const encryptedCache = () => getStore("query-cache-encrypted")?.getString("shipnative.queryCache")
+
+function createClientWithData(): QueryClient {
+  const client = new QueryClient()
+  client.setQueryData(userKeys.profile(), { email: "jane@example.com" })
+  client.setQueryData(widgetKeys.cache("stats"), [{ id: 1 }])
+  client.setQueryData(analyticsKeys.events(), ["not persisted"])
+  return client
+}
+
+describe("query persistence", () => {
+  beforeEach(async () => {
+    mockUserId = "user-1"
+    await clearPersistedQueryCache()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("restores opted-in queries into a new client", async () => {
+    await persistQueryCache(createClientWithData())
+
+    const client = new QueryClient()
+    await restoreQueryCache(client)
+
+    expect(client.getQueryData(userKeys.profile())).toEqual({ email: "jane@example.com" })
+    expect(client.getQueryData(widgetKeys.cache("stats"))).toEqual([{ id: 1 }])
+    expect(client.getQueryData(analyticsKeys.events())).toBeUndefined()
+  })
+
+  it("keeps sensitive queries out of the plain store", async () => {
+    await persistQueryCache(createClientWithData())
+
+    expect(MMKV).toHaveBeenCalledWith({
+      id: "query-cache-encrypted",
+      encryptionKey: expect.stringMatching(/^[A-Za-z0-9+/]{16}$/),
+    })
+    expect(plainCache()).toContain("stats")
+    expect(plainCache()).not.toContain("jane@example.com")
+    expect(encryptedCache()).toContain("jane@example.com")
+  })
+
+  it("keeps restored queries around as long as they are persisted", async () => {
+    const client = new QueryClient()
+    await restoreQueryCache(client)
+
+    expect(client.getQueryDefaults(userKeys.profile()).gcTime).toBe(PERSISTED_QUERY_MAX_AGE_MS)
+    expect(client.getQueryDefaults(analyticsKeys.events()).gcTime).toBeUndefined()
+  })
+
+  it("drops a cache written for another user", async () => {
+    await persistQueryCache(createClientWithData())
+
+    mockUserId = null
+    const client = new QueryClient()
+    await restoreQueryCache(client)
+
+    expect(client.getQueryCache().getAll()).toHaveLength(0)
+    expect(plainCache()).toBeUndefined()
+    expect(encryptedCache()).toBeUndefined()
+  })
+
+  it("drops a cache older than the max age", async () => {
+    await persistQueryCache(createClientWithData())
+
+    const now = Date.now()
+    const dateNow = jest.spyOn(Date, "now").mockReturnValue(now + PERSISTED_QUERY_MAX_AGE_MS + 1)
+    const client = new QueryClient()
+    await restoreQueryCache(client)
+    dateNow.mockRestore()
+
+    expect(client.getQueryData(widgetKeys.cache("stats"))).toBeUndefined()
+  })
+
+  it("throttles writes while the cache changes", async () => {
+    jest.useFakeTimers()
+    const client = new QueryClient()
+    const stop = startQueryPersistence(client)
+    const plainStore = getStore("query-cache")!
+    plainStore.set.mockClear()
+
+    client.setQueryData(widgetKeys.cache("a"), 1)
+    client.setQueryData(widgetKeys.cache("b"), 2)
+    client.setQueryData(widgetKeys.cache("c"), 3)
+    expect(plainStore.set).not.toHaveBeenCalled()
+
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(plainStore.set).toHaveBeenCalledTimes(1)
+    expect(plainCache()).toContain('"c"')
+
+    stop()
+  })
+
+  it("purges both stores", async () => {
+    await persistQueryCache(createClientWithData())
+    await clearPersistedQueryCache()
+
+    expect(plainCache()).toBeUndefined()
+    expect(encryptedCache()).toBeUndefined()
+  })
+})
@@ -6,3 +6,4 @@
 
 export * from "./queryClient"
 export * from "./queryKeys"
+export * from "./queryPersistence"
@@ -7,14 +7,15 @@
 import { QueryClient } from "@tanstack/react-query"
 
 import { networkMonitor } from "../../services/NetworkMonitor"
+import { getRequestPolicy } from "../../services/requestPolicy"
 import { errorHandler } from "../../utils/ErrorHandler"
 
 /**
  * Default retry logic based on error type
  */
 function shouldRetry(failureCount: number, error: unknown): boolean {
-  // Don't retry more than 3 times
-  if (failureCount >= 3) {
+  // Retry as often as the connection quality allows
+  if (failureCount >= getRequestPolicy().retries) {
     return false
   }
 
@@ -71,3 +71,22 @@ export const queryKeys = {
   app: appKeys,
   widget: widgetKeys,
 }
+
+export interface PersistedQueryRule {
+  /** Queries whose key starts with this prefix are persisted */
+  queryKey: readonly unknown[]
+  /** Store in the encrypted cache, for personal or purchase data */
+  encrypt?: boolean
+}
+
+/**
+ * Queries kept on disk between launches (see queryPersistence).
+ * Everything else stays in memory only.
+ */
+export const persistedQueryKeys: PersistedQueryRule[] = [
+  { queryKey: userKeys.profile(), encrypt: true },
+  { queryKey: subscriptionKeys.status(), encrypt: true },
+  { queryKey: subscriptionKeys.entitlements(), encrypt: true },
+  { queryKey: appKeys.all },
+  { queryKey: widgetKeys.all },
+]
@@ -0,0 +1,222 @@
+/**
+ * React Query Persistence
+ *
+ * Keeps the queries listed in `persistedQueryKeys` on disk, so a cold start renders the
+ * last known profile, subscription status and widget data right away and they can be
+ * read offline.
+ *
+ * - Plain queries go to their own MMKV instance (localStorage on web). Queries marked
+ *   `encrypt` go to an MMKV instance encrypted with a key kept in SecureStore
+ *   (webSecureStorage on web)
+ * - The cache is tied to the app version and the signed-in user. A cache written by
+ *   another version or user, or older than `PERSISTED_QUERY_MAX_AGE_MS`, is dropped
+ * - Writes are throttled, and the cache is purged on sign out
+ */
+
+import { AppState, Platform, type AppStateStatus } from "react-native"
+import { getRandomBytes } from "expo-crypto"
+import * as SecureStore from "expo-secure-store"
+import {
+  dehydrate,
+  hydrate,
+  partialMatchKey,
+  type DehydratedState,
+  type Query,
+  type QueryClient,
+} from "@tanstack/react-query"
+import { MMKV } from "react-native-mmkv"
+
+import { persistedQueryKeys } from "./queryKeys"
+import { env } from "../../config/env"
+import { logger } from "../../utils/Logger"
+import { webSecureStorage } from "../../utils/webStorageEncryption"
+
+const CACHE_STORAGE_KEY = "shipnative.queryCache"
+const ENCRYPTION_KEY_NAME = "shipnative.queryCacheKey"
+const SAVE_THROTTLE_MS = 1000
+
+/**
+ * How long persisted queries are kept, both on disk and in memory once restored
+ */
+export const PERSISTED_QUERY_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+interface PersistedQueryCache {
+  buster: string
+  timestamp: number
+  state: DehydratedState
+}
+
+interface CacheStore {
+  getString(key: string): string | null | undefined
+  set(key: string, value: string): void
+  delete(key: string): void
+}
+
+const plainStore: CacheStore =
+  Platform.OS === "web"
+    ? {
+        getString: (key) => localStorage.getItem(key),
+        set: (key, value) => localStorage.setItem(key, value),
+        delete: (key) => localStorage.removeItem(key),
+      }
+    : new MMKV({ id: "query-cache" })
+
+let encryptedStore: Promise<CacheStore | null> | null = null
+
+/**
+ * The encrypted store, or null when SecureStore can't hold its key. Sensitive queries
+ * are then kept in memory only rather than written unencrypted.
+ */
+function getEncryptedStore(): Promise<CacheStore | null> {
+  if (Platform.OS === "web") {
+    return Promise.resolve({
+      getString: (key) => webSecureStorage.getItem(key),
+      set: (key, value) => webSecureStorage.setItem(key, value),
+      delete: (key) => webSecureStorage.removeItem(key),
+    })
+  }
+
+  if (!encryptedStore) {
+    encryptedStore = (async () => {
+      const options = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY }
+      let encryptionKey = await SecureStore.getItemAsync(ENCRYPTION_KEY_NAME, options)
+      if (!encryptionKey) {
+        // MMKV uses the first 16 bytes of the key; 12 random bytes are exactly 16 in base64
+        encryptionKey = btoa(String.fromCharCode(...getRandomBytes(12)))
+        await SecureStore.setItemAsync(ENCRYPTION_KEY_NAME, encryptionKey, options)
+      }
+      return new MMKV({ id: "query-cache-encrypted", encryptionKey })
+    })().catch((error: Error) => {
+      logger.warn("Encrypted query cache unavailable", { error: error.message })
+      encryptedStore = null
+      return null
+    })
+  }
+  return encryptedStore
+}
+
+/**
+ * App version plus signed-in user, so a cache never outlives an update or leaks
+ * across accounts
+ */
+function getBuster(): string {
+  // Lazy require avoids a cycle: the auth store clears the query client on sign out
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { useAuthStore } = require("../../stores/auth") as typeof import("../../stores/auth")
+  return `${env.appVersion}:${useAuthStore.getState().user?.id ?? "guest"}`
+}
+
+function isPersisted(query: Query, encrypt: boolean): boolean {
+  return (
+    query.state.status === "success" &&
+    persistedQueryKeys.some(
+      (rule) => !!rule.encrypt === encrypt && partialMatchKey(query.queryKey, rule.queryKey),
+    )
+  )
+}
+
+/**
+ * Keep persisted queries in memory as long as they are kept on disk, so an unused
+ * query isn't garbage collected and then dropped from the next write
+ */
+function applyPersistedDefaults(client: QueryClient): void {
+  for (const rule of persistedQueryKeys) {
+    client.setQueryDefaults(rule.queryKey, { gcTime: PERSISTED_QUERY_MAX_AGE_MS })
+  }
+}
+
+function readCache(store: CacheStore, buster: string): DehydratedState | null {
+  const raw = store.getString(CACHE_STORAGE_KEY)
+  if (!raw) return null
+
+  try {
+    const cache = JSON.parse(raw) as PersistedQueryCache
+    if (cache.buster === buster && Date.now() - cache.timestamp <= PERSISTED_QUERY_MAX_AGE_MS) {
+      return cache.state
+    }
+  } catch {
+    // Corrupt cache, dropped below
+  }
+
+  store.delete(CACHE_STORAGE_KEY)
+  return null
+}
+
+function writeCache(store: CacheStore, client: QueryClient, encrypt: boolean): void {
+  const state = dehydrate(client, {
+    shouldDehydrateQuery: (query) => isPersisted(query, encrypt),
+    shouldDehydrateMutation: () => false,
+  })
+  const cache: PersistedQueryCache = { buster: getBuster(), timestamp: Date.now(), state }
+  store.set(CACHE_STORAGE_KEY, JSON.stringify(cache))
+}
+
+/**
+ * Load persisted queries into the client. Call once the auth store has restored the
+ * session, so the buster has the right user.
+ */
+export async function restoreQueryCache(client: QueryClient): Promise<void> {
+  applyPersistedDefaults(client)
+
+  try {
+    const buster = getBuster()
+    const stores = [plainStore, await getEncryptedStore()]
+    for (const store of stores) {
+      const state = store && readCache(store, buster)
+      if (state) hydrate(client, state)
+    }
+  } catch (error) {
+    logger.warn("Failed to restore query cache", { error: (error as Error).message })
+  }
+}
+
+/**
+ * Write persisted queries to storage now
+ */
+export async function persistQueryCache(client: QueryClient): Promise<void> {
+  try {
+    writeCache(plainStore, client, false)
+    const store = await getEncryptedStore()
+    if (store) writeCache(store, client, true)
+  } catch (error) {
+    logger.warn("Failed to persist query cache", { error: (error as Error).message })
+  }
+}
+
+/**
+ * Persist the cache whenever it changes, at most once per second, and right away when
+ * the app goes to the background. Returns a function that stops persisting.
+ */
+export function startQueryPersistence(client: QueryClient): () => void {
+  applyPersistedDefaults(client)
+
+  let saveTimer: ReturnType<typeof setTimeout> | null = null
+  const save = () => {
+    if (saveTimer) clearTimeout(saveTimer)
+    saveTimer = null
+    void persistQueryCache(client)
+  }
+
+  const unsubscribe = client.getQueryCache().subscribe(() => {
+    if (!saveTimer) saveTimer = setTimeout(save, SAVE_THROTTLE_MS)
+  })
+
+  const appStateSubscription = AppState.addEventListener("change", (status: AppStateStatus) => {
+    if (status === "background") save()
+  })
+
+  return () => {
+    if (saveTimer) clearTimeout(saveTimer)
+    unsubscribe()
+    appStateSubscription.remove()
+  }
+}
+
+/**
+ * Delete both persisted caches, e.g. on sign out
+ */
+export async function clearPersistedQueryCache(): Promise<void> {
+  plainStore.delete(CACHE_STORAGE_KEY)
+  const store = await getEncryptedStore()
+  store?.delete(CACHE_STORAGE_KEY)
+}
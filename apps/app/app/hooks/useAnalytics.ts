@@ -10,7 +10,8 @@ import { useCallback } from "react"
 import { posthog } from "../services/posthog"
 import { sentry } from "../services/sentry"
 import type {
-  EventProperties,
+  AnalyticsEventArgs,
+  AnalyticsEventName,
   UserProperties,
   ScreenProperties,
   FeatureFlagValue,
@@ -31,7 +32,7 @@ import {
 
 export interface UseAnalyticsReturn {
   // Event tracking
-  trackEvent: (event: string, properties?: EventProperties) => void
+  trackEvent: <E extends AnalyticsEventName>(event: E, ...args: AnalyticsEventArgs<E>) => void
   trackScreen: (screenName: string, properties?: ScreenProperties) => void
 
   // User identification
@@ -83,9 +84,12 @@ export interface UseAnalyticsReturn {
  * ```
  */
 export function useAnalytics(): UseAnalyticsReturn {
-  const trackEvent = useCallback((event: string, properties?: EventProperties) => {
-    utilTrackEvent(event, properties)
-  }, [])
+  const trackEvent = useCallback(
+    <E extends AnalyticsEventName>(event: E, ...[properties]: AnalyticsEventArgs<E>) => {
+      utilTrackEvent(event, ...([properties] as AnalyticsEventArgs<E>))
+    },
+    [],
+  )
 
   const trackScreen = useCallback((screenName: string, properties?: ScreenProperties) => {
     utilTrackScreen(screenName, properties)
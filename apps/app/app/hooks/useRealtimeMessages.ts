@@ -236,12 +236,6 @@ export function useRealtimeMessages(
 
   // Set up realtime subscription
   useEffect(() => {
-    if (isUsingMockSupabase) {
-      setIsConnected(true)
-      setLoading(false)
-      return
-    }
-
     fetchMessages()
 
     const channel = supabase
@@ -415,7 +409,7 @@ export function useRealtimeMessages(
   // Broadcast typing state
   const setTyping = useCallback(
     async (isTyping: boolean) => {
-      if (isUsingMockSupabase || !channelRef.current) return
+      if (!channelRef.current) return
 
       try {
         const {
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from "react"
 import type { RealtimeChannel } from "@supabase/supabase-js"
 
-import { supabase, isUsingMockSupabase } from "../services/supabase"
+import { supabase } from "../services/supabase"
 import type { PresenceState } from "../types/realtime"
 import { logger } from "../utils/Logger"
 
@@ -122,19 +122,6 @@ export function useRealtimePresence(
 
   // Set up presence channel
   useEffect(() => {
-    if (isUsingMockSupabase) {
-      setIsConnected(true)
-      // Mock: show current user as present
-      const mockPresence: PresenceState = {
-        user_id: "mock-user",
-        online_at: new Date().toISOString(),
-        status: initialStatus,
-        custom: customData,
-      }
-      setPresentUsers([mockPresence])
-      return
-    }
-
     let isMounted = true
 
     const setupPresence = async () => {
@@ -227,11 +214,6 @@ export function useRealtimePresence(
   const updateStatus = useCallback(async (status: PresenceState["status"]) => {
     currentStatusRef.current = status
 
-    if (isUsingMockSupabase) {
-      setPresentUsers((prev) => prev.map((u) => (u.user_id === "mock-user" ? { ...u, status } : u)))
-      return
-    }
-
     if (!channelRef.current || !currentUserIdRef.current) return
 
     try {
@@ -252,15 +234,6 @@ export function useRealtimePresence(
   const updateCustomData = useCallback(async (data: Record<string, unknown>) => {
     currentCustomDataRef.current = { ...currentCustomDataRef.current, ...data }
 
-    if (isUsingMockSupabase) {
-      setPresentUsers((prev) =>
-        prev.map((u) =>
-          u.user_id === "mock-user" ? { ...u, custom: currentCustomDataRef.current } : u,
-        ),
-      )
-      return
-    }
-
     if (!channelRef.current || !currentUserIdRef.current) return
 
     try {
@@ -9,6 +9,7 @@ import { useCallback, useMemo } from "react"
 import { useQuery, useQueryClient } from "@tanstack/react-query"
 
 import { widgetKeys } from "./queries"
+import { useRequestPolicy } from "../services/requestPolicy"
 import { fetchWidgetData, clearWidgetCache, getWidgetConfig } from "../services/widgets"
 import { logger } from "../utils/Logger"
 
@@ -20,7 +21,7 @@ export interface UseWidgetDataOptions {
   orderBy?: { column: string; ascending?: boolean }
   requireAuth?: boolean
   cacheKey?: string
-  refreshInterval?: number // in milliseconds
+  refreshInterval?: number // in milliseconds, paused on slow connections
   enabled?: boolean
 }
 
@@ -76,6 +77,7 @@ export function useWidgetData<T = unknown>(options: UseWidgetDataOptions): UseWi
   } = options
 
   const queryClient = useQueryClient()
+  const { prefetch } = useRequestPolicy()
   const queryKey = useMemo(() => {
     if (cacheKey) {
       return widgetKeys.cache(cacheKey)
@@ -117,7 +119,10 @@ export function useWidgetData<T = unknown>(options: UseWidgetDataOptions): UseWi
       }
     },
     enabled,
-    refetchInterval: enabled && refreshInterval ? refreshInterval : false,
+    // fetchWidgetData already retries network and server errors
+    retry: false,
+    // Background refreshes count as prefetching
+    refetchInterval: enabled && refreshInterval && prefetch ? refreshInterval : false,
   })
 
   const handleClearCache = useCallback(() => {
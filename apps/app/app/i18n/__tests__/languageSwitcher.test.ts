@@ -0,0 +1,51 @@
+/**
+ * Language Switcher Tests
+ *
+ * Direction changes reload the app when the user picks a language, but not when the
+ * language arrives from another device
+ */
+
+import { I18nManager } from "react-native"
+import * as Updates from "expo-updates"
+import i18n from "i18next"
+
+import { getVersionedPreferences } from "@/utils/preferences"
+import { storage } from "@/utils/storage"
+
+import { applySyncedLanguage, changeLanguage, getPersistedLanguage } from "../languageSwitcher"
+
+jest.mock("expo-updates", () => ({ reloadAsync: jest.fn() }))
+
+jest.mock("i18next", () => ({ changeLanguage: jest.fn() }))
+
+jest.mock("@/utils/formatDate", () => ({ loadDateFnsLocale: jest.fn() }))
+
+describe("languageSwitcher", () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    storage.clearAll()
+    I18nManager.isRTL = false
+    jest.spyOn(I18nManager, "forceRTL").mockImplementation(() => {})
+    jest.spyOn(I18nManager, "allowRTL").mockImplementation(() => {})
+  })
+
+  it("reloads when the user switches to a right-to-left language", async () => {
+    await changeLanguage("ar")
+
+    expect(i18n.changeLanguage).toHaveBeenCalledWith("ar")
+    expect(I18nManager.forceRTL).toHaveBeenCalledWith(true)
+    expect(Updates.reloadAsync).toHaveBeenCalled()
+    expect(getVersionedPreferences().language?.value).toBe("ar")
+  })
+
+  it("applies a synced language without reloading or syncing it back", async () => {
+    await applySyncedLanguage("ar")
+
+    expect(i18n.changeLanguage).toHaveBeenCalledWith("ar")
+    // Stored, so the layout flips on the next launch
+    expect(I18nManager.forceRTL).toHaveBeenCalledWith(true)
+    expect(getPersistedLanguage()).toBe("ar")
+    expect(Updates.reloadAsync).not.toHaveBeenCalled()
+    expect(getVersionedPreferences().language).toBeUndefined()
+  })
+})
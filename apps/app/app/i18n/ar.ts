@@ -56,6 +56,9 @@ const ar: Translations = {
     processing: "جاري المعالجة...",
     subscribeNow: "اشترك الآن",
   },
+  filePicker: {
+    waitingForConnection: "في انتظار اتصال أفضل",
+  },
   subscriptionStatus: {
     freePlan: "الخطة المجانية",
     upgradeMessage: "قم بالترقية إلى Pro لفتح جميع الميزات",
@@ -112,6 +115,10 @@ const ar: Translations = {
     unableToLoadTitle: "تعذر تحميل صفحة الاشتراك",
     tryAgain: "حاول مرة أخرى",
     viewPlans: "عرض الخطط",
+    switchToAnnualTitle: "التحويل إلى الاشتراك السنوي",
+    switchToAnnualDescription:
+      "ادفع {{price}} سنويًا بدلًا من ذلك. يُحتسب الوقت غير المستخدم من هذا الشهر في الخطة الجديدة.",
+    switchToAnnual: "التحويل إلى السنوي",
   },
   authScreenLayout: {
     closeButton: "إغلاق",
@@ -158,6 +165,8 @@ const ar: Translations = {
     widgetsEnabled: "مفعّل - أضف الأدوات من الشاشة الرئيسية",
     widgetsDisabled: "عرض بيانات التطبيق على شاشتك الرئيسية",
     widgetsSyncing: "جاري المزامنة...",
+    deferLargeUploads: "انتظار Wi-Fi للملفات الكبيرة",
+    deferLargeUploadsSubtitle: "تأجيل رفع الملفات الكبيرة على بيانات الجوال أو الاتصال البطيء",
     supportTitle: "الدعم",
     helpCenter: "مركز المساعدة",
     privacyPolicy: "سياسة الخصوصية",
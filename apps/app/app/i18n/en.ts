@@ -55,6 +55,9 @@ const en = {
     processing: "Processing...",
     subscribeNow: "Subscribe Now",
   },
+  filePicker: {
+    waitingForConnection: "Waiting for a better connection",
+  },
   subscriptionStatus: {
     freePlan: "Free Plan",
     upgradeMessage: "Upgrade to Pro to unlock all features",
@@ -111,6 +114,10 @@ const en = {
     unableToLoadTitle: "Unable to Load Paywall",
     tryAgain: "Try Again",
     viewPlans: "View Plans",
+    switchToAnnualTitle: "Switch to annual",
+    switchToAnnualDescription:
+      "Pay {{price}} a year instead. Your unused time this month is credited to the new plan.",
+    switchToAnnual: "Switch to Annual",
   },
   badge: {
     // Badge text is typically dynamic, but we can add common ones if needed
@@ -170,6 +177,8 @@ const en = {
     widgetsEnabled: "Enabled - add widgets from home screen",
     widgetsDisabled: "Show app data on your home screen",
     widgetsSyncing: "Syncing...",
+    deferLargeUploads: "Wait for Wi-Fi on large uploads",
+    deferLargeUploadsSubtitle: "Hold big files while on cellular or a slow connection",
     // Support section
     supportTitle: "Support",
     helpCenter: "Help Center",
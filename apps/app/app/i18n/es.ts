@@ -57,6 +57,9 @@ const es: Translations = {
     processing: "Procesando...",
     subscribeNow: "Suscribirse ahora",
   },
+  filePicker: {
+    waitingForConnection: "Esperando una mejor conexión",
+  },
   subscriptionStatus: {
     freePlan: "Plan gratuito",
     upgradeMessage: "Actualiza a Pro para desbloquear todas las funciones",
@@ -114,6 +117,10 @@ const es: Translations = {
     unableToLoadTitle: "No se pudo cargar el paywall",
     tryAgain: "Reintentar",
     viewPlans: "Ver planes",
+    switchToAnnualTitle: "Cambiar a anual",
+    switchToAnnualDescription:
+      "Paga {{price}} al año. El tiempo no usado de este mes se abona al nuevo plan.",
+    switchToAnnual: "Cambiar a anual",
   },
   authScreenLayout: {
     closeButton: "Cerrar",
@@ -161,6 +168,8 @@ const es: Translations = {
     widgetsEnabled: "Habilitado - agregar widgets desde la pantalla de inicio",
     widgetsDisabled: "Mostrar datos de la app en tu pantalla de inicio",
     widgetsSyncing: "Sincronizando...",
+    deferLargeUploads: "Esperar Wi-Fi para subidas grandes",
+    deferLargeUploadsSubtitle: "Retener archivos grandes con datos móviles o conexión lenta",
     supportTitle: "Soporte",
     helpCenter: "Centro de Ayuda",
     privacyPolicy: "Política de Privacidad",
@@ -58,6 +58,9 @@ const fr: Translations = {
     processing: "Traitement en cours...",
     subscribeNow: "S'abonner maintenant",
   },
+  filePicker: {
+    waitingForConnection: "En attente d'une meilleure connexion",
+  },
   subscriptionStatus: {
     freePlan: "Plan gratuit",
     upgradeMessage: "Passez à Pro pour débloquer toutes les fonctionnalités",
@@ -115,6 +118,10 @@ const fr: Translations = {
     unableToLoadTitle: "Impossible de charger le paywall",
     tryAgain: "Réessayer",
     viewPlans: "Voir les offres",
+    switchToAnnualTitle: "Passer à l'annuel",
+    switchToAnnualDescription:
+      "Payez {{price}} par an. Le temps non utilisé ce mois-ci est crédité sur le nouveau forfait.",
+    switchToAnnual: "Passer à l'annuel",
   },
   authScreenLayout: {
     closeButton: "Fermer",
@@ -162,6 +169,8 @@ const fr: Translations = {
     widgetsEnabled: "Activé - ajouter des widgets depuis l'écran d'accueil",
     widgetsDisabled: "Afficher les données de l'app sur votre écran d'accueil",
     widgetsSyncing: "Synchronisation...",
+    deferLargeUploads: "Attendre le Wi-Fi pour les gros envois",
+    deferLargeUploadsSubtitle: "Retenir les gros fichiers en données mobiles ou connexion lente",
     supportTitle: "Support",
     helpCenter: "Centre d'Aide",
     privacyPolicy: "Politique de Confidentialité",
@@ -56,6 +56,9 @@ const hi: Translations = {
     processing: "प्रसंस्करण...",
     subscribeNow: "अभी सदस्यता लें",
   },
+  filePicker: {
+    waitingForConnection: "बेहतर कनेक्शन की प्रतीक्षा",
+  },
   subscriptionStatus: {
     freePlan: "मुफ्त योजना",
     upgradeMessage: "सभी सुविधाओं को अनलॉक करने के लिए Pro में अपग्रेड करें",
@@ -112,6 +115,10 @@ const hi: Translations = {
     unableToLoadTitle: "पेवाल लोड नहीं हो सका",
     tryAgain: "फिर से कोशिश करें",
     viewPlans: "प्लान देखें",
+    switchToAnnualTitle: "वार्षिक प्लान पर जाएं",
+    switchToAnnualDescription:
+      "इसके बजाय {{price}} प्रति वर्ष भुगतान करें। इस महीने का बचा हुआ समय नए प्लान में जोड़ दिया जाएगा।",
+    switchToAnnual: "वार्षिक पर जाएं",
   },
   authScreenLayout: {
     closeButton: "बंद करें",
@@ -158,6 +165,8 @@ const hi: Translations = {
     widgetsEnabled: "सक्षम - होम स्क्रीन से विजेट्स जोड़ें",
     widgetsDisabled: "अपनी होम स्क्रीन पर ऐप डेटा दिखाएं",
     widgetsSyncing: "सिंक हो रहा है...",
+    deferLargeUploads: "बड़े अपलोड के लिए Wi-Fi का इंतज़ार करें",
+    deferLargeUploadsSubtitle: "मोबाइल डेटा या धीमे कनेक्शन पर बड़ी फ़ाइलें रोकें",
     supportTitle: "सहायता",
     helpCenter: "सहायता केंद्र",
     privacyPolicy: "गोपनीयता नीति",
@@ -128,6 +128,7 @@ export const translate = (key: TxKeyPath, options?: Record<string, unknown>): st
  * Re-export language switcher utilities
  */
 export {
+  applySyncedLanguage,
   changeLanguage,
   getCurrentLanguage,
   getPersistedLanguage,
@@ -57,6 +57,9 @@ const ja: Translations = {
     processing: "処理中...",
     subscribeNow: "今すぐ購読",
   },
+  filePicker: {
+    waitingForConnection: "より良い接続を待っています",
+  },
   subscriptionStatus: {
     freePlan: "無料プラン",
     upgradeMessage: "Proにアップグレードしてすべての機能をアンロック",
@@ -115,6 +118,10 @@ const ja: Translations = {
     unableToLoadTitle: "ペイウォールを読み込めません",
     tryAgain: "再試行",
     viewPlans: "プランを見る",
+    switchToAnnualTitle: "年額プランに切り替え",
+    switchToAnnualDescription:
+      "年額{{price}}でご利用いただけます。今月の未使用期間は新しいプランに繰り越されます。",
+    switchToAnnual: "年額に切り替える",
   },
   authScreenLayout: {
     closeButton: "閉じる",
@@ -161,6 +168,8 @@ const ja: Translations = {
     widgetsEnabled: "有効 - ホーム画面からウィジェットを追加",
     widgetsDisabled: "ホーム画面にアプリデータを表示",
     widgetsSyncing: "同期中...",
+    deferLargeUploads: "大きなファイルはWi-Fiでアップロード",
+    deferLargeUploadsSubtitle: "モバイル通信や低速な接続では大きなファイルを保留します",
     supportTitle: "サポート",
     helpCenter: "ヘルプセンター",
     privacyPolicy: "プライバシーポリシー",
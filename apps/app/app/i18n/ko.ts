@@ -56,6 +56,9 @@ const ko: Translations = {
     processing: "처리 중...",
     subscribeNow: "지금 구독",
   },
+  filePicker: {
+    waitingForConnection: "더 나은 연결을 기다리는 중",
+  },
   subscriptionStatus: {
     freePlan: "무료 플랜",
     upgradeMessage: "Pro로 업그레이드하여 모든 기능 잠금 해제",
@@ -112,6 +115,10 @@ const ko: Translations = {
     unableToLoadTitle: "페이월을 불러올 수 없음",
     tryAgain: "다시 시도",
     viewPlans: "플랜 보기",
+    switchToAnnualTitle: "연간 플랜으로 전환",
+    switchToAnnualDescription:
+      "연 {{price}}로 이용하세요. 이번 달 남은 기간은 새 플랜에 적립됩니다.",
+    switchToAnnual: "연간으로 전환",
   },
   authScreenLayout: {
     closeButton: "닫기",
@@ -167,6 +174,8 @@ const ko: Translations = {
     widgetsEnabled: "활성화됨 - 홈 화면에서 위젯 추가",
     widgetsDisabled: "홈 화면에 앱 데이터 표시",
     widgetsSyncing: "동기화 중...",
+    deferLargeUploads: "큰 파일은 Wi-Fi에서 업로드",
+    deferLargeUploadsSubtitle: "모바일 데이터나 느린 연결에서는 큰 파일을 보류합니다",
     // Support section
     supportTitle: "지원",
     helpCenter: "고객센터",
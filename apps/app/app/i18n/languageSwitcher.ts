@@ -4,6 +4,7 @@ import i18n from "i18next"
 
 import { loadDateFnsLocale } from "@/utils/formatDate"
 import { logger } from "@/utils/Logger"
+import { setPreference } from "@/utils/preferences"
 import { storage } from "@/utils/storage"
 
 /**
@@ -59,15 +60,49 @@ export const changeLanguage = async (
     return changeLanguage("en", persist)
   }
 
-  // Persist preference if requested
+  // Persist preference if requested, and sync it to the user's other devices
   if (persist) {
     try {
       storage.set(LANGUAGE_STORAGE_KEY, languageCode)
+      setPreference("language", languageCode)
     } catch (error) {
       logger.warn("Failed to persist language preference", { error })
     }
   }
 
+  await applyLanguage(languageCode, true)
+}
+
+/**
+ * Apply a language chosen on another device. The text switches right away, but a change
+ * of layout direction waits for the next launch rather than reloading mid-session.
+ * @param languageCode - Language code synced from the user's profile
+ */
+export const applySyncedLanguage = async (languageCode: SupportedLanguage): Promise<void> => {
+  if (!SUPPORTED_LANGUAGES[languageCode]) {
+    logger.warn("Ignoring unsupported synced language", { languageCode })
+    return
+  }
+
+  // Stored for the next launch, but not synced back to the device it came from
+  try {
+    storage.set(LANGUAGE_STORAGE_KEY, languageCode)
+  } catch (error) {
+    logger.warn("Failed to persist language preference", { error })
+  }
+
+  await applyLanguage(languageCode, false)
+}
+
+/**
+ * Switch i18n, layout direction and date locale
+ * @param reloadOnDirectionChange - Reload now when the direction flips; otherwise
+ * I18nManager applies it on the next launch
+ */
+const applyLanguage = async (
+  languageCode: SupportedLanguage,
+  reloadOnDirectionChange: boolean,
+): Promise<void> => {
   // Change i18n language
   await i18n.changeLanguage(languageCode)
 
@@ -81,7 +116,7 @@ export const changeLanguage = async (
   await loadDateFnsLocale()
 
   // RTL changes require app restart on native platforms
-  if (Platform.OS !== "web" && wasRTL !== isRTL) {
+  if (reloadOnDirectionChange && Platform.OS !== "web" && wasRTL !== isRTL) {
     // Small delay to allow storage to persist before reload
     await new Promise((resolve) => setTimeout(resolve, 100))
 
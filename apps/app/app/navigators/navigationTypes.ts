@@ -10,6 +10,8 @@ import { NativeStackScreenProps } from "@react-navigation/native-stack"
 // Main Tab Navigator types
 export type PaywallParams = {
   fromOnboarding?: boolean
+  // RevenueCat offering to show instead of the current one (e.g. a paywall experiment)
+  offeringId?: string
 }
 
 export type MainTabParamList = {
@@ -17,7 +17,7 @@ import { logger } from "../utils/Logger"
 
 // Conditionally import native RevenueCat SDKs (not available on web or in mock mode)
 // Note: isRevenueCatMock is imported from revenuecat service which handles the mock detection logic
-type RevenueCatOfferings = { current?: unknown }
+type RevenueCatOfferings = { current?: unknown; all: Record<string, unknown> }
 type RevenueCatPurchases = { getOfferings: () => Promise<RevenueCatOfferings> }
 type RevenueCatPaywalls = {
   presentPaywall: (options: { offering: unknown }) => Promise<unknown>
@@ -65,6 +65,11 @@ export const PaywallScreen = () => {
   const fetchPackages = useSubscriptionStore((state) => state.fetchPackages)
   const purchasePackage = useSubscriptionStore((state) => state.purchasePackage)
   const subscriptionLoading = useSubscriptionStore((state) => state.loading)
+  const currentProductId = useSubscriptionStore(
+    (state) =>
+      (state.platform === "revenuecat-web" ? state.webSubscriptionInfo : state.customerInfo)
+        ?.productId ?? null,
+  )
   const isWeb = Platform.OS === "web"
   const isMock = isRevenueCatMock
   const isMockMode = isMock || !Purchases || !Paywalls
@@ -87,6 +92,7 @@ export const PaywallScreen = () => {
   const bottomPadding = Math.max(bottom, 20) + TAB_BAR_HEIGHT
 
   const isFromOnboarding = route.params?.fromOnboarding === true
+  const offeringId = route.params?.offeringId
 
   // Navigate to Main after successful purchase or skip
   const navigateToMain = useCallback(() => {
@@ -116,9 +122,9 @@ export const PaywallScreen = () => {
         setIsPresenting(true)
         setError(null)
 
-        // Ensure packages are loaded
-        if (!useSubscriptionStore.getState().packages.length) {
-          await fetchPackages()
+        // Ensure packages are loaded (a named offering is always refetched)
+        if (offeringId || !useSubscriptionStore.getState().packages.length) {
+          await fetchPackages(offeringId)
         }
 
         if (!useSubscriptionStore.getState().packages.length) {
@@ -153,9 +159,9 @@ export const PaywallScreen = () => {
       setIsPresenting(true)
       setError(null)
 
-      // Get the current offering
+      // Get the requested offering, or the current one
       const offerings = await Purchases.getOfferings()
-      const currentOffering = offerings.current
+      const currentOffering = offeringId ? offerings.all[offeringId] : offerings.current
 
       if (!currentOffering) {
         throw new Error(t("paywallScreen:noOfferingError"))
@@ -201,6 +207,7 @@ export const PaywallScreen = () => {
   }, [
     fetchPackages,
     isFromOnboarding,
+    offeringId,
     isWeb,
     isMockMode,
     loadErrorMessage,
@@ -234,6 +241,42 @@ export const PaywallScreen = () => {
     [purchaseErrorMessage, purchasePackage, isFromOnboarding, navigateToMain],
   )
 
+  // Subscribers on a monthly plan can switch to the annual one
+  const currentPackage = packages.find((p) => p.productId && p.productId === currentProductId)
+  const upgradePackage =
+    isPro && currentPackage?.billingPeriod === "monthly" && (!isWeb || isMock)
+      ? packages.find((p) => p.billingPeriod === "annual")
+      : undefined
+
+  // Load packages for subscribers too, so the upgrade path can be offered
+  useEffect(() => {
+    if (isPro && !useSubscriptionStore.getState().packages.length) {
+      fetchPackages(offeringId)
+    }
+  }, [isPro, fetchPackages, offeringId])
+
+  // Change the current subscription to another plan, prorating the unused time
+  const handleUpgrade = useCallback(
+    async (pkg: PricingPackage) => {
+      if (!currentProductId) return
+      try {
+        setError(null)
+
+        const result = await purchasePackage(pkg, {
+          productChange: { oldProductId: currentProductId },
+        })
+
+        if (result.error) {
+          throw result.error
+        }
+      } catch (err) {
+        logger.error("Plan change failed", { error: err })
+        setError(err instanceof Error ? err.message : purchaseErrorMessage)
+      }
+    },
+    [currentProductId, purchaseErrorMessage, purchasePackage],
+  )
+
   // Auto-present paywall when screen loads (if not Pro)
   useEffect(() => {
     if (!isPro && !isPresenting && !hasAutoPresented) {
@@ -306,6 +349,24 @@ export const PaywallScreen = () => {
           </View>
           <Text preset="heading" style={styles.title} tx="paywallScreen:welcomeTitle" />
           <Text style={styles.description} tx="paywallScreen:welcomeDescription" />
+          {upgradePackage && (
+            <View style={styles.upgradeCard}>
+              <Text style={styles.sectionTitle} tx="paywallScreen:switchToAnnualTitle" />
+              <Text style={styles.upgradeDescription}>
+                {t("paywallScreen:switchToAnnualDescription", {
+                  price: upgradePackage.priceString,
+                })}
+              </Text>
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+              <Button
+                text={t("paywallScreen:switchToAnnual")}
+                onPress={() => handleUpgrade(upgradePackage)}
+                variant="filled"
+                disabled={subscriptionLoading}
+                loading={subscriptionLoading}
+              />
+            </View>
+          )}
         </View>
       ) : isPresenting ? (
         // Loading state while presenting paywall
@@ -826,4 +887,19 @@ const styles = StyleSheet.create((theme) => ({
     fontSize: 18,
     fontWeight: "800",
   },
+  // Upgrade path for subscribers
+  upgradeCard: {
+    alignSelf: "stretch",
+    backgroundColor: theme.colors.backgroundSecondary,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.spacing.md,
+  },
+  upgradeDescription: {
+    color: theme.colors.foregroundSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: theme.spacing.md,
+  },
 }))
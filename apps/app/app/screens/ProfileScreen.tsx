@@ -25,6 +25,7 @@ import { isRevenueCatMock } from "@/services/revenuecat"
 import { useAuthStore, useNotificationStore, useSubscriptionStore, useWidgetStore } from "@/stores"
 import { webDimension } from "@/types/webStyles"
 import { haptics } from "@/utils/haptics"
+import { setPreference, usePreference } from "@/utils/preferences"
 import { testErrors } from "@/utils/testError"
 
 // =============================================================================
@@ -52,6 +53,7 @@ export const ProfileScreen: FC<ProfileScreenProps> = ({ navigation }) => {
   const checkProStatus = useSubscriptionStore((state) => state.checkProStatus)
   const { isPushEnabled, togglePush } = useNotificationStore()
   const { isWidgetsEnabled, userWidgetsEnabled, toggleWidgets, syncStatus } = useWidgetStore()
+  const [deferLargeUploads, setDeferLargeUploads] = usePreference("defer_large_uploads")
   const insets = useSafeAreaInsets()
   const { theme } = useUnistyles()
   const { width: windowWidth } = useWindowDimensions()
@@ -80,6 +82,7 @@ export const ProfileScreen: FC<ProfileScreenProps> = ({ navigation }) => {
     haptics.switchChange()
     const newTheme = UnistylesRuntime.themeName === "dark" ? "light" : "dark"
     UnistylesRuntime.setTheme(newTheme)
+    setPreference("dark_mode_enabled", newTheme === "dark")
   }
 
   const handleTogglePush = () => {
@@ -87,6 +90,11 @@ export const ProfileScreen: FC<ProfileScreenProps> = ({ navigation }) => {
     togglePush(user?.id)
   }
 
+  const handleToggleDeferLargeUploads = (value: boolean) => {
+    haptics.switchChange()
+    setDeferLargeUploads(value)
+  }
+
   const handleToggleWidgets = () => {
     haptics.switchChange()
     toggleWidgets()
@@ -210,6 +218,20 @@ export const ProfileScreen: FC<ProfileScreenProps> = ({ navigation }) => {
               subtitle={t("profileScreen:languageSubtitle")}
               onPress={() => setLanguageModalVisible(true)}
             />
+            <View style={styles.divider} />
+            <MenuItem
+              icon="cloud-upload-outline"
+              title={t("profileScreen:deferLargeUploads")}
+              subtitle={t("profileScreen:deferLargeUploadsSubtitle")}
+              rightElement={
+                <Switch
+                  value={deferLargeUploads}
+                  onValueChange={handleToggleDeferLargeUploads}
+                  trackColor={{ false: theme.colors.borderSecondary, true: theme.colors.primary }}
+                  thumbColor={theme.colors.card}
+                />
+              }
+            />
             {isWidgetsEnabled && (
               <>
                 <View style={styles.divider} />
@@ -5,8 +5,13 @@
  */
 
 import { useEffect, useState } from "react"
-import NetInfo, { NetInfoCellularState, NetInfoState } from "@react-native-community/netinfo"
+import NetInfo, {
+  NetInfoCellularState,
+  NetInfoState,
+  type NetInfoStateType,
+} from "@react-native-community/netinfo"
 
+import { mockFaults } from "./mocks/faults"
 import { trackEvent } from "../utils/analytics"
 import { logger } from "../utils/Logger"
 
@@ -31,6 +36,16 @@ export interface NetworkState {
   quality: NetworkQuality
 }
 
+/**
+ * What NetInfo reports without a connection, used while mock services simulate being offline
+ */
+const SIMULATED_OFFLINE_STATE = {
+  type: "none" as NetInfoStateType.none,
+  isConnected: false,
+  isInternetReachable: false,
+  details: null,
+} as NetInfoState
+
 /**
  * Determine network quality based on connection type and details
  */
@@ -68,8 +83,10 @@ function determineNetworkQuality(state: NetInfoState): NetworkQuality {
  */
 class NetworkMonitor {
   private currentState: NetworkState | null = null
+  private netInfoState: NetInfoState | null = null
   private listeners: Set<(state: NetworkState) => void> = new Set()
   private unsubscribe: (() => void) | null = null
+  private unsubscribeMockFaults: (() => void) | null = null
 
   /**
    * Initialize network monitoring
@@ -85,6 +102,13 @@ class NetworkMonitor {
         this.updateState(state)
       })
 
+      // Re-publish the state when mock services go offline or come back online
+      if (__DEV__) {
+        this.unsubscribeMockFaults = mockFaults.addOfflineListener(() => {
+          if (this.netInfoState) this.updateState(this.netInfoState)
+        })
+      }
+
       logger.info("Network monitor initialized", {
         isConnected: this.currentState?.isConnected,
         quality: this.currentState?.quality,
@@ -99,12 +123,14 @@ class NetworkMonitor {
    */
   private updateState(netInfoState: NetInfoState): void {
     const previousState = this.currentState
+    this.netInfoState = netInfoState
+    const source = __DEV__ && mockFaults.isOffline() ? SIMULATED_OFFLINE_STATE : netInfoState
 
     const newState: NetworkState = {
-      isConnected: netInfoState.isConnected ?? false,
-      isInternetReachable: netInfoState.isInternetReachable ?? false,
-      type: netInfoState.type,
-      quality: determineNetworkQuality(netInfoState),
+      isConnected: source.isConnected ?? false,
+      isInternetReachable: source.isInternetReachable ?? false,
+      type: source.type,
+      quality: determineNetworkQuality(source),
     }
 
     this.currentState = newState
@@ -201,6 +227,8 @@ class NetworkMonitor {
       this.unsubscribe()
       this.unsubscribe = null
     }
+    this.unsubscribeMockFaults?.()
+    this.unsubscribeMockFaults = null
     this.listeners.clear()
   }
 }
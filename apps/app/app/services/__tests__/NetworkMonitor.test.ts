@@ -8,6 +8,7 @@ import { renderHook, waitFor } from "@testing-library/react-native"
 
 import { trackEvent } from "../../utils/analytics"
 import { logger } from "../../utils/Logger"
+import { mockFaults } from "../mocks/faults"
 import {
   networkMonitor,
   NetworkQuality,
@@ -388,6 +389,38 @@ describe("NetworkMonitor", () => {
     })
   })
 
+  describe("simulated offline", () => {
+    afterEach(() => {
+      mockFaults.reset()
+    })
+
+    it("should report offline while mock services are offline", async () => {
+      await networkMonitor.initialize()
+      const listener = jest.fn()
+      networkMonitor.addListener(listener)
+
+      mockFaults.setOffline(true)
+
+      expect(networkMonitor.isOnline()).toBe(false)
+      expect(networkMonitor.getQuality()).toBe(NetworkQuality.OFFLINE)
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ isConnected: false }))
+
+      mockFaults.setOffline(false)
+
+      expect(networkMonitor.isOnline()).toBe(true)
+      expect(networkMonitor.getQuality()).toBe(NetworkQuality.EXCELLENT)
+    })
+
+    it("should stop following mock services after destroy", async () => {
+      await networkMonitor.initialize()
+      networkMonitor.destroy()
+
+      mockFaults.setOffline(true)
+
+      expect(networkMonitor.isOnline()).toBe(true)
+    })
+  })
+
   describe("destroy", () => {
     it("should unsubscribe from NetInfo", async () => {
       await networkMonitor.initialize()
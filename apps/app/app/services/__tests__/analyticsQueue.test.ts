@@ -0,0 +1,248 @@
+/**
+ * Analytics Queue Tests
+ *
+ * Persistence, limits, batching, failed flushes, readiness, consent and flush triggers
+ */
+
+import { AppState, type AppStateStatus } from "react-native"
+
+import { AnalyticsQueue } from "../analyticsQueue"
+import { mockFaults } from "../mocks/faults"
+import type { MockPostHog } from "../mocks/posthog"
+import type { NetworkState } from "../NetworkMonitor"
+
+jest.mock("../posthog", () => {
+  const { MockPostHog } = jest.requireActual("../mocks/posthog")
+  return { posthog: new MockPostHog({ apiKey: "test" }) }
+})
+
+let mockNetworkState: Partial<NetworkState> | null = { isConnected: true }
+const mockNetworkListeners = new Set<(state: NetworkState) => void>()
+
+jest.mock("../NetworkMonitor", () => ({
+  networkMonitor: {
+    getState: () => mockNetworkState,
+    addListener: (listener: (state: NetworkState) => void) => {
+      mockNetworkListeners.add(listener)
+      return () => mockNetworkListeners.delete(listener)
+    },
+  },
+}))
+
+const { posthog } = jest.requireMock("../posthog") as { posthog: MockPostHog }
+
+function setOnline(isConnected: boolean) {
+  mockNetworkState = { isConnected }
+  mockNetworkListeners.forEach((listener) => listener(mockNetworkState as NetworkState))
+}
+
+describe("AnalyticsQueue", () => {
+  let queue: AnalyticsQueue
+
+  beforeEach(() => {
+    mockFaults.reset()
+    mockNetworkListeners.clear()
+    mockNetworkState = { isConnected: true }
+    new AnalyticsQueue().reset()
+    posthog.clearEvents()
+    posthog.optIn()
+    queue = new AnalyticsQueue({ batchSize: 3 })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("persists queued events across a reload", () => {
+    queue.track("button_clicked", { button: "submit" })
+    queue.screen("Home")
+
+    const reloaded = new AnalyticsQueue({ batchSize: 3 })
+
+    expect(reloaded.getPendingEvents()).toEqual([
+      expect.objectContaining({
+        type: "event",
+        name: "button_clicked",
+        properties: { button: "submit" },
+      }),
+      expect.objectContaining({ type: "screen", name: "Home" }),
+    ])
+    expect(posthog.getEvents()).toHaveLength(0)
+  })
+
+  it("sends batches in order with each event's id and original time", async () => {
+    const trackedAt = Date.now() - 60_000
+    jest.spyOn(Date, "now").mockReturnValueOnce(trackedAt)
+    queue.track("first")
+    queue.track("second")
+
+    const [first, second] = queue.peekNextBatch()
+    await queue.flush()
+
+    expect(queue.getSentBatches()).toEqual([[first, second]])
+    expect(queue.getPendingEvents()).toEqual([])
+    expect(posthog.getEvents()).toEqual([
+      expect.objectContaining({ name: "first", uuid: first.id, timestamp: trackedAt }),
+      expect.objectContaining({ name: "second", uuid: second.id }),
+    ])
+  })
+
+  it("flushes automatically when a batch fills up", async () => {
+    queue.track("one")
+    queue.track("two")
+    expect(queue.getSentBatches()).toHaveLength(0)
+
+    queue.track("three")
+    queue.track("four")
+    await queue.flush()
+
+    expect(queue.getSentBatches().map((batch) => batch.map((event) => event.name))).toEqual([
+      ["one", "two", "three"],
+      ["four"],
+    ])
+  })
+
+  it("does not capture a batch twice after a failed flush, and holds the rest", async () => {
+    mockFaults.failNext("posthog.flush")
+    queue.track("one")
+    queue.track("two")
+    queue.track("three")
+    queue.track("four")
+    await queue.flush()
+
+    expect(queue.getSentBatches().map((batch) => batch.map((event) => event.name))).toEqual([
+      ["one", "two", "three"],
+    ])
+    expect(queue.getPendingEvents().map((event) => event.name)).toEqual(["four"])
+
+    await queue.flush()
+
+    expect(queue.getSentBatches()).toHaveLength(2)
+    expect(queue.getPendingEvents()).toEqual([])
+    expect(posthog.getEvents().map((sent) => sent.name)).toEqual(["one", "two", "three", "four"])
+  })
+
+  it("keeps events queued until PostHog has initialized", async () => {
+    const isReady = jest.spyOn(posthog, "isReady").mockReturnValue(false)
+    queue.track("before_init")
+    await queue.flush({ force: true })
+
+    expect(queue.getSentBatches()).toHaveLength(0)
+    expect(queue.getPendingEvents().map((event) => event.name)).toEqual(["before_init"])
+
+    isReady.mockReturnValue(true)
+    await queue.flush()
+
+    expect(posthog.getEvents().map((sent) => sent.name)).toEqual(["before_init"])
+  })
+
+  it("captures every queued batch before the user changes", async () => {
+    setOnline(false)
+    const names = ["a", "b", "c", "d", "e", "f", "g"]
+    names.forEach((name) => queue.track(name))
+    mockNetworkState = { isConnected: true }
+
+    const flushing = queue.flush()
+    queue.captureAll()
+    posthog.identify("user-2")
+    await flushing
+
+    expect(queue.getPendingEvents()).toEqual([])
+    expect(posthog.getEvents().map((sent) => [sent.name, sent.properties?.userId])).toEqual([
+      ...names.map((name) => [name, null]),
+      ["user-2", undefined],
+    ])
+  })
+
+  it("remembers only the most recent sent batches", async () => {
+    for (let i = 0; i < 25 * 3; i++) queue.track(`event_${i}`)
+    await queue.flush()
+
+    expect(queue.getSentBatches()).toHaveLength(20)
+    expect(queue.getSentBatches()[19].map((event) => event.name)).toEqual([
+      "event_72",
+      "event_73",
+      "event_74",
+    ])
+  })
+
+  it("drops events past the age limit and the oldest over the size limit", () => {
+    const small = new AnalyticsQueue({ maxEvents: 2, maxAgeMs: 1000, batchSize: 10 })
+    jest.spyOn(Date, "now").mockReturnValue(1_000)
+    small.track("old")
+
+    jest.spyOn(Date, "now").mockReturnValue(5_000)
+    small.track("a")
+    small.track("b")
+    small.track("c")
+
+    expect(small.getPendingEvents().map((event) => event.name)).toEqual(["b", "c"])
+  })
+
+  it("waits for a connection unless forced", async () => {
+    setOnline(false)
+    queue.track("offline_event")
+    await queue.flush()
+
+    expect(queue.getSentBatches()).toHaveLength(0)
+
+    await queue.flush({ force: true })
+
+    expect(queue.getSentBatches()).toHaveLength(1)
+  })
+
+  it("does not queue anything without consent and drops pending events when withdrawn", () => {
+    queue.track("before")
+    queue.setConsent(false)
+    queue.track("after")
+
+    expect(queue.getPendingEvents()).toEqual([])
+    expect(new AnalyticsQueue().hasConsent()).toBe(false)
+
+    queue.setConsent(true)
+    queue.track("granted")
+
+    expect(queue.getPendingEvents().map((event) => event.name)).toEqual(["granted"])
+  })
+
+  describe("start", () => {
+    let appStateListener: ((status: AppStateStatus) => void) | undefined
+
+    beforeEach(() => {
+      jest.spyOn(AppState, "addEventListener").mockImplementation((_type, listener) => {
+        appStateListener = listener
+        return { remove: jest.fn() }
+      })
+    })
+
+    it("flushes when the connection comes back", async () => {
+      setOnline(false)
+      const stop = queue.start()
+      queue.track("queued_offline")
+
+      expect(queue.getSentBatches()).toHaveLength(0)
+
+      // Batches are handed to PostHog synchronously; the flush confirmation is awaited
+      setOnline(true)
+      expect(queue.getSentBatches()).toEqual([
+        [expect.objectContaining({ name: "queued_offline" })],
+      ])
+
+      await queue.flush()
+      expect(queue.getPendingEvents()).toEqual([])
+      stop()
+    })
+
+    it("flushes when the app goes to the background", async () => {
+      const stop = queue.start()
+      queue.track("backgrounded")
+
+      appStateListener?.("background")
+      expect(queue.getSentBatches()).toHaveLength(1)
+
+      await queue.flush()
+      expect(queue.getPendingEvents()).toEqual([])
+      stop()
+    })
+  })
+})
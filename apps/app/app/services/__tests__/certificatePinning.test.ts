@@ -0,0 +1,230 @@
+/**
+ * Certificate Pinning Tests
+ *
+ * Pin loading and rotation, requests to pinned hosts going through the (mocked) native
+ * module on Android (and not on iOS), enforce and report-only handling of mismatches, and
+ * what runSecurityChecks reports
+ */
+
+import { NativeModules, Platform } from "react-native"
+
+import { env } from "../../config/env"
+import type { CertificatePinConfig } from "../../types/certificatePinning"
+import { runSecurityChecks } from "../../utils/securityCheck"
+import {
+  CertificatePinningError,
+  clearCertificatePinCache,
+  getCertificatePins,
+  getCertificatePinningStatus,
+  pinnedFetch,
+  validateCertificatePin,
+} from "../certificatePinning"
+import { sentry } from "../sentry"
+
+const mockSslFetch = jest.fn()
+
+jest.mock(
+  "react-native-ssl-pinning",
+  () => ({ fetch: (...args: unknown[]) => mockSslFetch(...args) }),
+  { virtual: true },
+)
+
+jest.mock("../sentry", () => ({
+  sentry: { captureMessage: jest.fn() },
+}))
+
+const PRIMARY = "sha256/cHJpbWFyeS1rZXktaGFzaA=="
+const BACKUP = "sha256/YmFja3VwLWtleS1oYXNo"
+
+const API_PINS: CertificatePinConfig = {
+  hostname: "example.supabase.co",
+  publicKeyHashes: [PRIMARY],
+  backupHashes: [BACKUP],
+  includeSubdomains: true,
+}
+
+const mockFetch = jest.fn()
+const originalFetch = global.fetch
+const originalPlatform = Platform.OS
+
+const JSON_RESPONSE = {
+  status: 200,
+  headers: { "content-type": "application/json" },
+  data: Buffer.from('{"name":"Zoë"}').toString("base64"),
+}
+
+function configure(mode: typeof env.certificatePinningMode, pins: CertificatePinConfig[]) {
+  env.certificatePinningMode = mode
+  env.certificatePins = JSON.stringify(pins)
+}
+
+describe("certificate pinning", () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    clearCertificatePinCache()
+    global.fetch = mockFetch
+    // @ts-ignore - Override Platform.OS for testing
+    Platform.OS = "android"
+    NativeModules.RNSslPinning = {}
+    mockFetch.mockResolvedValue({ ok: true, status: 200 })
+    mockSslFetch.mockResolvedValue(JSON_RESPONSE)
+    configure("enforce", [API_PINS])
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+    // @ts-ignore - Restore Platform.OS
+    Platform.OS = originalPlatform
+    delete NativeModules.RNSslPinning
+    env.certificatePinningMode = undefined
+    env.certificatePins = undefined
+  })
+
+  it("accepts the current and backup pins, for subdomains too", async () => {
+    expect(getCertificatePins("storage.example.supabase.co")).toEqual([PRIMARY, BACKUP])
+    await expect(validateCertificatePin("example.supabase.co", BACKUP)).resolves.toBe(true)
+    await expect(validateCertificatePin("example.supabase.co", "sha256/other")).resolves.toBe(false)
+  })
+
+  it("stops checking pins after they expire", async () => {
+    configure("enforce", [{ ...API_PINS, expiresAt: "2020-01-01" }])
+
+    expect(getCertificatePins("example.supabase.co")).toBeNull()
+    expect(getCertificatePinningStatus().expiredHosts).toEqual(["example.supabase.co"])
+
+    await pinnedFetch("https://example.supabase.co/rest/v1/profiles")
+
+    expect(mockSslFetch).not.toHaveBeenCalled()
+  })
+
+  it("sends requests to pinned hosts through the native module", async () => {
+    const response = await pinnedFetch("https://example.supabase.co/rest/v1/profiles", {
+      method: "POST",
+      headers: { Authorization: "Bearer token" },
+      body: JSON.stringify({ name: "Zoë" }),
+    })
+
+    expect(mockSslFetch).toHaveBeenCalledWith("https://example.supabase.co/rest/v1/profiles", {
+      method: "POST",
+      headers: { authorization: "Bearer token" },
+      body: '{"name":"Zoë"}',
+      responseType: "base64",
+      pkPinning: true,
+      sslPinning: { certs: [PRIMARY, BACKUP] },
+    })
+    expect(response.status).toBe(200)
+    await expect(response.json()).resolves.toEqual({ name: "Zoë" })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it("sends requests to other hosts, and every request without the native module, unpinned", async () => {
+    await pinnedFetch("https://api.example.com/feed")
+    delete NativeModules.RNSslPinning
+    await pinnedFetch("https://example.supabase.co/rest/v1/profiles")
+
+    expect(mockSslFetch).not.toHaveBeenCalled()
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(getCertificatePinningStatus().nativeModuleAvailable).toBe(false)
+  })
+
+  it("leaves iOS requests unpinned and reports it, since iOS ignores the configured pins", async () => {
+    // @ts-ignore - Override Platform.OS for testing
+    Platform.OS = "ios"
+
+    await pinnedFetch("https://example.supabase.co/rest/v1/profiles")
+
+    expect(mockSslFetch).not.toHaveBeenCalled()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(runSecurityChecks().certificatePinning).toMatchObject({
+      enabled: false,
+      configured: true,
+      status: { platformSupported: false, nativeModuleAvailable: false },
+      message: expect.stringContaining("Android only"),
+    })
+  })
+
+  it("returns HTTP error statuses as responses", async () => {
+    mockSslFetch.mockRejectedValue({ status: 404, headers: {}, bodyString: "Not found" })
+
+    const response = await pinnedFetch("https://example.supabase.co/rest/v1/missing")
+
+    expect(response.status).toBe(404)
+    await expect(response.text()).resolves.toBe("Not found")
+  })
+
+  it("blocks requests to a host whose certificate doesn't match in enforce mode", async () => {
+    mockSslFetch.mockRejectedValue("Certificate pinning failure!\n  Peer certificate chain: ...")
+
+    await expect(pinnedFetch("https://example.supabase.co/rest/v1/profiles")).rejects.toThrow(
+      CertificatePinningError,
+    )
+    await expect(pinnedFetch("http://example.supabase.co/rest/v1/profiles")).rejects.toThrow(
+      CertificatePinningError,
+    )
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(sentry.captureMessage).toHaveBeenCalledWith(
+      "Certificate pin mismatch",
+      "error",
+      expect.objectContaining({
+        tags: { hostname: "example.supabase.co", pinning_mode: "enforce" },
+      }),
+    )
+    expect(runSecurityChecks().overall.status).toBe("error")
+  })
+
+  it("reports mismatches once and sends requests unpinned in report-only mode", async () => {
+    configure("report-only", [API_PINS])
+    mockSslFetch.mockRejectedValue("cancelled")
+
+    await pinnedFetch("https://example.supabase.co/rest/v1/profiles")
+    await pinnedFetch("https://example.supabase.co/rest/v1/profiles")
+
+    expect(mockSslFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(sentry.captureMessage).toHaveBeenCalledTimes(1)
+    expect(sentry.captureMessage).toHaveBeenCalledWith(
+      "Certificate pin mismatch",
+      "warning",
+      expect.any(Object),
+    )
+  })
+
+  it("fails network errors like fetch does, without counting them as mismatches", async () => {
+    mockSslFetch.mockRejectedValueOnce("SSL handshake timed out")
+
+    await expect(pinnedFetch("https://example.supabase.co/rest/v1/profiles")).rejects.toThrow(
+      TypeError,
+    )
+    await pinnedFetch("https://example.supabase.co/rest/v1/profiles")
+
+    expect(mockSslFetch).toHaveBeenCalledTimes(2)
+    expect(sentry.captureMessage).not.toHaveBeenCalled()
+    expect(getCertificatePinningStatus().failedHosts).toEqual([])
+  })
+
+  it("reports the real pinning state to runSecurityChecks", () => {
+    expect(runSecurityChecks().certificatePinning).toMatchObject({
+      enabled: true,
+      configured: true,
+      status: {
+        mode: "enforce",
+        platformSupported: true,
+        nativeModuleAvailable: true,
+        pinnedHosts: ["example.supabase.co"],
+      },
+    })
+
+    configure("report-only", [{ ...API_PINS, expiresAt: "2020-01-01" }])
+
+    expect(runSecurityChecks().certificatePinning).toMatchObject({
+      enabled: false,
+      configured: false,
+    })
+    expect(runSecurityChecks().overall.status).toBe("warning")
+
+    configure("off", [API_PINS])
+
+    expect(runSecurityChecks().certificatePinning.enabled).toBe(false)
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * Deferred Uploads Tests
+ *
+ * Held-back files survive a reload, per picker, until they are uploaded or the user signs out
+ */
+
+import { clearDeferredUploads, loadDeferredUploads, saveDeferredUploads } from "../deferredUploads"
+
+const VIDEO = { uri: "file:///cache/video.mp4", name: "video.mp4", type: "video/mp4", size: 40e6 }
+const SCAN = { uri: "file:///cache/scan.pdf", name: "scan.pdf", type: "application/pdf", size: 8e6 }
+
+describe("deferred uploads", () => {
+  beforeEach(() => {
+    clearDeferredUploads()
+  })
+
+  it("keeps each picker's queue separately", () => {
+    saveDeferredUploads("avatar", [VIDEO])
+    saveDeferredUploads("documents", [SCAN])
+
+    expect(loadDeferredUploads("avatar")).toEqual([VIDEO])
+    expect(loadDeferredUploads("documents")).toEqual([SCAN])
+    expect(loadDeferredUploads("other")).toEqual([])
+  })
+
+  it("forgets a queue once its files are uploaded, and everything on sign out", () => {
+    saveDeferredUploads("avatar", [VIDEO])
+    saveDeferredUploads("documents", [SCAN])
+
+    saveDeferredUploads("avatar", [])
+
+    expect(loadDeferredUploads("avatar")).toEqual([])
+    expect(loadDeferredUploads("documents")).toEqual([SCAN])
+
+    clearDeferredUploads()
+
+    expect(loadDeferredUploads("documents")).toEqual([])
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * Mutation Outbox Tests
+ *
+ * Offline capture, ordered replay, idempotency keys, retries, replay triggers and
+ * conflict handling, run against mock Supabase
+ */
+
+import { AppState, type AppStateStatus } from "react-native"
+import { act, renderHook, waitFor } from "@testing-library/react-native"
+
+import { mockFaults } from "../mocks/faults"
+import { mockSupabaseHelpers } from "../mocks/supabase"
+import { createMockSession, createMockUser } from "../mocks/supabase/helpers"
+import { sharedState } from "../mocks/supabase/types"
+import { MutationOutbox, mutationOutbox, useOutboxStatus } from "../mutationOutbox"
+import type { NetworkState } from "../NetworkMonitor"
+
+let mockNetworkState: Partial<NetworkState> | null = { isConnected: true }
+const mockNetworkListeners = new Set<(state: NetworkState) => void>()
+
+jest.mock("../NetworkMonitor", () => ({
+  networkMonitor: {
+    getState: () => mockNetworkState,
+    addListener: (listener: (state: NetworkState) => void) => {
+      mockNetworkListeners.add(listener)
+      return () => mockNetworkListeners.delete(listener)
+    },
+  },
+}))
+
+function setOnline(isConnected: boolean) {
+  mockNetworkState = { isConnected }
+  mockNetworkListeners.forEach((listener) => listener(mockNetworkState as NetworkState))
+}
+
+const user = createMockUser("jane@example.com")
+const otherUser = createMockUser("sam@example.com")
+const profile = () => mockSupabaseHelpers.getTableData("profiles").find((row) => row.id === user.id)
+
+describe("MutationOutbox", () => {
+  let outbox: MutationOutbox
+
+  beforeEach(async () => {
+    mockFaults.reset()
+    mockNetworkListeners.clear()
+    mockNetworkState = { isConnected: true }
+    await mockSupabaseHelpers.clearAll()
+    sharedState.currentSession = createMockSession(user)
+    new MutationOutbox().clear()
+    outbox = new MutationOutbox({ retryDelayMs: 0 })
+  })
+
+  it("writes straight to Supabase while online", async () => {
+    const result = await outbox.upsert("profiles", { id: user.id, dark_mode_enabled: true })
+
+    expect(result).toEqual({ queued: false })
+    expect(profile()?.dark_mode_enabled).toBe(true)
+    expect(outbox.getStatus()).toEqual({ pending: 0, failed: 0, isReplaying: false })
+  })
+
+  it("queues writes while offline, persists them and replays them in order on reconnect", async () => {
+    setOnline(false)
+    await outbox.insert("profiles", { id: user.id, first_name: "Jane" })
+    await outbox.update("profiles", { first_name: "Janet" }, { id: user.id })
+
+    expect(profile()).toBeUndefined()
+    const reloaded = new MutationOutbox({ retryDelayMs: 0 })
+    expect(reloaded.getPending().map((mutation) => mutation.operation)).toEqual([
+      "insert",
+      "update",
+    ])
+
+    const stop = reloaded.start()
+    setOnline(true)
+    await reloaded.replay()
+
+    expect(profile()?.first_name).toBe("Janet")
+    expect(reloaded.getStatus().pending).toBe(0)
+    stop()
+  })
+
+  it("replaces a pending write that has the same idempotency key", async () => {
+    setOnline(false)
+    for (const enabled of [true, false, true]) {
+      await outbox.upsert(
+        "profiles",
+        { id: user.id, dark_mode_enabled: enabled },
+        { idempotencyKey: `profiles:${user.id}:dark_mode_enabled` },
+      )
+    }
+
+    expect(outbox.getPending()).toEqual([
+      expect.objectContaining({
+        id: `profiles:${user.id}:dark_mode_enabled`,
+        values: { id: user.id, dark_mode_enabled: true },
+      }),
+    ])
+  })
+
+  it("queues a write that never reached the server and keeps it pending while retries fail", async () => {
+    mockFaults.failNext("supabase.database.profiles.upsert", 4)
+
+    const result = await outbox.upsert("profiles", { id: user.id, first_name: "Jane" })
+    expect(result).toEqual({ queued: true })
+
+    // One direct attempt plus three retries with backoff
+    await outbox.replay()
+    expect(outbox.getPending()).toEqual([
+      expect.objectContaining({ attempts: 2, lastError: expect.any(String) }),
+    ])
+
+    await outbox.replay()
+    expect(profile()?.first_name).toBe("Jane")
+    expect(outbox.getStatus().pending).toBe(0)
+  })
+
+  it("keeps an inserted row's id through replays, so an insert that landed isn't added twice", async () => {
+    setOnline(false)
+    await outbox.insert("push_tokens", { user_id: user.id, token: "t", platform: "ios" })
+    const [queued] = outbox.getPending()
+    expect(queued.values).toEqual(expect.objectContaining({ id: expect.any(String) }))
+
+    // The first attempt reached the server, but its response never came back
+    await mockSupabaseHelpers.seedTable("push_tokens", [queued.values as Record<string, unknown>])
+    setOnline(true)
+    await outbox.replay()
+
+    expect(mockSupabaseHelpers.getTableData("push_tokens")).toHaveLength(1)
+    expect(outbox.getStatus()).toEqual({ pending: 0, failed: 0, isReplaying: false })
+  })
+
+  describe("start", () => {
+    let appStateListener: ((status: AppStateStatus) => void) | undefined
+
+    beforeEach(() => {
+      jest.spyOn(AppState, "addEventListener").mockImplementation((_type, listener) => {
+        appStateListener = listener
+        return { remove: jest.fn() }
+      })
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it("tries a write that can't reach the server again later while still online", async () => {
+      outbox = new MutationOutbox({ retryDelayMs: 0, replayIntervalMs: 10 })
+      const stop = outbox.start()
+      mockFaults.failNext("supabase.database.profiles.upsert", 4)
+
+      await outbox.upsert("profiles", { id: user.id, first_name: "Jane" })
+      await outbox.replay()
+
+      await waitFor(() => expect(profile()?.first_name).toBe("Jane"))
+      expect(outbox.getStatus().pending).toBe(0)
+      stop()
+    })
+
+    it("replays when the app comes to the foreground", async () => {
+      const stop = outbox.start()
+      mockFaults.failNext("supabase.database.profiles.upsert", 4)
+
+      await outbox.upsert("profiles", { id: user.id, first_name: "Jane" })
+      await outbox.replay()
+      expect(outbox.getStatus().pending).toBe(1)
+
+      appStateListener?.("active")
+      expect(outbox.getStatus().isReplaying).toBe(true)
+      await outbox.replay()
+
+      expect(profile()?.first_name).toBe("Jane")
+      stop()
+    })
+  })
+
+  it("returns Supabase errors for writes sent right away instead of queueing them", async () => {
+    const result = await outbox.insert("push_tokens", {
+      user_id: otherUser.id,
+      token: "ExponentPushToken[abc]",
+      platform: "ios",
+    })
+
+    expect(result.queued).toBe(false)
+    expect(result.error?.code).toBe("42501")
+  })
+
+  describe("conflicts during replay", () => {
+    it("drops an insert that already landed and keeps other rejections as failed", async () => {
+      await mockSupabaseHelpers.seedTable("profiles", [{ id: user.id, first_name: "Jane" }])
+
+      setOnline(false)
+      await outbox.insert("profiles", { id: user.id, first_name: "Jane" })
+      await outbox.insert("push_tokens", { user_id: otherUser.id, token: "t", platform: "ios" })
+      setOnline(true)
+      await outbox.replay()
+
+      expect(outbox.getStatus()).toEqual({ pending: 0, failed: 1, isReplaying: false })
+      expect(outbox.getFailed()).toEqual([
+        expect.objectContaining({ table: "push_tokens", lastError: expect.any(String) }),
+      ])
+
+      outbox.discardFailed()
+      expect(outbox.getStatus().failed).toBe(0)
+    })
+
+    it("sends the replacement write a custom policy returns", async () => {
+      await mockSupabaseHelpers.seedTable("profiles", [{ id: user.id, first_name: "Jane" }])
+      const policy = jest.fn((mutation, error) =>
+        error.code === "23505"
+          ? {
+              ...mutation,
+              operation: "update",
+              match: { id: user.id },
+              values: { first_name: "Joan" },
+            }
+          : "fail",
+      )
+      outbox.setConflictPolicy(policy)
+
+      setOnline(false)
+      await outbox.insert("profiles", { id: user.id, first_name: "Joan" })
+      setOnline(true)
+      await outbox.replay()
+
+      expect(policy).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: "insert" }),
+        expect.objectContaining({ code: "23505" }),
+      )
+      expect(profile()?.first_name).toBe("Joan")
+      expect(outbox.getStatus()).toEqual({ pending: 0, failed: 0, isReplaying: false })
+    })
+  })
+
+  it("exposes pending and failed counts through useOutboxStatus", async () => {
+    mutationOutbox.clear()
+    const { result } = renderHook(() => useOutboxStatus())
+    expect(result.current).toEqual({ pending: 0, failed: 0, isReplaying: false })
+
+    setOnline(false)
+    await act(async () => {
+      await mutationOutbox.upsert("profiles", { id: user.id, first_name: "Jane" })
+    })
+
+    expect(result.current.pending).toBe(1)
+    act(() => mutationOutbox.clear())
+  })
+})
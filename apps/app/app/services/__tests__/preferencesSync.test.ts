@@ -0,0 +1,203 @@
+/**
+ * Preferences Sync Tests
+ *
+ * Field-level merge with the profiles row, write-back of newer local values and live
+ * updates over realtime, run against mock Supabase
+ */
+
+import { waitFor } from "@testing-library/react-native"
+
+import type { VersionedPreferences } from "../../types/preferences"
+import { getPreference, getVersionedPreferences, setPreference } from "../../utils/preferences"
+import * as storage from "../../utils/storage"
+import { mockFaults } from "../mocks/faults"
+import { mockSupabaseHelpers } from "../mocks/supabase"
+import { createMockSession, createMockUser } from "../mocks/supabase/helpers"
+import { sharedState } from "../mocks/supabase/types"
+import { mutationOutbox } from "../mutationOutbox"
+import {
+  fetchAndApplyUserPreferences,
+  mergePreferences,
+  startPreferenceSync,
+  stopPreferenceSync,
+} from "../preferencesSync"
+import { supabase } from "../supabase"
+
+const mockApplySyncedLanguage = jest.fn()
+
+jest.mock("../../i18n/languageSwitcher", () => ({
+  applySyncedLanguage: (...args: unknown[]) => mockApplySyncedLanguage(...args),
+}))
+
+jest.mock("../NetworkMonitor", () => ({
+  NetworkQuality: jest.requireActual("../NetworkMonitor").NetworkQuality,
+  networkMonitor: {
+    getState: () => ({ isConnected: true }),
+    addListener: () => () => {},
+  },
+}))
+
+const EARLIER = "2026-01-01T00:00:00.000Z"
+const LATER = "2026-02-01T00:00:00.000Z"
+
+const user = createMockUser("jane@example.com")
+const profile = () => mockSupabaseHelpers.getTableData("profiles").find((row) => row.id === user.id)
+
+function seedLocalPreferences(preferences: VersionedPreferences) {
+  storage.save("shipnative.preferences", preferences)
+}
+
+describe("mergePreferences", () => {
+  it("keeps the newer value of each field and lets the server win ties", () => {
+    const { merged, localIsNewer } = mergePreferences(
+      {
+        language: { value: "fr", updated_at: LATER },
+        haptics_enabled: { value: false, updated_at: EARLIER },
+        dark_mode_enabled: { value: true, updated_at: EARLIER },
+      },
+      {
+        language: { value: "es", updated_at: EARLIER },
+        haptics_enabled: { value: true, updated_at: LATER },
+        dark_mode_enabled: { value: false, updated_at: EARLIER },
+      },
+    )
+
+    expect(merged).toEqual({
+      language: { value: "fr", updated_at: LATER },
+      haptics_enabled: { value: true, updated_at: LATER },
+      dark_mode_enabled: { value: false, updated_at: EARLIER },
+    })
+    expect(localIsNewer).toBe(true)
+  })
+
+  it("keeps server keys this app version doesn't know", () => {
+    const remote = { font_scale: { value: 1.2, updated_at: EARLIER } } as VersionedPreferences
+
+    expect(mergePreferences({}, remote)).toEqual({ merged: remote, localIsNewer: false })
+  })
+})
+
+describe("preferences sync", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockFaults.reset()
+    stopPreferenceSync()
+    storage.remove("shipnative.preferences")
+    await mockSupabaseHelpers.clearAll()
+    sharedState.currentSession = createMockSession(user)
+    mutationOutbox.clear()
+  })
+
+  afterEach(() => {
+    stopPreferenceSync()
+  })
+
+  it("merges the server copy field by field and writes back newer local values", async () => {
+    await mockSupabaseHelpers.seedTable("profiles", [
+      {
+        id: user.id,
+        preferences: { language: { value: "es", updated_at: LATER } },
+        updated_at: EARLIER,
+      },
+    ])
+    seedLocalPreferences({
+      language: { value: "fr", updated_at: EARLIER },
+      reduce_motion_enabled: { value: true, updated_at: LATER },
+    })
+
+    await expect(fetchAndApplyUserPreferences(user.id)).resolves.toBe(true)
+
+    expect(getPreference("language")).toBe("es")
+    expect(mockApplySyncedLanguage).toHaveBeenCalledWith("es")
+    expect(getPreference("reduce_motion_enabled")).toBe(true)
+    await waitFor(() =>
+      expect(profile()?.preferences).toEqual({
+        language: { value: "es", updated_at: LATER },
+        reduce_motion_enabled: { value: true, updated_at: LATER },
+      }),
+    )
+  })
+
+  it("doesn't overwrite fields another device changed while a write was waiting to sync", async () => {
+    await mockSupabaseHelpers.seedTable("profiles", [{ id: user.id }])
+    seedLocalPreferences({ haptics_enabled: { value: false, updated_at: EARLIER } })
+    mockFaults.failNext("supabase.rpc.merge_user_preferences")
+
+    await fetchAndApplyUserPreferences(user.id)
+    await waitFor(() => expect(mutationOutbox.getStatus().pending).toBe(1))
+
+    // Another device changes the language before this one is back online
+    await supabase.rpc("merge_user_preferences", {
+      patch: { language: { value: "ja", updated_at: LATER } },
+    })
+    await mutationOutbox.replay()
+
+    expect(profile()?.preferences).toEqual({
+      haptics_enabled: { value: false, updated_at: EARLIER },
+      language: { value: "ja", updated_at: LATER },
+    })
+  })
+
+  it("treats a preference column changed on its own as a change at the row's updated_at", async () => {
+    await mockSupabaseHelpers.seedTable("profiles", [
+      {
+        id: user.id,
+        dark_mode_enabled: true,
+        preferences: { dark_mode_enabled: { value: false, updated_at: EARLIER } },
+        updated_at: LATER,
+      },
+    ])
+
+    await fetchAndApplyUserPreferences(user.id)
+
+    expect(getVersionedPreferences().dark_mode_enabled).toEqual({
+      value: true,
+      updated_at: LATER,
+    })
+  })
+
+  it("writes local changes to the profile, including its preference columns", async () => {
+    await mockSupabaseHelpers.seedTable("profiles", [{ id: user.id }])
+    await startPreferenceSync(user.id)
+
+    setPreference("push_notifications_enabled", false)
+    setPreference("haptics_enabled", false)
+
+    await waitFor(() =>
+      expect(profile()).toMatchObject({
+        push_notifications_enabled: false,
+        preferences: {
+          push_notifications_enabled: { value: false },
+          haptics_enabled: { value: false },
+        },
+      }),
+    )
+  })
+
+  it("applies changes made on another device as they arrive", async () => {
+    await mockSupabaseHelpers.seedTable("profiles", [{ id: user.id }])
+    await startPreferenceSync(user.id)
+
+    const now = new Date().toISOString()
+    await supabase
+      .from("profiles")
+      .update({
+        preferences: {
+          language: { value: "ja", updated_at: now },
+          haptics_enabled: { value: false, updated_at: now },
+        },
+      })
+      .eq("id", user.id)
+
+    expect(getPreference("haptics_enabled")).toBe(false)
+    expect(mockApplySyncedLanguage).toHaveBeenCalledWith("ja")
+
+    stopPreferenceSync()
+    await supabase
+      .from("profiles")
+      .update({ preferences: { haptics_enabled: { value: true, updated_at: LATER } } })
+      .eq("id", user.id)
+
+    expect(getPreference("haptics_enabled")).toBe(false)
+  })
+})
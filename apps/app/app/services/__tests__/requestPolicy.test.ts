@@ -0,0 +1,171 @@
+/**
+ * Request Policy Tests
+ *
+ * Policies follow the network quality NetworkMonitor derives from (synthetic) NetInfo
+ * states, and the API client applies their timeouts and retry counts
+ */
+
+import { act, renderHook } from "@testing-library/react-native"
+
+import { setPreference } from "../../utils/preferences"
+import * as storage from "../../utils/storage"
+import { Api } from "../api"
+import { networkMonitor, NetworkQuality } from "../NetworkMonitor"
+import {
+  getRequestPolicy,
+  REQUEST_POLICIES,
+  shouldDeferUpload,
+  useRequestPolicy,
+} from "../requestPolicy"
+
+let mockNetInfoListener: ((state: unknown) => void) | null = null
+const mockFetch = jest.fn()
+
+jest.mock("@react-native-community/netinfo", () => ({
+  addEventListener: (callback: (state: unknown) => void) => {
+    mockNetInfoListener = callback
+    return () => {}
+  },
+  fetch: () => mockFetch(),
+}))
+
+jest.mock("../../utils/delay", () => ({
+  delay: () => Promise.resolve(),
+}))
+
+const WIFI = { isConnected: true, isInternetReachable: true, type: "wifi" }
+const cellular = (cellularGeneration: string) => ({
+  isConnected: true,
+  isInternetReachable: true,
+  type: "cellular",
+  details: { cellularGeneration },
+})
+const OFFLINE = { isConnected: false, isInternetReachable: false, type: "none" }
+
+const LARGE_FILE = 20 * 1024 * 1024
+const SMALL_FILE = 200 * 1024
+
+async function connect(state: unknown) {
+  mockFetch.mockResolvedValue(state)
+  await networkMonitor.initialize()
+}
+
+describe("request policy", () => {
+  beforeEach(() => {
+    networkMonitor.destroy()
+    storage.remove("shipnative.preferences")
+  })
+
+  afterEach(() => {
+    networkMonitor.destroy()
+  })
+
+  it.each([
+    ["wifi", WIFI, NetworkQuality.EXCELLENT],
+    ["4G", cellular("4g"), NetworkQuality.GOOD],
+    ["3G", cellular("3g"), NetworkQuality.FAIR],
+    ["2G", cellular("2g"), NetworkQuality.POOR],
+    ["no connection", OFFLINE, NetworkQuality.OFFLINE],
+  ])("uses the %s policy", async (_, state, quality) => {
+    await connect(state)
+
+    expect(getRequestPolicy()).toBe(REQUEST_POLICIES[quality])
+  })
+
+  it("gives slow connections more time but fewer retries and smaller images", () => {
+    const good = REQUEST_POLICIES[NetworkQuality.GOOD]
+    const poor = REQUEST_POLICIES[NetworkQuality.POOR]
+
+    expect(poor.timeoutMs).toBeGreaterThan(good.timeoutMs)
+    expect(poor.retries).toBeLessThan(good.retries)
+    expect(poor.imageScale).toBeLessThan(good.imageScale)
+    expect(poor.prefetch).toBe(false)
+    expect(REQUEST_POLICIES[NetworkQuality.OFFLINE].retries).toBe(0)
+  })
+
+  it("updates useRequestPolicy when the connection changes", async () => {
+    await connect(WIFI)
+    const { result } = renderHook(() => useRequestPolicy())
+
+    expect(result.current.prefetch).toBe(true)
+
+    act(() => mockNetInfoListener?.(cellular("2g")))
+
+    expect(result.current).toBe(REQUEST_POLICIES[NetworkQuality.POOR])
+  })
+
+  describe("shouldDeferUpload", () => {
+    it("holds large uploads on cellular once the user opts in", async () => {
+      await connect(cellular("5g"))
+
+      expect(shouldDeferUpload(LARGE_FILE)).toBe(false)
+
+      setPreference("defer_large_uploads", true)
+
+      expect(shouldDeferUpload(LARGE_FILE)).toBe(true)
+      expect(shouldDeferUpload(SMALL_FILE)).toBe(false)
+      expect(shouldDeferUpload(undefined)).toBe(false)
+    })
+
+    it("holds large uploads while offline and releases them on wifi", async () => {
+      setPreference("defer_large_uploads", true)
+      await connect(OFFLINE)
+
+      expect(shouldDeferUpload(LARGE_FILE)).toBe(true)
+
+      mockNetInfoListener?.(WIFI)
+
+      expect(shouldDeferUpload(LARGE_FILE)).toBe(false)
+    })
+  })
+
+  describe("API client", () => {
+    const networkError = (config: unknown) =>
+      Object.assign(new Error("Network Error"), { config, isAxiosError: true, code: "ERR_NETWORK" })
+
+    function createApi(adapter: jest.Mock) {
+      const api = new Api({ url: "https://api.example.com", timeout: 30000 })
+      api.apisauce.axiosInstance.defaults.adapter = adapter
+      return api
+    }
+
+    it("applies the policy timeout to each request", async () => {
+      await connect(cellular("2g"))
+      const adapter = jest.fn(async (config) => ({ data: {}, status: 200, headers: {}, config }))
+
+      await createApi(adapter).apisauce.get("/profile")
+
+      expect(adapter.mock.calls[0][0].timeout).toBe(REQUEST_POLICIES[NetworkQuality.POOR].timeoutMs)
+    })
+
+    it("retries failed reads as often as the policy allows", async () => {
+      await connect(cellular("3g"))
+      const adapter = jest.fn(async (config) => Promise.reject(networkError(config)))
+
+      const response = await createApi(adapter).apisauce.get("/profile")
+
+      expect(response.problem).toBe("NETWORK_ERROR")
+      expect(adapter).toHaveBeenCalledTimes(1 + REQUEST_POLICIES[NetworkQuality.FAIR].retries)
+    })
+
+    it("does not retry writes or client errors", async () => {
+      await connect(WIFI)
+      const adapter = jest.fn(async (config) => Promise.reject(networkError(config)))
+      const api = createApi(adapter)
+
+      await api.apisauce.post("/profile", { name: "Jane" })
+
+      expect(adapter).toHaveBeenCalledTimes(1)
+
+      adapter.mockClear()
+      adapter.mockImplementation(async (config) =>
+        Promise.reject(
+          Object.assign(networkError(config), { response: { status: 404, data: {}, config } }),
+        ),
+      )
+      await api.apisauce.get("/missing")
+
+      expect(adapter).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * Widget Service Tests
+ *
+ * Which failed widget queries are retried, and how often, and that timed-out attempts
+ * are aborted
+ */
+
+import { clearWidgetCache, fetchWidgetData } from "../widgets"
+
+const mockQuery = jest.fn()
+const mockSignals: AbortSignal[] = []
+
+jest.mock("../supabase", () => {
+  const builder = {
+    select: () => builder,
+    limit: () => builder,
+    eq: () => builder,
+    order: () => builder,
+    abortSignal: (signal: AbortSignal) => {
+      mockSignals.push(signal)
+      return builder
+    },
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      mockQuery().then(resolve, reject),
+  }
+  return {
+    supabase: { from: () => builder },
+    supabaseUrl: "https://example.supabase.co",
+    supabaseKey: "anon",
+    isUsingMockSupabase: false,
+  }
+})
+
+jest.mock("../requestPolicy", () => ({
+  getRequestPolicy: () => ({ timeoutMs: 1000, retries: 2 }),
+}))
+
+jest.mock("../../utils/delay", () => ({
+  delay: () => Promise.resolve(),
+}))
+
+const failure = (status: number, message: string) =>
+  Promise.resolve({ data: null, error: { message }, status })
+
+describe("fetchWidgetData", () => {
+  beforeEach(() => {
+    mockQuery.mockReset()
+    mockSignals.length = 0
+    clearWidgetCache()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("retries server errors and network failures", async () => {
+    mockQuery
+      .mockReturnValueOnce(failure(503, "Service unavailable"))
+      .mockReturnValueOnce(Promise.reject(new TypeError("Network request failed")))
+      .mockReturnValueOnce(Promise.resolve({ data: [{ id: 1 }], error: null, status: 200 }))
+
+    const result = await fetchWidgetData({ table: "stats" })
+
+    expect(result).toEqual({ data: [{ id: 1 }], error: null })
+    expect(mockQuery).toHaveBeenCalledTimes(3)
+  })
+
+  it("does not retry errors that would fail the same way again", async () => {
+    mockQuery.mockReturnValue(failure(403, "permission denied for table stats"))
+
+    const result = await fetchWidgetData({ table: "stats" })
+
+    expect(result.error?.message).toBe("permission denied for table stats")
+    expect(mockQuery).toHaveBeenCalledTimes(1)
+  })
+
+  it("stops after the policy's retry count", async () => {
+    mockQuery.mockReturnValue(failure(500, "Internal error"))
+
+    await fetchWidgetData({ table: "stats" })
+
+    expect(mockQuery).toHaveBeenCalledTimes(3)
+  })
+
+  it("aborts attempts that time out", async () => {
+    jest.useFakeTimers()
+    mockQuery.mockReturnValue(new Promise(() => {}))
+
+    const request = fetchWidgetData({ table: "stats" })
+    await jest.advanceTimersByTimeAsync(3000)
+
+    expect((await request).error?.message).toBe("Widget data request timed out")
+    expect(mockSignals).toHaveLength(3)
+    expect(mockSignals.every((signal) => signal.aborted)).toBe(true)
+  })
+})
@@ -2,8 +2,8 @@ import { useAuthStore, useSubscriptionStore } from "@/stores"
 import { GUEST_USER_KEY } from "@/stores/auth"
 import type { Session } from "@/types/auth"
 
-import { mockSupabaseHelpers } from "./mocks/supabase"
-import { supabase, supabaseKey, supabaseUrl, isUsingMockSupabase } from "./supabase"
+import { pinnedFetch } from "./certificatePinning"
+import { supabase, supabaseKey, supabaseUrl } from "./supabase"
 import { logger } from "../utils/Logger"
 
 const DELETE_TIMEOUT_MS = 10_000
@@ -16,7 +16,7 @@ async function fetchWithTimeout(
   const controller = new AbortController()
   const timeout = setTimeout(() => controller.abort(), timeoutMs)
   try {
-    return await fetch(input, { ...init, signal: controller.signal })
+    return await pinnedFetch(input, { ...init, signal: controller.signal })
   } finally {
     clearTimeout(timeout)
   }
@@ -30,10 +30,6 @@ async function deleteProfileRow(userId: string) {
 }
 
 async function deleteSupabaseAccount(session: Session, userId: string) {
-  if (!supabaseUrl || !supabaseKey) {
-    throw new Error("Supabase is not configured for account deletion")
-  }
-
   try {
     // Try using Supabase client's functions.invoke() which handles auth properly
     logger.debug("Invoking delete-user edge function via Supabase client")
@@ -67,6 +63,9 @@ async function deleteSupabaseAccount(session: Session, userId: string) {
     // Fallback to direct Supabase Auth delete endpoint
     // Note: This requires the user to have permission to delete themselves
     // which is typically not enabled by default in Supabase
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error("Supabase is not configured for account deletion")
+    }
     logger.debug("Attempting direct auth deletion", {
       url: `${supabaseUrl}/auth/v1/user`,
       hasAccessToken: !!session.access_token,
@@ -114,7 +113,7 @@ async function deleteSupabaseAccount(session: Session, userId: string) {
   }
 }
 
-async function clearSubscriptionState() {
+async function clearSubscriptionState(userId: string) {
   const subscriptionState = useSubscriptionStore.getState()
 
   try {
@@ -128,6 +127,7 @@ async function clearSubscriptionState() {
   subscriptionState.setWebSubscriptionInfo(null)
   subscriptionState.setPackages([])
   subscriptionState.checkProStatus()
+  subscriptionState.resetCredits({ deleteLedgerOf: userId })
 }
 
 function resetAuthState(userId: string) {
@@ -205,19 +205,12 @@ export async function deleteAccount(): Promise<{ error?: Error }> {
 
     logger.debug("Session obtained, proceeding with deletion")
 
-    // Delete user data first
-    if (isUsingMockSupabase) {
-      const removed = await mockSupabaseHelpers.deleteUser(userId)
-      if (!removed) {
-        throw new Error("Unable to delete mock account")
-      }
-    } else {
-      await deleteSupabaseAccount(session as Session, userId)
-    }
+    // Delete user data first (in mock mode the bundled delete-user function handles this)
+    await deleteSupabaseAccount(session as Session, userId)
 
     // Clear subscription state (ignore errors - user is already deleted)
     try {
-      await clearSubscriptionState()
+      await clearSubscriptionState(userId)
     } catch (subscriptionError) {
       logger.warn("Failed to clear subscription state during account deletion", {
         error: subscriptionError,
@@ -0,0 +1,288 @@
+/**
+ * Analytics Queue
+ *
+ * Persists tracked events and screens to storage before they reach PostHog, so events
+ * tracked offline or right before the app is killed are sent on a later launch.
+ *
+ * - Each event gets a UUID and timestamp when it is tracked, and keeps them when sent later
+ * - Events leave the queue once PostHog has captured them. The SDK keeps and retries
+ *   what it has captured, so a failed flush only holds back the remaining batches
+ * - Nothing is sent until the PostHog client has initialized
+ * - `captureAll` hands every queued event to PostHog at once, before identify/reset, so
+ *   events keep the user they were tracked for
+ * - The queue keeps at most `maxEvents` events for up to `maxAgeMs`; the oldest go first
+ * - Batches are flushed when the queue reaches `batchSize`, when the network comes back,
+ *   when the app goes to the background and on an interval
+ * - Nothing is queued or sent without analytics consent
+ */
+
+import { AppState, type AppStateStatus } from "react-native"
+
+import { posthog } from "./posthog"
+import type { EventProperties, ScreenProperties } from "../types/analytics"
+import { logger } from "../utils/Logger"
+import * as storage from "../utils/storage"
+import { generateUuid } from "../utils/uuid"
+
+const QUEUE_STORAGE_KEY = "shipnative.analyticsQueue"
+const CONSENT_STORAGE_KEY = "shipnative.analyticsConsent"
+
+export interface QueuedAnalyticsEvent {
+  /** UUID sent to PostHog for deduplication */
+  id: string
+  type: "event" | "screen"
+  name: string
+  properties?: EventProperties | ScreenProperties
+  /** When the event was tracked, in ms */
+  timestamp: number
+}
+
+export interface AnalyticsQueueOptions {
+  maxEvents: number
+  maxAgeMs: number
+  batchSize: number
+  flushIntervalMs: number
+}
+
+/**
+ * How many sent batches `getSentBatches` remembers
+ */
+const SENT_BATCH_HISTORY = 20
+
+const DEFAULT_OPTIONS: AnalyticsQueueOptions = {
+  maxEvents: 1000,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  batchSize: 50,
+  flushIntervalMs: 30 * 1000,
+}
+
+export class AnalyticsQueue {
+  private options: AnalyticsQueueOptions
+  private events: QueuedAnalyticsEvent[]
+  private consent: boolean
+  private sentBatches: QueuedAnalyticsEvent[][] = []
+  private flushing: Promise<void> | null = null
+
+  constructor(options: Partial<AnalyticsQueueOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    this.events = storage.load<QueuedAnalyticsEvent[]>(QUEUE_STORAGE_KEY) ?? []
+    // Tracking was always on before consent existed, so no stored answer means granted
+    this.consent = storage.load<boolean>(CONSENT_STORAGE_KEY) ?? true
+  }
+
+  /**
+   * Queue a custom event
+   */
+  track(event: string, properties?: EventProperties): void {
+    this.enqueue("event", event, properties)
+  }
+
+  /**
+   * Queue a screen view
+   */
+  screen(name: string, properties?: ScreenProperties): void {
+    this.enqueue("screen", name, properties)
+  }
+
+  /**
+   * Grant or withdraw analytics consent. Withdrawing drops every queued event.
+   */
+  setConsent(granted: boolean): void {
+    this.consent = granted
+    storage.save(CONSENT_STORAGE_KEY, granted)
+
+    if (granted) {
+      posthog.optIn()
+    } else {
+      this.events = []
+      this.persist()
+      posthog.optOut()
+    }
+  }
+
+  hasConsent(): boolean {
+    return this.consent
+  }
+
+  /**
+   * Send queued events to PostHog in batches. Skipped until PostHog has initialized, and
+   * while offline unless forced.
+   */
+  flush(options: { force?: boolean } = {}): Promise<void> {
+    if (this.flushing) return this.flushing
+    if (!this.consent || this.events.length === 0) return Promise.resolve()
+    if (!posthog.isReady()) return Promise.resolve()
+    if (!options.force && !this.isOnline()) return Promise.resolve()
+
+    this.flushing = this.sendBatches().finally(() => {
+      this.flushing = null
+    })
+    return this.flushing
+  }
+
+  /**
+   * Capture every queued event now, without waiting for PostHog to send each batch. Call
+   * before identify/reset: PostHog attributes events to the user when they are captured.
+   */
+  captureAll(): void {
+    if (!this.consent || !posthog.isReady()) return
+
+    let batch = this.peekNextBatch()
+    while (batch.length > 0) {
+      this.capture(batch)
+      batch = this.peekNextBatch()
+    }
+
+    posthog.flush?.().catch((error: Error) => {
+      logger.debug("Analytics flush failed", { error: error.message })
+    })
+  }
+
+  /**
+   * Flush on reconnect, when the app goes to the background and on an interval.
+   * Returns a function that stops the triggers.
+   */
+  start(): () => void {
+    // Lazy require avoids a cycle: NetworkMonitor tracks connectivity changes through
+    // utils/analytics, which feeds this queue
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { networkMonitor } = require("./NetworkMonitor") as typeof import("./NetworkMonitor")
+
+    let wasOnline = networkMonitor.getState()?.isConnected ?? true
+    const removeNetworkListener = networkMonitor.addListener((state) => {
+      if (state.isConnected && !wasOnline) void this.flush()
+      wasOnline = state.isConnected
+    })
+
+    const appStateSubscription = AppState.addEventListener("change", (status: AppStateStatus) => {
+      if (status === "background") void this.flush()
+    })
+
+    const interval = setInterval(() => void this.flush(), this.options.flushIntervalMs)
+
+    void this.flush()
+
+    return () => {
+      removeNetworkListener()
+      appStateSubscription.remove()
+      clearInterval(interval)
+    }
+  }
+
+  // Inspector API, for tests and debugging
+
+  /**
+   * Events waiting to be sent, oldest first
+   */
+  getPendingEvents(): QueuedAnalyticsEvent[] {
+    this.prune()
+    return [...this.events]
+  }
+
+  /**
+   * Exactly what the next flush would hand to PostHog
+   */
+  peekNextBatch(): QueuedAnalyticsEvent[] {
+    return this.getPendingEvents().slice(0, this.options.batchSize)
+  }
+
+  /**
+   * The last `SENT_BATCH_HISTORY` batches handed to PostHog, in order
+   */
+  getSentBatches(): QueuedAnalyticsEvent[][] {
+    return this.sentBatches.map((batch) => [...batch])
+  }
+
+  /**
+   * Clear queued events, sent batches and the stored consent answer
+   */
+  reset(): void {
+    this.events = []
+    this.sentBatches = []
+    this.consent = true
+    this.flushing = null
+    storage.remove(QUEUE_STORAGE_KEY)
+    storage.remove(CONSENT_STORAGE_KEY)
+  }
+
+  private enqueue(
+    type: QueuedAnalyticsEvent["type"],
+    name: string,
+    properties?: EventProperties | ScreenProperties,
+  ): void {
+    if (!this.consent) return
+
+    this.events.push({ id: generateUuid(), type, name, properties, timestamp: Date.now() })
+    this.prune()
+    this.persist()
+
+    if (this.events.length >= this.options.batchSize) void this.flush()
+  }
+
+  private async sendBatches(): Promise<void> {
+    while (this.consent) {
+      const batch = this.peekNextBatch()
+      if (batch.length === 0) return
+
+      this.capture(batch)
+
+      try {
+        await posthog.flush?.()
+      } catch (error) {
+        logger.debug("Analytics flush failed, holding remaining events", {
+          remaining: this.events.length,
+          error: (error as Error).message,
+        })
+        return
+      }
+    }
+  }
+
+  private capture(batch: QueuedAnalyticsEvent[]): void {
+    this.sentBatches = [...this.sentBatches, batch].slice(-SENT_BATCH_HISTORY)
+    for (const event of batch) {
+      const options = { uuid: event.id, timestamp: new Date(event.timestamp) }
+      if (event.type === "screen") {
+        posthog.screen(event.name, event.properties, options)
+      } else {
+        posthog.track(event.name, event.properties, options)
+      }
+    }
+
+    // PostHog has the batch now and retries it itself, so capturing it again would
+    // only send duplicates
+    const sent = new Set(batch.map((event) => event.id))
+    this.events = this.events.filter((event) => !sent.has(event.id))
+    this.persist()
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.maxAgeMs
+    const fresh = this.events.filter((event) => event.timestamp >= cutoff)
+    const dropped = this.events.length - fresh.length
+    this.events = fresh.slice(-this.options.maxEvents)
+
+    if (dropped > 0 || fresh.length > this.events.length) {
+      if (__DEV__) {
+        logger.debug("Dropped analytics events over the queue limits", {
+          expired: dropped,
+          overflow: fresh.length - this.events.length,
+        })
+      }
+      this.persist()
+    }
+  }
+
+  private isOnline(): boolean {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { networkMonitor } = require("./NetworkMonitor") as typeof import("./NetworkMonitor")
+    // Unknown until the monitor has initialized; try rather than hold events back
+    return networkMonitor.getState()?.isConnected ?? true
+  }
+
+  private persist(): void {
+    storage.save(QUEUE_STORAGE_KEY, this.events)
+  }
+}
+
+export const analyticsQueue = new AnalyticsQueue()
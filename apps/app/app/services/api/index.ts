@@ -15,6 +15,7 @@ import { API_CONFIG } from "@/config/constants"
 import { queryClient } from "@/hooks/queries"
 import type { EpisodeItem } from "@/services/api/types" // @demo remove-current-line
 import { useAuthStore } from "@/stores"
+import { delay } from "@/utils/delay"
 import { errorHandler } from "@/utils/ErrorHandler"
 import { logger } from "@/utils/Logger"
 
@@ -23,8 +24,19 @@ import type {
   ApiConfig,
   ApiFeedResponse, // @demo remove-current-line
 } from "./types"
+import { isCertificatePinningEnabled, pinnedFetch } from "../certificatePinning"
+import { getRequestPolicy } from "../requestPolicy"
 import { supabase } from "../supabase"
 
+type RequestConfig = Parameters<ApisauceInstance["axiosInstance"]["request"]>[0] & {
+  retryCount?: number
+}
+
+/**
+ * Methods that are safe to send again after a failure
+ */
+const RETRIED_METHODS = ["get", "head", "options"]
+
 /**
  * Configuring the apisauce instance.
  */
@@ -93,6 +105,9 @@ export class Api {
       headers: {
         Accept: "application/json",
       },
+      // Send requests through pinnedFetch, so pinned hosts are reached over a pinned
+      // connection and a mismatch in enforce mode fails the request
+      ...(isCertificatePinningEnabled() && { adapter: "fetch", env: { fetch: pinnedFetch } }),
     })
 
     this.setupInterceptors()
@@ -104,6 +119,9 @@ export class Api {
   private setupInterceptors() {
     // Request interceptor
     this.apisauce.addRequestTransform((request) => {
+      // Timeout for the current connection quality
+      request.timeout = getRequestPolicy().timeoutMs
+
       if (__DEV__) {
         // Logger automatically redacts sensitive data (passwords, tokens, etc.)
         logger.debug(`API Request: ${request.method?.toUpperCase()} ${request.url}`, {
@@ -129,6 +147,41 @@ export class Api {
         await this.handleUnauthorized()
       }
     })
+
+    // Retry reads that failed on the network or the server, as often as the
+    // connection quality allows
+    this.apisauce.axiosInstance.interceptors.response.use(undefined, (error) =>
+      this.retryRequest(error),
+    )
+  }
+
+  private async retryRequest(error: {
+    config?: RequestConfig
+    response?: { status: number }
+  }): Promise<unknown> {
+    const config = error.config
+    const status = error.response?.status
+    const attempt = config?.retryCount ?? 0
+    const policy = getRequestPolicy()
+
+    if (
+      !config ||
+      !RETRIED_METHODS.includes(config.method?.toLowerCase() ?? "get") ||
+      (status !== undefined && status < 500) ||
+      attempt >= policy.retries
+    ) {
+      throw error
+    }
+
+    await delay(API_CONFIG.RETRY_DELAY * 2 ** attempt)
+    if (__DEV__) {
+      logger.debug(`API Retry ${attempt + 1}/${policy.retries}: ${config.url}`)
+    }
+    return this.apisauce.axiosInstance.request({
+      ...config,
+      retryCount: attempt + 1,
+      timeout: getRequestPolicy().timeoutMs,
+    } as RequestConfig)
   }
 
   private async handleUnauthorized(): Promise<void> {
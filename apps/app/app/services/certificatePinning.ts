@@ -4,47 +4,212 @@
  * SECURITY: Certificate pinning prevents MITM attacks by verifying
  * that the server's certificate matches a known public key.
  *
- * Note: This is a placeholder implementation. For production, you should:
- * 1. Install a certificate pinning library (e.g., react-native-cert-pinner)
- * 2. Configure your API domain's certificate public key hashes
- * 3. Enable pinning in production builds
+ * - Pins come from `certificatePins` in config.base.ts and the EXPO_PUBLIC_CERTIFICATE_PINS
+ *   JSON array. Each host can list backup pins for the next key and an expiry date
+ * - `pinnedFetch` sends requests to pinned hosts through react-native-ssl-pinning, which
+ *   checks the certificate during the TLS handshake of each request. It is the Supabase
+ *   client's fetch (so edge function calls are covered) and the `Api` client's axios fetch
+ * - In `enforce` mode a mismatch fails the request with a `CertificatePinningError`. In
+ *   `report-only` mode it is reported to Sentry and the request is sent without pinning
+ *
+ * Pinning is Android only. On iOS, react-native-ssl-pinning ignores the configured hashes
+ * and pins against whatever `.cer` files are bundled in the app, so rotation and expiry
+ * would have no effect there. The native module also only exists in development and
+ * production builds. On iOS, on web and in Expo Go every request uses the regular,
+ * unpinned fetch; `getCertificatePinningStatus` says what is actually enforced.
  */
 
+import { NativeModules, Platform } from "react-native"
+import { z } from "zod"
+
+import { sentry } from "./sentry"
+import BaseConfig from "../config/config.base"
+import { env } from "../config/env"
+import type {
+  CertificatePinConfig,
+  CertificatePinningMode,
+  CertificatePinningStatus,
+} from "../types/certificatePinning"
 import { logger } from "../utils/Logger"
 
+type SslPinningResponse = {
+  status: number
+  headers?: Record<string, string>
+  bodyString?: string
+  /** Base64 body, for `responseType: "base64"` */
+  data?: string
+}
+
+type SslPinningModule = {
+  fetch: (
+    url: string,
+    options: {
+      method: string
+      headers: Record<string, string>
+      body?: string | FormData
+      responseType: "text" | "base64"
+      pkPinning: boolean
+      sslPinning: { certs: string[] }
+    },
+  ) => Promise<SslPinningResponse>
+}
+
 /**
- * Certificate pin configuration
- * Add your API domain's certificate public key hashes here
- * Format: SHA256 hash of the certificate's public key
- *
- * To get the hash:
- * openssl s_client -servername your-domain.com -connect your-domain.com:443 < /dev/null | \
- *   openssl x509 -pubkey -noout | \
- *   openssl pkey -pubin -outform der | \
- *   openssl dgst -sha256 -binary | \
- *   openssl enc -base64
+ * Whether the native module pins against the configured hashes on this platform. Its iOS
+ * implementation only pins against certificates bundled in the app.
  */
-const CERTIFICATE_PINS: Record<string, string[]> = {
-  // Example: Add your Supabase domain
-  // "your-project.supabase.co": [
-  //   "sha256/AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=", // Primary cert
-  //   "sha256/BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB=", // Backup cert
-  // ],
+function isPinningPlatform(): boolean {
+  return Platform.OS === "android"
 }
 
 /**
- * Check if certificate pinning is enabled
+ * The native pinning module, or null on platforms it doesn't pin on and in Expo Go,
+ * where it isn't linked
  */
-export function isCertificatePinningEnabled(): boolean {
-  // Only enable in production
-  return !__DEV__ && Object.keys(CERTIFICATE_PINS).length > 0
+function getSslPinning(): SslPinningModule | null {
+  if (!isPinningPlatform() || !NativeModules.RNSslPinning) return null
+  try {
+    return require("react-native-ssl-pinning")
+  } catch {
+    // Reported by getCertificatePinningStatus and runSecurityChecks
+    return null
+  }
+}
+
+/**
+ * How long a mismatch counts as current: it is reported once in this window, and in
+ * report-only mode requests skip the pinned attempt until it passes
+ */
+const VERIFICATION_TTL_MS = 15 * 60 * 1000
+
+/**
+ * Pins expiring within this many days are flagged for rotation
+ */
+export const PIN_EXPIRY_WARNING_DAYS = 30
+
+/**
+ * The native module's errors for a certificate that matches none of the pins: OkHttp's
+ * CertificatePinner on Android, and the cancelled authentication challenge on iOS.
+ * Anything else is a network error and is not remembered.
+ */
+const PIN_FAILURE_PATTERN = /^(Certificate pinning failure!|cancelled$)/
+
+/**
+ * Statuses whose responses can't have a body
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+const CertificatePinsSchema = z.array(
+  z.object({
+    hostname: z.string().min(1),
+    publicKeyHashes: z.array(z.string().min(1)).min(1),
+    backupHashes: z.array(z.string().min(1)).optional(),
+    expiresAt: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional(),
+    includeSubdomains: z.boolean().optional(),
+  }),
+)
+
+/**
+ * Thrown by `pinnedFetch` (and so the `Api` client) in `enforce` mode when a host's
+ * certificate matches none of its pins
+ */
+export class CertificatePinningError extends Error {
+  name = "CertificatePinningError"
+
+  constructor(public hostname: string) {
+    super(`Certificate for ${hostname} does not match its pins`)
+  }
+}
+
+interface HostVerification {
+  passed: boolean
+  checkedAt: number
+}
+
+const verifications = new Map<string, HostVerification>()
+
+let envPinsCache: { raw: string | undefined; pins: CertificatePinConfig[] } | null = null
+
+function loadEnvPins(): CertificatePinConfig[] {
+  const raw = env.certificatePins
+  if (envPinsCache && envPinsCache.raw === raw) return envPinsCache.pins
+
+  let pins: CertificatePinConfig[] = []
+  if (raw) {
+    try {
+      const parsed = CertificatePinsSchema.safeParse(JSON.parse(raw))
+      if (parsed.success) {
+        pins = parsed.data
+      } else {
+        logger.error("[CertificatePinning] Invalid EXPO_PUBLIC_CERTIFICATE_PINS", {
+          issues: parsed.error.issues.map((issue) => issue.message),
+        })
+      }
+    } catch {
+      logger.error("[CertificatePinning] EXPO_PUBLIC_CERTIFICATE_PINS is not valid JSON")
+    }
+  }
+
+  envPinsCache = { raw, pins }
+  return pins
+}
+
+/**
+ * All configured pins. Pins from the environment replace config pins for the same host.
+ */
+export function getCertificatePinConfigs(): CertificatePinConfig[] {
+  const envPins = loadEnvPins()
+  const envHosts = new Set(envPins.map((pin) => pin.hostname))
+  return [...BaseConfig.certificatePins.filter((pin) => !envHosts.has(pin.hostname)), ...envPins]
+}
+
+/**
+ * Current mode. Defaults to `enforce` in production and `off` in development.
+ */
+export function getCertificatePinningMode(): CertificatePinningMode {
+  return env.certificatePinningMode ?? (__DEV__ ? "off" : "enforce")
+}
+
+/**
+ * Get the pin configuration that applies to a hostname
+ */
+export function getPinConfig(hostname: string): CertificatePinConfig | undefined {
+  return getCertificatePinConfigs().find(
+    (pin) =>
+      pin.hostname === hostname || (pin.includeSubdomains && hostname.endsWith(`.${pin.hostname}`)),
+  )
+}
+
+/**
+ * Whether a pin set is past its expiry date. Pins hold through the whole `expiresAt` day.
+ */
+function isExpired(pin: CertificatePinConfig, now = Date.now()): boolean {
+  return !!pin.expiresAt && now > Date.parse(`${pin.expiresAt}T23:59:59.999Z`)
 }
 
 /**
- * Get certificate pins for a domain
+ * Get the hashes a host's certificate may match (current and backup pins), or null if
+ * the host isn't pinned or its pins have expired
  */
-export function getCertificatePins(domain: string): string[] | null {
-  return CERTIFICATE_PINS[domain] || null
+export function getCertificatePins(hostname: string): string[] | null {
+  const pin = getPinConfig(hostname)
+  if (!pin || isExpired(pin)) return null
+  return [...pin.publicKeyHashes, ...(pin.backupHashes ?? [])]
+}
+
+/**
+ * Check if certificate pinning is enabled: a mode other than `off`, the native module
+ * and at least one unexpired pin
+ */
+export function isCertificatePinningEnabled(): boolean {
+  return (
+    getCertificatePinningMode() !== "off" &&
+    !!getSslPinning() &&
+    getCertificatePinConfigs().some((pin) => !isExpired(pin))
+  )
 }
 
 type CertificateHashSource =
@@ -72,28 +237,20 @@ function extractCertificateHash(certificate: CertificateHashSource): string | nu
 }
 
 /**
- * Validate certificate pin.
- *
- * In production, this should:
- * 1. Extract the certificate from the connection
- * 2. Calculate its public key hash
- * 3. Compare against known pins
- * 4. Reject connection if no match
+ * Validate a certificate hash from a pinning library against a host's current and
+ * backup pins. Hosts without (unexpired) pins, and every host while pinning is off, pass.
  */
 export async function validateCertificatePin(
   domain: string,
-  certificate: CertificateHashSource, // Certificate object or hash from pinning library
+  certificate: CertificateHashSource,
 ): Promise<boolean> {
-  if (!isCertificatePinningEnabled()) {
-    return true // Skip validation in development
+  if (getCertificatePinningMode() === "off") {
+    return true
   }
 
   const pins = getCertificatePins(domain)
-  if (!pins || pins.length === 0) {
-    logger.error("[CertificatePinning] Pinning enabled but no pins configured for domain", {
-      domain,
-    })
-    return false
+  if (!pins) {
+    return true
   }
 
   const certificateHash = extractCertificateHash(certificate)
@@ -112,21 +269,260 @@ export async function validateCertificatePin(
   return matches
 }
 
+/**
+ * Report a pin mismatch to Sentry: an error when it blocked requests, a warning in
+ * report-only mode
+ */
+function reportPinFailure(hostname: string, mode: CertificatePinningMode, reason: string): void {
+  logger.error("[CertificatePinning] Certificate hash mismatch", { domain: hostname, mode })
+  sentry.captureMessage("Certificate pin mismatch", mode === "enforce" ? "error" : "warning", {
+    tags: { hostname, pinning_mode: mode },
+    extra: { reason },
+    fingerprint: ["certificate-pin-mismatch", hostname],
+  })
+}
+
+function getHostname(url: string): string | null {
+  return /^[a-z][a-z\d+.-]*:\/\/([^/?#:]+)/i.exec(url)?.[1]?.toLowerCase() ?? null
+}
+
+function getRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === "string") return input
+  if (input instanceof URL) return input.href
+  return input.url
+}
+
+interface NativeRequest {
+  method: string
+  headers: Record<string, string>
+  body?: string | FormData
+}
+
+/**
+ * Convert a fetch call to the native module's options. Returns null for bodies the
+ * native module can't send (Blob, ArrayBuffer, streams).
+ */
+async function toNativeRequest(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+): Promise<NativeRequest | null> {
+  const request = typeof input === "string" || input instanceof URL ? null : input
+  const method = (init?.method ?? request?.method ?? "GET").toUpperCase()
+
+  const headers: Record<string, string> = {}
+  new Headers(request?.headers).forEach((value, key) => (headers[key] = value))
+  new Headers(init?.headers).forEach((value, key) => (headers[key] = value))
+
+  let body = init?.body
+  if (body === undefined && request && method !== "GET" && method !== "HEAD") {
+    try {
+      body = await request.clone().text()
+    } catch {
+      return null
+    }
+  }
+
+  if (body === undefined || body === null || body === "") return { method, headers }
+  if (typeof body === "string" || body instanceof FormData) return { method, headers, body }
+  if (body instanceof URLSearchParams) {
+    headers["content-type"] ??= "application/x-www-form-urlencoded;charset=UTF-8"
+    return { method, headers, body: body.toString() }
+  }
+  return null
+}
+
+/**
+ * Build a `Response` from the native module's result. Bodies arrive as base64 so binary
+ * responses survive; text types are decoded as UTF-8.
+ */
+function toResponse(result: SslPinningResponse): Response {
+  const headers = new Headers(result.headers)
+  if (NULL_BODY_STATUSES.includes(result.status)) {
+    return new Response(null, { status: result.status, headers })
+  }
+
+  let body: string | Uint8Array = result.bodyString ?? ""
+  if (result.data !== undefined) {
+    const bytes = Uint8Array.from(atob(result.data), (char) => char.charCodeAt(0))
+    const contentType = headers.get("content-type")
+    body =
+      !contentType || /json|text|xml|javascript|urlencoded/i.test(contentType)
+        ? new TextDecoder().decode(bytes)
+        : bytes
+  }
+  return new Response(body as BodyInit, { status: result.status, headers })
+}
+
+function abortError(): Error {
+  const error = new Error("Aborted")
+  error.name = "AbortError"
+  return error
+}
+
+/**
+ * The native request can't be cancelled, so an abort only stops waiting for it
+ */
+function withAbortSignal<T>(promise: Promise<T>, signal: AbortSignal | null | undefined) {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(abortError())
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError())
+    signal.addEventListener("abort", onAbort)
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
+
+function hasRecentFailure(hostname: string): boolean {
+  const verification = verifications.get(hostname)
+  return (
+    !!verification &&
+    !verification.passed &&
+    Date.now() - verification.checkedAt <= VERIFICATION_TTL_MS
+  )
+}
+
+/**
+ * `fetch` that pins requests to hosts with pins. Used by the Supabase client (so edge
+ * function calls are covered too) and the `Api` client.
+ *
+ * Requests to pinned hosts go through the native module, which fails the TLS handshake
+ * when the certificate matches none of the pins. Everything else, and every request on
+ * iOS, on web or in Expo Go, uses the global fetch.
+ */
+export const pinnedFetch: typeof fetch = async (input, init) => {
+  const url = getRequestUrl(input)
+  const mode = getCertificatePinningMode()
+  const hostname = getHostname(url)
+  const pins = hostname ? getCertificatePins(hostname) : null
+  const sslPinning = getSslPinning()
+  if (mode === "off" || !sslPinning || !hostname || !pins) return fetch(input, init)
+
+  if (!url.toLowerCase().startsWith("https:")) {
+    if (mode === "enforce") throw new CertificatePinningError(hostname)
+    return fetch(input, init)
+  }
+
+  if (mode === "report-only" && hasRecentFailure(hostname)) return fetch(input, init)
+
+  const nativeRequest = await toNativeRequest(input, init)
+  if (!nativeRequest) {
+    if (mode === "enforce") {
+      throw new TypeError(`Binary request bodies can't be sent to pinned host ${hostname}`)
+    }
+    return fetch(input, init)
+  }
+
+  const signal = init?.signal ?? (input instanceof Request ? input.signal : null)
+  let result: SslPinningResponse
+  try {
+    result = await withAbortSignal(
+      sslPinning.fetch(url, {
+        ...nativeRequest,
+        responseType: "base64",
+        pkPinning: true,
+        sslPinning: {
+          certs: pins.map((pin) => (pin.startsWith("sha256/") ? pin : `sha256/${pin}`)),
+        },
+      }),
+      signal,
+    )
+  } catch (error) {
+    // HTTP error statuses reject with the response; the handshake, and so the pins, passed
+    if (typeof error === "object" && error !== null && "status" in error) {
+      result = error as SslPinningResponse
+    } else {
+      if (error instanceof Error) throw error
+
+      const reason = String(error)
+      if (!PIN_FAILURE_PATTERN.test(reason)) {
+        throw new TypeError(`Network request failed: ${reason}`)
+      }
+
+      if (!hasRecentFailure(hostname)) {
+        reportPinFailure(hostname, mode, reason)
+        verifications.set(hostname, { passed: false, checkedAt: Date.now() })
+      }
+
+      if (mode === "enforce") throw new CertificatePinningError(hostname)
+      return fetch(input, init)
+    }
+  }
+
+  verifications.set(hostname, { passed: true, checkedAt: Date.now() })
+  return toResponse(result)
+}
+
+/**
+ * Forget recorded mismatches, e.g. after joining another network
+ */
+export function clearCertificatePinCache(): void {
+  verifications.clear()
+}
+
+/**
+ * What is actually being checked, for `runSecurityChecks`
+ */
+export function getCertificatePinningStatus(): CertificatePinningStatus {
+  const now = Date.now()
+  const warningWindow = PIN_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000
+  const configs = getCertificatePinConfigs()
+  const active = configs.filter((pin) => !isExpired(pin, now))
+
+  return {
+    mode: getCertificatePinningMode(),
+    platformSupported: isPinningPlatform(),
+    nativeModuleAvailable: !!getSslPinning(),
+    pinnedHosts: active.map((pin) => pin.hostname),
+    expiredHosts: configs.filter((pin) => isExpired(pin, now)).map((pin) => pin.hostname),
+    expiringHosts: active
+      .filter((pin) => pin.expiresAt && isExpired(pin, now + warningWindow))
+      .map((pin) => pin.hostname),
+    failedHosts: [...verifications.entries()]
+      .filter(([, verification]) => !verification.passed)
+      .map(([hostname]) => hostname),
+  }
+}
+
 /**
  * Initialize certificate pinning
  * Call this during app initialization
  */
 export function initializeCertificatePinning(): void {
+  const status = getCertificatePinningStatus()
+
   if (isCertificatePinningEnabled()) {
     logger.info("[CertificatePinning] Certificate pinning enabled", {
-      domains: Object.keys(CERTIFICATE_PINS),
+      mode: status.mode,
+      domains: status.pinnedHosts,
     })
-  } else {
+  } else if (status.mode === "off") {
     if (__DEV__) {
       logger.debug("[CertificatePinning] Certificate pinning disabled (development mode)")
     } else {
-      logger.warn("[CertificatePinning] Certificate pinning disabled - no pins configured")
+      logger.warn("[CertificatePinning] Certificate pinning turned off")
     }
+  } else if (!status.platformSupported) {
+    logger.warn(
+      `[CertificatePinning] Certificate pinning is not supported on ${Platform.OS} - requests are not pinned`,
+    )
+  } else if (!status.nativeModuleAvailable) {
+    logger.warn(
+      "[CertificatePinning] Certificate pinning unavailable (Expo Go?) - requests are not pinned",
+    )
+  } else {
+    logger.warn("[CertificatePinning] Certificate pinning disabled - no pins configured")
+  }
+
+  if (status.expiredHosts.length > 0) {
+    logger.warn("[CertificatePinning] Pins expired and are no longer checked", {
+      domains: status.expiredHosts,
+    })
+  }
+  if (status.expiringHosts.length > 0) {
+    logger.warn("[CertificatePinning] Pins expire soon - ship rotated pins", {
+      domains: status.expiringHosts,
+    })
   }
 }
 
@@ -136,7 +532,11 @@ export function initializeCertificatePinning(): void {
  */
 export const certificatePinning = {
   isEnabled: isCertificatePinningEnabled,
+  getMode: getCertificatePinningMode,
   getPins: getCertificatePins,
+  getStatus: getCertificatePinningStatus,
   validate: validateCertificatePin,
+  fetch: pinnedFetch,
+  clearCache: clearCertificatePinCache,
   initialize: initializeCertificatePinning,
 }
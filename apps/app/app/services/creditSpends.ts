@@ -0,0 +1,72 @@
+/**
+ * Credit Spends Service
+ *
+ * Records credits spent from consumable purchases in the credit_spends table. RevenueCat
+ * only knows what was bought, so the app subtracts these spends from each purchase's grant
+ * and spent credits stay spent after a reinstall or on another device.
+ */
+
+import { supabase } from "./supabase"
+import { logger } from "../utils/Logger"
+
+/** Credits spent by transaction ID */
+export type CreditSpends = Record<string, number>
+
+/**
+ * Record credits the user spent, by the transaction they were drawn from
+ */
+export async function recordCreditSpends(
+  userId: string,
+  spends: CreditSpends,
+): Promise<{ error?: Error }> {
+  const rows = Object.entries(spends)
+    .filter(([, amount]) => amount > 0)
+    .map(([transactionId, amount]) => ({
+      user_id: userId,
+      transaction_id: transactionId,
+      amount,
+    }))
+  if (rows.length === 0) return {}
+
+  try {
+    const { error } = await supabase.from("credit_spends").insert(rows)
+
+    if (error) {
+      logger.debug("Failed to record credit spends", { error: error.message })
+      return { error: new Error(error.message) }
+    }
+
+    return {}
+  } catch (error) {
+    logger.debug("Error recording credit spends", { error })
+    return { error: error as Error }
+  }
+}
+
+/**
+ * Fetch the total the user has spent from each transaction, on any device
+ */
+export async function fetchCreditSpends(
+  userId: string,
+): Promise<{ spends: CreditSpends; error?: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from("credit_spends")
+      .select("transaction_id, amount")
+      .eq("user_id", userId)
+
+    if (error) {
+      logger.debug("Failed to fetch credit spends", { error: error.message })
+      return { spends: {}, error: new Error(error.message) }
+    }
+
+    const spends: CreditSpends = {}
+    for (const row of data ?? []) {
+      spends[row.transaction_id] = (spends[row.transaction_id] ?? 0) + row.amount
+    }
+    return { spends }
+  } catch (error) {
+    logger.debug("Error fetching credit spends", { error })
+    return { spends: {}, error: error as Error }
+  }
+}
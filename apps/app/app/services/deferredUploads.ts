@@ -0,0 +1,51 @@
+/**
+ * Deferred Uploads
+ *
+ * Files a FilePicker held back for a better connection (see `shouldDeferUpload`). They are
+ * stored on disk under the picker's `uploadQueueKey`, so a picker mounted after a restart
+ * still uploads them once the connection allows.
+ *
+ * - Only the file's URI and metadata are stored; a file the OS has since removed from the
+ *   picker's cache fails its upload like any other unreadable file
+ * - The queue belongs to the signed-in user and is cleared on sign out
+ */
+
+import * as storage from "../utils/storage"
+
+const DEFERRED_UPLOADS_STORAGE_KEY = "shipnative.deferredUploads"
+
+export interface DeferredUpload {
+  uri: string
+  name: string
+  type: string
+  size?: number
+}
+
+function loadQueues(): Record<string, DeferredUpload[]> {
+  return storage.load<Record<string, DeferredUpload[]>>(DEFERRED_UPLOADS_STORAGE_KEY) ?? {}
+}
+
+/**
+ * Files waiting in a picker's queue, oldest first
+ */
+export function loadDeferredUploads(queueKey: string): DeferredUpload[] {
+  return loadQueues()[queueKey] ?? []
+}
+
+/**
+ * Replace a picker's queue; an empty list removes it
+ */
+export function saveDeferredUploads(queueKey: string, uploads: DeferredUpload[]): void {
+  const { [queueKey]: _previous, ...queues } = loadQueues()
+  storage.save(
+    DEFERRED_UPLOADS_STORAGE_KEY,
+    uploads.length > 0 ? { ...queues, [queueKey]: uploads } : queues,
+  )
+}
+
+/**
+ * Drop every queued upload, e.g. on sign out
+ */
+export function clearDeferredUploads(): void {
+  storage.remove(DEFERRED_UPLOADS_STORAGE_KEY)
+}
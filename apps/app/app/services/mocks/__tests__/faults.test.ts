@@ -0,0 +1,167 @@
+/**
+ * Mock Fault Injection Tests
+ *
+ * Tests for rule matching, one-shot failures, latency, timeouts and simulated offline
+ * mode across the mock services
+ */
+
+import { AuthRetryableFetchError } from "@supabase/supabase-js"
+
+import { retryWithBackoff } from "../../../utils/ErrorHandler"
+import { mockFaults, NETWORK_ERROR_MESSAGE } from "../faults"
+import { MockPostHog } from "../posthog"
+import { mockRevenueCat } from "../revenueCat"
+import { createMockSupabaseClient, mockSupabaseHelpers } from "../supabase"
+
+describe("mockFaults", () => {
+  afterEach(() => {
+    mockFaults.reset()
+    jest.restoreAllMocks()
+  })
+
+  describe("rules", () => {
+    it("fails the next N matching calls, then passes", async () => {
+      mockFaults.failNext("supabase.auth.signUp", 2)
+
+      expect((await mockFaults.run("supabase.auth.signUp"))?.message).toBe(NETWORK_ERROR_MESSAGE)
+      expect(await mockFaults.run("supabase.auth.signInWithPassword")).toBeNull()
+      expect(await mockFaults.run("supabase.auth.signUp")).not.toBeNull()
+      expect(await mockFaults.run("supabase.auth.signUp")).toBeNull()
+      expect(mockFaults.getRules()).toEqual([])
+    })
+
+    it("uses the most specific matching pattern", () => {
+      mockFaults.setRule("supabase.database.*", { error: "broad" })
+      mockFaults.setRule("supabase.database.profiles.*", { error: "profiles" })
+
+      expect(mockFaults.check("supabase.database.profiles.select")?.message).toBe("profiles")
+      expect(mockFaults.check("supabase.database.todos.insert")?.message).toBe("broad")
+      expect(mockFaults.check("supabase.rpc.get_stats")).toBeNull()
+    })
+
+    it("applies a rule only as often as its probability", () => {
+      mockFaults.setRule("revenuecat.*", { probability: 0.3 })
+      const random = jest.spyOn(Math, "random")
+
+      random.mockReturnValue(0.5)
+      expect(mockFaults.check("revenuecat.getOfferings")).toBeNull()
+      random.mockReturnValue(0.1)
+      expect(mockFaults.check("revenuecat.getOfferings")).not.toBeNull()
+    })
+
+    it("adds latency without failing for latency-only rules", async () => {
+      mockFaults.setRule("supabase.rpc.*", { latency: 40 })
+
+      const start = Date.now()
+      const error = await mockFaults.run("supabase.rpc.get_stats")
+
+      expect(error).toBeNull()
+      expect(Date.now() - start).toBeGreaterThanOrEqual(35)
+    })
+
+    it("fails with a TimeoutError after the timeout", async () => {
+      mockFaults.setRule("supabase.functions.*", { timeout: 20 })
+
+      const error = await mockFaults.run("supabase.functions.delete-user")
+
+      expect(error?.name).toBe("TimeoutError")
+      expect(error?.message).toBe("Request timeout after 20ms")
+    })
+
+    it("replaces and clears rules by pattern", () => {
+      mockFaults.setRule("posthog.*", { error: "first" })
+      mockFaults.setRule("posthog.*", { error: "second" })
+      mockFaults.setRule("sentry.*")
+
+      expect(mockFaults.getRules()).toHaveLength(2)
+      expect(mockFaults.check("posthog.track")?.message).toBe("second")
+
+      mockFaults.clearRules("posthog.*")
+      expect(mockFaults.getRules().map((rule) => rule.pattern)).toEqual(["sentry.*"])
+    })
+  })
+
+  describe("offline", () => {
+    it("notifies listeners when the connection changes", () => {
+      const listener = jest.fn()
+      const unsubscribe = mockFaults.addOfflineListener(listener)
+
+      mockFaults.setOffline(true)
+      mockFaults.setOffline(true)
+      mockFaults.setOffline(false)
+      unsubscribe()
+      mockFaults.setOffline(true)
+
+      expect(listener.mock.calls).toEqual([[true], [false]])
+    })
+
+    it("fails Supabase auth with a retryable fetch error", async () => {
+      const client = createMockSupabaseClient()
+      mockFaults.setOffline(true)
+
+      const { data, error } = await client.auth.signInWithPassword({
+        email: "offline@example.com",
+        password: "password123",
+      })
+
+      expect(data.user).toBeNull()
+      expect(error).toBeInstanceOf(AuthRetryableFetchError)
+      expect(error?.message).toBe(NETWORK_ERROR_MESSAGE)
+    })
+
+    it("fails database queries with a PostgREST-shaped error", async () => {
+      const client = createMockSupabaseClient()
+      mockFaults.setOffline(true)
+
+      const { data, error } = await client.from("profiles").select("*")
+
+      expect(data).toBeNull()
+      expect(error).toMatchObject({ message: NETWORK_ERROR_MESSAGE, code: "" })
+    })
+
+    it("makes RevenueCat throw and PostHog drop events", async () => {
+      const posthog = new MockPostHog({ apiKey: "test" })
+      mockFaults.setOffline(true)
+
+      posthog.track("offline_event")
+      await expect(mockRevenueCat.getCustomerInfo()).rejects.toThrow(NETWORK_ERROR_MESSAGE)
+      expect(posthog.getEvents()).toHaveLength(0)
+
+      mockFaults.setOffline(false)
+      posthog.track("online_event")
+      expect(posthog.getEvents().map((event) => event.name)).toEqual(["online_event"])
+    })
+  })
+
+  describe("mock service integration", () => {
+    it("routes simulateError through the fault layer", async () => {
+      const client = createMockSupabaseClient()
+      mockSupabaseHelpers.simulateError("auth", "signIn", new Error("Invalid login credentials"))
+      mockFaults.setRule("revenuecat.*", { latency: 10 })
+
+      expect(mockFaults.getRules()[0].pattern).toBe("supabase.auth.signInWithPassword")
+      const { error } = await client.auth.signInWithPassword({
+        email: "user@example.com",
+        password: "password123",
+      })
+      expect(error?.message).toBe("Invalid login credentials")
+      expect(mockSupabaseHelpers.getSimulatedError("auth", "signIn")?.message).toBe(
+        "Invalid login credentials",
+      )
+
+      mockSupabaseHelpers.clearSimulatedErrors()
+      expect(mockFaults.getRules().map((rule) => rule.pattern)).toEqual(["revenuecat.*"])
+    })
+
+    it("lets retryWithBackoff recover from transient failures", async () => {
+      mockFaults.failNext("revenuecat.getCustomerInfo", 2)
+      const operation = jest.fn(() => mockRevenueCat.getCustomerInfo())
+
+      const { data, error } = await retryWithBackoff(operation, 3, 10)
+
+      expect(error).toBeUndefined()
+      expect(data?.originalAppUserId).toBeDefined()
+      expect(operation).toHaveBeenCalledTimes(3)
+    })
+  })
+})
@@ -0,0 +1,569 @@
+/**
+ * Mock RevenueCat Tests
+ *
+ * Tests for the mock subscription lifecycle: trials, renewals, cancellation, billing
+ * retry and grace periods on the mock clock, as seen through subscriptionStore, for
+ * multiple entitlements and offerings, for product changes, promotional offers and
+ * offer codes, for consumable and non-consumable purchases, and against the server-side
+ * subscriptions mirror and credit spends
+ */
+
+import { waitFor } from "@testing-library/react-native"
+
+import { ENTITLEMENTS } from "../../../config/constants"
+import { useAuthStore } from "../../../stores/auth"
+import { useSubscriptionStore } from "../../../stores/subscriptionStore"
+import type { PricingPackage, SubscriptionLifecycleEvent } from "../../../types/subscription"
+import {
+  formatExpirationStatus,
+  isExpiringWithin,
+  isInGracePeriod,
+} from "../../../utils/subscriptionHelpers"
+import { revenueCat } from "../../revenuecat"
+import { mockRevenueCat } from "../revenueCat"
+import { mockSupabaseHelpers } from "../supabase"
+import { createMockSession, createMockUser } from "../supabase/helpers"
+import { sharedState } from "../supabase/types"
+
+const MONTHLY_WITH_TRIAL = {
+  identifier: "monthly",
+  packageType: "MONTHLY",
+  product: { identifier: "pro_monthly", freeTrialPeriod: { value: 7, unit: "DAY" } },
+}
+
+describe("MockRevenueCat lifecycle", () => {
+  let events: SubscriptionLifecycleEvent[]
+  let unsubscribe: () => void
+
+  const info = () => useSubscriptionStore.getState().customerInfo!
+
+  beforeEach(() => {
+    mockRevenueCat.reset()
+    useSubscriptionStore.setState({ customerInfo: null, isPro: false, lifecycleListeners: [] })
+
+    events = []
+    useSubscriptionStore.getState().addLifecycleListener((event) => events.push(event.event))
+    unsubscribe = revenueCat.addSubscriptionUpdateListener!((subscriptionInfo) =>
+      useSubscriptionStore.getState().setCustomerInfo(subscriptionInfo),
+    )
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  it("starts a trial, converts it and renews", async () => {
+    await mockRevenueCat.purchasePackage(MONTHLY_WITH_TRIAL)
+    expect(info()).toMatchObject({ isActive: true, isTrial: true })
+
+    mockRevenueCat.advanceTime(7)
+    expect(info()).toMatchObject({ isActive: true, isTrial: false })
+
+    mockRevenueCat.advanceTime(31)
+    expect(events).toEqual(["trial_started", "trial_converted", "subscription_renewed"])
+    expect(useSubscriptionStore.getState().isPro).toBe(true)
+  })
+
+  it("offers the trial only once", async () => {
+    await mockRevenueCat.purchasePackage(MONTHLY_WITH_TRIAL)
+    mockRevenueCat.setProStatus(false)
+    await mockRevenueCat.purchasePackage(MONTHLY_WITH_TRIAL)
+
+    expect(info().isTrial).toBe(false)
+  })
+
+  it("applies every renewal that falls due in one jump", () => {
+    mockRevenueCat.setProStatus(true)
+    const firstExpiry = new Date(info().expirationDate!)
+
+    mockRevenueCat.advanceTime(95)
+
+    expect(events).toEqual([
+      "subscription_started",
+      "subscription_renewed",
+      "subscription_renewed",
+      "subscription_renewed",
+    ])
+    expect(new Date(info().expirationDate!).getUTCMonth()).toBe(
+      (firstExpiry.getUTCMonth() + 3) % 12,
+    )
+  })
+
+  it("keeps a cancelled subscription until the period ends", () => {
+    mockRevenueCat.setProStatus(true)
+    mockRevenueCat.cancelSubscription()
+    expect(info()).toMatchObject({ isActive: true, willRenew: false })
+
+    mockRevenueCat.advanceTime(26)
+    expect(isExpiringWithin(info(), 7, mockRevenueCat.now())).toBe(true)
+    expect(formatExpirationStatus(info(), "en-US", mockRevenueCat.now())).toMatch(/^Expires in/)
+
+    mockRevenueCat.advanceTime(6)
+    expect(events).toEqual([
+      "subscription_started",
+      "subscription_cancelled",
+      "subscription_expired",
+    ])
+    expect(mockRevenueCat.getIsPro()).toBe(false)
+  })
+
+  it("raises a billing issue, holds a grace period, then expires", () => {
+    mockRevenueCat.setProStatus(true)
+    mockRevenueCat.setBillingIssue(true)
+
+    mockRevenueCat.advanceTime(32)
+    expect(info().isActive).toBe(true)
+    expect(info().billingIssueDetectedAt).toBeTruthy()
+    expect(isInGracePeriod(info(), mockRevenueCat.now())).toBe(true)
+
+    mockRevenueCat.advanceTime(16)
+    expect(events).toEqual(["subscription_started", "billing_issue", "subscription_expired"])
+    expect(isInGracePeriod(info(), mockRevenueCat.now())).toBe(false)
+    expect(useSubscriptionStore.getState().isPro).toBe(false)
+  })
+
+  it("renews as soon as billing is fixed during the retry window", () => {
+    mockRevenueCat.setProStatus(true)
+    mockRevenueCat.setBillingIssue(true)
+    mockRevenueCat.advanceTime(50)
+    expect(info().isActive).toBe(false)
+
+    mockRevenueCat.setBillingIssue(false)
+
+    expect(events).toEqual([
+      "subscription_started",
+      "billing_issue",
+      "subscription_expired",
+      "subscription_restored",
+    ])
+    expect(info()).toMatchObject({ isActive: true, billingIssueDetectedAt: null })
+  })
+
+  it("stops retrying billing after the retry window", () => {
+    mockRevenueCat.setProStatus(true)
+    mockRevenueCat.setBillingIssue(true)
+    mockRevenueCat.advanceTime(100)
+
+    mockRevenueCat.setBillingIssue(false)
+
+    expect(info().isActive).toBe(false)
+    expect(events).not.toContain("subscription_restored")
+  })
+
+  it("stops pushing updates to removed listeners", () => {
+    const listener = jest.fn()
+    const remove = mockRevenueCat.addCustomerInfoUpdateListener(listener)
+    remove()
+
+    mockRevenueCat.setProStatus(true)
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("MockRevenueCat entitlements and offerings", () => {
+  let unsubscribe: () => void
+
+  const store = () => useSubscriptionStore.getState()
+
+  beforeEach(() => {
+    mockRevenueCat.reset()
+    useSubscriptionStore.setState({ customerInfo: null, isPro: false, lifecycleListeners: [] })
+    unsubscribe = revenueCat.addSubscriptionUpdateListener!((subscriptionInfo) =>
+      store().setCustomerInfo(subscriptionInfo),
+    )
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  it("fetches named offerings through the service", async () => {
+    const experiment = await revenueCat.getOffering("annual_bundle")
+
+    expect(experiment?.packages.map((pkg) => pkg.identifier)).toEqual(["annual", "bundle_annual"])
+    expect(experiment?.metadata).toEqual({ highlight: "bundle_annual" })
+    expect(await revenueCat.getOffering("missing")).toBeNull()
+  })
+
+  it("unlocks an add-on entitlement without pro", async () => {
+    const offering = await revenueCat.getOffering("storage_plus")
+    await revenueCat.purchasePackage(offering!.packages[0])
+
+    expect(store().hasEntitlement(ENTITLEMENTS.STORAGE_PLUS)).toBe(true)
+    expect(store().customerInfo?.entitlements).toEqual([ENTITLEMENTS.STORAGE_PLUS])
+    expect(store().isPro).toBe(false)
+  })
+
+  it("unlocks every entitlement of a bundle product", async () => {
+    const offering = await revenueCat.getOffering("annual_bundle")
+    await revenueCat.purchasePackage(offering!.packages[1])
+
+    expect(store().customerInfo?.entitlements).toEqual([
+      ENTITLEMENTS.PRO,
+      ENTITLEMENTS.STORAGE_PLUS,
+    ])
+    expect(store().isPro).toBe(true)
+  })
+
+  it("expires entitlements independently", () => {
+    mockRevenueCat.setEntitlement(ENTITLEMENTS.PRO, true)
+    mockRevenueCat.setEntitlement(ENTITLEMENTS.STORAGE_PLUS, true)
+
+    mockRevenueCat.cancelSubscription("storage_plus_monthly")
+    mockRevenueCat.advanceTime(32)
+
+    expect(store().customerInfo?.entitlements).toEqual([ENTITLEMENTS.PRO])
+    expect(mockRevenueCat.hasEntitlement(ENTITLEMENTS.STORAGE_PLUS)).toBe(false)
+    expect(store().isPro).toBe(true)
+  })
+
+  it("loads a named offering into the store's packages", async () => {
+    await store().fetchPackages("storage_plus")
+
+    expect(store().packages.map((pkg) => pkg.platformData)).toEqual([
+      expect.objectContaining({ offeringIdentifier: "storage_plus" }),
+    ])
+  })
+})
+
+describe("MockRevenueCat product changes and offers", () => {
+  let monthly: PricingPackage
+  let annual: PricingPackage
+  let unsubscribe: () => void
+
+  const DAY_MS = 24 * 60 * 60 * 1000
+  const info = () => useSubscriptionStore.getState().customerInfo!
+  const daysUntilExpiry = () =>
+    (new Date(info().expirationDate!).getTime() - mockRevenueCat.now().getTime()) / DAY_MS
+
+  beforeEach(async () => {
+    mockRevenueCat.reset()
+    useSubscriptionStore.setState({ customerInfo: null, isPro: false, lifecycleListeners: [] })
+    unsubscribe = revenueCat.addSubscriptionUpdateListener!((subscriptionInfo) =>
+      useSubscriptionStore.getState().setCustomerInfo(subscriptionInfo),
+    )
+    ;[monthly, annual] = await revenueCat.getPackages()
+
+    // Ten days into a paid monthly subscription
+    mockRevenueCat.setProStatus(true)
+    mockRevenueCat.advanceTime(10)
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  it("credits unused time on the old plan as time on the new one", async () => {
+    const result = await revenueCat.purchasePackage(annual, {
+      productChange: { oldProductId: "pro_monthly" },
+    })
+
+    expect(result.error).toBeUndefined()
+    expect(info()).toMatchObject({ productId: "pro_annual", isActive: true, isTrial: false })
+    // About two thirds of $9.99 buys roughly 24 days at the annual rate
+    expect(daysUntilExpiry()).toBeGreaterThan(23)
+    expect(daysUntilExpiry()).toBeLessThan(25)
+  })
+
+  it("charges a full period and adds the credit when asked to", async () => {
+    const result = await mockRevenueCat.purchasePackage(annual.platformData, {
+      oldProductId: "pro_monthly",
+      prorationMode: "immediate_and_charge_full_price",
+    })
+
+    expect(result.transaction.price).toBe(99.99)
+    expect(daysUntilExpiry()).toBeGreaterThan(365 + 23)
+    expect(daysUntilExpiry()).toBeLessThan(366 + 25)
+  })
+
+  it("keeps the old plan until renewal for a deferred change", async () => {
+    const renewal = info().expirationDate
+
+    const result = await mockRevenueCat.purchasePackage(annual.platformData, {
+      oldProductId: "pro_monthly",
+      prorationMode: "deferred",
+    })
+    expect(result.transaction.price).toBe(0)
+    expect(info()).toMatchObject({ productId: "pro_monthly", expirationDate: renewal })
+
+    mockRevenueCat.advanceTime(25)
+
+    const switchedAt = new Date(renewal!)
+    switchedAt.setUTCFullYear(switchedAt.getUTCFullYear() + 1)
+    expect(info()).toMatchObject({
+      productId: "pro_annual",
+      expirationDate: switchedAt.toISOString(),
+    })
+  })
+
+  it("defers crossgrades to a different period and applies upgrades at once", async () => {
+    await revenueCat.purchasePackage(annual)
+    expect(info().productId).toBe("pro_monthly")
+
+    const offering = await revenueCat.getOffering("annual_bundle")
+    await revenueCat.purchasePackage(offering!.packages[1])
+    expect(info()).toMatchObject({ productId: "pro_storage_annual", isActive: true })
+    expect(info().entitlements).toEqual([ENTITLEMENTS.PRO, ENTITLEMENTS.STORAGE_PLUS])
+  })
+
+  it("rejects a change from a product the customer isn't subscribed to", async () => {
+    const result = await revenueCat.purchasePackage(monthly, {
+      productChange: { oldProductId: "pro_annual" },
+    })
+
+    expect(result.error?.message).toBe("No active subscription to pro_annual")
+    expect(info().productId).toBe("pro_monthly")
+  })
+
+  it("signs only the offers the customer is eligible for", async () => {
+    expect(await revenueCat.getPromotionalOffers!(monthly)).toEqual([])
+    const [upgradeOffer] = await revenueCat.getPromotionalOffers!(annual)
+    expect(upgradeOffer).toMatchObject({ identifier: "upgrade_annual", price: 79.99 })
+
+    const result = await mockRevenueCat.purchaseDiscountedPackage(
+      annual.platformData,
+      upgradeOffer.platformData,
+    )
+
+    expect(result.transaction.price).toBe(79.99)
+    expect(info()).toMatchObject({ productId: "pro_annual", isActive: true })
+  })
+
+  it("offers a win-back discount once the subscription lapses", async () => {
+    mockRevenueCat.cancelSubscription()
+    mockRevenueCat.advanceTime(30)
+    expect(info().isActive).toBe(false)
+
+    const [winBack] = await revenueCat.getPromotionalOffers!(monthly)
+    expect(winBack).toMatchObject({ identifier: "winback_monthly", cycles: 3 })
+
+    const tampered = { ...(winBack.platformData as object), signature: "forged" }
+    const rejected = await revenueCat.purchasePackage(monthly, {
+      promotionalOffer: { ...winBack, platformData: tampered },
+    })
+    expect(rejected.error?.message).toBe("Invalid promotional offer signature")
+
+    await revenueCat.purchasePackage(monthly, { promotionalOffer: winBack })
+    expect(info()).toMatchObject({ productId: "pro_monthly", isActive: true, isTrial: false })
+  })
+
+  it("redeems an offer code once, for new subscribers only", async () => {
+    expect((await revenueCat.redeemOfferCode!("FREEMONTH")).error?.message).toBe(
+      "Offer code is only available to new subscribers",
+    )
+
+    mockRevenueCat.setProStatus(false)
+    const redeemed = await revenueCat.redeemOfferCode!("freemonth")
+    expect(redeemed.error).toBeUndefined()
+    expect(redeemed.subscriptionInfo).toMatchObject({ productId: "pro_monthly", isActive: true })
+
+    mockRevenueCat.setProStatus(false)
+    expect((await revenueCat.redeemOfferCode!("FREEMONTH")).error?.message).toBe(
+      "Offer code has already been redeemed",
+    )
+    expect((await revenueCat.redeemOfferCode!("NOPE")).error?.message).toBe("Invalid offer code")
+  })
+})
+
+describe("MockRevenueCat one-time purchases", () => {
+  let credits100: PricingPackage
+  let credits500: PricingPackage
+  let lifetime: PricingPackage
+  let unsubscribe: () => void
+
+  const store = () => useSubscriptionStore.getState()
+
+  beforeEach(async () => {
+    mockRevenueCat.reset()
+    useSubscriptionStore.setState({
+      customerInfo: null,
+      isPro: false,
+      credits: 0,
+      creditLedgers: {},
+      lifecycleListeners: [],
+    })
+    unsubscribe = revenueCat.addSubscriptionUpdateListener!((subscriptionInfo) =>
+      store().setCustomerInfo(subscriptionInfo),
+    )
+    ;[credits100, credits500] = (await revenueCat.getOffering("credits"))!.packages
+    ;[lifetime] = (await revenueCat.getOffering("lifetime"))!.packages
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  it("buys credit packs repeatedly and credits each one once", async () => {
+    expect(credits100).toMatchObject({ productType: "consumable", billingPeriod: "one_time" })
+
+    const first = await store().purchasePackage(credits100)
+    await store().purchasePackage(credits100)
+    await store().purchasePackage(credits500)
+
+    expect(first.transaction).toMatchObject({ productId: "credits_100" })
+    expect(store().credits).toBe(700)
+    expect(store().customerInfo!.nonSubscriptionTransactions).toHaveLength(3)
+    expect(store().isPro).toBe(false)
+
+    // Fetching the same purchase history again doesn't credit it twice
+    store().setCustomerInfo(await revenueCat.getSubscriptionInfo())
+    expect(store().credits).toBe(700)
+  })
+
+  it("spends credits only when the balance covers them", async () => {
+    await store().purchasePackage(credits100)
+
+    expect(store().consumeCredits(60)).toBe(true)
+    expect(store().consumeCredits(60)).toBe(false)
+    expect(store().credits).toBe(40)
+  })
+
+  it("takes back the credits of a refunded pack", async () => {
+    const { transaction } = await store().purchasePackage(credits500)
+    await store().purchasePackage(credits100)
+    store().consumeCredits(450)
+
+    mockRevenueCat.refundTransaction(transaction!.transactionId)
+
+    expect(store().customerInfo!.nonSubscriptionTransactions).toHaveLength(1)
+    expect(store().credits).toBe(0)
+  })
+
+  it("keeps spent credits spent when the user signs out and back in", async () => {
+    const jane = createMockUser("jane@example.com")
+    const sam = createMockUser("sam@example.com")
+    useAuthStore.setState({ user: jane })
+    await store().purchasePackage(credits100)
+    store().consumeCredits(60)
+
+    await useAuthStore.getState().signOut()
+
+    expect(store().credits).toBe(0)
+
+    // Another user's spending comes out of their own ledger
+    useAuthStore.setState({ user: sam })
+    store().setCustomerInfo(await revenueCat.getSubscriptionInfo())
+    store().consumeCredits(100)
+    await useAuthStore.getState().signOut()
+
+    useAuthStore.setState({ user: jane })
+    store().setCustomerInfo(await revenueCat.getSubscriptionInfo())
+
+    expect(store().credits).toBe(40)
+  })
+
+  it("forgets a deleted account's credits", async () => {
+    const jane = createMockUser("jane@example.com")
+    useAuthStore.setState({ user: jane })
+    await store().purchasePackage(credits100)
+    store().consumeCredits(60)
+
+    store().resetCredits({ deleteLedgerOf: jane.id })
+
+    expect(store().credits).toBe(0)
+    expect(store().creditLedgers).not.toHaveProperty(jane.id)
+  })
+
+  it("unlocks pro for life and can only be bought once", async () => {
+    await store().purchasePackage(lifetime)
+
+    expect(store().isPro).toBe(true)
+    expect(store().customerInfo).toMatchObject({
+      isActive: true,
+      expirationDate: null,
+      productId: "pro_lifetime",
+    })
+
+    const again = await store().purchasePackage(lifetime)
+    expect(again.error?.message).toBe("This product is already active for the user.")
+
+    // Time passing never expires it
+    mockRevenueCat.advanceTime(400)
+    expect(store().isPro).toBe(true)
+  })
+
+  it("restores the lifetime unlock on a fresh install", async () => {
+    await store().purchasePackage(lifetime)
+    useSubscriptionStore.setState({ customerInfo: null, isPro: false })
+
+    const result = await store().restorePurchases()
+
+    expect(result.error).toBeUndefined()
+    expect(store().isPro).toBe(true)
+  })
+})
+
+describe("subscriptionStore server mirror", () => {
+  const user = createMockUser("jane@example.com")
+  const store = () => useSubscriptionStore.getState()
+  const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+
+  const mirrorPro = (expiresAt: string) =>
+    mockSupabaseHelpers.seedTable("subscriptions", [
+      {
+        id: "a0e1b2c3-d4e5-4f60-8172-839405a6b7c8",
+        user_id: user.id,
+        product_id: "pro_monthly",
+        entitlements: [ENTITLEMENTS.PRO],
+        status: "active",
+        expires_at: expiresAt,
+        grace_period_expires_at: null,
+      },
+    ])
+
+  beforeEach(async () => {
+    mockRevenueCat.reset()
+    await mockSupabaseHelpers.clearAll()
+    sharedState.currentSession = createMockSession(user)
+    useAuthStore.setState({ user })
+    useSubscriptionStore.setState({ customerInfo: null, isPro: false, serverSubscriptions: [] })
+  })
+
+  afterEach(() => {
+    useAuthStore.setState({ user: null })
+  })
+
+  it("refreshes from RevenueCat when the server knows about a purchase the device missed", async () => {
+    mockRevenueCat.setProStatus(true)
+    await mirrorPro(inDays(30))
+
+    const result = await store().reconcileWithServer()
+
+    expect(result).toEqual({ inSync: true })
+    expect(store().isPro).toBe(true)
+    expect(store().serverSubscriptions).toHaveLength(1)
+  })
+
+  it("keeps RevenueCat's answer when the mirror disagrees", async () => {
+    await mirrorPro(inDays(30))
+
+    const result = await store().reconcileWithServer()
+
+    expect(result).toEqual({ inSync: false })
+    expect(store().isPro).toBe(false)
+  })
+
+  it("ignores lapsed mirror rows and users who never bought anything", async () => {
+    expect(await store().reconcileWithServer()).toEqual({ inSync: true })
+
+    await mirrorPro(inDays(-1))
+    expect(await store().reconcileWithServer()).toEqual({ inSync: true })
+  })
+
+  it("keeps credits spent before a reinstall spent", async () => {
+    useSubscriptionStore.setState({ credits: 0, creditLedgers: {} })
+    const [credits100] = (await revenueCat.getOffering("credits"))!.packages
+    await store().purchasePackage(credits100)
+    store().consumeCredits(60)
+    await waitFor(() => expect(sharedState.mockDatabase.get("credit_spends")?.size).toBe(1))
+
+    // A new install starts with an empty ledger and RevenueCat's purchase history
+    useSubscriptionStore.setState({ customerInfo: null, credits: 0, creditLedgers: {} })
+    store().setCustomerInfo(await revenueCat.getSubscriptionInfo())
+    await store().syncCreditSpends()
+
+    expect(store().credits).toBe(40)
+    expect(store().consumeCredits(50)).toBe(false)
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Mock Fault Injection
+ *
+ * Shared failure and latency rules consulted by every mock service. Rules are keyed by
+ * operation patterns such as `supabase.auth.signInWithPassword`,
+ * `supabase.database.profiles.*` or `revenuecat.purchasePackage`, where `*` matches any
+ * run of characters. Going offline fails every mock call and makes `networkMonitor`
+ * report no connection, so retry paths and offline UIs can be exercised in mock mode.
+ *
+ * Operation names:
+ * - supabase.auth.<method>, supabase.database.<table>.<select|insert|update|upsert|delete>,
+ *   supabase.rpc.<fn>, supabase.storage.<bucket>.<method>, supabase.storage.<method>
+ *   (bucket management), supabase.functions.<name>, supabase.realtime.<subscribe|send|track>
+ * - revenuecat.<method>, posthog.<track|screen|identify|flush>,
+ *   sentry.<captureException|captureMessage|close>
+ */
+
+import { logger } from "../../utils/Logger"
+
+export interface FaultRule {
+  /** Error the call fails with. Defaults to a network error. */
+  error?: Error | string
+  /** Chance between 0 and 1 that the rule applies to a call. Defaults to 1. */
+  probability?: number
+  /** Milliseconds added before the call completes */
+  latency?: number
+  /** The call hangs for this many milliseconds, then fails with a `TimeoutError` */
+  timeout?: number
+  /** Only apply to the next N matching calls, then remove the rule */
+  times?: number
+}
+
+interface ActiveRule extends FaultRule {
+  pattern: string
+  matcher: RegExp
+}
+
+/** Message fetch() rejects with when there is no connection; classified as a network error */
+export const NETWORK_ERROR_MESSAGE = "Network request failed"
+
+function toMatcher(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+  return new RegExp(`^${source}$`)
+}
+
+/** Longer patterns with fewer wildcards are more specific */
+function specificity(pattern: string): number {
+  return pattern.replace(/\*/g, "").length
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function timeoutError(timeout: number): Error {
+  return Object.assign(new Error(`Request timeout after ${timeout}ms`), { name: "TimeoutError" })
+}
+
+class MockFaults {
+  private rules: ActiveRule[] = []
+  private offline = false
+  private offlineListeners = new Set<(offline: boolean) => void>()
+
+  /**
+   * Add or replace the rule for an operation pattern.
+   * A rule fails the call unless it only sets `latency`.
+   * @example
+   * mockFaults.setRule("supabase.database.profiles.*", { probability: 0.3 })
+   * mockFaults.setRule("revenuecat.*", { latency: 3000 })
+   * mockFaults.setRule("supabase.functions.delete-user", { timeout: 10000 })
+   */
+  setRule(pattern: string, rule: FaultRule = {}): void {
+    this.rules = this.rules.filter((existing) => existing.pattern !== pattern)
+    this.rules.push({ ...rule, pattern, matcher: toMatcher(pattern) })
+
+    if (__DEV__) {
+      logger.debug(`[MockFaults] Set rule`, { pattern, ...rule })
+    }
+  }
+
+  /**
+   * Fail the next `times` calls matching a pattern
+   * @example
+   * mockFaults.failNext("supabase.auth.signInWithPassword", 2)
+   */
+  failNext(pattern: string, times: number = 1, error?: Error | string): void {
+    this.setRule(pattern, { times, error })
+  }
+
+  /**
+   * Remove the rule for a pattern, or every rule
+   */
+  clearRules(pattern?: string): void {
+    this.rules = pattern ? this.rules.filter((rule) => rule.pattern !== pattern) : []
+  }
+
+  /**
+   * Active rules, in the order they were added
+   */
+  getRules(): Array<FaultRule & { pattern: string }> {
+    return this.rules.map(({ matcher: _matcher, ...rule }) => rule)
+  }
+
+  /**
+   * Simulate losing (or regaining) the network connection
+   */
+  setOffline(offline: boolean): void {
+    if (this.offline === offline) return
+    this.offline = offline
+    this.offlineListeners.forEach((listener) => listener(offline))
+
+    if (__DEV__) {
+      logger.debug(`[MockFaults] ${offline ? "Offline" : "Online"}`)
+    }
+  }
+
+  isOffline(): boolean {
+    return this.offline
+  }
+
+  /**
+   * Listen for simulated connection changes. Returns an unsubscribe function.
+   */
+  addOfflineListener(listener: (offline: boolean) => void): () => void {
+    this.offlineListeners.add(listener)
+    return () => {
+      this.offlineListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Clear every rule and go back online
+   */
+  reset(): void {
+    this.clearRules()
+    this.setOffline(false)
+  }
+
+  /**
+   * Pick the most specific matching rule and roll its probability. Uses up one of its
+   * `times` when it applies.
+   */
+  private takeRule(operation: string): ActiveRule | null {
+    const rule = this.rules
+      .filter((candidate) => candidate.matcher.test(operation))
+      .sort((a, b) => specificity(b.pattern) - specificity(a.pattern))[0]
+    if (!rule) return null
+    if (rule.probability !== undefined && Math.random() >= rule.probability) return null
+
+    if (rule.times !== undefined) {
+      rule.times -= 1
+      if (rule.times <= 0) this.clearRules(rule.pattern)
+    }
+    return rule
+  }
+
+  private ruleError(rule: ActiveRule): Error | null {
+    if (rule.error instanceof Error) return rule.error
+    if (typeof rule.error === "string") return new Error(rule.error)
+    if (rule.latency !== undefined) return null
+    return new Error(NETWORK_ERROR_MESSAGE)
+  }
+
+  /**
+   * Simulate a network call: waits for `baseLatency` plus any rule latency, then resolves
+   * to the error the call should fail with, or null
+   */
+  async run(operation: string, baseLatency: number = 0): Promise<Error | null> {
+    if (this.offline) {
+      await wait(baseLatency)
+      return this.report(operation, new Error(NETWORK_ERROR_MESSAGE))
+    }
+
+    const rule = this.takeRule(operation)
+    await wait(baseLatency + (rule?.latency ?? 0))
+    if (!rule) return null
+
+    if (rule.timeout !== undefined) {
+      await wait(rule.timeout)
+      return this.report(operation, timeoutError(rule.timeout))
+    }
+    return this.report(operation, this.ruleError(rule))
+  }
+
+  /**
+   * Synchronous check for fire-and-forget calls; latency and timeouts don't apply
+   */
+  check(operation: string): Error | null {
+    if (this.offline) return this.report(operation, new Error(NETWORK_ERROR_MESSAGE))
+    const rule = this.takeRule(operation)
+    if (!rule) return null
+    return this.report(
+      operation,
+      rule.timeout !== undefined ? timeoutError(rule.timeout) : this.ruleError(rule),
+    )
+  }
+
+  private report(operation: string, error: Error | null): Error | null {
+    if (error && __DEV__) {
+      logger.debug(`[MockFaults] Injected failure`, { operation, message: error.message })
+    }
+    return error
+  }
+}
+
+export const mockFaults = new MockFaults()
+export { MockFaults }
@@ -5,9 +5,11 @@
  * Implements the full AnalyticsService interface with console logging.
  */
 
+import { mockFaults } from "./faults"
 import type {
   AnalyticsService,
   AnalyticsConfig,
+  CaptureOptions,
   EventProperties,
   UserProperties,
   ScreenProperties,
@@ -21,6 +23,8 @@ interface MockEvent {
   name: string
   properties?: Record<string, unknown>
   timestamp: number
+  /** Event UUID; a repeated UUID is dropped, like PostHog ingestion does */
+  uuid?: string
 }
 
 class MockPostHog implements AnalyticsService {
@@ -59,18 +63,24 @@ class MockPostHog implements AnalyticsService {
     }
   }
 
-  track(event: string, properties?: EventProperties): void {
-    if (!this.enabled) return
+  isReady(): boolean {
+    return true
+  }
 
+  track(event: string, properties?: EventProperties, options?: CaptureOptions): void {
+    if (!this.enabled || this.failed("track") || this.isDuplicate(options)) return
+
+    const timestamp = options?.timestamp ?? new Date()
     const mockEvent: MockEvent = {
       type: "event",
       name: event,
       properties: {
         ...properties,
         userId: this.userId,
-        timestamp: new Date().toISOString(),
+        timestamp: timestamp.toISOString(),
       },
-      timestamp: Date.now(),
+      timestamp: timestamp.getTime(),
+      uuid: options?.uuid,
     }
 
     this.events.push(mockEvent)
@@ -80,18 +90,20 @@ class MockPostHog implements AnalyticsService {
     }
   }
 
-  screen(name: string, properties?: ScreenProperties): void {
-    if (!this.enabled) return
+  screen(name: string, properties?: ScreenProperties, options?: CaptureOptions): void {
+    if (!this.enabled || this.failed("screen") || this.isDuplicate(options)) return
 
+    const timestamp = options?.timestamp ?? new Date()
     const mockEvent: MockEvent = {
       type: "screen",
       name,
       properties: {
         ...properties,
         userId: this.userId,
-        timestamp: new Date().toISOString(),
+        timestamp: timestamp.toISOString(),
       },
-      timestamp: Date.now(),
+      timestamp: timestamp.getTime(),
+      uuid: options?.uuid,
     }
 
     this.events.push(mockEvent)
@@ -102,7 +114,7 @@ class MockPostHog implements AnalyticsService {
   }
 
   identify(userId: string, properties?: UserProperties): void {
-    if (!this.enabled) return
+    if (!this.enabled || this.failed("identify")) return
 
     this.userId = userId
     this.userProperties = { ...this.userProperties, ...properties }
@@ -192,6 +204,9 @@ class MockPostHog implements AnalyticsService {
   }
 
   async flush(): Promise<void> {
+    const fault = await mockFaults.run("posthog.flush")
+    if (fault) throw fault
+
     if (__DEV__) {
       logger.debug("📊 [MockPostHog] Flush (no-op)")
     }
@@ -203,6 +218,22 @@ class MockPostHog implements AnalyticsService {
     }
   }
 
+  /**
+   * Whether mockFaults fails this call. Failed calls are dropped, like a request that never
+   * reached PostHog.
+   */
+  private failed(operation: string): boolean {
+    const fault = mockFaults.check(`posthog.${operation}`)
+    if (fault && __DEV__) {
+      logger.warn(`📊 [MockPostHog] ${operation} failed`, { message: fault.message })
+    }
+    return fault !== null
+  }
+
+  private isDuplicate(options?: CaptureOptions): boolean {
+    return !!options?.uuid && this.events.some((event) => event.uuid === options.uuid)
+  }
+
   // Helper methods for testing
 
   /**
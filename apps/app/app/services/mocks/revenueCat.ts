@@ -3,10 +3,26 @@
  *
  * Provides a mock RevenueCat client for development without API keys.
  * Simulates subscription states and purchase flows for both mobile and web.
+ *
+ * Subscriptions run on a mock clock: advanceTime() moves it forward by days and applies
+ * renewals, trial conversion, cancellations, billing retry and grace-period expiry,
+ * pushing each change to addCustomerInfoUpdateListener().
+ *
+ * Purchases within a subscription group replace the active product: an explicit product
+ * change uses its proration mode, otherwise upgrades apply at once and downgrades wait for
+ * the next renewal, like the App Store. Promotional offers are signed and checked for
+ * eligibility, and offer codes can be redeemed once each.
+ *
+ * One-time products are recorded as non-subscription transactions. Consumables are
+ * consumed at purchase, as RevenueCat does, so they can be bought again; non-consumables
+ * are bought once and unlock their entitlements for good.
  */
 
 import { Platform } from "react-native"
 
+import { mockFaults } from "./faults"
+import { ENTITLEMENTS } from "../../config/constants"
+import type { ProductChange, ProrationMode } from "../../types/subscription"
 import * as storage from "../../utils/storage"
 
 interface CustomerInfo {
@@ -36,8 +52,18 @@ interface PurchaseResult {
   transaction: any
 }
 
+// Signed promotional offer, shaped like the SDK's PurchasesPromotionalOffer
+interface MockSignedOffer {
+  identifier: string
+  keyIdentifier: string
+  nonce: string
+  signature: string
+  timestamp: number
+}
+
 // Default free customer info factory
 function createFreeCustomerInfo(userId: string = "mock-user"): CustomerInfo {
+  const now = new Date(mockNow()).toISOString()
   return {
     entitlements: {
       active: {},
@@ -48,10 +74,10 @@ function createFreeCustomerInfo(userId: string = "mock-user"): CustomerInfo {
     allPurchasedProductIdentifiers: [],
     latestExpirationDate: null,
     originalAppUserId: userId,
-    requestDate: new Date().toISOString(),
-    firstSeen: new Date().toISOString(),
+    requestDate: now,
+    firstSeen: now,
     originalApplicationVersion: "1.0",
-    originalPurchaseDate: new Date().toISOString(),
+    originalPurchaseDate: now,
     managementURL: "https://mock-revenuecat.com/manage",
     allExpirationDates: {},
     allPurchaseDates: {},
@@ -63,8 +89,349 @@ function createFreeCustomerInfo(userId: string = "mock-user"): CustomerInfo {
 // Storage key for persisting mock subscription state
 const MOCK_STATE_KEY = "mock-revenuecat-state"
 
-// Simulate network delay
-const delay = (ms: number = 500) => new Promise((resolve) => setTimeout(resolve, ms))
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Days a failed renewal keeps the entitlement active while the store retries billing
+const GRACE_PERIOD_DAYS = 16
+
+// Days the store keeps retrying a failed renewal before giving up
+const BILLING_RETRY_DAYS = 60
+
+interface MockDiscount {
+  identifier: string
+  price: number
+  /** Billing periods the discounted price applies for */
+  cycles: number
+  /** "lapsed" offers win back former subscribers, "upgrade" offers target other plans' subscribers */
+  eligibility: "lapsed" | "upgrade"
+}
+
+interface MockProduct {
+  identifier: string
+  title: string
+  description: string
+  price: number
+  period: "MONTH" | "YEAR"
+  /** Entitlements an active subscription to the product unlocks */
+  entitlements: string[]
+  /** Products in a group replace each other; higher tiers are upgrades */
+  subscriptionGroup: string
+  tier: number
+  trialDays?: number
+  introPrice?: number
+  discounts?: MockDiscount[]
+}
+
+interface MockOneTimeProduct {
+  identifier: string
+  title: string
+  description: string
+  price: number
+  type: "consumable" | "non_consumable"
+  /** Entitlements owning the product unlocks for good */
+  entitlements: string[]
+}
+
+interface MockOffering {
+  identifier: string
+  description: string
+  packages: Array<{
+    identifier: string
+    packageType: "MONTHLY" | "ANNUAL" | "LIFETIME" | "CUSTOM"
+    productId: string
+  }>
+  metadata?: Record<string, unknown>
+}
+
+// Store products, configured like the RevenueCat dashboard
+const MOCK_PRODUCTS: Record<string, MockProduct> = {
+  pro_monthly: {
+    identifier: "pro_monthly",
+    title: "Pro Monthly",
+    description: "Pro Monthly Subscription",
+    price: 9.99,
+    period: "MONTH",
+    entitlements: [ENTITLEMENTS.PRO],
+    subscriptionGroup: "pro",
+    tier: 1,
+    trialDays: 7,
+    discounts: [{ identifier: "winback_monthly", price: 4.99, cycles: 3, eligibility: "lapsed" }],
+  },
+  pro_annual: {
+    identifier: "pro_annual",
+    title: "Pro Annual",
+    description: "Pro Annual Subscription - Save 40%",
+    price: 99.99,
+    period: "YEAR",
+    entitlements: [ENTITLEMENTS.PRO],
+    subscriptionGroup: "pro",
+    tier: 1,
+    trialDays: 14,
+    introPrice: 49.99,
+    discounts: [{ identifier: "upgrade_annual", price: 79.99, cycles: 1, eligibility: "upgrade" }],
+  },
+  storage_plus_monthly: {
+    identifier: "storage_plus_monthly",
+    title: "Storage Plus Monthly",
+    description: "100 GB of extra storage",
+    price: 2.99,
+    period: "MONTH",
+    entitlements: [ENTITLEMENTS.STORAGE_PLUS],
+    subscriptionGroup: "storage_plus",
+    tier: 1,
+  },
+  pro_storage_annual: {
+    identifier: "pro_storage_annual",
+    title: "Pro + Storage Plus Annual",
+    description: "Pro and Storage Plus - Save 50%",
+    price: 119.99,
+    period: "YEAR",
+    entitlements: [ENTITLEMENTS.PRO, ENTITLEMENTS.STORAGE_PLUS],
+    subscriptionGroup: "pro",
+    tier: 2,
+  },
+}
+
+// One-time products: a lifetime unlock and credit packs (see CREDIT_PRODUCTS)
+const MOCK_ONE_TIME_PRODUCTS: Record<string, MockOneTimeProduct> = {
+  pro_lifetime: {
+    identifier: "pro_lifetime",
+    title: "Pro Lifetime",
+    description: "Pro forever with a one-time purchase",
+    price: 249.99,
+    type: "non_consumable",
+    entitlements: [ENTITLEMENTS.PRO],
+  },
+  credits_100: {
+    identifier: "credits_100",
+    title: "100 Credits",
+    description: "A pack of 100 credits",
+    price: 4.99,
+    type: "consumable",
+    entitlements: [],
+  },
+  credits_500: {
+    identifier: "credits_500",
+    title: "500 Credits",
+    description: "A pack of 500 credits - Save 20%",
+    price: 19.99,
+    type: "consumable",
+    entitlements: [],
+  },
+}
+
+// Offer codes, each redeemable once; the code's price applies to the first period
+const MOCK_OFFER_CODES: Record<string, { productId: string; price: number }> = {
+  FREEMONTH: { productId: "pro_monthly", price: 0 },
+  ANNUAL50: { productId: "pro_annual", price: 49.99 },
+}
+
+// Key the mock "server" signs promotional offers with
+const MOCK_OFFER_KEY_ID = "mock-offer-key"
+
+// Offerings; "default" is the current offering, the others are paywall experiments and add-ons
+const MOCK_OFFERINGS: MockOffering[] = [
+  {
+    identifier: "default",
+    description: "Pro subscriptions",
+    packages: [
+      { identifier: "monthly", packageType: "MONTHLY", productId: "pro_monthly" },
+      { identifier: "annual", packageType: "ANNUAL", productId: "pro_annual" },
+    ],
+  },
+  {
+    identifier: "annual_bundle",
+    description: "Paywall experiment: annual plans only, with the storage bundle",
+    packages: [
+      { identifier: "annual", packageType: "ANNUAL", productId: "pro_annual" },
+      { identifier: "bundle_annual", packageType: "ANNUAL", productId: "pro_storage_annual" },
+    ],
+    metadata: { highlight: "bundle_annual" },
+  },
+  {
+    identifier: "storage_plus",
+    description: "Storage Plus add-on",
+    packages: [
+      { identifier: "monthly", packageType: "MONTHLY", productId: "storage_plus_monthly" },
+    ],
+  },
+  {
+    identifier: "lifetime",
+    description: "Pro with a one-time purchase",
+    packages: [{ identifier: "lifetime", packageType: "LIFETIME", productId: "pro_lifetime" }],
+  },
+  {
+    identifier: "credits",
+    description: "Credit packs",
+    packages: [
+      { identifier: "credits_100", packageType: "CUSTOM", productId: "credits_100" },
+      { identifier: "credits_500", packageType: "CUSTOM", productId: "credits_500" },
+    ],
+  },
+]
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`
+
+// Build a package in a format that works for both mobile and web SDK
+function toMockPackage(pkg: MockOffering["packages"][number], offeringIdentifier: string) {
+  const subscription = MOCK_PRODUCTS[pkg.productId]
+  const product = subscription ?? MOCK_ONE_TIME_PRODUCTS[pkg.productId]
+  const oneTimeType = subscription ? null : MOCK_ONE_TIME_PRODUCTS[pkg.productId].type
+  return {
+    identifier: pkg.identifier,
+    packageType: pkg.packageType,
+    offeringIdentifier,
+    product: {
+      identifier: product.identifier,
+      description: product.description,
+      title: product.title,
+      price: product.price,
+      priceString: formatPrice(product.price),
+      currencyCode: "USD",
+      productCategory: oneTimeType ? "NON_SUBSCRIPTION" : "SUBSCRIPTION",
+      productType: oneTimeType?.toUpperCase() ?? "AUTO_RENEWABLE_SUBSCRIPTION",
+      subscriptionPeriod: subscription ? { value: 1, unit: subscription.period } : null,
+      introPrice: subscription?.introPrice
+        ? {
+            price: subscription.introPrice,
+            priceString: formatPrice(subscription.introPrice),
+            period: 1,
+            periodUnit: subscription.period,
+          }
+        : null,
+      freeTrialPeriod: subscription?.trialDays
+        ? { value: subscription.trialDays, unit: "DAY" }
+        : null,
+      discounts: (subscription?.discounts ?? []).map((discount) => ({
+        identifier: discount.identifier,
+        price: discount.price,
+        priceString: formatPrice(discount.price),
+        cycles: discount.cycles,
+        period: subscription.period === "YEAR" ? "P1Y" : "P1M",
+        periodUnit: subscription.period,
+        periodNumberOfUnits: 1,
+      })),
+    },
+    // Web SDK format
+    rcBillingProduct: {
+      identifier: product.identifier,
+      productType: oneTimeType ?? "subscription",
+      displayName: product.title,
+      description: product.description,
+      currentPrice: {
+        amountMicros: Math.round(product.price * 1_000_000),
+        formattedPrice: formatPrice(product.price),
+        currency: "USD",
+      },
+      introductoryPrice: subscription?.introPrice
+        ? {
+            amountMicros: Math.round(subscription.introPrice * 1_000_000),
+            formattedPrice: formatPrice(subscription.introPrice),
+            periodCount: 1,
+            periodUnit: subscription.period,
+          }
+        : null,
+      freeTrialPeriod: subscription?.trialDays
+        ? { periodCount: subscription.trialDays, periodUnit: "DAY" }
+        : null,
+    },
+  }
+}
+
+function toMockOffering(offering: MockOffering) {
+  return {
+    identifier: offering.identifier,
+    serverDescription: offering.description,
+    metadata: offering.metadata ?? {},
+    availablePackages: offering.packages.map((pkg) => toMockPackage(pkg, offering.identifier)),
+  }
+}
+
+const productIdentifierOf = (packageToPurchase: any): string | undefined =>
+  packageToPurchase?.product?.identifier ?? packageToPurchase?.rcBillingProduct?.identifier
+
+// Look up the purchased product, falling back to a pro subscription for unknown packages
+function findProduct(packageToPurchase: any): MockProduct {
+  const identifier = productIdentifierOf(packageToPurchase)
+  if (identifier && MOCK_PRODUCTS[identifier]) return MOCK_PRODUCTS[identifier]
+  return {
+    ...MOCK_PRODUCTS.pro_monthly,
+    identifier: identifier ?? "pro_monthly",
+    period: packageToPurchase?.packageType === "ANNUAL" ? "YEAR" : "MONTH",
+    trialDays: undefined,
+    discounts: undefined,
+  }
+}
+
+const groupOf = (productIdentifier: string) =>
+  (MOCK_PRODUCTS[productIdentifier] ?? MOCK_PRODUCTS.pro_monthly).subscriptionGroup
+
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+const signOffer = (productId: string, offerId: string, nonce: string, timestamp: number) =>
+  `mock-signature:${MOCK_OFFER_KEY_ID}:${productId}:${offerId}:${nonce}:${timestamp}`
+
+/**
+ * A one-time purchase, shaped like the SDK's PurchasesStoreTransaction
+ */
+interface MockTransaction {
+  transactionIdentifier: string
+  productIdentifier: string
+  purchaseDate: string
+}
+
+/**
+ * A simulated store subscription to one product
+ */
+interface MockSubscription {
+  productIdentifier: string
+  entitlements: string[]
+  period: "MONTH" | "YEAR"
+  periodType: "TRIAL" | "NORMAL"
+  /** Price charged for the current period */
+  price: number
+  /** Discounted price and the periods it still applies for, including the current one */
+  discount: { price: number; cyclesLeft: number } | null
+  /** Product a deferred change switches to at the next renewal */
+  pendingProductIdentifier: string | null
+  isActive: boolean
+  willRenew: boolean
+  originalPurchaseDate: string
+  latestPurchaseDate: string
+  expirationDate: string
+  unsubscribeDetectedAt: string | null
+  billingIssueDetectedAt: string | null
+  gracePeriodExpiresDate: string | null
+}
+
+/**
+ * Copy of the mock subscriptions, purchases and clock, saved with mock Supabase snapshots
+ */
+export interface MockRevenueCatState {
+  /** Time on the mock clock when the state was saved */
+  now: string
+  subscriptions: Record<string, MockSubscription>
+  billingFails: boolean
+  trialUsed: boolean
+  redeemedCodes: string[]
+  transactions: MockTransaction[]
+}
+
+/**
+ * A subscription for `mockRevenueCat.loadSubscriptions`, as listed in mock Supabase fixtures
+ */
+export interface MockSubscriptionSeed {
+  /** Mock product, e.g. "pro_monthly" */
+  productIdentifier: string
+  /** Start as a free trial that ends this many days from now */
+  trialDaysLeft?: number
+}
+
+// Simulate a network round-trip, throwing the failure mockFaults injects for the operation
+const simulateRequest = async (operation: string, ms: number = 500) => {
+  const fault = await mockFaults.run(`revenuecat.${operation}`, ms)
+  if (fault) throw fault
+}
 
 // Platform-specific emoji for logging
 const getLogPrefix = () => {
@@ -74,23 +441,253 @@ const getLogPrefix = () => {
 }
 
 // Mock subscription state (module-level for singleton behavior)
-let mockIsPro = false
+let mockClockOffset = 0
+let mockSubscriptions: Record<string, MockSubscription> = {}
+let mockBillingFails = false
+let mockTrialUsed = false
+let mockRedeemedCodes: string[] = []
+let mockTransactions: MockTransaction[] = []
 let mockCustomerInfo: CustomerInfo = createFreeCustomerInfo()
+const customerInfoListeners = new Set<(customerInfo: CustomerInfo) => void>()
+
+// Current time on the mock clock, which advanceTime() moves ahead of the real one
+function mockNow(): number {
+  return Date.now() + mockClockOffset
+}
+
+const timeOf = (date: string) => new Date(date).getTime()
+
+function addPeriod(date: string, period: MockSubscription["period"]): string {
+  const next = new Date(date)
+  if (period === "YEAR") {
+    next.setUTCFullYear(next.getUTCFullYear() + 1)
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1)
+  }
+  return next.toISOString()
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(timeOf(date) + days * DAY_MS).toISOString()
+}
+
+function startSubscription(
+  product: MockProduct,
+  withTrial: boolean,
+  discount?: { price: number; cycles: number },
+  now: string = new Date(mockNow()).toISOString(),
+): MockSubscription {
+  const trialDays = withTrial ? product.trialDays : undefined
+  return {
+    productIdentifier: product.identifier,
+    entitlements: product.entitlements,
+    period: product.period,
+    periodType: trialDays ? "TRIAL" : "NORMAL",
+    price: trialDays ? 0 : (discount?.price ?? product.price),
+    discount:
+      discount && !trialDays ? { price: discount.price, cyclesLeft: discount.cycles } : null,
+    pendingProductIdentifier: null,
+    isActive: true,
+    willRenew: true,
+    originalPurchaseDate: now,
+    latestPurchaseDate: now,
+    expirationDate: trialDays ? addDays(now, trialDays) : addPeriod(now, product.period),
+    unsubscribeDetectedAt: null,
+    billingIssueDetectedAt: null,
+    gracePeriodExpiresDate: null,
+  }
+}
+
+// Charge for the next period starting at `from`, converting a trial and clearing billing issues
+function renewSubscription(subscription: MockSubscription, from: string) {
+  const discount = subscription.discount
+  subscription.discount =
+    discount && discount.cyclesLeft > 1
+      ? { ...discount, cyclesLeft: discount.cyclesLeft - 1 }
+      : null
+  subscription.price =
+    subscription.discount?.price ??
+    MOCK_PRODUCTS[subscription.productIdentifier]?.price ??
+    subscription.price
+  subscription.periodType = "NORMAL"
+  subscription.isActive = true
+  subscription.latestPurchaseDate = from
+  subscription.expirationDate = addPeriod(from, subscription.period)
+  subscription.billingIssueDetectedAt = null
+  subscription.gracePeriodExpiresDate = null
+}
+
+// Entitlements unlocked for good by non-consumables the customer owns
+function lifetimeEntitlements(): Record<string, MockTransaction> {
+  const owned: Record<string, MockTransaction> = {}
+  for (const transaction of mockTransactions) {
+    const product = MOCK_ONE_TIME_PRODUCTS[transaction.productIdentifier]
+    for (const entitlementId of product?.entitlements ?? []) {
+      if (!owned[entitlementId]) owned[entitlementId] = transaction
+    }
+  }
+  return owned
+}
+
+function activeEntitlementIds(): string[] {
+  const ids = Object.values(mockSubscriptions)
+    .filter((subscription) => subscription.isActive)
+    .flatMap((subscription) => subscription.entitlements)
+  return [...new Set([...ids, ...Object.keys(lifetimeEntitlements())])]
+}
+
+// The subscription behind an entitlement: an active one first, then the latest to expire
+function subscriptionFor(entitlementId: string): MockSubscription | undefined {
+  return Object.values(mockSubscriptions)
+    .filter((subscription) => subscription.entitlements.includes(entitlementId))
+    .sort(
+      (a, b) =>
+        Number(b.isActive) - Number(a.isActive) ||
+        timeOf(b.expirationDate) - timeOf(a.expirationDate),
+    )[0]
+}
+
+// Rebuild customer info from the subscriptions, keeping the user's identity
+function buildCustomerInfo(): CustomerInfo {
+  const info: CustomerInfo = {
+    ...createFreeCustomerInfo(mockCustomerInfo.originalAppUserId),
+    firstSeen: mockCustomerInfo.firstSeen,
+    originalPurchaseDate: mockCustomerInfo.originalPurchaseDate,
+  }
+  const subscriptions = Object.values(mockSubscriptions)
+  if (subscriptions.length === 0 && mockTransactions.length === 0) return info
+
+  const entitlementIds = [
+    ...new Set(subscriptions.flatMap((subscription) => subscription.entitlements)),
+  ]
+  const active: Record<string, any> = {}
+  const all: Record<string, any> = {}
+  for (const entitlementId of entitlementIds) {
+    const subscription = subscriptionFor(entitlementId)!
+    const entitlement = {
+      identifier: entitlementId,
+      isActive: subscription.isActive,
+      willRenew: subscription.isActive && subscription.willRenew,
+      periodType: subscription.periodType,
+      latestPurchaseDate: subscription.latestPurchaseDate,
+      originalPurchaseDate: subscription.originalPurchaseDate,
+      expirationDate: subscription.expirationDate,
+      productIdentifier: subscription.productIdentifier,
+      unsubscribeDetectedAt: subscription.unsubscribeDetectedAt,
+      billingIssueDetectedAt: subscription.billingIssueDetectedAt,
+    }
+    all[entitlementId] = entitlement
+    if (subscription.isActive) active[entitlementId] = entitlement
+  }
+
+  // A lifetime purchase outranks any subscription to the same entitlement
+  for (const [entitlementId, transaction] of Object.entries(lifetimeEntitlements())) {
+    const entitlement = {
+      identifier: entitlementId,
+      isActive: true,
+      willRenew: false,
+      periodType: "NORMAL",
+      latestPurchaseDate: transaction.purchaseDate,
+      originalPurchaseDate: transaction.purchaseDate,
+      expirationDate: null,
+      productIdentifier: transaction.productIdentifier,
+      unsubscribeDetectedAt: null,
+      billingIssueDetectedAt: null,
+    }
+    all[entitlementId] = entitlement
+    active[entitlementId] = entitlement
+  }
+
+  info.entitlements = { active, all, verification: "VERIFIED" as any }
+  info.activeSubscriptions = subscriptions
+    .filter((subscription) => subscription.isActive)
+    .map((subscription) => subscription.productIdentifier)
+  info.allPurchasedProductIdentifiers = [
+    ...new Set([
+      ...subscriptions.map((subscription) => subscription.productIdentifier),
+      ...mockTransactions.map((transaction) => transaction.productIdentifier),
+    ]),
+  ]
+  info.latestExpirationDate =
+    subscriptions
+      .map((subscription) => subscription.expirationDate)
+      .sort((a, b) => timeOf(b) - timeOf(a))[0] ?? null
+  info.nonSubscriptionTransactions = mockTransactions.map((transaction) => ({ ...transaction }))
+
+  for (const subscription of subscriptions) {
+    const productId = subscription.productIdentifier
+    info.allExpirationDates[productId] = subscription.expirationDate
+    info.allPurchaseDates[productId] = subscription.latestPurchaseDate
+    info.subscriptionsByProductIdentifier[productId] = {
+      productIdentifier: productId,
+      purchaseDate: subscription.latestPurchaseDate,
+      originalPurchaseDate: subscription.originalPurchaseDate,
+      expiresDate: subscription.expirationDate,
+      isActive: subscription.isActive,
+      willRenew: subscription.isActive && subscription.willRenew,
+      periodType: subscription.periodType,
+      unsubscribeDetectedAt: subscription.unsubscribeDetectedAt,
+      billingIssuesDetectedAt: subscription.billingIssueDetectedAt,
+      gracePeriodExpiresDate: subscription.gracePeriodExpiresDate,
+      isSandbox: true,
+    }
+  }
+  return info
+}
 
 // Restore persisted mock state on module load
 function restoreMockState() {
   try {
     const persisted = storage.load(MOCK_STATE_KEY) as
-      | { isPro?: boolean; customerInfo?: CustomerInfo }
+      | {
+          isPro?: boolean
+          customerInfo?: CustomerInfo
+          // Subscriptions saved before product changes were simulated have no pricing
+          subscriptions?: Record<
+            string,
+            Omit<MockSubscription, "price" | "discount" | "pendingProductIdentifier"> &
+              Partial<MockSubscription>
+          >
+          clockOffset?: number
+          billingFails?: boolean
+          trialUsed?: boolean
+          redeemedCodes?: string[]
+          transactions?: MockTransaction[]
+        }
       | null
       | undefined
     if (persisted && typeof persisted === "object") {
-      mockIsPro = persisted.isPro === true
+      mockClockOffset = persisted.clockOffset ?? 0
+      mockBillingFails = persisted.billingFails === true
+      mockTrialUsed = persisted.trialUsed === true
+      mockRedeemedCodes = persisted.redeemedCodes ?? []
+      mockTransactions = persisted.transactions ?? []
       if (persisted.customerInfo) {
         mockCustomerInfo = persisted.customerInfo
       }
+      // State saved before subscriptions were simulated only recorded the pro flag
+      const subscriptions =
+        persisted.subscriptions ??
+        (persisted.isPro
+          ? { pro_monthly: startSubscription(MOCK_PRODUCTS.pro_monthly, false) }
+          : {})
+      mockSubscriptions = Object.fromEntries(
+        Object.entries(subscriptions).map(([productId, subscription]) => [
+          productId,
+          {
+            price: MOCK_PRODUCTS[productId]?.price ?? 0,
+            discount: null,
+            pendingProductIdentifier: null,
+            ...subscription,
+          },
+        ]),
+      )
+      mockCustomerInfo = buildCustomerInfo()
       if (__DEV__) {
-        console.log(`${getLogPrefix()} Restored persisted state:`, mockIsPro ? "PRO" : "FREE")
+        console.log(
+          `${getLogPrefix()} Restored persisted state:`,
+          activeEntitlementIds().join(", ") || "FREE",
+        )
       }
     }
   } catch (e) {
@@ -105,8 +702,14 @@ function restoreMockState() {
 function persistMockState() {
   try {
     storage.save(MOCK_STATE_KEY, {
-      isPro: mockIsPro,
+      isPro: activeEntitlementIds().includes(ENTITLEMENTS.PRO),
       customerInfo: mockCustomerInfo,
+      subscriptions: mockSubscriptions,
+      clockOffset: mockClockOffset,
+      billingFails: mockBillingFails,
+      trialUsed: mockTrialUsed,
+      redeemedCodes: mockRedeemedCodes,
+      transactions: mockTransactions,
     })
   } catch (e) {
     if (__DEV__) {
@@ -115,6 +718,224 @@ function persistMockState() {
   }
 }
 
+// Rebuild and persist customer info, then push it to update listeners
+function publishCustomerInfo() {
+  mockCustomerInfo = buildCustomerInfo()
+  persistMockState()
+  customerInfoListeners.forEach((listener) => listener(mockCustomerInfo))
+}
+
+// Apply the renewal, billing issue or expiry due at the end of a subscription's period
+function completePeriod(subscription: MockSubscription) {
+  if (!subscription.willRenew || subscription.billingIssueDetectedAt) {
+    // Cancelled, or the grace period ran out without a successful charge
+    subscription.isActive = false
+    subscription.gracePeriodExpiresDate = null
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} ${subscription.productIdentifier} expired`)
+    }
+  } else if (mockBillingFails) {
+    subscription.billingIssueDetectedAt = subscription.expirationDate
+    subscription.gracePeriodExpiresDate = addDays(subscription.expirationDate, GRACE_PERIOD_DAYS)
+    subscription.expirationDate = subscription.gracePeriodExpiresDate
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} ${subscription.productIdentifier} billing issue`)
+    }
+  } else if (
+    subscription.pendingProductIdentifier &&
+    MOCK_PRODUCTS[subscription.pendingProductIdentifier]
+  ) {
+    // A deferred product change takes over at the renewal date
+    const product = MOCK_PRODUCTS[subscription.pendingProductIdentifier]
+    delete mockSubscriptions[subscription.productIdentifier]
+    mockSubscriptions[product.identifier] = {
+      ...startSubscription(product, false, undefined, subscription.expirationDate),
+      originalPurchaseDate: subscription.originalPurchaseDate,
+    }
+    if (__DEV__) {
+      console.log(
+        `${getLogPrefix()} ${subscription.productIdentifier} changed to ${product.identifier}`,
+      )
+    }
+  } else {
+    renewSubscription(subscription, subscription.expirationDate)
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} ${subscription.productIdentifier} renewed`)
+    }
+  }
+}
+
+/**
+ * Apply every renewal, expiry and billing retry that is due on the mock clock, in
+ * chronological order, publishing customer info after each step so listeners see them
+ */
+function processSubscriptions() {
+  for (;;) {
+    const due = Object.values(mockSubscriptions)
+      .filter((subscription) => subscription.isActive)
+      .filter((subscription) => mockNow() >= timeOf(subscription.expirationDate))
+      .sort((a, b) => timeOf(a.expirationDate) - timeOf(b.expirationDate))[0]
+    if (!due) break
+    completePeriod(due)
+    publishCustomerInfo()
+  }
+
+  // Billing retry gives up after a while; those subscriptions no longer recover
+  let changed = false
+  for (const subscription of Object.values(mockSubscriptions)) {
+    if (
+      !subscription.isActive &&
+      subscription.willRenew &&
+      subscription.billingIssueDetectedAt &&
+      mockNow() >= timeOf(addDays(subscription.billingIssueDetectedAt, BILLING_RETRY_DAYS))
+    ) {
+      subscription.willRenew = false
+      changed = true
+    }
+  }
+  if (changed) persistMockState()
+}
+
+// Active subscription to another product in the group, which buying the product replaces
+function subscriptionReplacedBy(product: MockProduct): MockSubscription | undefined {
+  return Object.values(mockSubscriptions).find(
+    (subscription) =>
+      subscription.isActive &&
+      subscription.productIdentifier !== product.identifier &&
+      groupOf(subscription.productIdentifier) === product.subscriptionGroup,
+  )
+}
+
+function isEligibleForOffer(product: MockProduct, discount: MockDiscount): boolean {
+  if (discount.eligibility === "upgrade") return !!subscriptionReplacedBy(product)
+  const history = Object.values(mockSubscriptions).filter(
+    (subscription) => groupOf(subscription.productIdentifier) === product.subscriptionGroup,
+  )
+  return history.length > 0 && history.every((subscription) => !subscription.isActive)
+}
+
+// The App Store applies upgrades and same-length crossgrades at once, the rest at renewal
+function crossgradeMode(current: MockSubscription, product: MockProduct): ProrationMode {
+  const currentTier = MOCK_PRODUCTS[current.productIdentifier]?.tier ?? 1
+  const immediate =
+    product.tier > currentTier ||
+    (product.tier === currentTier && product.period === current.period)
+  return immediate ? "immediate_with_time_proration" : "deferred"
+}
+
+/**
+ * Replace a subscription with another product. The unused part of the current period is
+ * worth its share of the price paid, credited as time or money depending on the mode.
+ */
+function changeProduct(
+  current: MockSubscription,
+  product: MockProduct,
+  mode: ProrationMode,
+  discount?: MockDiscount,
+): { subscription: MockSubscription; charged: number } {
+  if (mode === "deferred") {
+    current.pendingProductIdentifier = product.identifier
+    return { subscription: current, charged: 0 }
+  }
+
+  const now = mockNow()
+  const remaining = Math.max(0, timeOf(current.expirationDate) - now)
+  const paidLength = timeOf(current.expirationDate) - timeOf(current.latestPurchaseDate)
+  const credit = paidLength > 0 ? (remaining / paidLength) * current.price : 0
+
+  const price = discount?.price ?? product.price
+  const newLength = timeOf(addPeriod(new Date(now).toISOString(), product.period)) - now
+  const creditTime = price > 0 ? (credit / price) * newLength : 0
+
+  let expiresAt: number
+  let charged: number
+  switch (mode) {
+    case "immediate_and_charge_prorated_price":
+      expiresAt = timeOf(current.expirationDate)
+      charged = Math.max(0, (price / newLength) * remaining - credit)
+      break
+    case "immediate_without_proration":
+      expiresAt = timeOf(current.expirationDate)
+      charged = 0
+      break
+    case "immediate_and_charge_full_price":
+      expiresAt = now + newLength + creditTime
+      charged = price
+      break
+    default:
+      // With nothing to credit (e.g. during a trial) the new plan is billed now
+      expiresAt = creditTime > 0 ? now + creditTime : now + newLength
+      charged = creditTime > 0 ? 0 : price
+  }
+
+  const subscription: MockSubscription = {
+    ...startSubscription(product, false, discount),
+    price: credit + charged,
+    originalPurchaseDate: current.originalPurchaseDate,
+    expirationDate: new Date(expiresAt).toISOString(),
+  }
+  delete mockSubscriptions[current.productIdentifier]
+  mockSubscriptions[product.identifier] = subscription
+  return { subscription, charged }
+}
+
+// Start or change to a subscription for a purchase, then publish the new customer info
+function completePurchase(
+  product: MockProduct,
+  terms: { productChange?: ProductChange; discount?: MockDiscount } = {},
+): PurchaseResult {
+  const { productChange, discount } = terms
+  const replaced = productChange
+    ? mockSubscriptions[productChange.oldProductId]
+    : subscriptionReplacedBy(product)
+  if (productChange && !replaced?.isActive) {
+    throw new Error(`No active subscription to ${productChange.oldProductId}`)
+  }
+
+  let subscription: MockSubscription
+  let charged: number
+  if (replaced) {
+    // Discounted upgrades are charged at once so the offer price applies
+    const mode = productChange
+      ? (productChange.prorationMode ?? "immediate_with_time_proration")
+      : discount
+        ? "immediate_and_charge_full_price"
+        : crossgradeMode(replaced, product)
+    ;({ subscription, charged } = changeProduct(replaced, product, mode, discount))
+  } else {
+    // Only the first subscription gets the free trial, like store intro eligibility
+    const withTrial = !discount && !mockTrialUsed && !!product.trialDays
+    mockTrialUsed = mockTrialUsed || withTrial
+    subscription = startSubscription(product, withTrial, discount)
+    mockSubscriptions[product.identifier] = subscription
+    charged = subscription.price
+  }
+
+  // Persist state after purchase and notify listeners
+  publishCustomerInfo()
+
+  if (__DEV__) {
+    console.log(
+      subscription.pendingProductIdentifier === product.identifier
+        ? `${getLogPrefix()} Purchase successful! Changes to ${product.identifier} on:`
+        : `${getLogPrefix()} Purchase successful! ${product.entitlements.join(", ")} until:`,
+      subscription.expirationDate,
+    )
+  }
+
+  return {
+    customerInfo: mockCustomerInfo,
+    productIdentifier: product.identifier,
+    transaction: {
+      transactionIdentifier: `mock-transaction-${mockNow()}`,
+      productIdentifier: product.identifier,
+      purchaseDate: new Date(mockNow()).toISOString(),
+      price: roundPrice(charged),
+      currencyCode: "USD",
+    },
+  }
+}
+
 // Restore on module load
 restoreMockState()
 
@@ -122,7 +943,7 @@ class MockRevenueCat {
   private configured = false
 
   async configure(apiKey: string, appUserID?: string) {
-    await delay(300)
+    await simulateRequest("configure", 300)
 
     this.configured = true
 
@@ -133,17 +954,28 @@ class MockRevenueCat {
   }
 
   async getCustomerInfo(): Promise<CustomerInfo> {
-    await delay(200)
+    await simulateRequest("getCustomerInfo", 200)
+    processSubscriptions()
 
     if (__DEV__) {
-      console.log(`${getLogPrefix()} Get customer info:`, mockIsPro ? "PRO" : "FREE")
+      console.log(
+        `${getLogPrefix()} Get customer info:`,
+        activeEntitlementIds().join(", ") || "FREE",
+      )
     }
 
     return mockCustomerInfo
   }
 
-  async purchasePackage(packageToPurchase: any): Promise<PurchaseResult> {
-    await delay(1000)
+  /**
+   * Buy a package. Pass a product change to replace an active subscription with a given
+   * proration mode; without one, a product in the same group is replaced like the App Store.
+   */
+  async purchasePackage(
+    packageToPurchase: any,
+    productChange?: ProductChange,
+  ): Promise<PurchaseResult> {
+    await simulateRequest("purchasePackage", 1000)
 
     if (__DEV__) {
       console.log(
@@ -152,75 +984,159 @@ class MockRevenueCat {
       )
     }
 
-    // Simulate successful purchase
-    mockIsPro = true
-    const expirationDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-
-    mockCustomerInfo = {
-      entitlements: {
-        active: {
-          pro: {
-            identifier: "pro",
-            isActive: true,
-            willRenew: true,
-            periodType: "NORMAL",
-            latestPurchaseDate: new Date().toISOString(),
-            expirationDate,
-            productIdentifier: "pro_monthly",
-          },
-        },
-        all: {
-          pro: {
-            identifier: "pro",
-            isActive: true,
-          },
-        },
-        verification: "VERIFIED" as any,
-      },
-      activeSubscriptions: ["pro_monthly"],
-      allPurchasedProductIdentifiers: ["pro_monthly"],
-      latestExpirationDate: expirationDate,
-      originalAppUserId: mockCustomerInfo.originalAppUserId,
-      requestDate: new Date().toISOString(),
-      firstSeen: mockCustomerInfo.firstSeen,
-      originalApplicationVersion: "1.0",
-      originalPurchaseDate: new Date().toISOString(),
-      managementURL: "https://mock-revenuecat.com/manage",
-      allExpirationDates: { pro_monthly: expirationDate },
-      allPurchaseDates: { pro_monthly: new Date().toISOString() },
-      nonSubscriptionTransactions: [],
-      subscriptionsByProductIdentifier: {
-        pro_monthly: {
-          identifier: "pro_monthly",
-          isActive: true,
-          willRenew: true,
-          periodType: "NORMAL",
-          latestPurchaseDate: new Date().toISOString(),
-          expirationDate,
-        },
-      },
+    processSubscriptions()
+    const oneTimeProduct = MOCK_ONE_TIME_PRODUCTS[productIdentifierOf(packageToPurchase) ?? ""]
+    if (oneTimeProduct) return this.purchaseOneTimeProduct(oneTimeProduct)
+    return completePurchase(findProduct(packageToPurchase), { productChange })
+  }
+
+  private purchaseOneTimeProduct(product: MockOneTimeProduct): PurchaseResult {
+    if (
+      product.type === "non_consumable" &&
+      mockTransactions.some((transaction) => transaction.productIdentifier === product.identifier)
+    ) {
+      throw Object.assign(new Error("This product is already active for the user."), {
+        code: "6",
+      })
     }
 
-    // Persist state after purchase
-    persistMockState()
+    const transaction: MockTransaction = {
+      transactionIdentifier: `mock-transaction-${mockNow()}-${mockTransactions.length}`,
+      productIdentifier: product.identifier,
+      purchaseDate: new Date(mockNow()).toISOString(),
+    }
+    mockTransactions.push(transaction)
+    publishCustomerInfo()
 
     if (__DEV__) {
-      console.log(`${getLogPrefix()} Purchase successful! Now PRO until:`, expirationDate)
+      console.log(`${getLogPrefix()} Purchase successful! ${product.identifier}`)
     }
 
     return {
       customerInfo: mockCustomerInfo,
-      productIdentifier: "pro_monthly",
-      transaction: {
-        transactionIdentifier: `mock-transaction-${Date.now()}`,
-        productIdentifier: "pro_monthly",
-        purchaseDate: new Date().toISOString(),
-      },
+      productIdentifier: product.identifier,
+      transaction: { ...transaction, price: product.price, currencyCode: "USD" },
+    }
+  }
+
+  /**
+   * Refund a one-time purchase, removing its transaction as the store would (for testing)
+   */
+  refundTransaction(transactionIdentifier: string) {
+    const remaining = mockTransactions.filter(
+      (transaction) => transaction.transactionIdentifier !== transactionIdentifier,
+    )
+    if (remaining.length === mockTransactions.length) return
+    mockTransactions = remaining
+
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} Refunded:`, transactionIdentifier)
     }
+
+    publishCustomerInfo()
+  }
+
+  /**
+   * Buy a package with a signed promotional offer from getPromotionalOffer()
+   */
+  async purchaseDiscountedPackage(
+    packageToPurchase: any,
+    promotionalOffer: any,
+  ): Promise<PurchaseResult> {
+    await simulateRequest("purchaseDiscountedPackage", 1000)
+    processSubscriptions()
+
+    const product = findProduct(packageToPurchase)
+    const discount = product.discounts?.find(
+      (candidate) => candidate.identifier === promotionalOffer?.identifier,
+    )
+    const signature =
+      discount &&
+      signOffer(
+        product.identifier,
+        discount.identifier,
+        promotionalOffer.nonce,
+        promotionalOffer.timestamp,
+      )
+    if (!discount || promotionalOffer.signature !== signature) {
+      throw new Error("Invalid promotional offer signature")
+    }
+    if (!isEligibleForOffer(product, discount)) {
+      throw new Error("Not eligible for this promotional offer")
+    }
+
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} Purchase with offer:`, discount.identifier)
+    }
+
+    return completePurchase(product, { discount })
+  }
+
+  /**
+   * Sign a product discount for purchase, or undefined if the customer isn't eligible
+   */
+  async getPromotionalOffer(product: any, discount: any): Promise<MockSignedOffer | undefined> {
+    await simulateRequest("getPromotionalOffer", 300)
+    processSubscriptions()
+
+    const mockProduct = MOCK_PRODUCTS[product?.identifier]
+    const offer = mockProduct?.discounts?.find(
+      (candidate) => candidate.identifier === discount?.identifier,
+    )
+    if (!offer || !isEligibleForOffer(mockProduct, offer)) return undefined
+
+    const timestamp = mockNow()
+    const nonce = `mock-nonce-${timestamp}`
+    return {
+      identifier: offer.identifier,
+      keyIdentifier: MOCK_OFFER_KEY_ID,
+      nonce,
+      signature: signOffer(mockProduct.identifier, offer.identifier, nonce, timestamp),
+      timestamp,
+    }
+  }
+
+  /**
+   * Redeem an offer code (see MOCK_OFFER_CODES). Codes are for customers without an active
+   * subscription in the product's group and can be used once.
+   * @example
+   * await mockRevenueCat.redeemOfferCode("FREEMONTH")
+   */
+  async redeemOfferCode(code: string): Promise<CustomerInfo> {
+    await simulateRequest("redeemOfferCode", 500)
+    processSubscriptions()
+
+    const normalized = code.trim().toUpperCase()
+    const offerCode = MOCK_OFFER_CODES[normalized]
+    if (!offerCode) {
+      throw new Error("Invalid offer code")
+    }
+    if (mockRedeemedCodes.includes(normalized)) {
+      throw new Error("Offer code has already been redeemed")
+    }
+    const product = MOCK_PRODUCTS[offerCode.productId]
+    if (subscriptionReplacedBy(product) || mockSubscriptions[product.identifier]?.isActive) {
+      throw new Error("Offer code is only available to new subscribers")
+    }
+
+    mockRedeemedCodes.push(normalized)
+    mockTrialUsed = true
+    mockSubscriptions[product.identifier] = startSubscription(product, false, {
+      price: offerCode.price,
+      cycles: 1,
+    })
+    publishCustomerInfo()
+
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} Redeemed offer code ${normalized} for`, product.identifier)
+    }
+
+    return mockCustomerInfo
   }
 
   async restorePurchases(): Promise<CustomerInfo> {
-    await delay(500)
+    await simulateRequest("restorePurchases", 500)
+    processSubscriptions()
 
     if (__DEV__) {
       console.log(`${getLogPrefix()} Restore purchases`)
@@ -230,106 +1146,35 @@ class MockRevenueCat {
   }
 
   async getOfferings(): Promise<any> {
-    await delay(300)
+    await simulateRequest("getOfferings", 300)
 
     if (__DEV__) {
       console.log(`${getLogPrefix()} Get offerings`)
     }
 
-    // Return format that works for both mobile and web SDK
-    return {
-      current: {
-        identifier: "default",
-        availablePackages: [
-          {
-            identifier: "monthly",
-            packageType: "MONTHLY",
-            product: {
-              identifier: "pro_monthly",
-              description: "Pro Monthly Subscription",
-              title: "Pro Monthly",
-              price: 9.99,
-              priceString: "$9.99",
-              currencyCode: "USD",
-              // Free trial for monthly
-              freeTrialPeriod: {
-                value: 7,
-                unit: "DAY",
-              },
-            },
-            // Web SDK format
-            rcBillingProduct: {
-              displayName: "Pro Monthly",
-              description: "Pro Monthly Subscription",
-              currentPrice: {
-                amountMicros: 9990000,
-                formattedPrice: "$9.99",
-                currency: "USD",
-              },
-              freeTrialPeriod: {
-                periodCount: 7,
-                periodUnit: "DAY",
-              },
-            },
-          },
-          {
-            identifier: "annual",
-            packageType: "ANNUAL",
-            product: {
-              identifier: "pro_annual",
-              description: "Pro Annual Subscription - Save 40%",
-              title: "Pro Annual",
-              price: 99.99,
-              priceString: "$99.99",
-              currencyCode: "USD",
-              // Intro pricing for annual
-              introPrice: {
-                price: 49.99,
-                priceString: "$49.99",
-                period: 1,
-                periodUnit: "YEAR",
-              },
-              // Free trial for annual
-              freeTrialPeriod: {
-                value: 14,
-                unit: "DAY",
-              },
-            },
-            // Web SDK format
-            rcBillingProduct: {
-              displayName: "Pro Annual",
-              description: "Pro Annual Subscription - Save 40%",
-              currentPrice: {
-                amountMicros: 99990000,
-                formattedPrice: "$99.99",
-                currency: "USD",
-              },
-              introductoryPrice: {
-                amountMicros: 49990000,
-                formattedPrice: "$49.99",
-                periodCount: 1,
-                periodUnit: "YEAR",
-              },
-              freeTrialPeriod: {
-                periodCount: 14,
-                periodUnit: "DAY",
-              },
-            },
-          },
-        ],
-      },
-      all: {},
-    }
+    const all = Object.fromEntries(
+      MOCK_OFFERINGS.map((offering) => [offering.identifier, toMockOffering(offering)]),
+    )
+    return { current: all.default, all }
+  }
+
+  /**
+   * Get an offering by identifier, or null if it isn't configured
+   */
+  async getOffering(offeringId: string): Promise<any | null> {
+    const offerings = await this.getOfferings()
+    return offerings.all[offeringId] ?? null
   }
 
   async getPackages(): Promise<any[]> {
-    await delay(300)
+    await simulateRequest("getPackages", 300)
     const offerings = await this.getOfferings()
     const platform = Platform.OS === "web" ? "revenuecat-web" : "revenuecat"
 
     return offerings.current.availablePackages.map((pkg: any) => ({
       id: pkg.identifier,
       identifier: pkg.identifier,
+      productId: pkg.product.identifier,
       title: pkg.product.title,
       description: pkg.product.description,
       price: pkg.product.price,
@@ -348,7 +1193,7 @@ class MockRevenueCat {
   }
 
   async logIn(appUserID: string): Promise<{ customerInfo: CustomerInfo }> {
-    await delay(200)
+    await simulateRequest("logIn", 200)
 
     if (__DEV__) {
       console.log(`${getLogPrefix()} Log in:`, appUserID)
@@ -364,14 +1209,15 @@ class MockRevenueCat {
   }
 
   async logOut(): Promise<{ customerInfo: CustomerInfo }> {
-    await delay(200)
+    await simulateRequest("logOut", 200)
 
     if (__DEV__) {
       console.log(`${getLogPrefix()} Log out`)
     }
 
     // Reset to free tier
-    mockIsPro = false
+    mockSubscriptions = {}
+    mockTransactions = []
     mockCustomerInfo = createFreeCustomerInfo("anonymous")
 
     // Persist reset state
@@ -382,31 +1228,38 @@ class MockRevenueCat {
 
   // Helper method to manually set pro status for testing
   setProStatus(isPro: boolean) {
+    this.setEntitlement(ENTITLEMENTS.PRO, isPro)
+  }
+
+  /**
+   * Grant an entitlement with a subscription to the first product that unlocks it, or
+   * revoke it by removing every subscription that unlocks it (for testing)
+   * @example
+   * mockRevenueCat.setEntitlement("storage_plus", true)
+   */
+  setEntitlement(entitlementId: string, active: boolean) {
     if (__DEV__) {
-      console.log(`${getLogPrefix()} Set pro status:`, isPro)
-      mockIsPro = isPro
-
-      if (isPro) {
-        const expirationDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-        mockCustomerInfo.entitlements.active.pro = {
-          identifier: "pro",
-          isActive: true,
-          willRenew: true,
-          periodType: "NORMAL",
-          latestPurchaseDate: new Date().toISOString(),
-          expirationDate,
-          productIdentifier: "pro_monthly",
+      console.log(`${getLogPrefix()} Set entitlement ${entitlementId}:`, active)
+
+      if (!active) {
+        for (const [productId, subscription] of Object.entries(mockSubscriptions)) {
+          if (subscription.entitlements.includes(entitlementId)) {
+            delete mockSubscriptions[productId]
+          }
         }
-        mockCustomerInfo.activeSubscriptions = ["pro_monthly"]
-        mockCustomerInfo.latestExpirationDate = expirationDate
-      } else {
-        mockCustomerInfo.entitlements.active = {}
-        mockCustomerInfo.activeSubscriptions = []
-        mockCustomerInfo.latestExpirationDate = null
+      } else if (!this.hasEntitlement(entitlementId)) {
+        const product = Object.values(MOCK_PRODUCTS).find((candidate) =>
+          candidate.entitlements.includes(entitlementId),
+        ) ?? {
+          ...MOCK_PRODUCTS.pro_monthly,
+          identifier: entitlementId,
+          entitlements: [entitlementId],
+        }
+        mockSubscriptions[product.identifier] = startSubscription(product, false)
       }
 
-      // Persist state change
-      persistMockState()
+      // Persist state change and notify listeners
+      publishCustomerInfo()
     }
   }
 
@@ -414,21 +1267,182 @@ class MockRevenueCat {
     if (__DEV__) {
       console.log(`${getLogPrefix()} Added customer info update listener`)
     }
+    customerInfoListeners.add(listener)
     // Immediately call with current info
     listener(mockCustomerInfo)
 
     return () => {
+      customerInfoListeners.delete(listener)
       if (__DEV__) {
         console.log(`${getLogPrefix()} Removed customer info update listener`)
       }
     }
   }
 
+  // ============================================================================
+  // SUBSCRIPTION LIFECYCLE (time travel)
+  // ============================================================================
+
+  /**
+   * Current time on the mock clock
+   */
+  now(): Date {
+    return new Date(mockNow())
+  }
+
+  /**
+   * Move the mock clock forward, applying every renewal, trial conversion, expiry and
+   * billing retry that falls due. Each change is pushed to update listeners.
+   * @example
+   * mockRevenueCat.advanceTime(7) // trial converts to paid
+   * mockRevenueCat.advanceTime(31) // monthly subscription renews
+   */
+  advanceTime(days: number) {
+    if (days <= 0) return
+    mockClockOffset += days * DAY_MS
+
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} Clock advanced ${days} day(s) to:`, this.now().toISOString())
+    }
+
+    processSubscriptions()
+    persistMockState()
+  }
+
+  /**
+   * Turn off auto-renew for a product, or every subscription, as if the user cancelled in
+   * the store. Entitlements stay active until the end of the current period.
+   */
+  cancelSubscription(productIdentifier?: string) {
+    const cancelled = Object.values(mockSubscriptions).filter(
+      (subscription) =>
+        subscription.isActive &&
+        subscription.willRenew &&
+        (!productIdentifier || subscription.productIdentifier === productIdentifier),
+    )
+    if (cancelled.length === 0) return
+
+    for (const subscription of cancelled) {
+      subscription.willRenew = false
+      subscription.unsubscribeDetectedAt = this.now().toISOString()
+      if (__DEV__) {
+        console.log(
+          `${getLogPrefix()} Cancelled ${subscription.productIdentifier}, expires:`,
+          subscription.expirationDate,
+        )
+      }
+    }
+    publishCustomerInfo()
+  }
+
+  /**
+   * Whether renewals are set to fail
+   */
+  isBillingFailing(): boolean {
+    return mockBillingFails
+  }
+
+  /**
+   * Make renewals fail (an expired card) or succeed again. Failed renewals raise a billing
+   * issue and start a grace period; fixing billing during the retry window renews at once.
+   */
+  setBillingIssue(failing: boolean) {
+    mockBillingFails = failing
+
+    if (__DEV__) {
+      console.log(`${getLogPrefix()} Renewals will ${failing ? "fail" : "succeed"}`)
+    }
+
+    processSubscriptions()
+    const recovered = failing
+      ? []
+      : Object.values(mockSubscriptions).filter(
+          (subscription) => subscription.billingIssueDetectedAt && subscription.willRenew,
+        )
+    recovered.forEach((subscription) => renewSubscription(subscription, this.now().toISOString()))
+
+    if (recovered.length > 0) {
+      publishCustomerInfo()
+    } else {
+      persistMockState()
+    }
+  }
+
+  /**
+   * Copy of the current state, for mock Supabase snapshots
+   */
+  getState(): MockRevenueCatState {
+    return JSON.parse(
+      JSON.stringify({
+        now: this.now().toISOString(),
+        subscriptions: mockSubscriptions,
+        billingFails: mockBillingFails,
+        trialUsed: mockTrialUsed,
+        redeemedCodes: mockRedeemedCodes,
+        transactions: mockTransactions,
+      }),
+    )
+  }
+
+  /**
+   * Replace the current state with one from getState(). The mock clock resumes at the
+   * saved time, so a trial that was about to end still is.
+   */
+  setState(state: MockRevenueCatState) {
+    const copy: MockRevenueCatState = JSON.parse(JSON.stringify(state))
+    mockClockOffset = timeOf(copy.now) - Date.now()
+    mockSubscriptions = copy.subscriptions
+    mockBillingFails = copy.billingFails
+    mockTrialUsed = copy.trialUsed
+    mockRedeemedCodes = copy.redeemedCodes
+    mockTransactions = copy.transactions
+    publishCustomerInfo()
+  }
+
+  /**
+   * Replace all state with subscriptions to the given products, as mock Supabase
+   * fixtures do. An empty list leaves the user on the free tier.
+   * @example
+   * mockRevenueCat.loadSubscriptions([{ productIdentifier: "pro_monthly", trialDaysLeft: 1 }])
+   */
+  loadSubscriptions(seeds: MockSubscriptionSeed[]) {
+    const now = new Date(mockNow()).toISOString()
+    const subscriptions: Record<string, MockSubscription> = {}
+    let trialUsed = false
+
+    for (const { productIdentifier, trialDaysLeft } of seeds) {
+      const product = MOCK_PRODUCTS[productIdentifier]
+      if (!product) throw new Error(`Unknown mock product: ${productIdentifier}`)
+
+      if (trialDaysLeft === undefined) {
+        subscriptions[productIdentifier] = startSubscription(product, false, undefined, now)
+      } else {
+        if (!product.trialDays) throw new Error(`${productIdentifier} has no free trial`)
+        // Backdate the start so the trial ends `trialDaysLeft` days from now
+        const start = addDays(now, trialDaysLeft - product.trialDays)
+        subscriptions[productIdentifier] = startSubscription(product, true, undefined, start)
+        trialUsed = true
+      }
+    }
+
+    mockSubscriptions = subscriptions
+    mockBillingFails = false
+    mockTrialUsed = trialUsed
+    mockRedeemedCodes = []
+    mockTransactions = []
+    publishCustomerInfo()
+  }
+
   /**
    * Reset all mock state (for testing/HMR)
    */
   reset() {
-    mockIsPro = false
+    mockClockOffset = 0
+    mockSubscriptions = {}
+    mockBillingFails = false
+    mockTrialUsed = false
+    mockRedeemedCodes = []
+    mockTransactions = []
     mockCustomerInfo = createFreeCustomerInfo()
     this.configured = false
 
@@ -439,6 +1453,8 @@ class MockRevenueCat {
       // Ignore errors
     }
 
+    customerInfoListeners.forEach((listener) => listener(mockCustomerInfo))
+
     if (__DEV__) {
       console.log(`${getLogPrefix()} Reset to initial state`)
     }
@@ -448,7 +1464,14 @@ class MockRevenueCat {
    * Check if user is Pro (for testing)
    */
   getIsPro(): boolean {
-    return mockIsPro
+    return this.hasEntitlement(ENTITLEMENTS.PRO)
+  }
+
+  /**
+   * Check if an entitlement is active (for testing)
+   */
+  hasEntitlement(entitlementId: string): boolean {
+    return activeEntitlementIds().includes(entitlementId)
   }
 
   /**
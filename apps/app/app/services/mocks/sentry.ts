@@ -5,6 +5,7 @@
  * Implements the full ErrorTrackingService interface with console logging.
  */
 
+import { mockFaults } from "./faults"
 import type {
   ErrorTrackingService,
   ErrorTrackingConfig,
@@ -42,6 +43,8 @@ class MockSentry implements ErrorTrackingService {
   }
 
   captureException(error: Error, context?: ErrorContext): string | undefined {
+    if (this.failed("captureException")) return undefined
+
     const mockError: MockError = {
       type: "exception",
       error,
@@ -75,6 +78,8 @@ class MockSentry implements ErrorTrackingService {
   }
 
   captureMessage(message: string, level?: ErrorLevel, context?: ErrorContext): string | undefined {
+    if (this.failed("captureMessage")) return undefined
+
     const mockError: MockError = {
       type: "message",
       message,
@@ -213,7 +218,20 @@ class MockSentry implements ErrorTrackingService {
     if (__DEV__) {
       logger.debug(`🐛 [MockSentry] Close`, { timeout: timeout || "none" })
     }
-    return true
+    // Sentry resolves false when queued events couldn't be sent before the timeout
+    return (await mockFaults.run("sentry.close")) === null
+  }
+
+  /**
+   * Whether mockFaults fails this call. Failed events are dropped, like an envelope that
+   * never reached Sentry.
+   */
+  private failed(operation: string): boolean {
+    const fault = mockFaults.check(`sentry.${operation}`)
+    if (fault && __DEV__) {
+      logger.warn(`🐛 [MockSentry] ${operation} failed`, { message: fault.message })
+    }
+    return fault !== null
   }
 
   // Helper methods for testing
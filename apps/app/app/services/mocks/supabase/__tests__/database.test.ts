@@ -0,0 +1,445 @@
+/**
+ * Mock Supabase Database Tests
+ *
+ * Tests for the mock query builder: select parsing, embedded resources, filters,
+ * row-level security and schema validation
+ */
+
+import { createMockSupabaseClient, mockSupabaseHelpers, MockDatabaseQuery } from ".."
+import { createMockSession, createMockUser } from "../helpers"
+import { sharedState } from "../types"
+
+const USER_1 = "11111111-1111-4111-8111-111111111111"
+const USER_2 = "22222222-2222-4222-8222-222222222222"
+
+describe("MockDatabaseQuery", () => {
+  const client = createMockSupabaseClient()
+
+  beforeEach(async () => {
+    await mockSupabaseHelpers.clearAll()
+    await mockSupabaseHelpers.seedTable("profiles", [
+      { id: USER_1, first_name: "Jane", last_name: "Doe" },
+      { id: USER_2, first_name: "John", last_name: "Smith" },
+    ])
+    await mockSupabaseHelpers.seedTable("push_tokens", [
+      { id: "token-1", user_id: USER_1, token: "expo-a", platform: "ios" },
+      { id: "token-2", user_id: USER_1, token: "expo-b", platform: "android" },
+    ])
+    await mockSupabaseHelpers.seedTable("user_preferences", [{ id: USER_2, language: "fr" }])
+  })
+
+  describe("select", () => {
+    beforeEach(() => {
+      mockSupabaseHelpers.setRowLevelSecurity(false)
+    })
+
+    it("projects and aliases columns", async () => {
+      const { data, error } = await client
+        .from("profiles")
+        .select("id, name:first_name")
+        .eq("id", USER_1)
+        .single()
+
+      expect(error).toBeNull()
+      expect(data).toEqual({ id: USER_1, name: "Jane" })
+    })
+
+    it("embeds one-to-many relations as arrays", async () => {
+      const { data } = await client.from("profiles").select("id, push_tokens(token)").order("id")
+
+      expect(data).toEqual([
+        { id: USER_1, push_tokens: [{ token: "expo-a" }, { token: "expo-b" }] },
+        { id: USER_2, push_tokens: [] },
+      ])
+    })
+
+    it("embeds many-to-one relations as objects", async () => {
+      const { data } = await client
+        .from("push_tokens")
+        .select("token, owner:profiles(first_name)")
+        .eq("id", "token-1")
+        .single()
+
+      expect(data).toEqual({ token: "expo-a", owner: { first_name: "Jane" } })
+    })
+
+    it("embeds one-to-one relations through a shared primary key as objects", async () => {
+      const { data } = await client
+        .from("profiles")
+        .select("id, user_preferences(language)")
+        .order("id")
+
+      expect(data).toEqual([
+        { id: USER_1, user_preferences: null },
+        { id: USER_2, user_preferences: { language: "fr" } },
+      ])
+    })
+
+    it("drops parent rows without matches for !inner embeds", async () => {
+      const { data } = await client.from("profiles").select("id, push_tokens!inner(*)")
+
+      expect(data).toHaveLength(1)
+      expect((data as Array<{ id: string }>)[0].id).toBe(USER_1)
+    })
+
+    it("applies filters on embedded resources", async () => {
+      const { data } = await client
+        .from("push_tokens")
+        .select("token, profiles!inner(first_name)")
+        .eq("profiles.first_name", "John")
+
+      expect(data).toEqual([])
+    })
+
+    it("returns an error for unknown relationships", async () => {
+      const { data, error } = await client.from("profiles").select("*, comments(*)")
+
+      expect(data).toBeNull()
+      expect(error).toMatchObject({ code: "PGRST200" })
+    })
+
+    it("returns an error for unknown columns, even when no rows match", async () => {
+      const { data, error } = await client
+        .from("profiles")
+        .select("id, nickname")
+        .eq("id", "33333333-3333-4333-8333-333333333333")
+
+      expect(data).toBeNull()
+      expect(error).toMatchObject({
+        code: "42703",
+        message: "column profiles.nickname does not exist",
+      })
+
+      const embedded = await client.from("profiles").select("id, push_tokens(device)")
+      expect(embedded.error).toMatchObject({
+        code: "42703",
+        message: "column push_tokens.device does not exist",
+      })
+    })
+
+    it("returns an error for malformed select strings", async () => {
+      const { error } = await client.from("profiles").select("id, push_tokens(token")
+
+      expect(error).toMatchObject({ code: "PGRST100" })
+    })
+  })
+
+  describe("count", () => {
+    beforeEach(() => {
+      mockSupabaseHelpers.setRowLevelSecurity(false)
+    })
+
+    it("counts matching rows before range is applied", async () => {
+      const { data, count } = await client
+        .from("push_tokens")
+        .select("id", { count: "exact" })
+        .eq("user_id", USER_1)
+        .order("id")
+        .range(1, 1)
+
+      expect(data).toEqual([{ id: "token-2" }])
+      expect(count).toBe(2)
+    })
+
+    it("returns only the count for head requests", async () => {
+      const { data, count, error } = await client
+        .from("profiles")
+        .select("*", { count: "planned", head: true })
+
+      expect(error).toBeNull()
+      expect(data).toBeNull()
+      expect(count).toBe(2)
+    })
+
+    it("returns a null count when none was requested", async () => {
+      const { count } = await client.from("profiles").select("id").limit(1)
+
+      expect(count).toBeNull()
+    })
+
+    it("excludes rows dropped by !inner embeds and row level security", async () => {
+      const { count: innerCount } = await client
+        .from("profiles")
+        .select("id, push_tokens!inner(id)", { count: "exact", head: true })
+      expect(innerCount).toBe(1)
+
+      mockSupabaseHelpers.setRowLevelSecurity(true)
+      const { count: visibleCount } = await client
+        .from("push_tokens")
+        .select("*", { count: "estimated", head: true })
+      expect(visibleCount).toBe(0)
+    })
+  })
+
+  describe("row level security", () => {
+    const signInAs = (id: string) => {
+      sharedState.currentSession = createMockSession({ ...createMockUser(`${id}@example.com`), id })
+    }
+
+    it("only returns rows visible to the current user", async () => {
+      signInAs(USER_1)
+      const { data } = await client.from("push_tokens").select("id")
+      expect(data).toEqual([{ id: "token-1" }, { id: "token-2" }])
+
+      signInAs(USER_2)
+      const { data: otherData } = await client.from("push_tokens").select("id")
+      expect(otherData).toEqual([])
+    })
+
+    it("hides rows from anonymous users and embedded resources", async () => {
+      const { data } = await client
+        .from("profiles")
+        .select("id, push_tokens(id)")
+        .eq("id", USER_1)
+        .single()
+
+      expect(data).toEqual({ id: USER_1, push_tokens: [] })
+    })
+
+    it("silently skips rows the user cannot update or delete", async () => {
+      signInAs(USER_2)
+      const { data: updated } = await client
+        .from("profiles")
+        .update({ first_name: "Hacked" })
+        .eq("id", USER_1)
+      const { data: deleted } = await client.from("push_tokens").delete().eq("user_id", USER_1)
+
+      expect(updated).toEqual([])
+      expect(deleted).toEqual([])
+      expect(mockSupabaseHelpers.getTableData("profiles")[0].first_name).toBe("Jane")
+      expect(mockSupabaseHelpers.getTableData("push_tokens")).toHaveLength(2)
+    })
+
+    it("rejects inserts that violate WITH CHECK with a 42501 error", async () => {
+      signInAs(USER_2)
+      const { data, error } = await client
+        .from("push_tokens")
+        .insert({ user_id: USER_1, token: "expo-c" })
+
+      expect(data).toBeNull()
+      expect(error).toMatchObject({
+        code: "42501",
+        message: 'new row violates row-level security policy for table "push_tokens"',
+      })
+      expect(mockSupabaseHelpers.getTableData("push_tokens")).toHaveLength(2)
+    })
+
+    it("rejects upserts over rows the user cannot update", async () => {
+      signInAs(USER_2)
+      const { error } = await client.from("profiles").upsert({ id: USER_1, first_name: "X" })
+
+      expect(error).toMatchObject({ code: "42501" })
+    })
+
+    it("allows anonymous waitlist inserts but never exposes the waitlist", async () => {
+      const { error } = await client.from("waitlist").insert({ email: "new@example.com" })
+      const { data } = await client.from("waitlist").select("*")
+
+      expect(error).toBeNull()
+      expect(data).toEqual([])
+      expect(mockSupabaseHelpers.getTableData("waitlist")).toHaveLength(1)
+    })
+
+    it("supports custom policies for app tables", async () => {
+      await mockSupabaseHelpers.seedTable("notes", [
+        { id: "note-1", owner_id: USER_1 },
+        { id: "note-2", owner_id: USER_2 },
+      ])
+      mockSupabaseHelpers.setTablePolicies("notes", [
+        {
+          name: "Owners read notes",
+          command: "SELECT",
+          using: (row, auth) => row.owner_id === auth.uid,
+        },
+      ])
+      signInAs(USER_2)
+
+      const { data } = await client.from("notes").select("id")
+      expect(data).toEqual([{ id: "note-2" }])
+    })
+  })
+
+  describe("schema validation", () => {
+    beforeEach(() => {
+      mockSupabaseHelpers.setRowLevelSecurity(false)
+    })
+
+    it("fills column defaults on insert", async () => {
+      const { data, error } = await client
+        .from("push_tokens")
+        .insert({ user_id: USER_2, token: "expo-c" })
+
+      expect(error).toBeNull()
+      expect(data).toMatchObject({ is_active: true, device_id: null, platform: null })
+      const row = data as Record<string, string>
+      expect(row.id).toMatch(/^[0-9a-f-]{36}$/)
+      expect(Date.parse(row.created_at)).not.toBeNaN()
+    })
+
+    it("rejects unknown columns", async () => {
+      const { error } = await client
+        .from("profiles")
+        .update({ frist_name: "Jane" })
+        .eq("id", USER_1)
+
+      expect(error).toMatchObject({
+        code: "PGRST204",
+        message: "Could not find the 'frist_name' column of 'profiles' in the schema cache",
+      })
+    })
+
+    it("rejects missing NOT NULL values with 23502", async () => {
+      const { data, error } = await client.from("push_tokens").insert({ user_id: USER_2 })
+
+      expect(data).toBeNull()
+      expect(error).toMatchObject({
+        code: "23502",
+        message:
+          'null value in column "token" of relation "push_tokens" violates not-null constraint',
+      })
+    })
+
+    it("rejects duplicate keys with 23505", async () => {
+      const { error: pkeyError } = await client.from("profiles").insert({ id: USER_1 })
+      const { error: uniqueError } = await client
+        .from("push_tokens")
+        .insert({ user_id: USER_1, token: "expo-a" })
+      const { error: batchError } = await client
+        .from("waitlist")
+        .insert([{ email: "a@example.com" }, { email: "a@example.com" }])
+
+      expect(pkeyError).toMatchObject({ code: "23505" })
+      expect(uniqueError).toMatchObject({
+        code: "23505",
+        message: 'duplicate key value violates unique constraint "push_tokens_user_id_token_key"',
+        details: `Key (user_id, token)=(${USER_1}, expo-a) already exists.`,
+      })
+      expect(batchError).toMatchObject({ code: "23505" })
+      expect(mockSupabaseHelpers.getTableData("waitlist")).toHaveLength(0)
+    })
+
+    it("rejects values that don't cast to the column type with 22P02", async () => {
+      const { error: uuidError } = await client.from("push_tokens").insert({
+        user_id: "not-a-uuid",
+        token: "expo-c",
+      })
+      const { error: booleanError } = await client
+        .from("profiles")
+        .update({ dark_mode_enabled: "sometimes" })
+        .eq("id", USER_1)
+
+      expect(uuidError).toMatchObject({
+        code: "22P02",
+        message: 'invalid input syntax for type uuid: "not-a-uuid"',
+      })
+      expect(booleanError).toMatchObject({ code: "22P02" })
+    })
+
+    it("upserts on the onConflict columns", async () => {
+      const { data, error } = await client
+        .from("push_tokens")
+        .upsert(
+          { user_id: USER_1, token: "expo-a", is_active: "false" },
+          { onConflict: "user_id,token" },
+        )
+
+      expect(error).toBeNull()
+      expect(data).toMatchObject({ id: "token-1", is_active: false })
+      expect(mockSupabaseHelpers.getTableData("push_tokens")).toHaveLength(2)
+    })
+
+    it("skips schema validation for tables without a schema", async () => {
+      const { error } = await client.from("notes").insert({ anything: { goes: true } })
+
+      expect(error).toBeNull()
+    })
+  })
+
+  describe("applyFilters", () => {
+    const rows = [
+      {
+        id: "1",
+        name: "Alpha",
+        age: 30,
+        tags: ["a", "b"],
+        meta: { plan: "pro", seats: 5 },
+        during: "[1,5)",
+        bio: "The quick brown fox jumps",
+      },
+      {
+        id: "2",
+        name: "beta",
+        age: null,
+        tags: ["b", "c"],
+        meta: { plan: "free" },
+        during: "[5,10)",
+        bio: "Lazy dogs sleep all day",
+      },
+      { id: "3", name: "Gamma", age: 18, tags: [], meta: {}, during: "[10,)", bio: null },
+    ]
+
+    const ids = (query: MockDatabaseQuery) => query.applyFilters(rows).map((row) => row.id)
+    const query = () => new MockDatabaseQuery("items")
+
+    it("treats comparisons with NULL as unknown", () => {
+      expect(ids(query().neq("age", 30))).toEqual(["3"])
+      expect(ids(query().not("age", "eq", 30))).toEqual(["3"])
+      expect(ids(query().in("age", [18, null]))).toEqual(["3"])
+      expect(ids(query().not("age", "in", "(18,null)"))).toEqual([])
+    })
+
+    it("filters with is and not.is", () => {
+      expect(ids(query().is("age", null))).toEqual(["2"])
+      expect(ids(query().not("age", "is", null))).toEqual(["1", "3"])
+    })
+
+    it("anchors like patterns and coerces literals to the column type", () => {
+      expect(ids(query().like("name", "%a"))).toEqual(["1", "2", "3"])
+      expect(ids(query().like("name", "Al%"))).toEqual(["1"])
+      expect(ids(query().ilike("name", "b_ta"))).toEqual(["2"])
+      expect(ids(query().filter("age", "gte", "20"))).toEqual(["1"])
+    })
+
+    it("parses or() with nested and/or groups", () => {
+      expect(ids(query().or("age.eq.18,age.is.null"))).toEqual(["2", "3"])
+      expect(ids(query().or("and(age.gt.20,name.eq.Alpha),name.ilike.*ETA"))).toEqual(["1", "2"])
+      expect(ids(query().or("not.and(age.gte.18,age.lte.30),tags.cs.{c}"))).toEqual(["2"])
+      expect(ids(query().or("name.in.(Alpha,Gamma)").neq("id", "1"))).toEqual(["3"])
+    })
+
+    it("supports array and jsonb containment", () => {
+      expect(ids(query().contains("tags", ["b"]))).toEqual(["1", "2"])
+      expect(ids(query().contains("tags", "{a,b}"))).toEqual(["1"])
+      expect(ids(query().containedBy("tags", ["a", "b"]))).toEqual(["1", "3"])
+      expect(ids(query().overlaps("tags", ["c", "d"]))).toEqual(["2"])
+      expect(ids(query().contains("meta", { plan: "pro" }))).toEqual(["1"])
+    })
+
+    it("supports range operators", () => {
+      expect(ids(query().rangeLt("during", "[5,6)"))).toEqual(["1"])
+      expect(ids(query().rangeGt("during", "[1,5)"))).toEqual(["2", "3"])
+      expect(ids(query().rangeGte("during", "[5,6)"))).toEqual(["2", "3"])
+      expect(ids(query().rangeLte("during", "[0,10)"))).toEqual(["1", "2"])
+      expect(ids(query().rangeAdjacent("during", "[10,20)"))).toEqual(["2"])
+      expect(ids(query().overlaps("during", "[4,6)"))).toEqual(["1", "2"])
+    })
+
+    it("supports full text search variants", () => {
+      expect(ids(query().textSearch("bio", "quick & fox"))).toEqual(["1"])
+      expect(ids(query().textSearch("bio", "cat | dog:*"))).toEqual(["2"])
+      expect(ids(query().textSearch("bio", "brown fox", { type: "phrase" }))).toEqual(["1"])
+      expect(ids(query().textSearch("bio", "fox brown", { type: "phrase" }))).toEqual([])
+      expect(ids(query().textSearch("bio", "lazy -fox", { type: "websearch" }))).toEqual(["2"])
+      expect(ids(query().textSearch("bio", "sleep day", { type: "plain" }))).toEqual(["2"])
+    })
+
+    it("throws a PostgREST error for malformed filters", () => {
+      expect(() => query().or("age.eq").applyFilters(rows)).toThrow(
+        expect.objectContaining({ code: "PGRST100" }),
+      )
+      expect(() => query().filter("age", "bogus", 1).applyFilters(rows)).toThrow(
+        expect.objectContaining({ code: "PGRST100" }),
+      )
+    })
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Mock Supabase Fixtures Tests
+ *
+ * Tests for loading fixtures and saving/restoring named snapshots of mock state
+ */
+
+import { createMockSupabaseClient, mockSupabaseHelpers } from ".."
+import { mockRevenueCat } from "../../revenueCat"
+
+const mockSecureStore = new Map<string, string>()
+
+jest.mock("expo-secure-store", () => ({
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore.set(key, value)
+  }),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockSecureStore.delete(key)
+  }),
+}))
+
+const JANE_ID = "00000000-0000-4000-8000-000000000101"
+
+describe("fixtures and snapshots", () => {
+  const client = createMockSupabaseClient()
+
+  beforeEach(async () => {
+    mockSecureStore.clear()
+    await mockSupabaseHelpers.clearAll()
+  })
+
+  describe("loadFixture", () => {
+    it("loads users, session, rows and files in one call", async () => {
+      await mockSupabaseHelpers.loadFixture({
+        users: [{ id: JANE_ID, email: "jane@example.com", password: "secret" }],
+        session: "jane@example.com",
+        tables: { profiles: [{ id: JANE_ID, first_name: "Jane" }] },
+        files: [{ bucket: "avatars", path: `${JANE_ID}/avatar.png`, data: "aGVsbG8=" }],
+      })
+
+      const session = mockSupabaseHelpers.getCurrentSession()
+      expect(session?.user).toMatchObject({ id: JANE_ID, email: "jane@example.com" })
+      expect(session?.user.email_confirmed_at).toBeDefined()
+      expect(mockSupabaseHelpers.getBucketFiles("avatars")).toHaveLength(1)
+
+      // Rows get column defaults like an insert would
+      const { data } = await client.from("profiles").select("*").eq("id", JANE_ID).single()
+      expect(data).toMatchObject({ first_name: "Jane", has_completed_onboarding: false })
+
+      await client.auth.signOut()
+      const { error } = await client.auth.signInWithPassword({
+        email: "jane@example.com",
+        password: "secret",
+      })
+      expect(error).toBeNull()
+    })
+
+    it("replaces existing state", async () => {
+      await mockSupabaseHelpers.seedTable("messages", [{ id: "m1" }])
+
+      await mockSupabaseHelpers.loadFixture({ tables: { waitlist: [{ email: "a@example.com" }] } })
+
+      expect(mockSupabaseHelpers.getTableData("messages")).toEqual([])
+      expect(mockSupabaseHelpers.getTableData("waitlist")).toHaveLength(1)
+    })
+
+    it("rejects rows that violate the table schema", async () => {
+      await expect(
+        mockSupabaseHelpers.loadFixture({
+          tables: { waitlist: [{ email: "a@example.com" }, { email: "a@example.com" }] },
+        }),
+      ).rejects.toMatchObject({ code: "23505" })
+    })
+
+    it("rejects a session user that isn't declared", async () => {
+      await expect(
+        mockSupabaseHelpers.loadFixture({ session: "ghost@example.com" }),
+      ).rejects.toThrow("ghost@example.com")
+    })
+
+    it("loads bundled fixtures by name", async () => {
+      await mockSupabaseHelpers.loadFixture("heavy-data")
+
+      expect(mockSupabaseHelpers.getUsers()).toHaveLength(101)
+      expect(mockSupabaseHelpers.getTableData("waitlist")).toHaveLength(500)
+      expect(mockSupabaseHelpers.getCurrentSession()?.user.email).toBe("demo.user@example.com")
+      await expect(mockSupabaseHelpers.loadFixture("missing")).rejects.toThrow("missing")
+    })
+
+    it("starts the trial-expiring user on a Pro trial that ends tomorrow", async () => {
+      await mockSupabaseHelpers.loadFixture("trial-expiring")
+      const customerInfo = await mockRevenueCat.getCustomerInfo()
+
+      expect(customerInfo.entitlements.active.pro).toMatchObject({ periodType: "TRIAL" })
+      expect(mockSupabaseHelpers.getTableData("subscriptions")[0]).toMatchObject({
+        status: "trial",
+      })
+
+      mockRevenueCat.advanceTime(2)
+
+      expect(mockRevenueCat.getIsPro()).toBe(true)
+      expect((await mockRevenueCat.getCustomerInfo()).entitlements.active.pro.periodType).toBe(
+        "NORMAL",
+      )
+
+      await mockSupabaseHelpers.loadFixture("new-user")
+
+      expect(mockRevenueCat.getIsPro()).toBe(false)
+    })
+  })
+
+  describe("snapshots", () => {
+    it("restores a named snapshot after later changes", async () => {
+      await mockSupabaseHelpers.loadFixture("new-user")
+      await mockSupabaseHelpers.snapshot("new user")
+
+      await client.from("profiles").update({ has_completed_onboarding: true }).neq("id", "")
+      await client.auth.signOut()
+
+      expect(await mockSupabaseHelpers.restore("new user")).toBe(true)
+      expect(mockSupabaseHelpers.getCurrentSession()?.user.email).toBe("demo.user@example.com")
+      expect(mockSupabaseHelpers.getTableData("profiles")[0]).toMatchObject({
+        has_completed_onboarding: false,
+      })
+    })
+
+    it("restores mock RevenueCat entitlements with the snapshot", async () => {
+      await mockSupabaseHelpers.loadFixture("trial-expiring")
+      await mockSupabaseHelpers.snapshot("trial expiring")
+
+      mockRevenueCat.advanceTime(30)
+      mockRevenueCat.setProStatus(false)
+
+      expect(await mockSupabaseHelpers.restore("trial expiring")).toBe(true)
+      expect(mockRevenueCat.getIsPro()).toBe(true)
+      expect((await mockRevenueCat.getCustomerInfo()).entitlements.active.pro.periodType).toBe(
+        "TRIAL",
+      )
+    })
+
+    it("persists snapshots across clearAll", async () => {
+      await mockSupabaseHelpers.loadFixture("onboarded-user")
+      await mockSupabaseHelpers.snapshot("onboarded")
+      await mockSupabaseHelpers.clearAll()
+
+      expect(await mockSupabaseHelpers.restore("onboarded")).toBe(true)
+      expect(mockSupabaseHelpers.getUsers()).toHaveLength(1)
+    })
+
+    it("lists, overwrites and deletes snapshots", async () => {
+      await mockSupabaseHelpers.snapshot("empty")
+      await mockSupabaseHelpers.snapshot("other")
+      await mockSupabaseHelpers.snapshot("empty")
+
+      expect((await mockSupabaseHelpers.listSnapshots()).map((s) => s.name).sort()).toEqual([
+        "empty",
+        "other",
+      ])
+
+      await mockSupabaseHelpers.deleteSnapshot("empty")
+
+      expect(await mockSupabaseHelpers.restore("empty")).toBe(false)
+      expect(await mockSupabaseHelpers.listSnapshots()).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,285 @@
+/**
+ * Mock Supabase Edge Functions Tests
+ *
+ * Tests for the in-process edge functions runtime and the bundled delete-user and
+ * revenuecat-webhook functions
+ */
+
+import { FunctionsHttpError } from "@supabase/supabase-js"
+import { readFileSync } from "fs"
+import { join } from "path"
+
+import { createMockSupabaseClient, mockSupabaseHelpers } from ".."
+import { MOCK_REVENUECAT_WEBHOOK_AUTH } from "../edgeFunctions"
+import { createMockSession, createMockUser, decodeMockJwt } from "../helpers"
+import { sharedState } from "../types"
+
+const WEBHOOK_FIXTURES = join(
+  __dirname,
+  "../../../../../../../supabase/functions/revenuecat-webhook/fixtures",
+)
+// app_user_id and purchased_at_ms of the recorded initial purchase
+const WEBHOOK_USER = "4f1c2f5e-8a2b-4c1d-9e3f-6a7b8c9d0e1f"
+const RECORDED_AT = 1760000000000
+const REPLAY_OFFSET = Date.now() - RECORDED_AT
+
+/**
+ * Load a recorded webhook payload, shifting its timestamps so the purchase happened as
+ * the tests started
+ */
+function recordedWebhook(name: string): { event: Record<string, unknown> } {
+  const payload = JSON.parse(readFileSync(join(WEBHOOK_FIXTURES, `${name}.json`), "utf8"))
+  for (const [key, value] of Object.entries(payload.event)) {
+    if (key.endsWith("_ms") && typeof value === "number") {
+      payload.event[key] = value + REPLAY_OFFSET
+    }
+  }
+  return payload
+}
+
+describe("MockFunctions", () => {
+  const client = createMockSupabaseClient()
+
+  const signIn = (email: string) => {
+    const user = createMockUser(email)
+    sharedState.mockUsers.set(email, { email, password: "password", user })
+    sharedState.currentSession = createMockSession(user)
+    return user
+  }
+
+  beforeEach(async () => {
+    await mockSupabaseHelpers.clearAll()
+  })
+
+  it("invokes registered handlers with a JSON body and the session JWT", async () => {
+    const user = signIn("jane@example.com")
+    let authorization: string | null = null
+    mockSupabaseHelpers.registerFunction("hello", async (req) => {
+      authorization = req.headers.get("authorization")
+      const { name } = await req.json()
+      return new Response(JSON.stringify({ message: `Hello ${name}` }), {
+        headers: { "Content-Type": "application/json" },
+      })
+    })
+
+    const { data, error } = await client.functions.invoke("hello", { body: { name: "Jane" } })
+
+    expect(error).toBeNull()
+    expect(data).toEqual({ message: "Hello Jane" })
+    const token = (authorization ?? "").replace(/^Bearer /, "")
+    expect(decodeMockJwt(token)).toMatchObject({ sub: user.id, role: "authenticated" })
+  })
+
+  it("parses text responses and passes custom methods and headers", async () => {
+    mockSupabaseHelpers.registerFunction("echo", (req) => {
+      return new Response(`${req.method} ${req.headers.get("x-custom")}`)
+    })
+
+    const { data } = await client.functions.invoke("echo", {
+      method: "DELETE",
+      headers: { "x-custom": "value" },
+    })
+
+    expect(data).toBe("DELETE value")
+  })
+
+  it("returns a FunctionsHttpError for non-2xx responses", async () => {
+    mockSupabaseHelpers.registerFunction("fails", () => {
+      return new Response(JSON.stringify({ message: "Nope" }), { status: 400 })
+    })
+
+    const { data, error } = await client.functions.invoke("fails")
+
+    expect(data).toBeNull()
+    expect(error).toBeInstanceOf(FunctionsHttpError)
+    expect(await error?.context.json()).toEqual({ message: "Nope" })
+  })
+
+  it("reports unknown functions as 404 and crashes as 500", async () => {
+    mockSupabaseHelpers.registerFunction("crashes", () => {
+      throw new Error("boom")
+    })
+
+    const { error: missing } = await client.functions.invoke("missing")
+    const { error: crashed } = await client.functions.invoke("crashes")
+
+    expect(missing?.context.status).toBe(404)
+    expect(crashed?.context.status).toBe(500)
+  })
+
+  describe("delete-user", () => {
+    it("deletes the calling user, their rows and their session", async () => {
+      const user = signIn("jane@example.com")
+      const other = createMockUser("john@example.com")
+      sharedState.mockUsers.set("john@example.com", {
+        email: "john@example.com",
+        password: "password",
+        user: other,
+      })
+      await mockSupabaseHelpers.seedTable("profiles", [{ id: user.id }, { id: other.id }])
+      await mockSupabaseHelpers.seedTable("push_tokens", [
+        { id: "token-1", user_id: user.id, token: "expo-a" },
+      ])
+
+      const { data, error } = await client.functions.invoke("delete-user", {
+        body: { userId: user.id },
+      })
+
+      expect(error).toBeNull()
+      expect(data).toEqual({ success: true })
+      expect(mockSupabaseHelpers.getUsers().map((entry) => entry.user.id)).toEqual([other.id])
+      expect(mockSupabaseHelpers.getTableData("profiles")).toEqual([{ id: other.id }])
+      expect(mockSupabaseHelpers.getTableData("push_tokens")).toEqual([])
+      expect(mockSupabaseHelpers.getCurrentSession()).toBeNull()
+    })
+
+    it("rejects calls without a session", async () => {
+      const { error } = await client.functions.invoke("delete-user")
+
+      expect(error?.context.status).toBe(401)
+    })
+
+    it("can be overridden by a registered handler", async () => {
+      signIn("jane@example.com")
+      mockSupabaseHelpers.registerFunction("delete-user", () => {
+        return new Response(JSON.stringify({ success: false }), {
+          headers: { "Content-Type": "application/json" },
+        })
+      })
+
+      const { data } = await client.functions.invoke("delete-user")
+
+      expect(data).toEqual({ success: false })
+      expect(mockSupabaseHelpers.getUsers()).toHaveLength(1)
+    })
+  })
+
+  describe("revenuecat-webhook", () => {
+    const send = (payload: unknown, authorization = MOCK_REVENUECAT_WEBHOOK_AUTH) =>
+      client.functions.invoke("revenuecat-webhook", {
+        body: payload,
+        headers: { Authorization: authorization },
+      })
+    const rows = () => mockSupabaseHelpers.getTableData("subscriptions")
+
+    it("rejects deliveries without RevenueCat's authorization header", async () => {
+      const { error } = await send(recordedWebhook("initial_purchase"), "Bearer wrong")
+
+      expect(error?.context.status).toBe(401)
+      expect(rows()).toEqual([])
+    })
+
+    it("mirrors a purchase, its renewal and cancellation into one row", async () => {
+      await send(recordedWebhook("initial_purchase"))
+      const renewal = recordedWebhook("renewal")
+      await send(renewal)
+      const { data, error } = await send(recordedWebhook("cancellation"))
+
+      expect(error).toBeNull()
+      expect(data).toEqual({ received: true })
+      expect(rows()).toHaveLength(1)
+      expect(rows()[0]).toMatchObject({
+        user_id: WEBHOOK_USER,
+        product_id: "pro_monthly",
+        entitlements: ["pro"],
+        status: "cancelled",
+        will_renew: false,
+        expires_at: new Date(renewal.event.expiration_at_ms as number).toISOString(),
+        environment: "SANDBOX",
+        last_event_type: "CANCELLATION",
+      })
+    })
+
+    it("ignores sandbox events unless the project allows them", async () => {
+      mockSupabaseHelpers.setRevenueCatWebhookSandbox(false)
+      const { data } = await send(recordedWebhook("initial_purchase"))
+
+      expect(data).toEqual({ received: true, ignored: "sandbox" })
+      expect(rows()).toEqual([])
+
+      const production = recordedWebhook("initial_purchase")
+      production.event.environment = "PRODUCTION"
+      await send(production)
+
+      expect(rows()[0]).toMatchObject({ product_id: "pro_monthly", environment: "PRODUCTION" })
+    })
+
+    it("ignores retried and out-of-order deliveries", async () => {
+      await send(recordedWebhook("initial_purchase"))
+      await send(recordedWebhook("cancellation"))
+
+      const { data: retried } = await send(recordedWebhook("cancellation"))
+      const { data: late } = await send(recordedWebhook("renewal"))
+
+      expect(retried).toEqual({ received: true, ignored: "stale" })
+      expect(late).toEqual({ received: true, ignored: "stale" })
+      expect(rows()[0]).toMatchObject({ status: "cancelled", last_event_type: "CANCELLATION" })
+    })
+
+    it("records billing issues and expirations", async () => {
+      await send(recordedWebhook("initial_purchase"))
+      const billingIssue = recordedWebhook("billing_issue")
+      await send(billingIssue)
+
+      expect(rows()[0]).toMatchObject({
+        status: "active",
+        grace_period_expires_at: new Date(
+          billingIssue.event.grace_period_expiration_at_ms as number,
+        ).toISOString(),
+      })
+      expect(rows()[0].billing_issue_detected_at).not.toBeNull()
+
+      await send(recordedWebhook("expiration"))
+      expect(rows()[0]).toMatchObject({ status: "expired", entitlements: [] })
+    })
+
+    it("keeps lifetime unlocks without an expiry and skips consumables", async () => {
+      await send(recordedWebhook("lifetime_purchase"))
+      const { data } = await send(recordedWebhook("credits_purchase"))
+
+      expect(data).toEqual({ received: true, ignored: "NON_RENEWING_PURCHASE" })
+      expect(rows()).toHaveLength(1)
+      expect(rows()[0]).toMatchObject({ product_id: "pro_lifetime", expires_at: null })
+    })
+
+    it("moves subscriptions on transfer and acknowledges test events", async () => {
+      await send(recordedWebhook("initial_purchase"))
+      await send(recordedWebhook("lifetime_purchase"))
+      const { data: test } = await send(recordedWebhook("test"))
+      await send(recordedWebhook("transfer"))
+
+      expect(test).toEqual({ received: true, ignored: "TEST" })
+      expect(rows().map((row) => row.user_id)).toEqual([
+        "9b2d7c41-3e5f-4a6b-8c7d-1e2f3a4b5c6d",
+        "9b2d7c41-3e5f-4a6b-8c7d-1e2f3a4b5c6d",
+      ])
+    })
+
+    it("lets the user read their rows and check entitlements, but not write them", async () => {
+      await send(recordedWebhook("initial_purchase"))
+      const user = { ...createMockUser("jane@example.com"), id: WEBHOOK_USER }
+      sharedState.mockUsers.set("jane@example.com", {
+        email: "jane@example.com",
+        password: "x",
+        user,
+      })
+      sharedState.currentSession = createMockSession(user)
+
+      const { data: visible } = await client.from("subscriptions").select("product_id")
+      const { data: isPro } = await client.rpc("has_active_entitlement", { entitlement_id: "pro" })
+      const { error: writeError } = await client
+        .from("subscriptions")
+        .insert({ user_id: WEBHOOK_USER, product_id: "pro_annual", status: "active" })
+
+      expect(visible).toEqual([{ product_id: "pro_monthly" }])
+      expect(isPro).toBe(true)
+      expect(writeError).toMatchObject({ code: "42501" })
+
+      await send(recordedWebhook("expiration"))
+      const { data: stillPro } = await client.rpc("has_active_entitlement", {
+        entitlement_id: "pro",
+      })
+      expect(stillPro).toBe(false)
+    })
+  })
+})
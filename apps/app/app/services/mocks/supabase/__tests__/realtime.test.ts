@@ -0,0 +1,190 @@
+/**
+ * Mock Supabase Realtime Tests
+ *
+ * Tests for postgres_changes events published by mock database writes, and for
+ * broadcast and presence shared between mock clients
+ */
+
+import { createMockSupabaseClient, mockSupabaseHelpers, MockRealtimeChannel } from ".."
+import type { PresenceChangePayload, RealtimeBroadcastMessage, RealtimeCallback } from "../types"
+
+type RealtimePayload = Parameters<RealtimeCallback>[0]
+
+describe("MockRealtime", () => {
+  const client = createMockSupabaseClient()
+
+  const listen = (filter?: string, table: string = "messages") => {
+    const events: RealtimePayload[] = []
+    client
+      .channel(`test:${table}:${filter ?? "all"}`)
+      .on("postgres_changes", { event: "*", schema: "public", table, filter }, (payload) =>
+        events.push(payload),
+      )
+      .subscribe()
+    return events
+  }
+
+  beforeEach(async () => {
+    await mockSupabaseHelpers.clearAll()
+    mockSupabaseHelpers.setRowLevelSecurity(false)
+  })
+
+  it("publishes inserts, updates and deletes with old and new records", async () => {
+    const events = listen()
+
+    await client.from("messages").insert({ id: "m1", user_id: "123", content: "Hi" })
+    await client.from("messages").update({ content: "Hello" }).eq("id", "m1")
+    await client.from("messages").delete().eq("id", "m1")
+
+    expect(events.map((event) => event.eventType)).toEqual(["INSERT", "UPDATE", "DELETE"])
+    expect(events[0]).toMatchObject({ new: { content: "Hi" }, old: null, table: "messages" })
+    expect(events[1]).toMatchObject({ new: { content: "Hello" }, old: { content: "Hi" } })
+    expect(events[2]).toMatchObject({ new: null, old: { id: "m1", content: "Hello" } })
+  })
+
+  it("publishes upserts as inserts or updates", async () => {
+    const events = listen()
+
+    await client.from("messages").upsert({ id: "m1", content: "Hi" })
+    await client.from("messages").upsert({ id: "m1", content: "Edited" })
+
+    expect(events.map((event) => event.eventType)).toEqual(["INSERT", "UPDATE"])
+    expect(events[1].old).toMatchObject({ content: "Hi" })
+  })
+
+  it("matches column=operator.value filters", async () => {
+    const mine = listen("user_id=eq.123")
+    const several = listen("user_id=in.(123,456)")
+    const numeric = listen("priority=gte.5")
+
+    await client.from("messages").insert([
+      { id: "m1", user_id: "123", priority: 1 },
+      { id: "m2", user_id: "456", priority: 5 },
+      { id: "m3", user_id: "789", priority: 10 },
+    ])
+
+    expect(mine.map((event) => event.new?.id)).toEqual(["m1"])
+    expect(several.map((event) => event.new?.id)).toEqual(["m1", "m2"])
+    expect(numeric.map((event) => event.new?.id)).toEqual(["m2", "m3"])
+  })
+
+  it("matches delete filters against the old record", async () => {
+    await client.from("messages").insert({ id: "m1", user_id: "123" })
+    const events = listen("user_id=eq.123")
+
+    await client.from("messages").delete().eq("id", "m1")
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ eventType: "DELETE", old: { id: "m1" } })
+  })
+
+  it("only delivers rows the session can see", async () => {
+    mockSupabaseHelpers.setRowLevelSecurity(true)
+    const events = listen(undefined, "waitlist")
+
+    await client.from("waitlist").insert({ email: "new@example.com" })
+
+    expect(events).toEqual([])
+  })
+
+  it("reports CHANNEL_ERROR for malformed filters", async () => {
+    const status = await new Promise((resolve) => {
+      client
+        .channel("test:invalid")
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "messages", filter: "user_id:123" },
+          () => {},
+        )
+        .subscribe(resolve)
+    })
+
+    expect(status).toBe("CHANNEL_ERROR")
+  })
+
+  describe("broadcast and presence", () => {
+    const otherClient = createMockSupabaseClient()
+
+    const join = (channel: MockRealtimeChannel) =>
+      new Promise((resolve) => channel.subscribe((status) => resolve(status)))
+
+    it("delivers broadcasts to other clients on the same channel", async () => {
+      const received: RealtimeBroadcastMessage[] = []
+      const own: RealtimeBroadcastMessage[] = []
+      const sender = client.channel("room:1").on("broadcast", { event: "typing" }, (message) => {
+        own.push(message)
+      })
+      const receiver = otherClient
+        .channel("room:1")
+        .on("broadcast", { event: "typing" }, (message) => received.push(message))
+      await Promise.all([join(sender), join(receiver)])
+
+      await sender.send({ type: "broadcast", event: "typing", payload: { is_typing: true } })
+      await sender.send({ type: "broadcast", event: "other", payload: {} })
+
+      expect(received).toEqual([
+        { type: "broadcast", event: "typing", payload: { is_typing: true } },
+      ])
+      expect(own).toEqual([])
+    })
+
+    it("echoes broadcasts to the sender with config.broadcast.self", async () => {
+      const own: RealtimeBroadcastMessage[] = []
+      const channel = client
+        .channel("room:self", { config: { broadcast: { self: true } } })
+        .on("broadcast", { event: "*" }, (message) => own.push(message))
+      await join(channel)
+
+      await channel.send({ type: "broadcast", event: "ping", payload: { n: 1 } })
+
+      expect(own).toHaveLength(1)
+    })
+
+    it("shares tracked presence between clients with join, leave and sync events", async () => {
+      const events: PresenceChangePayload[] = []
+      const alice = client.channel("room:2", { config: { presence: { key: "alice" } } })
+      const bob = otherClient
+        .channel("room:2", { config: { presence: { key: "bob" } } })
+        .on("presence", { event: "join" }, (payload) => events.push(payload))
+        .on("presence", { event: "leave" }, (payload) => events.push(payload))
+        .on("presence", { event: "sync" }, (payload) => events.push(payload))
+      await Promise.all([join(alice), join(bob)])
+      events.length = 0
+
+      await alice.track({ user_id: "alice", status: "online" })
+
+      expect(bob.presenceState()).toEqual({
+        alice: [expect.objectContaining({ user_id: "alice", presence_ref: expect.any(String) })],
+      })
+      expect(events.map((event) => event.event)).toEqual(["join", "sync"])
+      expect(events[0]).toMatchObject({ key: "alice", newPresences: [{ status: "online" }] })
+
+      events.length = 0
+      await alice.untrack()
+
+      expect(bob.presenceState()).toEqual({})
+      expect(events.map((event) => event.event)).toEqual(["leave", "sync"])
+      expect(events[0]).toMatchObject({ key: "alice", leftPresences: [{ user_id: "alice" }] })
+    })
+
+    it("replays existing presences to new subscribers and drops them on unsubscribe", async () => {
+      const alice = client.channel("room:3", { config: { presence: { key: "alice" } } })
+      await join(alice)
+      await alice.track({ user_id: "alice" })
+
+      const joined: PresenceChangePayload[] = []
+      const bob = otherClient
+        .channel("room:3")
+        .on("presence", { event: "join" }, (payload) => joined.push(payload))
+      await join(bob)
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(joined).toEqual([expect.objectContaining({ key: "alice" })])
+      expect(mockSupabaseHelpers.getPresenceState("room:3")).toHaveProperty("alice")
+
+      await alice.unsubscribe()
+
+      expect(bob.presenceState()).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Mock Supabase RPC Tests
+ *
+ * Tests for the built-in mocks of the functions in supabase-schema.sql
+ */
+
+import { readFileSync } from "fs"
+import { join } from "path"
+
+import { createMockSupabaseClient, mockSupabaseHelpers } from ".."
+import { createMockSession, createMockUser } from "../helpers"
+import { BUILT_IN_RPC_FUNCTIONS } from "../rpc"
+import { sharedState } from "../types"
+
+const USER_1 = "11111111-1111-4111-8111-111111111111"
+const USER_2 = "22222222-2222-4222-8222-222222222222"
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+describe("MockSupabaseClient.rpc", () => {
+  const client = createMockSupabaseClient()
+
+  const signIn = (email: string, id: string) => {
+    const user = { ...createMockUser(email), id }
+    sharedState.mockUsers.set(email, { email, password: "password", user })
+    sharedState.currentSession = createMockSession(user)
+  }
+
+  beforeEach(async () => {
+    await mockSupabaseHelpers.clearAll()
+  })
+
+  it("has a mock for every callable function in supabase-schema.sql", () => {
+    const sql = readFileSync(join(__dirname, "../../../../../../../supabase-schema.sql"), "utf8")
+    const pattern = /CREATE (?:OR REPLACE )?FUNCTION public\.(\w+)\(([^)]*)\)\s*RETURNS\s+(\w+)/gi
+    const functions = Array.from(sql.matchAll(pattern))
+      .filter(([, , , returns]) => returns.toUpperCase() !== "TRIGGER")
+      .map(([, name, args]) => ({
+        name,
+        params: args
+          .split(",")
+          .map((arg) => arg.trim().split(/\s+/)[0])
+          .filter(Boolean),
+      }))
+
+    expect(functions.length).toBeGreaterThan(0)
+    for (const fn of functions) {
+      expect({
+        name: fn.name,
+        params: BUILT_IN_RPC_FUNCTIONS[fn.name]?.params.map((p) => p.name),
+      }).toEqual(fn)
+    }
+  })
+
+  it("returns PGRST202 for unknown functions and argument names", async () => {
+    const { error: unknown } = await client.rpc("missing_function")
+    const { error: badArgs } = await client.rpc("get_user_profile", { id: USER_1 })
+
+    expect(unknown).toMatchObject({ code: "PGRST202" })
+    expect(badArgs).toMatchObject({
+      code: "PGRST202",
+      message: "Could not find the function public.get_user_profile(id) in the schema cache",
+    })
+  })
+
+  it("prefers registered handlers over built-in functions", async () => {
+    mockSupabaseHelpers.registerRpcHandler("get_user_profile", async () => ({
+      data: "custom",
+      error: null,
+    }))
+
+    const { data } = await client.rpc("get_user_profile", { user_id: USER_1 })
+
+    expect(data).toBe("custom")
+  })
+
+  describe("get_user_profile", () => {
+    it("returns the profile with its preferences", async () => {
+      await mockSupabaseHelpers.seedTable("profiles", [{ id: USER_1, first_name: "Jane" }])
+      await mockSupabaseHelpers.seedTable("user_preferences", [{ id: USER_1, language: "fr" }])
+
+      const { data, error } = await client.rpc("get_user_profile", { user_id: USER_1 })
+
+      expect(error).toBeNull()
+      expect(data).toEqual({
+        profile: { id: USER_1, first_name: "Jane" },
+        preferences: { id: USER_1, language: "fr" },
+      })
+    })
+
+    it("returns null preferences, null for missing profiles and 22P02 for bad ids", async () => {
+      await mockSupabaseHelpers.seedTable("profiles", [{ id: USER_1 }])
+
+      const { data: withoutPreferences } = await client.rpc("get_user_profile", {
+        user_id: USER_1,
+      })
+      const { data: missing } = await client.rpc("get_user_profile", { user_id: USER_2 })
+      const { error } = await client.rpc("get_user_profile", { user_id: "not-a-uuid" })
+
+      expect(withoutPreferences).toEqual({ profile: { id: USER_1 }, preferences: null })
+      expect(missing).toBeNull()
+      expect(error).toMatchObject({ code: "22P02" })
+    })
+  })
+
+  describe("delete_expired_push_tokens", () => {
+    beforeEach(async () => {
+      await mockSupabaseHelpers.seedTable("push_tokens", [
+        { id: "stale", user_id: USER_1, is_active: false, last_used_at: daysAgo(120) },
+        { id: "recent", user_id: USER_1, is_active: false, last_used_at: daysAgo(30) },
+        { id: "active", user_id: USER_1, is_active: true, last_used_at: daysAgo(200) },
+      ])
+    })
+
+    it("deletes inactive tokens older than 90 days by default", async () => {
+      const { data } = await client.rpc("delete_expired_push_tokens")
+
+      expect(data).toBe(1)
+      expect(mockSupabaseHelpers.getTableData("push_tokens").map((row) => row.id)).toEqual([
+        "recent",
+        "active",
+      ])
+    })
+
+    it("accepts days_old", async () => {
+      const { data } = await client.rpc("delete_expired_push_tokens", { days_old: 7 })
+
+      expect(data).toBe(2)
+    })
+  })
+
+  describe("delete_user_account", () => {
+    it("deletes the caller's rows and auth user", async () => {
+      signIn("jane@example.com", USER_1)
+      await mockSupabaseHelpers.seedTable("profiles", [{ id: USER_1 }, { id: USER_2 }])
+      await mockSupabaseHelpers.seedTable("user_preferences", [{ id: USER_1 }])
+      await mockSupabaseHelpers.seedTable("push_tokens", [{ id: "t1", user_id: USER_1 }])
+
+      const { data, error } = await client.rpc("delete_user_account")
+
+      expect(error).toBeNull()
+      expect(data).toBeNull()
+      expect(mockSupabaseHelpers.getTableData("profiles")).toEqual([{ id: USER_2 }])
+      expect(mockSupabaseHelpers.getTableData("user_preferences")).toEqual([])
+      expect(mockSupabaseHelpers.getTableData("push_tokens")).toEqual([])
+      expect(mockSupabaseHelpers.getUsers()).toEqual([])
+    })
+
+    it("raises when called without a session", async () => {
+      const { error } = await client.rpc("delete_user_account")
+
+      expect(error).toMatchObject({
+        code: "P0001",
+        message: "Must be authenticated to delete account",
+      })
+    })
+  })
+})
@@ -0,0 +1,420 @@
+/**
+ * Mock Supabase Storage Tests
+ *
+ * Tests for binary round-trips, folder-aware listing, object operations, bucket
+ * restrictions, signed URL expiry and image transforms
+ */
+
+import { StorageApiError } from "@supabase/storage-js"
+import { encode as encodeJpeg } from "jpeg-js"
+import * as UPNG from "upng-js"
+
+import { createMockSupabaseClient, installMockStorageFetch, mockSupabaseHelpers } from ".."
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff])
+
+const RED = [255, 0, 0, 255]
+const BLUE = [0, 0, 255, 255]
+
+/** Solid RGBA pixels, left half red and right half blue */
+function splitPixels(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    data.set(i % width < width / 2 ? RED : BLUE, i * 4)
+  }
+  return data
+}
+
+function encodePng(width: number, height: number): Uint8Array {
+  return new Uint8Array(
+    UPNG.encode([splitPixels(width, height).buffer as ArrayBuffer], width, height, 0),
+  )
+}
+
+function decodeDataUri(uri: string) {
+  const [, mimeType, base64] = /^data:([^;]+);base64,(.+)$/.exec(uri)!
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+  const png = UPNG.decode(bytes.buffer)
+  return {
+    mimeType,
+    width: png.width,
+    height: png.height,
+    pixels: new Uint8Array(UPNG.toRGBA8(png)[0]),
+  }
+}
+
+describe("MockStorage", () => {
+  const client = createMockSupabaseClient()
+  const avatars = client.storage.from("avatars")
+
+  const readBytes = async (blob: Blob | null) => new Uint8Array(await blob!.arrayBuffer())
+
+  beforeEach(async () => {
+    jest.restoreAllMocks()
+    await mockSupabaseHelpers.clearAll()
+  })
+
+  describe("uploads", () => {
+    it("round-trips ArrayBuffer, typed array, Blob and string bodies", async () => {
+      await avatars.upload("a.png", PNG_BYTES.buffer, { contentType: "image/png" })
+      await avatars.upload("b.png", PNG_BYTES, { contentType: "image/png" })
+      await avatars.upload("c.png", new Blob([PNG_BYTES], { type: "image/png" }))
+      await avatars.upload("d.txt", "héllo")
+
+      for (const path of ["a.png", "b.png", "c.png"]) {
+        const { data } = await avatars.download(path)
+        expect(await readBytes(data)).toEqual(PNG_BYTES)
+        expect(data?.type).toBe("image/png")
+      }
+      const { data: text } = await avatars.download("d.txt")
+      expect(await text?.text()).toBe("héllo")
+      expect(text?.type).toBe("text/plain;charset=utf-8")
+    })
+
+    it("downloads through a data URI where Blob can't wrap an ArrayBuffer", async () => {
+      const NodeBlob = global.Blob
+      const originalFetch = global.fetch
+      // React Native's Blob rejects ArrayBuffer parts; its fetch reads data URIs into Blobs
+      global.Blob = class extends NodeBlob {
+        constructor(parts?: BlobPart[], options?: BlobPropertyBag) {
+          if (parts?.some((part) => part instanceof ArrayBuffer || ArrayBuffer.isView(part))) {
+            throw new Error(
+              "Creating blobs from 'ArrayBuffer' and 'ArrayBufferView' are not supported",
+            )
+          }
+          super(parts, options)
+        }
+      }
+      global.fetch = jest.fn(async (uri: string) => {
+        const [, type, base64] = /^data:([^;]+);base64,(.*)$/.exec(uri)!
+        return { blob: async () => new NodeBlob([Buffer.from(base64, "base64")], { type }) }
+      }) as unknown as typeof fetch
+      try {
+        await avatars.upload("me.png", PNG_BYTES, { contentType: "image/png" })
+        const { data, error } = await avatars.download("me.png")
+
+        expect(error).toBeNull()
+        expect(await readBytes(data)).toEqual(PNG_BYTES)
+        expect(data?.type).toBe("image/png")
+      } finally {
+        global.Blob = NodeBlob
+        global.fetch = originalFetch
+      }
+    })
+
+    it("rejects existing paths unless upserting, and update replaces contents", async () => {
+      const { data: first } = await avatars.upload("me.png", PNG_BYTES)
+      const { error } = await avatars.upload("me.png", PNG_BYTES)
+      const { data: updated } = await avatars.update("me.png", "new")
+
+      expect(first).toEqual({ id: expect.any(String), path: "me.png", fullPath: "avatars/me.png" })
+      expect(error).toBeInstanceOf(StorageApiError)
+      expect(error).toMatchObject({ status: 409, message: "The resource already exists" })
+      expect(updated?.id).toBe(first?.id)
+      expect(await (await avatars.download("me.png")).data?.text()).toBe("new")
+    })
+
+    it("stores cache control and custom metadata", async () => {
+      await avatars.upload("me.png", PNG_BYTES, {
+        contentType: "image/png",
+        cacheControl: "60",
+        metadata: { owner: "jane" },
+      })
+
+      const { data } = await avatars.info("me.png")
+
+      expect(data).toMatchObject({
+        size: PNG_BYTES.byteLength,
+        contentType: "image/png",
+        cacheControl: "max-age=60",
+        metadata: { owner: "jane" },
+      })
+    })
+
+    it("reports missing buckets", async () => {
+      const { error } = await client.storage.from("missing").upload("a.txt", "a")
+
+      expect(error).toMatchObject({ status: 404, message: "Bucket not found" })
+    })
+  })
+
+  describe("list", () => {
+    beforeEach(async () => {
+      await avatars.upload("user-1/b.png", "b")
+      await avatars.upload("user-1/a.png", "a")
+      await avatars.upload("user-1/thumbs/a.png", "a")
+      await avatars.upload("user-2/c.png", "c")
+    })
+
+    it("lists files and folders directly inside a folder", async () => {
+      const { data: root } = await avatars.list()
+      const { data: folder } = await avatars.list("user-1/")
+
+      expect(root?.map((entry) => [entry.name, entry.id])).toEqual([
+        ["user-1", null],
+        ["user-2", null],
+      ])
+      expect(folder?.map((entry) => entry.name)).toEqual(["a.png", "b.png", "thumbs"])
+      expect(folder?.[0].metadata).toMatchObject({ size: 1, mimetype: "text/plain;charset=UTF-8" })
+    })
+
+    it("sorts, searches and paginates", async () => {
+      const { data: sorted } = await avatars.list("user-1", {
+        sortBy: { column: "name", order: "desc" },
+      })
+      const { data: searched } = await avatars.list("user-1", { search: "A" })
+      const { data: page } = await avatars.list("user-1", { limit: 1, offset: 1 })
+
+      expect(sorted?.map((entry) => entry.name)).toEqual(["thumbs", "b.png", "a.png"])
+      expect(searched?.map((entry) => entry.name)).toEqual(["a.png"])
+      expect(page?.map((entry) => entry.name)).toEqual(["b.png"])
+    })
+  })
+
+  describe("object operations", () => {
+    it("moves, copies and checks existence", async () => {
+      await avatars.upload("old.png", PNG_BYTES)
+
+      const { data: copied } = await avatars.copy("old.png", "copy.png", {
+        destinationBucket: "uploads",
+      })
+      const { data: moved } = await avatars.move("old.png", "new/path.png")
+
+      expect(copied).toEqual({ path: "uploads/copy.png" })
+      expect(moved).toEqual({ message: "Successfully moved" })
+      expect((await avatars.exists("old.png")).data).toBe(false)
+      expect((await avatars.exists("new/path.png")).data).toBe(true)
+      expect(
+        await readBytes((await client.storage.from("uploads").download("copy.png")).data),
+      ).toEqual(PNG_BYTES)
+    })
+
+    it("won't move onto an existing object or from a missing one", async () => {
+      await avatars.upload("a.png", "a")
+      await avatars.upload("b.png", "b")
+
+      expect((await avatars.move("a.png", "b.png")).error).toMatchObject({ status: 409 })
+      expect((await avatars.move("missing.png", "c.png")).error).toMatchObject({ status: 404 })
+    })
+
+    it("only returns the objects remove() deleted", async () => {
+      await avatars.upload("a.png", "a")
+
+      const { data } = await avatars.remove(["a.png", "missing.png"])
+
+      expect(data?.map((entry) => entry.name)).toEqual(["a.png"])
+    })
+  })
+
+  describe("buckets", () => {
+    it("enforces file size limits and allowed MIME types", async () => {
+      await client.storage.createBucket("images", {
+        public: true,
+        fileSizeLimit: "1KB",
+        allowedMimeTypes: ["image/*"],
+      })
+      const images = client.storage.from("images")
+
+      const tooBig = await images.upload(
+        "big.png",
+        new Blob([new Uint8Array(2048)], {
+          type: "image/png",
+        }),
+      )
+      const wrongType = await images.upload(
+        "doc.pdf",
+        new Blob(["pdf"], {
+          type: "application/pdf",
+        }),
+      )
+      const ok = await images.upload("ok.png", new Blob([PNG_BYTES], { type: "image/png" }))
+
+      expect(tooBig.error).toMatchObject({ status: 413 })
+      expect(wrongType.error).toMatchObject({
+        status: 415,
+        message: "mime type application/pdf is not supported",
+      })
+      expect(ok.error).toBeNull()
+    })
+
+    it("only deletes empty buckets", async () => {
+      await avatars.upload("a.png", "a")
+
+      const { error } = await client.storage.deleteBucket("avatars")
+      await client.storage.emptyBucket("avatars")
+      const { data } = await client.storage.deleteBucket("avatars")
+
+      expect(error).toMatchObject({ status: 409 })
+      expect(data).toEqual({ message: "Successfully deleted" })
+    })
+  })
+
+  describe("URLs", () => {
+    it("serves public URLs only from public buckets", async () => {
+      await avatars.upload("me.png", PNG_BYTES, { contentType: "image/png" })
+      await client.storage.from("uploads").upload("doc.txt", "secret")
+
+      const publicResponse = await mockSupabaseHelpers.fetchStorageUrl(
+        avatars.getPublicUrl("me.png").data.publicUrl,
+      )
+      const privateResponse = await mockSupabaseHelpers.fetchStorageUrl(
+        client.storage.from("uploads").getPublicUrl("doc.txt").data.publicUrl,
+      )
+
+      expect(publicResponse.status).toBe(200)
+      expect(publicResponse.headers.get("Content-Type")).toBe("image/png")
+      expect(new Uint8Array(await publicResponse.arrayBuffer())).toEqual(PNG_BYTES)
+      expect(privateResponse.status).toBe(404)
+    })
+
+    it("stops resolving signed URLs once they expire", async () => {
+      const uploads = client.storage.from("uploads")
+      await uploads.upload("doc.txt", "secret")
+      const { data } = await uploads.createSignedUrl("doc.txt", 60)
+
+      const fresh = await mockSupabaseHelpers.fetchStorageUrl(data!.signedUrl)
+      const now = Date.now()
+      jest.spyOn(Date, "now").mockReturnValue(now + 61_000)
+      const expired = await mockSupabaseHelpers.fetchStorageUrl(data!.signedUrl)
+
+      expect(await fresh.text()).toBe("secret")
+      expect(expired.status).toBe(400)
+      expect(await expired.json()).toMatchObject({ message: "jwt expired" })
+    })
+
+    it("expires signed URLs the app fetches once mock storage fetch is installed", async () => {
+      const originalFetch = global.fetch
+      const networkFetch = jest.fn(async () => new Response("network"))
+      global.fetch = networkFetch as typeof fetch
+      try {
+        installMockStorageFetch()
+        const uploads = client.storage.from("uploads")
+        await uploads.upload("doc.txt", "secret")
+        const { data } = await uploads.createSignedUrl("doc.txt", 60)
+
+        const fresh = await fetch(data!.signedUrl)
+        jest.spyOn(Date, "now").mockReturnValue(Date.now() + 61_000)
+        const expired = await fetch(data!.signedUrl)
+        await fetch("https://example.com/feed")
+
+        expect(await fresh.text()).toBe("secret")
+        expect(expired.status).toBe(400)
+        expect(networkFetch).toHaveBeenCalledTimes(1)
+        expect(networkFetch).toHaveBeenCalledWith("https://example.com/feed", undefined)
+      } finally {
+        global.fetch = originalFetch
+      }
+    })
+
+    it("won't sign URLs for missing objects", async () => {
+      const { error } = await avatars.createSignedUrl("missing.png", 60)
+
+      expect(error).toMatchObject({ status: 404, message: "Object not found" })
+    })
+
+    it("uploads through signed upload URLs for the signed path only", async () => {
+      const uploads = client.storage.from("uploads")
+      const { data } = await uploads.createSignedUploadUrl("incoming/file.txt")
+
+      const wrongPath = await uploads.uploadToSignedUrl("other.txt", data!.token, "nope")
+      const uploaded = await uploads.uploadToSignedUrl("incoming/file.txt", data!.token, "hello")
+
+      expect(data?.signedUrl).toContain("/object/upload/sign/uploads/incoming/file.txt?token=")
+      expect(wrongPath.error).toMatchObject({ status: 400 })
+      expect(uploaded.data).toEqual({
+        path: "incoming/file.txt",
+        fullPath: "uploads/incoming/file.txt",
+      })
+    })
+  })
+
+  describe("image transforms", () => {
+    const renderedUrl = async (path: string, transform: object) => {
+      avatars.getPublicUrl(path, { transform })
+      await mockSupabaseHelpers.waitForImageRenders()
+      return avatars.getPublicUrl(path, { transform }).data.publicUrl
+    }
+
+    it("returns the original image while the transformed one renders", async () => {
+      await avatars.upload("wide.png", encodePng(40, 20), { contentType: "image/png" })
+
+      const { data } = avatars.getPublicUrl("wide.png", { transform: { width: 10 } })
+
+      expect(decodeDataUri(data.publicUrl)).toMatchObject({ width: 40, height: 20 })
+      await mockSupabaseHelpers.waitForImageRenders()
+      expect(
+        decodeDataUri(
+          avatars.getPublicUrl("wide.png", { transform: { width: 10 } }).data.publicUrl,
+        ),
+      ).toMatchObject({ width: 10, height: 5 })
+    })
+
+    it("renders transformed public URLs to a data URI", async () => {
+      await avatars.upload("wide.png", encodePng(40, 20), { contentType: "image/png" })
+
+      const image = decodeDataUri(await renderedUrl("wide.png", { width: 10, height: 10 }))
+
+      expect(image).toMatchObject({ mimeType: "image/png", width: 10, height: 10 })
+      // cover crops the middle of the source, so the left half stays red
+      expect(Array.from(image.pixels.slice(0, 4))).toEqual(RED)
+      expect(Array.from(image.pixels.slice(-4))).toEqual(BLUE)
+    })
+
+    it("applies contain, fill and single-dimension sizing", async () => {
+      await avatars.upload("wide.png", encodePng(40, 20), { contentType: "image/png" })
+      const render = async (transform: object) =>
+        decodeDataUri(await renderedUrl("wide.png", transform))
+
+      expect(await render({ width: 10, height: 10, resize: "contain" })).toMatchObject({
+        width: 10,
+        height: 5,
+      })
+      expect(await render({ width: 10, height: 10, resize: "fill" })).toMatchObject({
+        width: 10,
+        height: 10,
+      })
+      expect(await render({ height: 4 })).toMatchObject({ width: 8, height: 4 })
+    })
+
+    it("decodes JPEG sources", async () => {
+      const jpeg = encodeJpeg({ width: 16, height: 16, data: splitPixels(16, 16) }, 90).data
+      await avatars.upload("photo.jpg", new Uint8Array(jpeg), { contentType: "image/jpeg" })
+
+      expect(decodeDataUri(await renderedUrl("photo.jpg", { width: 4 }))).toMatchObject({
+        width: 4,
+        height: 4,
+      })
+    })
+
+    it("returns render URLs for objects it can't render", async () => {
+      await avatars.upload("notes.txt", "not an image")
+      await client.storage.from("uploads").upload("wide.png", encodePng(4, 2), {
+        contentType: "image/png",
+      })
+
+      const text = avatars.getPublicUrl("notes.txt", { transform: { width: 10 } })
+      const privateImage = client.storage
+        .from("uploads")
+        .getPublicUrl("wide.png", { transform: { width: 2, resize: "fill" } })
+
+      expect(text.data.publicUrl).toBe(
+        "https://mock-storage.supabase.co/storage/v1/render/image/public/avatars/notes.txt?width=10",
+      )
+      expect(privateImage.data.publicUrl).toContain("/render/image/public/uploads/wide.png?")
+      expect((await mockSupabaseHelpers.fetchStorageUrl(privateImage.data.publicUrl)).status).toBe(
+        404,
+      )
+    })
+
+    it("serves render URLs through fetchStorageUrl", async () => {
+      await avatars.upload("wide.png", encodePng(40, 20), { contentType: "image/png" })
+      const url = `https://mock-storage.supabase.co/storage/v1/render/image/public/avatars/wide.png?width=20`
+
+      const response = await mockSupabaseHelpers.fetchStorageUrl(url)
+      const png = UPNG.decode(await response.arrayBuffer())
+
+      expect(response.headers.get("Content-Type")).toBe("image/png")
+      expect([png.width, png.height]).toEqual([20, 10])
+    })
+  })
+})
@@ -4,7 +4,7 @@
  * Mock implementation of Supabase authentication methods
  */
 
-import { AuthError } from "@supabase/auth-js"
+import { AuthError, AuthRetryableFetchError } from "@supabase/auth-js"
 import type {
   AuthOtpResponse,
   SignInWithPasswordlessCredentials,
@@ -13,7 +13,7 @@ import type {
 
 import {
   initializeStorage,
-  delay,
+  simulateRequest,
   createMockUser,
   createMockSession,
   isSessionValid,
@@ -38,6 +38,12 @@ import { logger } from "../../../utils/Logger"
 
 const buildAuthError = (message: string) => new AuthError(message)
 
+/**
+ * Injected failures surface like supabase-js fetch failures, unless they're already auth errors
+ */
+const toAuthError = (error: Error) =>
+  error instanceof AuthError ? error : new AuthRetryableFetchError(error.message, 0)
+
 export class MockSupabaseAuth {
   constructor() {
     // Initialize storage on first auth operation
@@ -56,7 +62,10 @@ export class MockSupabaseAuth {
     }
 
     const { email, password, options } = credentials
-    await delay()
+    const fault = await simulateRequest("auth.signUp")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] Sign up`, { email })
@@ -118,7 +127,10 @@ export class MockSupabaseAuth {
     }
 
     const { email, password } = credentials
-    await delay()
+    const fault = await simulateRequest("auth.signInWithPassword")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] Sign in`, { email })
@@ -168,7 +180,10 @@ export class MockSupabaseAuth {
 
   async signInWithOtp(credentials: SignInWithPasswordlessCredentials): Promise<AuthOtpResponse> {
     await initializeStorage()
-    await delay()
+    const fault = await simulateRequest("auth.signInWithOtp")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
 
     if ("email" in credentials) {
       const { email, options } = credentials
@@ -202,7 +217,10 @@ export class MockSupabaseAuth {
   }
 
   async signOut(_options?: { scope?: "global" | "local" }): Promise<{ error: Error | null }> {
-    await delay(200)
+    const fault = await simulateRequest("auth.signOut", 200)
+    if (fault) {
+      return { error: toAuthError(fault) }
+    }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] Sign out`, { scope: _options?.scope ?? "global" })
@@ -236,6 +254,10 @@ export class MockSupabaseAuth {
 
   async getUser(): Promise<{ data: { user: User | null }; error: Error | null }> {
     await initializeStorage()
+    const fault = await simulateRequest("auth.getUser", 0)
+    if (fault) {
+      return { data: { user: null }, error: toAuthError(fault) }
+    }
 
     // Ensure session is valid
     if (sharedState.currentSession && !isSessionValid(sharedState.currentSession)) {
@@ -254,7 +276,10 @@ export class MockSupabaseAuth {
     refresh_token: string
   }): Promise<AuthResponse> {
     await initializeStorage()
-    await delay()
+    const fault = await simulateRequest("auth.setSession")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] Set session`)
@@ -279,7 +304,10 @@ export class MockSupabaseAuth {
 
   async refreshSession(_currentSession?: { refresh_token: string }): Promise<AuthResponse> {
     await initializeStorage()
-    await delay()
+    const fault = await simulateRequest("auth.refreshSession")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
 
     const session = sharedState.currentSession
     if (!session || !isSessionValid(session)) {
@@ -299,7 +327,10 @@ export class MockSupabaseAuth {
 
   async exchangeCodeForSession(code: string): Promise<AuthResponse> {
     await initializeStorage()
-    await delay()
+    const fault = await simulateRequest("auth.exchangeCodeForSession")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] Exchange code for session`, { code })
@@ -323,7 +354,10 @@ export class MockSupabaseAuth {
   }
 
   async verifyOtp(options: VerifyOtpParams): Promise<AuthResponse> {
-    await delay()
+    const fault = await simulateRequest("auth.verifyOtp")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
     const { type } = options
     const token = "token" in options ? options.token : options.token_hash
 
@@ -389,7 +423,10 @@ export class MockSupabaseAuth {
     type: "signup" | "email_change" | "password_recovery"
     email: string
   }): Promise<{ data: any; error: Error | null }> {
-    await delay()
+    const fault = await simulateRequest("auth.resend")
+    if (fault) {
+      return { data: null, error: toAuthError(fault) }
+    }
 
     const { type, email } = options
 
@@ -421,7 +458,10 @@ export class MockSupabaseAuth {
     email: string,
     _options?: ResetPasswordOptions,
   ): Promise<{ data: any; error: Error | null }> {
-    await delay()
+    const fault = await simulateRequest("auth.resetPasswordForEmail")
+    if (fault) {
+      return { data: null, error: toAuthError(fault) }
+    }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] Password reset requested`, { email })
@@ -439,7 +479,10 @@ export class MockSupabaseAuth {
     password?: string
     data?: Record<string, any>
   }): Promise<AuthResponse> {
-    await delay()
+    const fault = await simulateRequest("auth.updateUser")
+    if (fault) {
+      return { data: { user: null, session: null }, error: toAuthError(fault) }
+    }
 
     if (!sharedState.currentSession) {
       return {
@@ -500,6 +543,10 @@ export class MockSupabaseAuth {
     }
   }): Promise<{ data: { provider: string; url: string } | null; error: Error | null }> {
     const { provider, options: oauthOptions } = options
+    const fault = await simulateRequest("auth.signInWithOAuth", 0)
+    if (fault) {
+      return { data: null, error: toAuthError(fault) }
+    }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] OAuth sign in`, { provider })
@@ -4,74 +4,213 @@
  * Mock implementation of Supabase database query builder and table operations
  */
 
-import { delay, persistDatabase } from "./helpers"
-import { sharedState, type DatabaseRecord, type DatabaseFilter, type FilterValue } from "./types"
-import type { DatabaseResponse } from "../../../types/database"
+import { evaluateCondition, isFilterGroup, isSupportedOperator, parseLogicTree } from "./filters"
+import { createPostgrestError, persistDatabase, simulateRequest, toPostgrestError } from "./helpers"
+import { canAccessRow, passesWithCheck, rowLevelSecurityError } from "./policies"
+import { triggerRealtimeEvent } from "./realtime"
+import {
+  applyColumnDefaults,
+  castColumns,
+  checkConstraints,
+  getTableSchema,
+  hasColumn,
+} from "./schema"
+import { parseSelect, projectRow, validateSelect, type SelectNode } from "./select"
+import { sharedState, type DatabaseCondition, type DatabaseRecord, type FilterValue } from "./types"
+import type { DatabaseResponse, SelectOptions, UpsertOptions } from "../../../types/database"
 import { logger } from "../../../utils/Logger"
 
+const TEXT_SEARCH_OPERATORS = {
+  plain: "plfts",
+  phrase: "phfts",
+  websearch: "wfts",
+} as const
+
+/**
+ * Embedded resource path a condition applies to ("" for the queried table)
+ */
+function conditionPath(condition: DatabaseCondition): string {
+  if (isFilterGroup(condition)) return condition.referencedTable ?? ""
+  const separator = condition.column.lastIndexOf(".")
+  return separator === -1 ? "" : condition.column.slice(0, separator)
+}
+
+/**
+ * Build a new row: cast and default it against the table schema, or fall back to a
+ * generated id and created_at for tables without one
+ */
+export function buildNewRow(tableName: string, item: DatabaseRecord): DatabaseRecord {
+  if (getTableSchema(tableName)) {
+    return applyColumnDefaults(tableName, castColumns(tableName, item))
+  }
+  return {
+    ...item,
+    id: (item.id as string) || `mock-id-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    created_at: (item.created_at as string) || new Date().toISOString(),
+  }
+}
+
+/**
+ * Bump updated_at, like the handle_updated_at() trigger
+ */
+function touch(tableName: string, row: DatabaseRecord): DatabaseRecord {
+  return hasColumn(tableName, "updated_at") ? { ...row, updated_at: new Date().toISOString() } : row
+}
+
+interface QueryResult {
+  rows: DatabaseRecord[]
+  count: number
+}
+
 // Mock database query builder
 export class MockDatabaseQuery {
   private tableName: string
-  private filters: DatabaseFilter[] = []
+  private columns: string
+  private options: SelectOptions
+  private filters: DatabaseCondition[] = []
+  private filterError: Error | null = null
   private orderColumn?: string
   private orderAscending: boolean = true
   private limitCount?: number
   private rangeFrom?: number
   private rangeTo?: number
 
-  constructor(tableName: string) {
+  constructor(tableName: string, columns: string = "*", options: SelectOptions = {}) {
     this.tableName = tableName
+    this.columns = columns
+    this.options = options
   }
 
   /**
    * Get filters for external use (update/delete operations)
    */
-  getFilters(): DatabaseFilter[] {
+  getFilters(): DatabaseCondition[] {
     return this.filters
   }
 
-  eq(column: string, value: FilterValue): this {
-    this.filters.push({ column, operator: "eq", value })
+  private addFilter(column: string, operator: string, value: FilterValue, negate?: boolean): this {
+    if (!isSupportedOperator(operator)) {
+      this.filterError = createPostgrestError(
+        "PGRST100",
+        `failed to parse filter (${operator}.${String(value)})`,
+        `unknown operator "${operator}"`,
+      )
+      return this
+    }
+    this.filters.push({ column, operator, value, negate })
     return this
   }
 
+  eq(column: string, value: FilterValue): this {
+    return this.addFilter(column, "eq", value)
+  }
+
   neq(column: string, value: FilterValue): this {
-    this.filters.push({ column, operator: "neq", value })
-    return this
+    return this.addFilter(column, "neq", value)
   }
 
   gt(column: string, value: FilterValue): this {
-    this.filters.push({ column, operator: "gt", value })
-    return this
+    return this.addFilter(column, "gt", value)
   }
 
   gte(column: string, value: FilterValue): this {
-    this.filters.push({ column, operator: "gte", value })
-    return this
+    return this.addFilter(column, "gte", value)
   }
 
   lt(column: string, value: FilterValue): this {
-    this.filters.push({ column, operator: "lt", value })
-    return this
+    return this.addFilter(column, "lt", value)
   }
 
   lte(column: string, value: FilterValue): this {
-    this.filters.push({ column, operator: "lte", value })
-    return this
+    return this.addFilter(column, "lte", value)
   }
 
   like(column: string, pattern: string): this {
-    this.filters.push({ column, operator: "like", value: pattern })
-    return this
+    return this.addFilter(column, "like", pattern)
   }
 
   ilike(column: string, pattern: string): this {
-    this.filters.push({ column, operator: "ilike", value: pattern })
-    return this
+    return this.addFilter(column, "ilike", pattern)
+  }
+
+  in(column: string, values: readonly (string | number | boolean | null)[]): this {
+    return this.addFilter(column, "in", values)
+  }
+
+  is(column: string, value: boolean | null): this {
+    return this.addFilter(column, "is", value)
+  }
+
+  contains(column: string, value: string | readonly unknown[] | Record<string, unknown>): this {
+    return this.addFilter(column, "cs", value as FilterValue)
+  }
+
+  containedBy(column: string, value: string | readonly unknown[] | Record<string, unknown>): this {
+    return this.addFilter(column, "cd", value as FilterValue)
+  }
+
+  overlaps(column: string, value: string | readonly unknown[]): this {
+    return this.addFilter(column, "ov", value as FilterValue)
+  }
+
+  rangeGt(column: string, range: string): this {
+    return this.addFilter(column, "sr", range)
+  }
+
+  rangeGte(column: string, range: string): this {
+    return this.addFilter(column, "nxl", range)
+  }
+
+  rangeLt(column: string, range: string): this {
+    return this.addFilter(column, "sl", range)
+  }
+
+  rangeLte(column: string, range: string): this {
+    return this.addFilter(column, "nxr", range)
+  }
+
+  rangeAdjacent(column: string, range: string): this {
+    return this.addFilter(column, "adj", range)
   }
 
-  in(column: string, values: string[] | number[]): this {
-    this.filters.push({ column, operator: "in", value: values })
+  textSearch(
+    column: string,
+    query: string,
+    options?: { config?: string; type?: "plain" | "phrase" | "websearch" },
+  ): this {
+    const operator = options?.type ? TEXT_SEARCH_OPERATORS[options.type] : "fts"
+    const config = options?.config ? `(${options.config})` : ""
+    return this.addFilter(column, `${operator}${config}`, query)
+  }
+
+  /**
+   * Negate a filter, e.g. `.not("deleted_at", "is", null)`
+   */
+  not(column: string, operator: string, value: FilterValue): this {
+    return this.addFilter(column, operator, value, true)
+  }
+
+  /**
+   * Raw PostgREST filter, e.g. `.filter("tags", "cs", "{a,b}")`
+   */
+  filter(column: string, operator: string, value: FilterValue): this {
+    const negated = operator.startsWith("not.")
+    return this.addFilter(column, negated ? operator.slice(4) : operator, value, negated)
+  }
+
+  /**
+   * Match at least one filter, using PostgREST logic tree syntax
+   * @example
+   * query.or("status.eq.active,and(role.eq.admin,deleted_at.is.null)")
+   */
+  or(filters: string, options?: { referencedTable?: string; foreignTable?: string }): this {
+    try {
+      const group = parseLogicTree(filters, "or")
+      group.referencedTable = options?.referencedTable ?? options?.foreignTable
+      this.filters.push(group)
+    } catch (error) {
+      this.filterError = error as Error
+    }
     return this
   }
 
@@ -100,39 +239,41 @@ export class MockDatabaseQuery {
   }
 
   /**
-   * Apply filters to items - public for use by update/delete operations
+   * Conditions targeting an embedded resource path, with columns relative to it
+   */
+  private conditionsFor(path: string): DatabaseCondition[] {
+    return this.filters
+      .filter((condition) => conditionPath(condition) === path)
+      .map((condition) =>
+        isFilterGroup(condition) || !path
+          ? condition
+          : { ...condition, column: condition.column.slice(path.length + 1) },
+      )
+  }
+
+  /**
+   * Apply filters to items - public for use by update/delete operations.
+   * Filters on embedded resources (e.g. "profiles.first_name") are applied during select.
+   * Rows are kept only when every condition is true; UNKNOWN (NULL comparisons) drops them.
+   *
+   * @throws PostgREST-style PGRST100 error when a filter could not be parsed
    */
   applyFilters(items: DatabaseRecord[]): DatabaseRecord[] {
-    return items.filter((item) => {
-      return this.filters.every((filter) => {
-        const value = item[filter.column]
-
-        switch (filter.operator) {
-          case "eq":
-            return value === filter.value
-          case "neq":
-            return value !== filter.value
-          case "gt":
-            return (value as number) > (filter.value as number)
-          case "gte":
-            return (value as number) >= (filter.value as number)
-          case "lt":
-            return (value as number) < (filter.value as number)
-          case "lte":
-            return (value as number) <= (filter.value as number)
-          case "like":
-          case "ilike": {
-            const pattern = String(filter.value).replace(/%/g, ".*")
-            const regex = new RegExp(pattern, filter.operator === "ilike" ? "i" : "")
-            return regex.test(String(value))
-          }
-          case "in":
-            return (filter.value as (string | number)[]).includes(value as string | number)
-          default:
-            return true
-        }
-      })
-    })
+    if (this.filterError) throw this.filterError
+
+    const conditions = this.conditionsFor("")
+    return items.filter((item) =>
+      conditions.every((condition) => evaluateCondition(condition, item) === true),
+    )
+  }
+
+  /**
+   * Check an embedded row against the filters targeting its path
+   */
+  private matchesEmbeddedFilters(path: string, record: DatabaseRecord): boolean {
+    return this.conditionsFor(path).every(
+      (condition) => evaluateCondition(condition, record) === true,
+    )
   }
 
   private applyOrdering(items: DatabaseRecord[]): DatabaseRecord[] {
@@ -161,65 +302,124 @@ export class MockDatabaseQuery {
     return items
   }
 
+  /**
+   * Run the query: apply row-level security, filter, order, project (joining embedded
+   * resources), then limit.
+   * The count covers every matching row before range/limit are applied; "planned" and
+   * "estimated" counts are exact in the mock.
+   * Returns null when the table does not exist.
+   */
+  private execute(): QueryResult | null {
+    const table = sharedState.mockDatabase.get(this.tableName)
+    if (!table) return null
+
+    const nodes: SelectNode[] = parseSelect(this.columns)
+    validateSelect(this.tableName, nodes)
+    const visible = Array.from(table.values()).filter((row) =>
+      canAccessRow(this.tableName, "SELECT", row),
+    )
+    const rows = this.applyOrdering(this.applyFilters(visible))
+    const projected = rows
+      .map((row) =>
+        projectRow(this.tableName, row, nodes, (path, record) =>
+          this.matchesEmbeddedFilters(path, record),
+        ),
+      )
+      .filter((row): row is DatabaseRecord => row !== null)
+
+    return { rows: this.applyLimiting(projected), count: projected.length }
+  }
+
+  /**
+   * Count to include in the response, or null when no count was requested
+   */
+  private responseCount(count: number): number | null {
+    return this.options.count ? count : null
+  }
+
   async single(): Promise<DatabaseResponse> {
-    await delay(200)
+    const fault = await simulateRequest(`database.${this.tableName}.select`, 200)
+    if (fault) return { data: null, error: toPostgrestError(fault) }
+
+    let result: QueryResult | null
+    try {
+      result = this.execute()
+    } catch (error) {
+      return { data: null, error: error as Error }
+    }
 
-    const table = sharedState.mockDatabase.get(this.tableName)
-    if (!table) {
+    if (!result) {
       return { data: null, error: new Error(`Table ${this.tableName} not found`) }
     }
 
-    const items = Array.from(table.values())
-    const filtered = this.applyFilters(items)
-
-    if (filtered.length === 0) {
+    const { rows, count } = result
+    if (rows.length === 0) {
       return { data: null, error: new Error("No rows found") }
     }
 
-    if (filtered.length > 1) {
+    if (rows.length > 1) {
       return { data: null, error: new Error("Multiple rows found") }
     }
 
-    return { data: filtered[0], error: null }
+    return {
+      data: this.options.head ? null : rows[0],
+      error: null,
+      count: this.responseCount(count),
+    }
   }
 
   async maybeSingle(): Promise<DatabaseResponse> {
-    await delay(200)
-
-    const table = sharedState.mockDatabase.get(this.tableName)
-    if (!table) {
-      return { data: null, error: null }
+    const fault = await simulateRequest(`database.${this.tableName}.select`, 200)
+    if (fault) return { data: null, error: toPostgrestError(fault) }
+
+    let result: QueryResult | null
+    try {
+      result = this.execute()
+    } catch (error) {
+      return { data: null, error: error as Error }
     }
 
-    const items = Array.from(table.values())
-    const filtered = this.applyFilters(items)
-
-    if (filtered.length === 0) {
-      return { data: null, error: null }
+    if (!result || result.rows.length === 0) {
+      return { data: null, error: null, count: this.responseCount(0) }
     }
 
-    if (filtered.length > 1) {
+    const { rows, count } = result
+    if (rows.length > 1) {
       return { data: null, error: new Error("Multiple rows found") }
     }
 
-    return { data: filtered[0], error: null }
+    return {
+      data: this.options.head ? null : rows[0],
+      error: null,
+      count: this.responseCount(count),
+    }
   }
 
   async then(resolve: (value: DatabaseResponse) => void) {
-    await delay(200)
+    const fault = await simulateRequest(`database.${this.tableName}.select`, 200)
+    if (fault) {
+      resolve({ data: null, error: toPostgrestError(fault) })
+      return
+    }
 
-    const table = sharedState.mockDatabase.get(this.tableName)
-    if (!table) {
-      resolve({ data: [], error: null })
+    let result: QueryResult | null
+    try {
+      result = this.execute()
+    } catch (error) {
+      resolve({ data: null, error: error as Error })
       return
     }
 
-    let items = Array.from(table.values())
-    items = this.applyFilters(items)
-    items = this.applyOrdering(items)
-    items = this.applyLimiting(items)
+    if (!result) {
+      resolve({ data: this.options.head ? null : [], error: null, count: this.responseCount(0) })
+      return
+    }
 
-    resolve({ data: items, error: null, count: items.length })
+    resolve({
+      data: this.options.head ? null : result.rows,
+      error: null,
+      count: this.responseCount(result.count),
+    })
   }
 }
 
@@ -236,34 +436,45 @@ export class MockDatabaseTable {
     }
   }
 
-  select(columns?: string) {
+  select(columns?: string, options?: SelectOptions) {
     if (__DEV__) {
-      logger.debug(`[MockSupabase] SELECT`, { table: this.tableName, columns: columns || "*" })
+      logger.debug(`[MockSupabase] SELECT`, {
+        table: this.tableName,
+        columns: columns || "*",
+        ...options,
+      })
     }
-    return new MockDatabaseQuery(this.tableName)
+    return new MockDatabaseQuery(this.tableName, columns, options)
   }
 
   async insert(data: DatabaseRecord | DatabaseRecord[]): Promise<DatabaseResponse> {
-    await delay(300)
+    const fault = await simulateRequest(`database.${this.tableName}.insert`, 300)
+    if (fault) return { data: null, error: toPostgrestError(fault) }
 
     const table = sharedState.mockDatabase.get(this.tableName)!
     const items = Array.isArray(data) ? data : [data]
-    const inserted: DatabaseRecord[] = []
-
-    items.forEach((item) => {
-      const id =
-        (item.id as string) || `mock-id-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      const record: DatabaseRecord = {
-        ...item,
-        id,
-        created_at: (item.created_at as string) || new Date().toISOString(),
-      }
-      table.set(id, record)
-      inserted.push(record)
-    })
+
+    let inserted: DatabaseRecord[]
+    try {
+      inserted = items.map((item) => buildNewRow(this.tableName, item))
+    } catch (error) {
+      return { data: null, error: error as Error }
+    }
+
+    // Inserts are all-or-nothing, like a single INSERT statement
+    if (!inserted.every((record) => passesWithCheck(this.tableName, "INSERT", record))) {
+      return { data: null, error: rowLevelSecurityError(this.tableName) }
+    }
+    try {
+      checkConstraints(this.tableName, inserted, Array.from(table.values()))
+    } catch (error) {
+      return { data: null, error: error as Error }
+    }
+    inserted.forEach((record) => table.set(record.id as string, record))
 
     // Persist database changes
     await persistDatabase()
+    inserted.forEach((record) => triggerRealtimeEvent(this.tableName, "INSERT", record))
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] INSERT`, { table: this.tableName, rows: inserted.length })
@@ -284,29 +495,56 @@ export class MockDatabaseTable {
     const tableName = this.tableName
 
     query.then = async (resolve) => {
-      await delay(300)
+      const fault = await simulateRequest(`database.${tableName}.update`, 300)
+      if (fault) {
+        resolve({ data: null, error: toPostgrestError(fault) })
+        return
+      }
 
       const table = sharedState.mockDatabase.get(tableName)!
-      const items = Array.from(table.values())
-      const filtered = query.applyFilters(items)
+      // Rows hidden by row-level security are silently skipped
+      const visible = Array.from(table.values()).filter((row) =>
+        canAccessRow(tableName, "UPDATE", row),
+      )
+      let filtered: DatabaseRecord[]
+      let changes: DatabaseRecord
+      try {
+        filtered = query.applyFilters(visible)
+        changes = castColumns(tableName, data)
+      } catch (error) {
+        resolve({ data: null, error: error as Error })
+        return
+      }
 
-      filtered.forEach((item) => {
-        const itemId = item.id as string
-        const updated: DatabaseRecord = { ...item, ...data, updated_at: new Date().toISOString() }
-        table.set(itemId, updated)
-      })
+      const updatedRows = filtered.map((item) => touch(tableName, { ...item, ...changes }))
+      if (!updatedRows.every((row) => passesWithCheck(tableName, "UPDATE", row))) {
+        resolve({ data: null, error: rowLevelSecurityError(tableName) })
+        return
+      }
+      try {
+        const others = Array.from(table.values()).filter((row) => !filtered.includes(row))
+        checkConstraints(tableName, updatedRows, others)
+      } catch (error) {
+        resolve({ data: null, error: error as Error })
+        return
+      }
+      filtered.forEach((row) => table.delete(row.id as string))
+      updatedRows.forEach((row) => table.set(row.id as string, row))
 
       // Persist database changes
       await persistDatabase()
+      updatedRows.forEach((row, index) =>
+        triggerRealtimeEvent(tableName, "UPDATE", row, filtered[index]),
+      )
 
       if (__DEV__) {
         logger.debug(`[MockSupabase] Updated rows`, {
           table: tableName,
-          count: filtered.length,
+          count: updatedRows.length,
         })
       }
 
-      resolve({ data: filtered, error: null })
+      resolve({ data: updatedRows, error: null })
     }
 
     return query
@@ -321,11 +559,24 @@ export class MockDatabaseTable {
     const tableName = this.tableName
 
     query.then = async (resolve) => {
-      await delay(300)
+      const fault = await simulateRequest(`database.${tableName}.delete`, 300)
+      if (fault) {
+        resolve({ data: null, error: toPostgrestError(fault) })
+        return
+      }
 
       const table = sharedState.mockDatabase.get(tableName)!
-      const items = Array.from(table.values())
-      const filtered = query.applyFilters(items)
+      // Rows hidden by row-level security are silently skipped
+      const visible = Array.from(table.values()).filter((row) =>
+        canAccessRow(tableName, "DELETE", row),
+      )
+      let filtered: DatabaseRecord[]
+      try {
+        filtered = query.applyFilters(visible)
+      } catch (error) {
+        resolve({ data: null, error: error as Error })
+        return
+      }
 
       filtered.forEach((item) => {
         const itemId = item.id as string
@@ -334,6 +585,7 @@ export class MockDatabaseTable {
 
       // Persist database changes
       await persistDatabase()
+      filtered.forEach((item) => triggerRealtimeEvent(tableName, "DELETE", null, item))
 
       if (__DEV__) {
         logger.debug(`[MockSupabase] Deleted rows`, {
@@ -348,37 +600,72 @@ export class MockDatabaseTable {
     return query
   }
 
-  async upsert(data: DatabaseRecord | DatabaseRecord[]): Promise<DatabaseResponse> {
-    await delay(300)
+  async upsert(
+    data: DatabaseRecord | DatabaseRecord[],
+    options: UpsertOptions = {},
+  ): Promise<DatabaseResponse> {
+    const fault = await simulateRequest(`database.${this.tableName}.upsert`, 300)
+    if (fault) return { data: null, error: toPostgrestError(fault) }
 
     const table = sharedState.mockDatabase.get(this.tableName)!
     const items = Array.isArray(data) ? data : [data]
+    // Conflicts are resolved on onConflict columns, or the primary key
+    const conflictColumns = options.onConflict
+      ? options.onConflict.split(",").map((column) => column.trim())
+      : (getTableSchema(this.tableName)?.primaryKey ?? ["id"])
+    const findConflict = (values: DatabaseRecord) =>
+      conflictColumns.every((column) => values[column] != null)
+        ? Array.from(table.values()).find((row) =>
+            conflictColumns.every((column) => row[column] === values[column]),
+          )
+        : undefined
+
     const upserted: DatabaseRecord[] = []
+    // Row each upserted record replaced, or null when it was inserted
+    const previous: Array<DatabaseRecord | null> = []
 
-    items.forEach((item) => {
-      const id =
-        (item.id as string) || `mock-id-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      const existing = table.get(id)
-      const record: DatabaseRecord = {
-        ...existing,
-        ...item,
-        id,
-        created_at: (existing?.created_at as string) || new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+    try {
+      for (const item of items) {
+        const values = castColumns(this.tableName, item)
+        const existing = findConflict(values)
+
+        if (existing && options.ignoreDuplicates) continue
+
+        // Conflicting rows take the UPDATE path, which must be able to see the existing row
+        if (existing && !canAccessRow(this.tableName, "UPDATE", existing)) {
+          return { data: null, error: rowLevelSecurityError(this.tableName, true) }
+        }
+        const record = existing
+          ? touch(this.tableName, { ...existing, ...values })
+          : touch(this.tableName, buildNewRow(this.tableName, values))
+        if (!passesWithCheck(this.tableName, existing ? "UPDATE" : "INSERT", record)) {
+          return { data: null, error: rowLevelSecurityError(this.tableName) }
+        }
+        upserted.push(record)
+        previous.push(existing ?? null)
       }
-      table.set(id, record)
-      upserted.push(record)
-    })
+
+      const others = Array.from(table.values()).filter((row) => !previous.includes(row))
+      checkConstraints(this.tableName, upserted, others)
+    } catch (error) {
+      return { data: null, error: error as Error }
+    }
+    previous.forEach((record) => record && table.delete(record.id as string))
+    upserted.forEach((record) => table.set(record.id as string, record))
 
     // Persist database changes
     await persistDatabase()
+    upserted.forEach((record, index) => {
+      const old = previous[index]
+      triggerRealtimeEvent(this.tableName, old ? "UPDATE" : "INSERT", record, old)
+    })
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] UPSERT`, { table: this.tableName, rows: upserted.length })
     }
 
     return {
-      data: Array.isArray(data) ? upserted : upserted[0],
+      data: Array.isArray(data) ? upserted : (upserted[0] ?? null),
       error: null,
     }
   }
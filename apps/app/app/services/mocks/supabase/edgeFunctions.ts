@@ -0,0 +1,273 @@
+/**
+ * Mock Edge Functions
+ *
+ * In-process versions of the functions in `supabase/functions`, bundled with the
+ * mock client so flows that call them can run end to end without a backend.
+ */
+
+import { decodeMockJwt, persistDatabase, purgeMockUser } from "./helpers"
+import { triggerRealtimeEvent } from "./realtime"
+import { applyColumnDefaults, castColumns } from "./schema"
+import { sharedState, type DatabaseRecord, type EdgeFunctionHandler } from "./types"
+import { logger } from "../../../utils/Logger"
+
+/**
+ * Authorization header value the mock revenuecat-webhook accepts, standing in for
+ * the REVENUECAT_WEBHOOK_AUTH secret
+ */
+export const MOCK_REVENUECAT_WEBHOOK_AUTH = "mock-revenuecat-webhook-secret"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+/**
+ * Mirrors supabase/functions/delete-user: verifies the caller's JWT, then deletes the
+ * user along with their rows, files and session
+ */
+export const deleteUserFunction: EdgeFunctionHandler = async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const authHeader = req.headers.get("authorization") ?? ""
+  if (!authHeader.toLowerCase().startsWith("bearer ")) {
+    return jsonResponse({ code: 401, message: "Missing or invalid Authorization header" }, 401)
+  }
+
+  const token = authHeader.replace(/^bearer\s+/i, "")
+  const payload = decodeMockJwt(token)
+  if (!payload?.sub) {
+    return jsonResponse({ code: 401, message: "Invalid JWT: missing subject" }, 401)
+  }
+
+  if (payload.exp !== undefined && payload.exp <= Math.floor(Date.now() / 1000)) {
+    return jsonResponse({ code: 401, message: "Invalid or expired JWT" }, 401)
+  }
+
+  const userId = payload.sub
+  const exists = Array.from(sharedState.mockUsers.values()).some(
+    (userData) => userData.user.id === userId,
+  )
+  if (!exists) {
+    return jsonResponse({ code: 401, message: "Invalid JWT: user not found" }, 401)
+  }
+
+  await purgeMockUser(userId)
+
+  if (__DEV__) {
+    logger.debug(`[MockFunctions] delete-user removed user`, { userId })
+  }
+
+  return jsonResponse({ success: true }, 200)
+}
+
+interface RevenueCatEvent {
+  id: string
+  type: string
+  app_user_id: string
+  original_app_user_id?: string
+  aliases?: string[]
+  product_id?: string
+  entitlement_ids?: string[] | null
+  period_type?: string
+  expiration_at_ms?: number | null
+  grace_period_expiration_at_ms?: number | null
+  event_timestamp_ms: number
+  environment?: string
+  store?: string
+  transferred_from?: string[]
+  transferred_to?: string[]
+}
+
+const IGNORED_REVENUECAT_EVENTS = new Set([
+  "TEST",
+  "SUBSCRIPTION_PAUSED",
+  "INVOICE_ISSUANCE",
+  "SUBSCRIBER_ALIAS",
+  "REFUND_REVERSED",
+])
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const toTimestamp = (ms?: number | null) => (ms ? new Date(ms).toISOString() : null)
+
+function findUserId(ids: (string | undefined)[]): string | null {
+  return ids.find((id): id is string => !!id && UUID_PATTERN.test(id)) ?? null
+}
+
+function toSubscriptionRow(event: RevenueCatEvent, userId: string): DatabaseRecord | null {
+  const entitlements = event.entitlement_ids ?? []
+  if (event.type === "NON_RENEWING_PURCHASE" && entitlements.length === 0) return null
+  if (!event.product_id) return null
+
+  const expiresAt = toTimestamp(event.expiration_at_ms)
+  const row: DatabaseRecord = {
+    user_id: userId,
+    product_id: event.product_id,
+    entitlements,
+    status: event.period_type === "TRIAL" ? "trial" : "active",
+    will_renew: expiresAt !== null,
+    store: event.store ?? null,
+    environment: event.environment ?? null,
+    expires_at: expiresAt,
+    grace_period_expires_at: null,
+    billing_issue_detected_at: null,
+    last_event_id: event.id,
+    last_event_type: event.type,
+    last_event_at: toTimestamp(event.event_timestamp_ms),
+  }
+
+  switch (event.type) {
+    case "CANCELLATION":
+      return { ...row, status: "cancelled", will_renew: false }
+    case "BILLING_ISSUE":
+      return {
+        ...row,
+        grace_period_expires_at: toTimestamp(event.grace_period_expiration_at_ms),
+        billing_issue_detected_at: row.last_event_at,
+      }
+    case "EXPIRATION":
+      return { ...row, entitlements: [], status: "expired", will_renew: false }
+    case "NON_RENEWING_PURCHASE":
+      return { ...row, will_renew: false }
+    default:
+      return row
+  }
+}
+
+function subscriptionsTable(): Map<string, DatabaseRecord> {
+  let table = sharedState.mockDatabase.get("subscriptions")
+  if (!table) {
+    table = new Map()
+    sharedState.mockDatabase.set("subscriptions", table)
+  }
+  return table
+}
+
+/**
+ * Insert or update the row for a user's product, like upsert(..., { onConflict: "user_id,product_id" })
+ */
+function upsertSubscription(row: DatabaseRecord): void {
+  const table = subscriptionsTable()
+  const existing = Array.from(table.values()).find(
+    (candidate) => candidate.user_id === row.user_id && candidate.product_id === row.product_id,
+  )
+
+  if (existing) {
+    const updated = { ...existing, ...castColumns("subscriptions", row) }
+    updated.updated_at = new Date().toISOString()
+    table.set(existing.id as string, updated)
+    triggerRealtimeEvent("subscriptions", "UPDATE", updated, existing)
+  } else {
+    const inserted = applyColumnDefaults("subscriptions", castColumns("subscriptions", row))
+    table.set(inserted.id as string, inserted)
+    triggerRealtimeEvent("subscriptions", "INSERT", inserted)
+  }
+}
+
+/**
+ * Mirrors supabase/functions/revenuecat-webhook: checks RevenueCat's Authorization header,
+ * then upserts the event's product into the subscriptions table. Feed it the recorded
+ * payloads in supabase/functions/revenuecat-webhook/fixtures to test locally.
+ */
+export const revenueCatWebhookFunction: EdgeFunctionHandler = async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ code: 405, message: "Method not allowed" }, 405)
+  }
+
+  const authorization = (req.headers.get("authorization") ?? "").replace(/^bearer\s+/i, "")
+  if (authorization !== MOCK_REVENUECAT_WEBHOOK_AUTH) {
+    return jsonResponse({ code: 401, message: "Invalid webhook authorization" }, 401)
+  }
+
+  let event: RevenueCatEvent
+  try {
+    const body = await req.json()
+    event = body?.event
+    if (!event?.id || !event.type) throw new Error("Missing event")
+  } catch {
+    return jsonResponse({ code: 400, message: "Invalid webhook payload" }, 400)
+  }
+
+  if (IGNORED_REVENUECAT_EVENTS.has(event.type)) {
+    return jsonResponse({ received: true, ignored: event.type }, 200)
+  }
+
+  if (event.environment === "SANDBOX" && !sharedState.revenueCatWebhookAllowSandbox) {
+    return jsonResponse({ received: true, ignored: "sandbox" }, 200)
+  }
+
+  if (event.type === "TRANSFER") {
+    const from = (event.transferred_from ?? []).filter((id) => UUID_PATTERN.test(id))
+    const to = findUserId(event.transferred_to ?? [])
+    if (!to || from.length === 0) {
+      return jsonResponse({ received: true, ignored: event.type }, 200)
+    }
+
+    const table = subscriptionsTable()
+    const moved = Array.from(table.values()).filter((row) => from.includes(row.user_id as string))
+    moved.forEach((row) => {
+      table.delete(row.id as string)
+      triggerRealtimeEvent("subscriptions", "DELETE", null, row)
+    })
+    moved.forEach(({ id: _id, created_at: _created, updated_at: _updated, ...row }) =>
+      upsertSubscription({ ...row, user_id: to }),
+    )
+    await persistDatabase()
+    return jsonResponse({ received: true }, 200)
+  }
+
+  const userId = findUserId([
+    event.app_user_id,
+    event.original_app_user_id,
+    ...(event.aliases ?? []),
+  ])
+  const row = userId ? toSubscriptionRow(event, userId) : null
+  if (!row) {
+    return jsonResponse({ received: true, ignored: event.type }, 200)
+  }
+
+  // Skip retries of an applied event and deliveries older than the last one applied
+  const existing = Array.from(subscriptionsTable().values()).find(
+    (candidate) => candidate.user_id === userId && candidate.product_id === row.product_id,
+  )
+  const lastEventAt = typeof existing?.last_event_at === "string" ? existing.last_event_at : null
+  if (
+    existing &&
+    (existing.last_event_id === event.id ||
+      (lastEventAt && Date.parse(lastEventAt) > event.event_timestamp_ms))
+  ) {
+    return jsonResponse({ received: true, ignored: "stale" }, 200)
+  }
+
+  upsertSubscription(row)
+  await persistDatabase()
+
+  if (__DEV__) {
+    logger.debug(`[MockFunctions] revenuecat-webhook applied event`, {
+      type: event.type,
+      userId,
+      productId: row.product_id,
+    })
+  }
+
+  return jsonResponse({ received: true }, 200)
+}
+
+/**
+ * Functions available without registering a handler
+ */
+export const BUNDLED_EDGE_FUNCTIONS: Record<string, EdgeFunctionHandler> = {
+  "delete-user": deleteUserFunction,
+  "revenuecat-webhook": revenueCatWebhookFunction,
+}
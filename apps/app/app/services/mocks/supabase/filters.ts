@@ -0,0 +1,576 @@
+/**
+ * Mock Supabase Filters
+ *
+ * Evaluates PostgREST filter conditions against mock rows.
+ * Conditions follow SQL three-valued logic: comparing against NULL yields
+ * UNKNOWN (null), which `not` leaves unknown, and only rows whose conditions
+ * evaluate to true are returned.
+ */
+
+import { createPostgrestError } from "./helpers"
+import type {
+  DatabaseCondition,
+  DatabaseFilter,
+  DatabaseFilterGroup,
+  DatabaseRecord,
+  FilterValue,
+} from "./types"
+
+/**
+ * SQL truth value, where null is UNKNOWN
+ */
+type Truth = boolean | null
+
+interface ParsedRange {
+  lower: unknown
+  upper: unknown
+  lowerInclusive: boolean
+  upperInclusive: boolean
+}
+
+/**
+ * A text search query compiled to a predicate over the tokens of a document
+ */
+type TextQuery = (tokens: string[]) => boolean
+
+const SUPPORTED_OPERATORS = new Set([
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "like",
+  "ilike",
+  "match",
+  "imatch",
+  "in",
+  "is",
+  "isdistinct",
+  "cs",
+  "cd",
+  "ov",
+  "sl",
+  "sr",
+  "nxl",
+  "nxr",
+  "adj",
+  "fts",
+  "plfts",
+  "phfts",
+  "wfts",
+])
+
+// Operators whose string values use PostgREST list/array/JSON syntax
+const STRUCTURED_OPERATORS = new Set(["in", "cs", "cd", "ov"])
+
+export function isFilterGroup(condition: DatabaseCondition): condition is DatabaseFilterGroup {
+  return "filters" in condition
+}
+
+/**
+ * Strip modifiers such as the text search config in `fts(english)`
+ */
+function baseOperator(operator: string): string {
+  return operator.replace(/\(.*\)$/, "")
+}
+
+export function isSupportedOperator(operator: string): boolean {
+  return SUPPORTED_OPERATORS.has(baseOperator(operator))
+}
+
+function filterParseError(raw: string, details: string) {
+  return createPostgrestError("PGRST100", `failed to parse filter (${raw})`, details)
+}
+
+function isNull(value: unknown): value is null | undefined {
+  return value === null || value === undefined
+}
+
+function negate(truth: Truth): Truth {
+  return truth === null ? null : !truth
+}
+
+/**
+ * Split on top-level commas, ignoring commas inside brackets and double quotes
+ */
+function splitTopLevel(raw: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let inQuotes = false
+  let current = ""
+
+  for (const char of raw) {
+    if (char === '"') inQuotes = !inQuotes
+    if (!inQuotes) {
+      if (char === "(" || char === "{" || char === "[") depth++
+      if (char === ")" || char === "}" || char === "]") depth--
+      if (char === "," && depth === 0) {
+        parts.push(current.trim())
+        current = ""
+        continue
+      }
+    }
+    current += char
+  }
+
+  if (depth !== 0 || inQuotes) {
+    throw filterParseError(raw, "unbalanced brackets or quotes")
+  }
+  parts.push(current.trim())
+  return parts
+}
+
+function unquote(value: string): string {
+  return /^".*"$/s.test(value) ? value.slice(1, -1).replace(/\\"/g, '"') : value
+}
+
+/**
+ * Parse `(a,b)` or `{a,b}` into its items. Unquoted `null` items become NULL.
+ */
+function parseList(raw: string): Array<string | null> {
+  const inner = raw.trim().replace(/^[({]/, "").replace(/[)}]$/, "")
+  if (inner.trim() === "") return []
+  return splitTopLevel(inner).map((item) => (item === "null" ? null : unquote(item)))
+}
+
+/**
+ * Convert string values written in PostgREST syntax (from `.or()`, `.not()` or
+ * `.filter()`) into the structured values the evaluator expects
+ */
+function normalizeValue(operator: string, value: FilterValue): FilterValue | Array<string | null> {
+  if (typeof value !== "string") return value
+  const trimmed = value.trim()
+
+  if (operator === "is") {
+    if (trimmed === "null") return null
+    if (trimmed === "true" || trimmed === "false") return trimmed === "true"
+    return trimmed
+  }
+  if (operator === "in") {
+    return parseList(trimmed)
+  }
+  if (STRUCTURED_OPERATORS.has(operator) && trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed)
+      if (json && typeof json === "object" && !Array.isArray(json)) return json
+    } catch {
+      // Not JSON - treat as a Postgres array literal
+    }
+    return parseList(trimmed)
+  }
+  return value
+}
+
+/**
+ * Postgres casts literals to the column type, so "5" matches a numeric 5
+ */
+function coerce(target: unknown, columnValue: unknown): unknown {
+  if (typeof target !== "string") return target
+  if (typeof columnValue === "number" && target.trim() !== "" && !isNaN(Number(target))) {
+    return Number(target)
+  }
+  if (typeof columnValue === "boolean" && (target === "true" || target === "false")) {
+    return target === "true"
+  }
+  return target
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b)
+  if (typeof a === "object" || typeof b === "object") {
+    const jsonA = JSON.stringify(a)
+    const jsonB = JSON.stringify(b)
+    return jsonA === jsonB ? 0 : jsonA < jsonB ? -1 : 1
+  }
+  const stringA = String(a)
+  const stringB = String(b)
+  return stringA === stringB ? 0 : stringA < stringB ? -1 : 1
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = ""
+  for (const char of pattern) {
+    if (char === "%" || char === "*") source += ".*"
+    else if (char === "_") source += "."
+    else source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s")
+}
+
+// ============================================================================
+// CONTAINMENT (arrays and jsonb)
+// ============================================================================
+
+function containsValue(container: unknown, contained: unknown): boolean {
+  if (Array.isArray(contained)) {
+    if (!Array.isArray(container)) return false
+    return contained.every((item) => container.some((candidate) => containsValue(candidate, item)))
+  }
+  if (contained && typeof contained === "object") {
+    if (!container || typeof container !== "object" || Array.isArray(container)) return false
+    return Object.entries(contained).every(
+      ([key, item]) => key in container && containsValue(container[key as keyof object], item),
+    )
+  }
+  if (isNull(contained) || isNull(container)) return isNull(contained) && isNull(container)
+  return compare(container, coerce(contained, container)) === 0
+}
+
+// ============================================================================
+// RANGES
+// ============================================================================
+
+function parseBound(raw: string): unknown {
+  const bound = unquote(raw.trim())
+  if (bound === "" || bound === "infinity" || bound === "-infinity") return null
+  return isNaN(Number(bound)) ? bound : Number(bound)
+}
+
+/**
+ * Parse a range literal such as `[1,5)` or `[2024-01-01,)`; null bounds are infinite
+ */
+function parseRange(raw: unknown): ParsedRange | null {
+  if (typeof raw !== "string") return null
+  const match = /^([[(])(.*),(.*)([\])])$/s.exec(raw.trim())
+  if (!match) return null
+  return {
+    lower: parseBound(match[2]),
+    upper: parseBound(match[3]),
+    lowerInclusive: match[1] === "[",
+    upperInclusive: match[4] === "]",
+  }
+}
+
+/** Every point of `a` is before every point of `b` (`<<`) */
+function strictlyLeft(a: ParsedRange, b: ParsedRange): boolean {
+  if (isNull(a.upper) || isNull(b.lower)) return false
+  const order = compare(a.upper, b.lower)
+  return order < 0 || (order === 0 && !(a.upperInclusive && b.lowerInclusive))
+}
+
+/** `a` does not extend to the right of `b` (`&<`) */
+function notExtendRight(a: ParsedRange, b: ParsedRange): boolean {
+  if (isNull(b.upper)) return true
+  if (isNull(a.upper)) return false
+  const order = compare(a.upper, b.upper)
+  return order < 0 || (order === 0 && (!a.upperInclusive || b.upperInclusive))
+}
+
+/** `a` does not extend to the left of `b` (`&>`) */
+function notExtendLeft(a: ParsedRange, b: ParsedRange): boolean {
+  if (isNull(b.lower)) return true
+  if (isNull(a.lower)) return false
+  const order = compare(a.lower, b.lower)
+  return order > 0 || (order === 0 && (!a.lowerInclusive || b.lowerInclusive))
+}
+
+function adjacent(a: ParsedRange, b: ParsedRange): boolean {
+  const touches = (left: ParsedRange, right: ParsedRange) =>
+    !isNull(left.upper) &&
+    !isNull(right.lower) &&
+    compare(left.upper, right.lower) === 0 &&
+    left.upperInclusive !== right.lowerInclusive
+  return touches(a, b) || touches(b, a)
+}
+
+function rangeContains(range: ParsedRange, target: unknown): boolean {
+  const point = coerce(target, range.lower ?? range.upper)
+  const inner = parseRange(target) ?? {
+    lower: point,
+    upper: point,
+    lowerInclusive: true,
+    upperInclusive: true,
+  }
+  return notExtendLeft(inner, range) && notExtendRight(inner, range)
+}
+
+// ============================================================================
+// FULL TEXT SEARCH
+// ============================================================================
+
+/**
+ * Lowercase word tokens. The mock does not stem words or drop stop words.
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+function termQuery(term: string, prefix: boolean = false): TextQuery {
+  return (tokens) => tokens.some((token) => (prefix ? token.startsWith(term) : token === term))
+}
+
+function phraseQuery(terms: string[]): TextQuery {
+  return (tokens) =>
+    terms.length > 0 &&
+    tokens.some((_, start) => terms.every((term, offset) => tokens[start + offset] === term))
+}
+
+function allOf(queries: TextQuery[]): TextQuery {
+  return (tokens) => queries.every((query) => query(tokens))
+}
+
+function anyOf(queries: TextQuery[]): TextQuery {
+  return (tokens) => queries.some((query) => query(tokens))
+}
+
+/**
+ * Compile `to_tsquery` syntax: `&`, `|`, `!`, `<->`, parentheses and `:*` prefixes
+ */
+function compileTsQuery(query: string): TextQuery {
+  const tokens = query.match(/<->|<\d+>|[|&!()]|[^\s|&!()<]+/g) ?? []
+  let position = 0
+
+  const syntaxError = () =>
+    createPostgrestError("42601", `syntax error in tsquery: "${query}"`, null, null)
+
+  const parseOperand = (): { query: TextQuery; term?: string } => {
+    const token = tokens[position++]
+    if (token === undefined) throw syntaxError()
+    if (token === "!") {
+      const operand = parseOperand().query
+      return { query: (words) => !operand(words) }
+    }
+    if (token === "(") {
+      const inner = parseOr()
+      if (tokens[position++] !== ")") throw syntaxError()
+      return { query: inner }
+    }
+    if (/^[|&)]|^<\d*-?>$/.test(token)) throw syntaxError()
+    const prefix = token.endsWith(":*")
+    const term = tokenize(prefix ? token.slice(0, -2) : token).join(" ")
+    return { query: termQuery(term, prefix), term: prefix ? undefined : term }
+  }
+
+  const parseFollowedBy = (): TextQuery => {
+    const first = parseOperand()
+    const operands = [first]
+    while (tokens[position] === "<->" || /^<\d+>$/.test(tokens[position] ?? "")) {
+      position++
+      operands.push(parseOperand())
+    }
+    if (operands.length === 1) return first.query
+    // Adjacent plain terms form a phrase; anything else falls back to AND
+    const terms = operands.map((operand) => operand.term)
+    return terms.every((term): term is string => term !== undefined)
+      ? phraseQuery(terms)
+      : allOf(operands.map((operand) => operand.query))
+  }
+
+  const parseAnd = (): TextQuery => {
+    const operands = [parseFollowedBy()]
+    while (tokens[position] === "&") {
+      position++
+      operands.push(parseFollowedBy())
+    }
+    return allOf(operands)
+  }
+
+  const parseOr = (): TextQuery => {
+    const operands = [parseAnd()]
+    while (tokens[position] === "|") {
+      position++
+      operands.push(parseAnd())
+    }
+    return anyOf(operands)
+  }
+
+  const compiled = parseOr()
+  if (position !== tokens.length) throw syntaxError()
+  return compiled
+}
+
+/**
+ * Compile `websearch_to_tsquery` syntax: quoted phrases, `or` and `-` negation
+ */
+function compileWebSearch(query: string): TextQuery {
+  const alternatives: TextQuery[][] = [[]]
+  const parts = query.match(/-?"[^"]*"|\S+/g) ?? []
+
+  parts.forEach((part) => {
+    if (part.toLowerCase() === "or") {
+      alternatives.push([])
+      return
+    }
+    const negated = part.startsWith("-")
+    const body = negated ? part.slice(1) : part
+    const terms = tokenize(body)
+    if (terms.length === 0) return
+    const compiled = terms.length === 1 ? termQuery(terms[0]) : phraseQuery(terms)
+    alternatives[alternatives.length - 1].push(negated ? (tokens) => !compiled(tokens) : compiled)
+  })
+
+  return anyOf(alternatives.filter((queries) => queries.length > 0).map(allOf))
+}
+
+function compileTextSearch(operator: string, query: string): TextQuery {
+  switch (operator) {
+    case "plfts":
+      return allOf(tokenize(query).map((term) => termQuery(term)))
+    case "phfts":
+      return phraseQuery(tokenize(query))
+    case "wfts":
+      return compileWebSearch(query)
+    default:
+      return compileTsQuery(query)
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function evaluateOperator(operator: string, value: unknown, target: unknown): Truth {
+  // IS and IS DISTINCT FROM are the only operators that are never unknown
+  if (operator === "is") {
+    if (target === null || target === "unknown") return isNull(value)
+    return value === target
+  }
+  if (operator === "isdistinct") {
+    if (isNull(value) || isNull(target)) return isNull(value) !== isNull(target)
+    return compare(value, coerce(target, value)) !== 0
+  }
+
+  if (isNull(value)) return null
+
+  switch (operator) {
+    case "eq":
+    case "neq":
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      if (isNull(target)) return null
+      const order = compare(value, coerce(target, value))
+      if (operator === "eq") return order === 0
+      if (operator === "neq") return order !== 0
+      if (operator === "gt") return order > 0
+      if (operator === "gte") return order >= 0
+      if (operator === "lt") return order < 0
+      return order <= 0
+    }
+    case "like":
+    case "ilike":
+      return likeToRegExp(String(target), operator === "ilike").test(String(value))
+    case "match":
+    case "imatch":
+      return new RegExp(String(target), operator === "imatch" ? "i" : "").test(String(value))
+    case "in": {
+      const list = target as unknown[]
+      if (list.some((item) => !isNull(item) && compare(value, coerce(item, value)) === 0)) {
+        return true
+      }
+      return list.some(isNull) ? null : false
+    }
+    case "cs":
+    case "cd":
+    case "ov": {
+      const range = parseRange(value)
+      if (range) {
+        const other = parseRange(target)
+        if (operator === "cs") return rangeContains(range, target)
+        if (!other) return false
+        if (operator === "cd") return rangeContains(other, value)
+        return !strictlyLeft(range, other) && !strictlyLeft(other, range)
+      }
+      if (operator === "cs") return containsValue(value, target)
+      if (operator === "cd") return containsValue(target, value)
+      return (
+        Array.isArray(value) &&
+        Array.isArray(target) &&
+        target.some((item) => value.some((candidate) => containsValue(candidate, item)))
+      )
+    }
+    case "sl":
+    case "sr":
+    case "nxl":
+    case "nxr":
+    case "adj": {
+      const range = parseRange(value)
+      const other = parseRange(target)
+      if (!range || !other) return false
+      if (operator === "sl") return strictlyLeft(range, other)
+      if (operator === "sr") return strictlyLeft(other, range)
+      if (operator === "nxl") return notExtendLeft(range, other)
+      if (operator === "nxr") return notExtendRight(range, other)
+      return adjacent(range, other)
+    }
+    case "fts":
+    case "plfts":
+    case "phfts":
+    case "wfts":
+      return compileTextSearch(operator, String(target))(tokenize(String(value)))
+    default:
+      throw filterParseError(operator, `unknown operator "${operator}"`)
+  }
+}
+
+function evaluateFilter(filter: DatabaseFilter, record: DatabaseRecord): Truth {
+  const operator = baseOperator(filter.operator)
+  const result = evaluateOperator(
+    operator,
+    record[filter.column],
+    normalizeValue(operator, filter.value),
+  )
+  return filter.negate ? negate(result) : result
+}
+
+function evaluateGroup(group: DatabaseFilterGroup, record: DatabaseRecord): Truth {
+  const results = group.filters.map((condition) => evaluateCondition(condition, record))
+  let result: Truth
+  if (group.operator === "and") {
+    result = results.includes(false) ? false : results.includes(null) ? null : true
+  } else {
+    result = results.includes(true) ? true : results.includes(null) ? null : false
+  }
+  return group.negate ? negate(result) : result
+}
+
+/**
+ * Evaluate a filter or filter group against a row.
+ * Returns null (UNKNOWN) when the result depends on a NULL comparison.
+ */
+export function evaluateCondition(condition: DatabaseCondition, record: DatabaseRecord): Truth {
+  return isFilterGroup(condition)
+    ? evaluateGroup(condition, record)
+    : evaluateFilter(condition, record)
+}
+
+// ============================================================================
+// LOGIC TREE PARSING
+// ============================================================================
+
+function parseCondition(raw: string): DatabaseCondition {
+  const group = /^(not\.)?(and|or)\((.*)\)$/s.exec(raw)
+  if (group) {
+    return {
+      operator: group[2] as "and" | "or",
+      filters: splitTopLevel(group[3]).map(parseCondition),
+      negate: Boolean(group[1]),
+    }
+  }
+
+  const filter = /^([^.]+)\.(not\.)?([a-z]+(?:\([^)]*\))?)\.(.*)$/s.exec(raw)
+  if (!filter || !isSupportedOperator(filter[3])) {
+    throw filterParseError(raw, 'expected a filter like "column.operator.value"')
+  }
+  const operator = filter[3]
+  return {
+    column: filter[1],
+    operator,
+    value: STRUCTURED_OPERATORS.has(baseOperator(operator)) ? filter[4] : unquote(filter[4]),
+    negate: Boolean(filter[2]),
+  }
+}
+
+/**
+ * Parse a PostgREST logic tree such as `a.eq.1,and(b.gt.2,c.is.null)`
+ *
+ * @throws PostgREST-style PGRST100 error when the string cannot be parsed
+ * @example
+ * parseLogicTree("status.eq.active,not.and(age.lt.18,country.is.null)", "or")
+ */
+export function parseLogicTree(raw: string, operator: "and" | "or"): DatabaseFilterGroup {
+  return { operator, filters: splitTopLevel(raw).map(parseCondition) }
+}
@@ -0,0 +1,345 @@
+/**
+ * Mock Supabase Fixtures and Snapshots
+ *
+ * Fixtures describe users, the signed-in session, table rows, storage files and mock
+ * RevenueCat subscriptions in one plain object, so tests and demos can load a known state
+ * in one call. Snapshots save the current state under a name in persisted storage and
+ * restore it later, which lets QA switch between states from the dev menu without
+ * rebuilding them by hand.
+ */
+
+import { buildNewRow } from "./database"
+import {
+  base64Utils,
+  createMockSession,
+  createMockUser,
+  loadFromStorage,
+  notifyAuthStateChange,
+  persistDatabase,
+  persistUsers,
+  removeFromStorage,
+  saveToStorage,
+  STORAGE_KEYS,
+} from "./helpers"
+import { checkConstraints } from "./schema"
+import {
+  sharedState,
+  type DatabaseRecord,
+  type MockFixture,
+  type MockSnapshot,
+  type MockUserData,
+  type StorageFile,
+} from "./types"
+import { ENTITLEMENTS } from "../../../config/constants"
+import type { Session } from "../../../types/auth"
+import { logger } from "../../../utils/Logger"
+import { mockRevenueCat } from "../revenueCat"
+
+type SeedFile = NonNullable<MockFixture["files"]>[number]
+
+interface MockState {
+  users: Map<string, MockUserData>
+  session: Session | null
+  database: Map<string, Map<string, DatabaseRecord>>
+  files: Map<string, StorageFile>
+}
+
+/**
+ * Build a stored file from seed data
+ */
+export function createSeedFile(file: SeedFile): StorageFile {
+  const now = new Date().toISOString()
+  return {
+    id: `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: file.path.split("/").pop() || "file",
+    bucket: file.bucket,
+    path: file.path,
+    size: base64Utils.byteLength(file.data),
+    mimeType: file.mimeType || "application/octet-stream",
+    data: file.data,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+/**
+ * Swap in a complete mock state, persist it and tell auth listeners about session changes
+ */
+async function replaceState(state: MockState): Promise<void> {
+  const hadSession = sharedState.currentSession !== null
+
+  sharedState.mockUsers = state.users
+  sharedState.mockDatabase = state.database
+  sharedState.mockFileStorage = state.files
+  sharedState.currentSession = state.session
+
+  await persistUsers()
+  await persistDatabase()
+  if (state.session) {
+    await saveToStorage(STORAGE_KEYS.SESSION, state.session)
+    notifyAuthStateChange("SIGNED_IN", state.session)
+  } else {
+    await removeFromStorage(STORAGE_KEYS.SESSION)
+    if (hadSession) notifyAuthStateChange("SIGNED_OUT", null)
+  }
+}
+
+/**
+ * Replace the users, session, tables, files and mock RevenueCat subscriptions with the
+ * contents of a fixture.
+ * Throws if a row violates its table schema or the session user is not declared.
+ */
+export async function loadFixture(fixture: MockFixture): Promise<void> {
+  const users = new Map<string, MockUserData>()
+  for (const entry of fixture.users ?? []) {
+    const user = createMockUser(entry.email, entry.user_metadata)
+    if (entry.id) user.id = entry.id
+    if (entry.emailConfirmed !== false) {
+      user.email_confirmed_at = user.created_at
+      user.confirmed_at = user.created_at
+    }
+    user.app_metadata = { provider: "email", providers: ["email"], ...entry.app_metadata }
+    users.set(entry.email, { email: entry.email, password: entry.password ?? "password", user })
+  }
+
+  let session: Session | null = null
+  if (fixture.session) {
+    const sessionUser = users.get(fixture.session)
+    if (!sessionUser) {
+      throw new Error(`Fixture session user ${fixture.session} is not listed in users`)
+    }
+    session = createMockSession(sessionUser.user)
+  }
+
+  const database = new Map<string, Map<string, DatabaseRecord>>()
+  for (const [tableName, rows] of Object.entries(fixture.tables ?? {})) {
+    const built = rows.map((row) => buildNewRow(tableName, row))
+    checkConstraints(tableName, built, [])
+    database.set(tableName, new Map(built.map((row) => [row.id as string, row])))
+  }
+
+  const files = new Map<string, StorageFile>()
+  for (const file of fixture.files ?? []) {
+    files.set(`${file.bucket}/${file.path}`, createSeedFile(file))
+  }
+
+  await replaceState({ users, session, database, files })
+  mockRevenueCat.loadSubscriptions(fixture.revenueCat?.subscriptions ?? [])
+
+  if (__DEV__) {
+    logger.debug(`[MockSupabase] Loaded fixture`, {
+      users: users.size,
+      tables: database.size,
+      files: files.size,
+      subscriptions: fixture.revenueCat?.subscriptions?.length ?? 0,
+      signedIn: session?.user.email ?? null,
+    })
+  }
+}
+
+async function loadSnapshots(): Promise<Record<string, MockSnapshot>> {
+  return (await loadFromStorage<Record<string, MockSnapshot>>(STORAGE_KEYS.SNAPSHOTS)) ?? {}
+}
+
+/**
+ * Save the current users, session, tables, files and mock RevenueCat state under a name,
+ * replacing any snapshot with the same name
+ */
+export async function saveSnapshot(name: string): Promise<MockSnapshot> {
+  const database: MockSnapshot["database"] = {}
+  sharedState.mockDatabase.forEach((table, tableName) => {
+    database[tableName] = Object.fromEntries(table.entries())
+  })
+
+  // Round-trip through JSON so later writes can't mutate the snapshot
+  const snapshot: MockSnapshot = JSON.parse(
+    JSON.stringify({
+      name,
+      created_at: new Date().toISOString(),
+      users: Array.from(sharedState.mockUsers.entries()),
+      session: sharedState.currentSession,
+      database,
+      files: Array.from(sharedState.mockFileStorage.entries()),
+      revenueCat: mockRevenueCat.getState(),
+    }),
+  )
+
+  const snapshots = await loadSnapshots()
+  snapshots[name] = snapshot
+  await saveToStorage(STORAGE_KEYS.SNAPSHOTS, snapshots)
+
+  if (__DEV__) {
+    logger.debug(`[MockSupabase] Saved snapshot`, { name })
+  }
+
+  return snapshot
+}
+
+/**
+ * Restore a saved snapshot. Returns false if no snapshot has that name.
+ * An expired session is re-issued so the snapshot's user stays signed in, and the mock
+ * RevenueCat clock resumes at the time the snapshot was saved.
+ */
+export async function restoreSnapshot(name: string): Promise<boolean> {
+  const snapshot = (await loadSnapshots())[name]
+  if (!snapshot) {
+    if (__DEV__) {
+      logger.warn(`[MockSupabase] Snapshot not found`, { name })
+    }
+    return false
+  }
+
+  let session = snapshot.session
+  if (session && (session.expires_at ?? 0) <= Math.floor(Date.now() / 1000)) {
+    session = createMockSession(session.user)
+  }
+
+  await replaceState({
+    users: new Map(snapshot.users),
+    session,
+    database: new Map(
+      Object.entries(snapshot.database).map(([tableName, rows]) => [
+        tableName,
+        new Map(Object.entries(rows)),
+      ]),
+    ),
+    files: new Map(snapshot.files),
+  })
+  if (snapshot.revenueCat) mockRevenueCat.setState(snapshot.revenueCat)
+
+  if (__DEV__) {
+    logger.debug(`[MockSupabase] Restored snapshot`, { name })
+  }
+
+  return true
+}
+
+/**
+ * Names and creation times of the saved snapshots, oldest first
+ */
+export async function listSnapshots(): Promise<Array<{ name: string; created_at: string }>> {
+  return Object.values(await loadSnapshots())
+    .map(({ name, created_at }) => ({ name, created_at }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+/**
+ * Delete a saved snapshot
+ */
+export async function deleteSnapshot(name: string): Promise<void> {
+  const snapshots = await loadSnapshots()
+  if (!(name in snapshots)) return
+  delete snapshots[name]
+  await saveToStorage(STORAGE_KEYS.SNAPSHOTS, snapshots)
+}
+
+// ============================================================================
+// BUNDLED FIXTURES
+// ============================================================================
+
+/** Stable UUIDs so fixture rows can reference fixture users */
+const fixtureId = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, "0")}`
+
+const DEMO_USER_ID = fixtureId(1)
+
+/** Days left on the trial in the trial-expiring fixture */
+const TRIAL_DAYS_LEFT = 1
+
+const demoUser = (onboarded: boolean): MockFixture => ({
+  users: [{ id: DEMO_USER_ID, email: "demo.user@example.com" }],
+  session: "demo.user@example.com",
+  tables: {
+    profiles: [
+      {
+        id: DEMO_USER_ID,
+        first_name: "Demo",
+        last_name: "User",
+        full_name: "Demo User",
+        has_completed_onboarding: onboarded,
+        onboarding_completed_at: onboarded ? new Date().toISOString() : null,
+      },
+    ],
+    user_preferences: [{ id: DEMO_USER_ID }],
+  },
+})
+
+function trialExpiring(): MockFixture {
+  const base = demoUser(true)
+  const trialEndsAt = new Date(
+    mockRevenueCat.now().getTime() + TRIAL_DAYS_LEFT * 24 * 60 * 60 * 1000,
+  )
+
+  return {
+    ...base,
+    tables: {
+      ...base.tables,
+      // Mirrored row, as the revenuecat-webhook function writes it
+      subscriptions: [
+        {
+          user_id: DEMO_USER_ID,
+          product_id: "pro_monthly",
+          entitlements: [ENTITLEMENTS.PRO],
+          status: "trial",
+          will_renew: true,
+          expires_at: trialEndsAt.toISOString(),
+        },
+      ],
+    },
+    revenueCat: {
+      subscriptions: [{ productIdentifier: "pro_monthly", trialDaysLeft: TRIAL_DAYS_LEFT }],
+    },
+  }
+}
+
+function heavyData(): MockFixture {
+  const base = demoUser(true)
+  const others = Array.from({ length: 100 }, (_, i) => ({
+    id: fixtureId(i + 2),
+    email: `user${i + 1}@example.com`,
+  }))
+
+  return {
+    ...base,
+    users: [...(base.users ?? []), ...others],
+    tables: {
+      profiles: [
+        ...(base.tables?.profiles ?? []),
+        ...others.map((user, i) => ({
+          id: user.id,
+          first_name: "User",
+          last_name: String(i + 1),
+          full_name: `User ${i + 1}`,
+          bio: "Lorem ipsum dolor sit amet, consectetur adipiscing elit.",
+          has_completed_onboarding: true,
+        })),
+      ],
+      user_preferences: [
+        ...(base.tables?.user_preferences ?? []),
+        ...others.map((user) => ({ id: user.id })),
+      ],
+      push_tokens: Array.from({ length: 5 }, (_, i) => ({
+        user_id: DEMO_USER_ID,
+        token: `ExponentPushToken[demo-device-${i + 1}]`,
+        device_name: `Device ${i + 1}`,
+        platform: i % 2 === 0 ? "ios" : "android",
+      })),
+      waitlist: Array.from({ length: 500 }, (_, i) => ({
+        email: `waitlist${i + 1}@example.com`,
+      })),
+    },
+  }
+}
+
+/**
+ * Ready-made fixtures for demos and QA
+ * - new-user: signed in, onboarding not completed
+ * - onboarded-user: signed in, onboarding completed
+ * - trial-expiring: onboarded user whose Pro Monthly free trial ends tomorrow
+ * - heavy-data: onboarded user alongside 100 other users, 5 devices and a 500 entry waitlist
+ */
+export const MOCK_FIXTURES: Record<string, () => MockFixture> = {
+  "new-user": () => demoUser(false),
+  "onboarded-user": () => demoUser(true),
+  "trial-expiring": trialExpiring,
+  "heavy-data": heavyData,
+}
@@ -0,0 +1,154 @@
+/**
+ * Mock Supabase Edge Functions Runtime
+ *
+ * Runs edge function handlers in-process for `supabase.functions.invoke`. Handlers use
+ * the same Request/Response contract as `supabase/functions/<name>/index.ts` (the function
+ * passed to `serve()`) and receive the mock session's JWT in the Authorization header.
+ * Requests and responses are encoded and parsed the way supabase-js does.
+ */
+
+import {
+  FunctionsFetchError,
+  FunctionsHttpError,
+  FunctionsRelayError,
+  type FunctionsError,
+} from "@supabase/supabase-js"
+
+import { BUNDLED_EDGE_FUNCTIONS } from "./edgeFunctions"
+import { simulateRequest } from "./helpers"
+import { sharedState, type EdgeFunctionHandler } from "./types"
+import { logger } from "../../../utils/Logger"
+
+const FUNCTIONS_URL = "http://localhost:54321/functions/v1"
+
+export interface FunctionInvokeOptions {
+  body?: unknown
+  headers?: Record<string, string>
+  method?: "POST" | "GET" | "PUT" | "PATCH" | "DELETE"
+}
+
+export interface FunctionInvokeResponse<T> {
+  data: T | null
+  error: FunctionsError | null
+  response?: Response
+}
+
+/**
+ * Registered handler for a function, falling back to the bundled mocks
+ */
+export function getEdgeFunction(name: string): EdgeFunctionHandler | undefined {
+  return sharedState.edgeFunctions.get(name) ?? BUNDLED_EDGE_FUNCTIONS[name]
+}
+
+/**
+ * Encode the invoke body and pick its Content-Type like supabase-js
+ */
+function encodeBody(body: unknown): { body?: BodyInit; contentType?: string } {
+  if (body === undefined || body === null) return {}
+  if ((typeof Blob !== "undefined" && body instanceof Blob) || body instanceof ArrayBuffer) {
+    return { body: body as BodyInit, contentType: "application/octet-stream" }
+  }
+  if (typeof body === "string") return { body, contentType: "text/plain" }
+  if (typeof FormData !== "undefined" && body instanceof FormData) return { body }
+  return { body: JSON.stringify(body), contentType: "application/json" }
+}
+
+function buildRequest(name: string, options: FunctionInvokeOptions): Request {
+  const method = options.method ?? "POST"
+  const encoded = encodeBody(options.body)
+  const headers: Record<string, string> = {}
+
+  const hasContentType = Object.keys(options.headers ?? {}).some(
+    (key) => key.toLowerCase() === "content-type",
+  )
+  if (encoded.contentType && !hasContentType) headers["Content-Type"] = encoded.contentType
+
+  const accessToken = sharedState.currentSession?.access_token
+  if (accessToken) headers.Authorization = `Bearer ${accessToken}`
+
+  return new Request(`${FUNCTIONS_URL}/${name}`, {
+    method,
+    headers: { ...headers, ...options.headers },
+    body: method === "GET" ? undefined : encoded.body,
+  })
+}
+
+/**
+ * Parse a successful response body based on its Content-Type
+ */
+async function parseResponse(response: Response): Promise<unknown> {
+  const responseType = (response.headers.get("Content-Type") ?? "text/plain").split(";")[0].trim()
+  switch (responseType) {
+    case "application/json":
+      return response.json()
+    case "application/octet-stream":
+    case "application/pdf":
+      return response.blob()
+    case "text/event-stream":
+      return response
+    case "multipart/form-data":
+      return response.formData()
+    default:
+      return response.text()
+  }
+}
+
+export class MockFunctions {
+  async invoke<T = any>(
+    functionName: string,
+    options: FunctionInvokeOptions = {},
+  ): Promise<FunctionInvokeResponse<T>> {
+    const fault = await simulateRequest(`functions.${functionName}`, 200)
+    if (fault) return { data: null, error: new FunctionsFetchError(fault) }
+
+    let request: Request
+    try {
+      request = buildRequest(functionName, options)
+    } catch (error) {
+      return { data: null, error: new FunctionsFetchError(error) }
+    }
+
+    const handler = getEdgeFunction(functionName)
+    let response: Response
+    if (!handler) {
+      response = new Response(
+        JSON.stringify({ code: "NOT_FOUND", message: "Function not found" }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        },
+      )
+    } else {
+      try {
+        response = await handler(request)
+      } catch (error) {
+        // An uncaught exception crashes the worker, which the runtime reports as a 500
+        logger.error(`[MockFunctions] ${functionName} threw`, {}, error as Error)
+        response = new Response(
+          JSON.stringify({ code: "WORKER_ERROR", message: "Function exited due to an error" }),
+          { status: 500, headers: { "Content-Type": "application/json" } },
+        )
+      }
+    }
+
+    if (__DEV__) {
+      logger.debug(`[MockFunctions] Invoked function`, {
+        name: functionName,
+        status: response.status,
+      })
+    }
+
+    if (response.headers.get("x-relay-error") === "true") {
+      return { data: null, error: new FunctionsRelayError(response), response }
+    }
+    if (!response.ok) {
+      return { data: null, error: new FunctionsHttpError(response), response }
+    }
+
+    try {
+      return { data: (await parseResponse(response)) as T, error: null, response }
+    } catch (error) {
+      return { data: null, error: new FunctionsFetchError(error), response }
+    }
+  }
+}
@@ -14,14 +14,17 @@ import * as SecureStore from "expo-secure-store"
 
 import { sharedState, type DatabaseRecord } from "./types"
 import type { User, Session, AuthChangeEvent } from "../../../types/auth"
+import type { SupabaseError } from "../../../types/supabaseErrors"
 import { logger } from "../../../utils/Logger"
 import { webSecureStorage } from "../../../utils/webStorageEncryption"
+import { mockFaults } from "../faults"
 
 // Storage keys (matching Supabase's storage keys)
 export const STORAGE_KEYS = {
   SESSION: "supabase.auth.token",
   USERS: "mock.supabase.users",
   DATABASE: "mock.supabase.database",
+  SNAPSHOTS: "mock.supabase.snapshots",
 }
 
 // Cross-platform base64 utilities
@@ -44,16 +47,16 @@ export const base64Utils = {
       lookup[chars.charCodeAt(i)] = i
     }
     const len = str.length
-    const bytes = new Uint8Array((len * 3) / 4)
+    const bytes = new Uint8Array(base64Utils.byteLength(str))
     let p = 0
     for (let i = 0; i < len; i += 4) {
       const encoded1 = lookup[str.charCodeAt(i)]
       const encoded2 = lookup[str.charCodeAt(i + 1)]
       const encoded3 = lookup[str.charCodeAt(i + 2)]
       const encoded4 = lookup[str.charCodeAt(i + 3)]
-      bytes[p++] = (encoded1 << 2) | (encoded2 >> 4)
-      bytes[p++] = ((encoded2 & 15) << 4) | (encoded3 >> 2)
-      bytes[p++] = ((encoded3 & 3) << 6) | (encoded4 & 63)
+      if (p < bytes.length) bytes[p++] = (encoded1 << 2) | (encoded2 >> 4)
+      if (p < bytes.length) bytes[p++] = ((encoded2 & 15) << 4) | (encoded3 >> 2)
+      if (p < bytes.length) bytes[p++] = ((encoded3 & 3) << 6) | (encoded4 & 63)
     }
     return bytes
   },
@@ -72,11 +75,16 @@ export const base64Utils = {
       const c = bytes[i + 2] || 0
       result += chars[a >> 2]
       result += chars[((a & 3) << 4) | (b >> 4)]
-      result += chars[((b & 15) << 2) | (c >> 6)]
-      result += chars[c & 63]
+      result += i + 1 < bytes.length ? chars[((b & 15) << 2) | (c >> 6)] : "="
+      result += i + 2 < bytes.length ? chars[c & 63] : "="
     }
     return result
   },
+  /** Number of bytes a base64 string decodes to, without decoding it */
+  byteLength: (str: string): number => {
+    const padding = str.endsWith("==") ? 2 : str.endsWith("=") ? 1 : 0
+    return Math.floor((str.length * 3) / 4) - padding
+  },
 }
 
 // Platform-aware storage adapter
@@ -268,6 +276,14 @@ export function generateToken(prefix: string = "mock"): string {
   return `${prefix}-${timestamp}-${random}-${random2}`.substring(0, 100)
 }
 
+// Helper to generate random v4 UUIDs (matches gen_random_uuid() and auth user ids)
+export function generateUUID(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16)
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16)
+  })
+}
+
 /**
  * Extracts a realistic first and last name from an email address.
  *
@@ -398,7 +414,7 @@ export function createMockUser(email: string, metadata?: Record<string, unknown>
   }
 
   return {
-    id: `mock-user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    id: generateUUID(),
     aud: "authenticated",
     email,
     created_at: new Date().toISOString(),
@@ -413,7 +429,7 @@ export function createMockUser(email: string, metadata?: Record<string, unknown>
 /**
  * Creates a mock session object for a user.
  *
- * Generates JWT-like access and refresh tokens, sets expiration to 1 hour from now.
+ * Generates a JWT access token and a refresh token, sets expiration to 1 hour from now.
  *
  * @param {User} user - The user to create a session for
  * @returns {Session} A mock Session object with tokens and expiration
@@ -425,7 +441,7 @@ export function createMockSession(user: User): Session {
   const expiresAt = Math.floor(Date.now() / 1000) + expiresIn
 
   return {
-    access_token: generateToken("eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9"), // JWT-like format
+    access_token: createMockJwt(user, expiresAt),
     refresh_token: generateToken("refresh"),
     expires_in: expiresIn,
     expires_at: expiresAt,
@@ -434,6 +450,123 @@ export function createMockSession(user: User): Session {
   }
 }
 
+function encodeBase64Url(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value))
+  return base64Utils.encode(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/**
+ * Creates an unsigned JWT with the claims Supabase puts in access tokens, so edge
+ * functions can read `sub`, `email`, `role` and `exp` from the Authorization header.
+ *
+ * @param {User} user - The user the token is issued for
+ * @param {number} expiresAt - Expiry as seconds since the epoch
+ * @returns {string} A JWT with a mock signature
+ */
+export function createMockJwt(user: User, expiresAt: number): string {
+  return signMockJwt({
+    sub: user.id,
+    email: user.email,
+    role: "authenticated",
+    aud: "authenticated",
+    iat: Math.floor(Date.now() / 1000),
+    exp: expiresAt,
+  })
+}
+
+/**
+ * Encodes claims as an unsigned JWT, e.g. for storage signed URL tokens.
+ *
+ * @param {Object} claims - The JWT payload
+ * @returns {string} A JWT with a mock signature
+ */
+export function signMockJwt(claims: Record<string, unknown>): string {
+  const header = encodeBase64Url({ alg: "HS256", typ: "JWT" })
+  const payload = encodeBase64Url(claims)
+  return `${header}.${payload}.${generateToken("signature").replace(/[^A-Za-z0-9]/g, "")}`
+}
+
+/**
+ * Decodes the payload of a mock JWT without verifying it.
+ *
+ * @param {string} token - The JWT to decode
+ * @returns {Object | null} The claims, or null when the token is malformed
+ */
+export function decodeMockJwt<T extends object = { sub?: string; exp?: number }>(
+  token: string,
+): T | null {
+  const parts = token.split(".")
+  if (parts.length !== 3) return null
+  try {
+    const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/")
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=")
+    return JSON.parse(new TextDecoder().decode(base64Utils.decode(padded)))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Deletes a mock user and purges their rows, files and active session, like the
+ * delete-user edge function does against the real project.
+ *
+ * @param {string} userId - The id of the user to delete
+ * @returns {Promise<boolean>} True if the user existed and was removed
+ */
+export async function purgeMockUser(userId: string): Promise<boolean> {
+  let removedUser = false
+
+  // Remove from user store
+  sharedState.mockUsers.forEach((value, key) => {
+    if (value.user.id === userId) {
+      sharedState.mockUsers.delete(key)
+      removedUser = true
+    }
+  })
+
+  if (removedUser) {
+    await persistUsers()
+  }
+
+  // Remove database records that belong to the user
+  let databaseChanged = false
+  sharedState.mockDatabase.forEach((table) => {
+    let tableChanged = false
+    table.forEach((row, key) => {
+      if (row.id === userId || row.user_id === userId) {
+        table.delete(key)
+        tableChanged = true
+      }
+    })
+    if (tableChanged) {
+      databaseChanged = true
+    }
+  })
+
+  if (databaseChanged) {
+    await persistDatabase()
+  }
+
+  // Remove related files (best effort - matches by user id in metadata/path)
+  Array.from(sharedState.mockFileStorage.entries()).forEach(([key, file]) => {
+    if (
+      (file as any).user_id === userId ||
+      (typeof file.path === "string" && file.path.includes(userId))
+    ) {
+      sharedState.mockFileStorage.delete(key)
+    }
+  })
+
+  // Clear active session if it belongs to the deleted user
+  if (sharedState.currentSession?.user.id === userId) {
+    sharedState.currentSession = null
+    await removeFromStorage(STORAGE_KEYS.SESSION)
+    notifyAuthStateChange("SIGNED_OUT", null)
+  }
+
+  return removedUser
+}
+
 /**
  * Checks if a session is still valid (not expired).
  *
@@ -471,5 +604,37 @@ export function notifyAuthStateChange(event: AuthChangeEvent, session: Session |
   })
 }
 
+/**
+ * Creates an error shaped like a PostgREST error response.
+ *
+ * @param {string} code - PostgREST or Postgres error code (e.g. "PGRST200", "42501")
+ * @param {string} message - Human readable error message
+ * @example
+ * createPostgrestError("PGRST200", "Could not find a relationship between 'a' and 'b'")
+ */
+export function createPostgrestError(
+  code: string,
+  message: string,
+  details: string | null = null,
+  hint: string | null = null,
+): Error & SupabaseError {
+  return Object.assign(new Error(message), { code, details, hint }) as Error & SupabaseError
+}
+
+/**
+ * Shape an injected failure like a PostgREST error, keeping errors that already have a code
+ */
+export function toPostgrestError(error: Error): Error & SupabaseError {
+  if ("code" in error) return error as Error & SupabaseError
+  return createPostgrestError("", error.message)
+}
+
 // Simulate network delay
 export const delay = (ms: number = 500) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Simulate the round-trip for a Supabase operation: waits like `delay()` and resolves to
+ * the failure mockFaults injects for `supabase.<operation>`, or null
+ */
+export const simulateRequest = (operation: string, ms: number = 500) =>
+  mockFaults.run(`supabase.${operation}`, ms)
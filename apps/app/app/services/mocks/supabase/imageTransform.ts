@@ -0,0 +1,199 @@
+/**
+ * Mock Supabase Image Transformations
+ *
+ * Pure-JS stand-in for the storage image renderer. JPEG and PNG sources are decoded,
+ * resized with the `cover`/`contain`/`fill` rules of Supabase's `TransformOptions` and
+ * re-encoded as PNG, so transformed public URLs render without a network connection.
+ *
+ * Supabase converts transformed images to WebP unless `format: "origin"` is passed. The
+ * mock always returns PNG (there is no pure-JS encoder for WebP, and the JPEG encoder
+ * needs Node's Buffer), and `quality` has no effect on the lossless output.
+ *
+ * The codecs are dev dependencies, loaded on first use in development builds only, so
+ * they stay out of production bundles.
+ */
+
+import type { TransformOptions } from "@supabase/storage-js"
+
+type JpegCodec = typeof import("jpeg-js")
+type PngCodec = typeof import("upng-js")
+
+let codecs: { jpeg: JpegCodec; png: PngCodec } | null | undefined
+
+function loadCodecs() {
+  if (codecs === undefined) {
+    try {
+      codecs = __DEV__ ? { jpeg: require("jpeg-js"), png: require("upng-js") } : null
+    } catch {
+      // Not installed; transformed URLs fall back to the original image
+      codecs = null
+    }
+  }
+  return codecs
+}
+
+/** Largest width or height the renderer will produce */
+const MAX_DIMENSION = 2500
+
+interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+export interface TransformedImage {
+  bytes: Uint8Array
+  mimeType: string
+  width: number
+  height: number
+}
+
+/**
+ * Whether the renderer can decode images of this content type
+ */
+export function canTransform(mimeType: string): boolean {
+  const type = mimeType.split(";")[0].trim().toLowerCase()
+  return (type === "image/jpeg" || type === "image/jpg" || type === "image/png") && !!loadCodecs()
+}
+
+function decodeImage(bytes: Uint8Array, mimeType: string): RgbaImage {
+  const { jpeg, png: UPNG } = loadCodecs()!
+  if (mimeType.toLowerCase().includes("png")) {
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+    const png = UPNG.decode(buffer as ArrayBuffer)
+    return { width: png.width, height: png.height, data: new Uint8Array(UPNG.toRGBA8(png)[0]) }
+  }
+  return jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true })
+}
+
+function clampDimension(value: number): number {
+  return Math.min(MAX_DIMENSION, Math.max(1, Math.round(value)))
+}
+
+/**
+ * Work out the source region to sample and the output size for the resize mode
+ */
+function planResize(
+  width: number,
+  height: number,
+  options: TransformOptions,
+): {
+  crop: { x: number; y: number; width: number; height: number }
+  width: number
+  height: number
+} {
+  const full = { x: 0, y: 0, width, height }
+  if (!options.width && !options.height) return { crop: full, width, height }
+
+  // A single dimension scales the other one proportionally, whatever the mode
+  if (!options.width || !options.height) {
+    const scale = options.width ? options.width / width : options.height! / height
+    return {
+      crop: full,
+      width: clampDimension(width * scale),
+      height: clampDimension(height * scale),
+    }
+  }
+
+  const targetWidth = clampDimension(options.width)
+  const targetHeight = clampDimension(options.height)
+  const resize = options.resize ?? "cover"
+
+  if (resize === "fill") {
+    return { crop: full, width: targetWidth, height: targetHeight }
+  }
+
+  if (resize === "contain") {
+    const scale = Math.min(targetWidth / width, targetHeight / height)
+    return {
+      crop: full,
+      width: clampDimension(width * scale),
+      height: clampDimension(height * scale),
+    }
+  }
+
+  // cover: fill the target and crop the overflow evenly from both sides
+  const scale = Math.max(targetWidth / width, targetHeight / height)
+  const cropWidth = targetWidth / scale
+  const cropHeight = targetHeight / scale
+  return {
+    crop: {
+      x: (width - cropWidth) / 2,
+      y: (height - cropHeight) / 2,
+      width: cropWidth,
+      height: cropHeight,
+    },
+    width: targetWidth,
+    height: targetHeight,
+  }
+}
+
+/**
+ * Resample a region of the source by averaging the pixels each output pixel covers.
+ * Upscaling falls back to the nearest source pixel.
+ */
+function resample(
+  source: RgbaImage,
+  crop: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number,
+): RgbaImage {
+  const data = new Uint8Array(width * height * 4)
+  const scaleX = crop.width / width
+  const scaleY = crop.height / height
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.min(source.height - 1, Math.floor(crop.y + y * scaleY))
+    const bottom = Math.min(source.height, Math.max(top + 1, Math.floor(crop.y + (y + 1) * scaleY)))
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.min(source.width - 1, Math.floor(crop.x + x * scaleX))
+      const right = Math.min(
+        source.width,
+        Math.max(left + 1, Math.floor(crop.x + (x + 1) * scaleX)),
+      )
+
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const i = (sy * source.width + sx) * 4
+          r += source.data[i]
+          g += source.data[i + 1]
+          b += source.data[i + 2]
+          a += source.data[i + 3]
+        }
+      }
+
+      const count = (bottom - top) * (right - left)
+      const o = (y * width + x) * 4
+      data[o] = Math.round(r / count)
+      data[o + 1] = Math.round(g / count)
+      data[o + 2] = Math.round(b / count)
+      data[o + 3] = Math.round(a / count)
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * Resize a JPEG or PNG image the way the storage renderer would. Throws if the bytes
+ * can't be decoded.
+ */
+export function transformImage(
+  bytes: Uint8Array,
+  mimeType: string,
+  options: TransformOptions,
+): TransformedImage {
+  const source = decodeImage(bytes, mimeType)
+  const { crop, width, height } = planResize(source.width, source.height, options)
+  const image = resample(source, crop, width, height)
+
+  const rgba = image.data.buffer.slice(0, image.data.byteLength) as ArrayBuffer
+  const png = new Uint8Array(loadCodecs()!.png.encode([rgba], width, height, 0))
+
+  return { bytes: png, mimeType: "image/png", width, height }
+}
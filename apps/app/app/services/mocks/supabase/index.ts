@@ -7,20 +7,43 @@
 
 import { MockSupabaseAuth } from "./auth"
 import { MockDatabaseTable } from "./database"
+import {
+  createSeedFile,
+  deleteSnapshot,
+  listSnapshots,
+  loadFixture,
+  MOCK_FIXTURES,
+  restoreSnapshot,
+  saveSnapshot,
+} from "./fixtures"
+import { MockFunctions } from "./functions"
 import {
   initializeStorage,
-  delay,
+  purgeMockUser,
   removeFromStorage,
-  persistUsers,
   persistDatabase,
-  notifyAuthStateChange,
+  simulateRequest,
   STORAGE_KEYS,
+  toPostgrestError,
 } from "./helpers"
-import { MockRealtime, MockRealtimeChannel } from "./realtime"
-import { MockStorage } from "./storage"
-import { sharedState } from "./types"
+import { MockRealtime, MockRealtimeChannel, triggerRealtimeEvent } from "./realtime"
+import { functionNotFoundError, getBuiltInRpcHandler } from "./rpc"
+import { MockStorage, resolveStorageUrl, waitForImageRenders } from "./storage"
+import {
+  sharedState,
+  DEFAULT_STORAGE_BUCKETS,
+  DEFAULT_TABLE_POLICIES,
+  DEFAULT_TABLE_SCHEMAS,
+  type EdgeFunctionHandler,
+  type ForeignKeyRelation,
+  type MockFixture,
+  type RealtimeChannelOptions,
+  type RowLevelSecurityPolicy,
+  type TableSchema,
+} from "./types"
 import type { DatabaseResponse } from "../../../types/database"
 import { logger } from "../../../utils/Logger"
+import { mockFaults } from "../faults"
 
 /**
  * Mock Supabase Client
@@ -32,20 +55,13 @@ export class MockSupabaseClient {
   auth: MockSupabaseAuth
   storage: MockStorage
   realtime: MockRealtime
-  functions = {
-    invoke: async (
-      _fn: string,
-      _options?: { body?: unknown; headers?: Record<string, string> },
-    ) => {
-      await delay(200)
-      return { data: null, error: new Error("Mock functions are not implemented") }
-    },
-  }
+  functions: MockFunctions
 
   constructor() {
     this.auth = new MockSupabaseAuth()
     this.storage = new MockStorage()
     this.realtime = new MockRealtime()
+    this.functions = new MockFunctions()
 
     // Initialize storage on client creation
     if (process.env.NODE_ENV !== "test") {
@@ -68,27 +84,25 @@ export class MockSupabaseClient {
     return new MockDatabaseTable(table)
   }
 
-  channel(name: string): MockRealtimeChannel {
-    return this.realtime.channel(name)
+  channel(name: string, options?: RealtimeChannelOptions): MockRealtimeChannel {
+    return this.realtime.channel(name, options)
   }
 
   async rpc(fn: string, params?: Record<string, any>): Promise<DatabaseResponse> {
-    await delay(300)
+    const fault = await simulateRequest(`rpc.${fn}`, 300)
+    if (fault) return { data: null, error: toPostgrestError(fault) }
 
     if (__DEV__) {
       logger.debug(`[MockSupabase] RPC call`, { function: fn, params })
     }
 
-    // Allow custom RPC handlers
-    const handler = sharedState.mockRpcHandlers.get(fn)
+    // Custom RPC handlers take precedence over the functions from supabase-schema.sql
+    const handler = sharedState.mockRpcHandlers.get(fn) ?? getBuiltInRpcHandler(fn)
     if (handler) {
       return handler(params)
     }
 
-    return {
-      data: null,
-      error: new Error(`RPC function '${fn}' not implemented in mock`),
-    }
+    return { data: null, error: functionNotFoundError(fn, params) }
   }
 }
 
@@ -99,23 +113,48 @@ export function createMockSupabaseClient() {
   return new MockSupabaseClient()
 }
 
+/** simulateError() predates the fault rules; its auth operation names map to auth methods */
+const SIMULATED_AUTH_OPERATIONS: Record<string, string> = { signIn: "signInWithPassword" }
+
+function simulatedErrorPattern(type: "auth" | "database", operation: string): string {
+  if (type === "auth") {
+    return `supabase.auth.${SIMULATED_AUTH_OPERATIONS[operation] ?? operation}`
+  }
+  return `supabase.database.${operation}`
+}
+
+function clearSupabaseFaults() {
+  mockFaults
+    .getRules()
+    .filter((rule) => rule.pattern.startsWith("supabase."))
+    .forEach((rule) => mockFaults.clearRules(rule.pattern))
+}
+
 /**
  * Helper methods for testing and development
  */
 export const mockSupabaseHelpers = {
   /**
-   * Clear all mock data (including persisted storage)
+   * Clear all mock data (including persisted storage) and restore the default RLS policies
+   * and storage buckets
    */
   async clearAll() {
     sharedState.mockUsers.clear()
     sharedState.mockDatabase.clear()
     sharedState.mockFileStorage.clear()
+    sharedState.mockBuckets = new Map(Object.entries(DEFAULT_STORAGE_BUCKETS))
     sharedState.realtimeSubscriptions.clear()
+    sharedState.realtimeChannels.clear()
     sharedState.mockRpcHandlers.clear()
+    sharedState.edgeFunctions.clear()
     sharedState.currentSession = null
     sharedState.authStateListeners = []
-    sharedState.simulatedErrors = {}
+    clearSupabaseFaults()
     sharedState.pendingOAuthState = null
+    sharedState.rowLevelSecurityEnabled = true
+    sharedState.revenueCatWebhookAllowSandbox = true
+    sharedState.tablePolicies = new Map(Object.entries(DEFAULT_TABLE_POLICIES))
+    sharedState.tableSchemas = new Map(Object.entries(DEFAULT_TABLE_SCHEMAS))
 
     // Clear persisted storage
     await removeFromStorage(STORAGE_KEYS.SESSION)
@@ -143,7 +182,7 @@ export const mockSupabaseHelpers = {
   },
 
   /**
-   * Seed table with data (persists to storage)
+   * Seed table with data (persists to storage). Rows are stored as-is, without schema validation.
    */
   async seedTable(tableName: string, data: any[]) {
     const table = new Map()
@@ -155,6 +194,24 @@ export const mockSupabaseHelpers = {
     await persistDatabase()
   },
 
+  /**
+   * Declare a foreign key so embedded selects can join app-specific tables
+   * @example
+   * mockSupabaseHelpers.registerForeignKey({
+   *   name: 'posts_author_id_fkey',
+   *   table: 'posts',
+   *   column: 'author_id',
+   *   referencedTable: 'profiles',
+   *   referencedColumn: 'id',
+   * })
+   */
+  registerForeignKey(relation: ForeignKeyRelation) {
+    sharedState.foreignKeys = [
+      ...sharedState.foreignKeys.filter((fk) => fk.name !== relation.name),
+      relation,
+    ]
+  },
+
   /**
    * Get current session
    */
@@ -166,83 +223,23 @@ export const mockSupabaseHelpers = {
    * Delete a user and purge their data from mock storage
    */
   async deleteUser(userId: string) {
-    let removedUser = false
-
-    // Remove from user store
-    sharedState.mockUsers.forEach((value, key) => {
-      if (value.user.id === userId) {
-        sharedState.mockUsers.delete(key)
-        removedUser = true
-      }
-    })
-
-    if (removedUser) {
-      await persistUsers()
-    }
-
-    // Remove database records that belong to the user
-    let databaseChanged = false
-    sharedState.mockDatabase.forEach((table) => {
-      let tableChanged = false
-      table.forEach((row, key) => {
-        if (row.id === userId || row.user_id === userId) {
-          table.delete(key)
-          tableChanged = true
-        }
-      })
-      if (tableChanged) {
-        databaseChanged = true
-      }
-    })
-
-    if (databaseChanged) {
-      await persistDatabase()
-    }
-
-    // Remove related files (best effort - matches by user id in metadata/path)
-    Array.from(sharedState.mockFileStorage.entries()).forEach(([key, file]) => {
-      if (
-        (file as any).user_id === userId ||
-        (typeof file.path === "string" && file.path.includes(userId))
-      ) {
-        sharedState.mockFileStorage.delete(key)
-      }
-    })
-
-    // Clear active session if it belongs to the deleted user
-    if (sharedState.currentSession?.user.id === userId) {
-      sharedState.currentSession = null
-      await removeFromStorage(STORAGE_KEYS.SESSION)
-      notifyAuthStateChange("SIGNED_OUT", null)
-    }
-
-    return removedUser
+    return purgeMockUser(userId)
   },
 
   /**
-   * Simulate errors for testing error handling
+   * Simulate errors for testing error handling. Shorthand for a `mockFaults` rule on
+   * `supabase.auth.<operation>` or `supabase.database.<table>.<operation>`; use
+   * `mockFaults` directly for probability, latency, timeouts and other services.
    * @example
    * mockSupabaseHelpers.simulateError('auth', 'signIn', new Error('Network error'))
    * mockSupabaseHelpers.simulateError('database', 'posts.select', new Error('Table not found'))
    */
   simulateError(type: "auth" | "database", operation: string, error: Error | null) {
-    if (type === "auth") {
-      sharedState.simulatedErrors.auth = sharedState.simulatedErrors.auth || {}
-      if (error) {
-        ;(sharedState.simulatedErrors.auth as any)[operation] = error
-      } else {
-        delete (sharedState.simulatedErrors.auth as any)[operation]
-      }
-    } else if (type === "database") {
-      const [table, op] = operation.split(".")
-      sharedState.simulatedErrors.database = sharedState.simulatedErrors.database || {}
-      sharedState.simulatedErrors.database[table] =
-        sharedState.simulatedErrors.database[table] || {}
-      if (error) {
-        ;(sharedState.simulatedErrors.database[table] as any)[op] = error
-      } else {
-        delete (sharedState.simulatedErrors.database[table] as any)[op]
-      }
+    const pattern = simulatedErrorPattern(type, operation)
+    if (error) {
+      mockFaults.setRule(pattern, { error })
+    } else {
+      mockFaults.clearRules(pattern)
     }
 
     if (__DEV__) {
@@ -254,28 +251,147 @@ export const mockSupabaseHelpers = {
   },
 
   /**
-   * Clear all simulated errors
+   * Clear all simulated errors and other fault rules for Supabase operations
    */
   clearSimulatedErrors() {
-    sharedState.simulatedErrors = {}
+    clearSupabaseFaults()
     if (__DEV__) {
       logger.debug(`[MockSupabase] Cleared all simulated errors`)
     }
   },
 
   /**
-   * Get simulated error for an operation (internal use)
+   * Get the error set with simulateError() for an operation
    */
   getSimulatedError(type: "auth" | "database", operation: string): Error | null {
-    if (type === "auth") {
-      return (sharedState.simulatedErrors.auth as any)?.[operation] || null
+    const pattern = simulatedErrorPattern(type, operation)
+    const rule = mockFaults.getRules().find((existing) => existing.pattern === pattern)
+    return rule?.error instanceof Error ? rule.error : null
+  },
+
+  // ============================================================================
+  // FIXTURE & SNAPSHOT HELPERS
+  // ============================================================================
+
+  /**
+   * Replace users, session, tables, files and mock RevenueCat subscriptions with a fixture,
+   * or a bundled fixture by name.
+   * Rows get schema defaults and constraint checks; RLS policies, schemas and handlers are kept.
+   * @example
+   * await mockSupabaseHelpers.loadFixture('new-user')
+   * await mockSupabaseHelpers.loadFixture({
+   *   users: [{ id: userId, email: 'jane@example.com' }],
+   *   session: 'jane@example.com',
+   *   tables: { profiles: [{ id: userId, first_name: 'Jane' }] },
+   *   files: [{ bucket: 'avatars', path: `${userId}/avatar.png`, data: base64Png, mimeType: 'image/png' }],
+   * })
+   */
+  async loadFixture(fixture: MockFixture | string) {
+    if (typeof fixture === "string") {
+      const bundled = MOCK_FIXTURES[fixture]
+      if (!bundled) throw new Error(`Unknown mock fixture: ${fixture}`)
+      return loadFixture(bundled())
+    }
+    return loadFixture(fixture)
+  },
+
+  /**
+   * Names of the bundled fixtures
+   */
+  getFixtureNames() {
+    return Object.keys(MOCK_FIXTURES)
+  },
+
+  /**
+   * Save the current users, session, tables, files and mock RevenueCat state under a name.
+   * Snapshots are persisted and survive clearAll.
+   * @example
+   * await mockSupabaseHelpers.snapshot('trial expiring')
+   */
+  async snapshot(name: string) {
+    return saveSnapshot(name)
+  },
+
+  /**
+   * Restore a snapshot saved with `snapshot()`. Returns false if it doesn't exist.
+   */
+  async restore(name: string) {
+    return restoreSnapshot(name)
+  },
+
+  /**
+   * List saved snapshots, oldest first
+   */
+  async listSnapshots() {
+    return listSnapshots()
+  },
+
+  /**
+   * Delete a saved snapshot
+   */
+  async deleteSnapshot(name: string) {
+    return deleteSnapshot(name)
+  },
+
+  // ============================================================================
+  // ROW LEVEL SECURITY HELPERS
+  // ============================================================================
+
+  /**
+   * Enable or disable row-level security for every table.
+   * Disabling it behaves like querying with the service role key.
+   */
+  setRowLevelSecurity(enabled: boolean) {
+    sharedState.rowLevelSecurityEnabled = enabled
+    if (__DEV__) {
+      logger.debug(`[MockSupabase] Row level security ${enabled ? "enabled" : "disabled"}`)
+    }
+  },
+
+  /**
+   * Replace the policies for a table. Pass null to disable RLS on that table.
+   * @example
+   * mockSupabaseHelpers.setTablePolicies('posts', [
+   *   { name: 'Authors can read own posts', command: 'SELECT', using: (row, auth) => row.author_id === auth.uid },
+   * ])
+   */
+  setTablePolicies(table: string, policies: RowLevelSecurityPolicy[] | null) {
+    if (policies) {
+      sharedState.tablePolicies.set(table, policies)
+    } else {
+      sharedState.tablePolicies.delete(table)
+    }
+    if (__DEV__) {
+      logger.debug(`[MockSupabase] Set row level security policies`, {
+        table,
+        count: policies?.length ?? 0,
+      })
+    }
+  },
+
+  /**
+   * Replace the schema used to validate writes to a table. Pass null to accept any columns.
+   * @example
+   * mockSupabaseHelpers.setTableSchema('posts', {
+   *   columns: {
+   *     id: { type: 'uuid', default: 'gen_random_uuid()' },
+   *     title: { type: 'text', nullable: false },
+   *     created_at: { type: 'timestamptz', default: 'now()' },
+   *   },
+   *   primaryKey: ['id'],
+   * })
+   */
+  setTableSchema(table: string, schema: TableSchema | null) {
+    if (schema) {
+      sharedState.tableSchemas.set(table, schema)
     } else {
-      const [table, op] = operation.split(".")
-      return (
-        sharedState.simulatedErrors.database?.[table]?.[
-          op as keyof (typeof sharedState.simulatedErrors.database)[string]
-        ] || null
-      )
+      sharedState.tableSchemas.delete(table)
+    }
+    if (__DEV__) {
+      logger.debug(`[MockSupabase] Set table schema`, {
+        table,
+        columns: schema ? Object.keys(schema.columns).length : 0,
+      })
     }
   },
 
@@ -308,34 +424,49 @@ export const mockSupabaseHelpers = {
   },
 
   /**
-   * Seed storage with files (for testing)
+   * Seed storage with files (for testing). `data` is the file contents as base64.
    */
   seedStorage(files: Array<{ bucket: string; path: string; data: string; mimeType?: string }>) {
     files.forEach((file) => {
-      const fullPath = `${file.bucket}/${file.path}`
-      sharedState.mockFileStorage.set(fullPath, {
-        id: `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        name: file.path.split("/").pop() || "file",
-        bucket: file.bucket,
-        path: file.path,
-        size: file.data.length,
-        mimeType: file.mimeType || "application/octet-stream",
-        data: file.data,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
+      sharedState.mockFileStorage.set(`${file.bucket}/${file.path}`, createSeedFile(file))
     })
     if (__DEV__) {
       logger.debug(`[MockSupabase] Seeded files`, { count: files.length })
     }
   },
 
+  /**
+   * Fetch a public or signed storage URL the way the storage API serves it. Public URLs
+   * fail for private buckets and signed URLs fail once they expire.
+   * @example
+   * const { data } = await supabase.storage.from('uploads').createSignedUrl('doc.pdf', 60)
+   * const response = await mockSupabaseHelpers.fetchStorageUrl(data.signedUrl)
+   * response.ok // false after 60 seconds
+   */
+  fetchStorageUrl(url: string) {
+    return resolveStorageUrl(url)
+  },
+
+  /**
+   * Wait for transformed images to finish rendering. Until then getPublicUrl() returns
+   * the original image.
+   * @example
+   * avatars.getPublicUrl('me.png', { transform: { width: 64 } }) // original image
+   * await mockSupabaseHelpers.waitForImageRenders()
+   * avatars.getPublicUrl('me.png', { transform: { width: 64 } }) // 64px wide
+   */
+  waitForImageRenders() {
+    return waitForImageRenders()
+  },
+
   // ============================================================================
   // REALTIME HELPERS
   // ============================================================================
 
   /**
-   * Trigger a realtime event (simulates database change notification)
+   * Trigger a realtime event (simulates database change notification).
+   * Writes through the mock client publish events automatically; use this for
+   * changes made outside it, such as seeded or server-side rows.
    * @example
    * mockSupabaseHelpers.triggerRealtimeEvent('posts', 'INSERT', { id: 1, title: 'New Post' })
    */
@@ -345,32 +476,22 @@ export const mockSupabaseHelpers = {
     newData: any,
     oldData: any = null,
   ) {
-    sharedState.realtimeSubscriptions.forEach((subscriptions) => {
-      subscriptions.forEach((sub) => {
-        if (sub.table === table && (sub.event === eventType || sub.event === "*")) {
-          // Check filter if present
-          if (sub.filter) {
-            const [column, operator, value] = sub.filter.split(/[=<>]/).map((s) => s.trim())
-            if (operator === "eq" && newData[column] !== value) {
-              return
-            }
-          }
-
-          sub.callback({
-            eventType,
-            new: newData,
-            old: oldData,
-            schema: "public",
-            table,
-          })
-        }
-      })
-    })
+    triggerRealtimeEvent(table, eventType, newData, oldData)
     if (__DEV__) {
       logger.debug(`[MockSupabase] Triggered realtime event`, { table, event: eventType })
     }
   },
 
+  /**
+   * Get current presences on a channel, grouped by presence key
+   * @example
+   * mockSupabaseHelpers.getPresenceState('room:123')
+   */
+  getPresenceState(channelName: string) {
+    const [channel] = Array.from(sharedState.realtimeChannels.get(channelName) ?? [])
+    return channel ? channel.presenceState() : {}
+  },
+
   /**
    * Get all active realtime subscriptions
    */
@@ -389,17 +510,58 @@ export const mockSupabaseHelpers = {
    */
   clearRealtimeSubscriptions() {
     sharedState.realtimeSubscriptions.clear()
+    sharedState.realtimeChannels.clear()
     if (__DEV__) {
       logger.debug(`[MockSupabase] Cleared all realtime subscriptions`)
     }
   },
 
+  // ============================================================================
+  // EDGE FUNCTION HELPERS
+  // ============================================================================
+
+  /**
+   * Register an edge function handler for functions.invoke(). Handlers take a Request
+   * and return a Response, like the function passed to serve() in supabase/functions.
+   * Registering a bundled function's name (e.g. 'delete-user') overrides it.
+   * @example
+   * mockSupabaseHelpers.registerFunction('hello', async (req) => {
+   *   const { name } = await req.json()
+   *   return new Response(JSON.stringify({ message: `Hello ${name}` }), {
+   *     headers: { 'Content-Type': 'application/json' },
+   *   })
+   * })
+   */
+  registerFunction(name: string, handler: EdgeFunctionHandler) {
+    sharedState.edgeFunctions.set(name, handler)
+    if (__DEV__) {
+      logger.debug(`[MockSupabase] Registered edge function`, { name })
+    }
+  },
+
+  /**
+   * Remove a registered edge function handler (bundled functions become active again)
+   */
+  unregisterFunction(name: string) {
+    sharedState.edgeFunctions.delete(name)
+  },
+
+  /**
+   * Accept or ignore SANDBOX events in the bundled revenuecat-webhook, like setting
+   * REVENUECAT_ALLOW_SANDBOX on a deployed project. Accepted by default, since the mock
+   * stands in for a development project.
+   */
+  setRevenueCatWebhookSandbox(allowed: boolean) {
+    sharedState.revenueCatWebhookAllowSandbox = allowed
+  },
+
   // ============================================================================
   // RPC HELPERS
   // ============================================================================
 
   /**
-   * Register a custom RPC handler for testing
+   * Register a custom RPC handler for testing. Functions from supabase-schema.sql are
+   * built in; registering one of their names overrides the built-in version.
    * @example
    * mockSupabaseHelpers.registerRpcHandler('get_user_stats', async (params) => ({
    *   data: { posts: 10, followers: 100 },
@@ -467,6 +629,12 @@ export const mockSupabaseHelpers = {
 
 // Re-export types and classes for convenience
 export { MockSupabaseAuth } from "./auth"
+export { MockFunctions } from "./functions"
 export { MockDatabaseTable, MockDatabaseQuery } from "./database"
-export { MockStorage, MockStorageBucket, MockStorageFileApi } from "./storage"
+export {
+  installMockStorageFetch,
+  MockStorage,
+  MockStorageBucket,
+  MockStorageFileApi,
+} from "./storage"
 export { MockRealtime, MockRealtimeChannel } from "./realtime"
@@ -0,0 +1,96 @@
+/**
+ * Mock Supabase Row Level Security
+ *
+ * Evaluates the per-table policies in `sharedState.tablePolicies` the way
+ * Postgres does: policies are permissive (any matching policy grants access),
+ * a table with RLS enabled and no matching policy denies everything, and
+ * `auth.uid()` comes from the current mock session.
+ */
+
+import { createPostgrestError } from "./helpers"
+import {
+  sharedState,
+  type DatabaseRecord,
+  type PolicyAuthContext,
+  type PolicyCommand,
+  type RowLevelSecurityPolicy,
+} from "./types"
+
+/**
+ * Auth context for the current mock session (`auth.uid()` / `auth.role()`)
+ */
+export function getPolicyAuthContext(): PolicyAuthContext {
+  const uid = sharedState.currentSession?.user.id ?? null
+  return { uid, role: uid ? "authenticated" : "anon" }
+}
+
+/**
+ * Policies that apply to a command for the current role, or null when RLS is off for the table
+ */
+function applicablePolicies(
+  table: string,
+  command: Exclude<PolicyCommand, "ALL">,
+  auth: PolicyAuthContext,
+): RowLevelSecurityPolicy[] | null {
+  const policies = sharedState.tablePolicies.get(table)
+  if (!sharedState.rowLevelSecurityEnabled || !policies) return null
+
+  return policies.filter(
+    (policy) =>
+      (policy.command === command || policy.command === "ALL") &&
+      (!policy.roles || policy.roles.includes(auth.role)),
+  )
+}
+
+function passesUsing(
+  table: string,
+  command: "SELECT" | "UPDATE" | "DELETE",
+  row: DatabaseRecord,
+  auth: PolicyAuthContext,
+): boolean {
+  const policies = applicablePolicies(table, command, auth)
+  if (!policies) return true
+  return policies.some((policy) => policy.using?.(row, auth) ?? false)
+}
+
+/**
+ * Check whether the current user can see a row for a command (the USING expression).
+ * UPDATE and DELETE also require SELECT visibility, since PostgREST filters read the row.
+ */
+export function canAccessRow(
+  table: string,
+  command: "SELECT" | "UPDATE" | "DELETE",
+  row: DatabaseRecord,
+): boolean {
+  const auth = getPolicyAuthContext()
+  if (!passesUsing(table, "SELECT", row, auth)) return false
+  return command === "SELECT" || passesUsing(table, command, row, auth)
+}
+
+/**
+ * Check whether a new or updated row satisfies the WITH CHECK expression
+ */
+export function passesWithCheck(
+  table: string,
+  command: "INSERT" | "UPDATE",
+  row: DatabaseRecord,
+): boolean {
+  const auth = getPolicyAuthContext()
+  const policies = applicablePolicies(table, command, auth)
+  if (!policies) return true
+  return policies.some((policy) => {
+    const check = policy.withCheck ?? (command === "UPDATE" ? policy.using : undefined)
+    return check?.(row, auth) ?? false
+  })
+}
+
+/**
+ * PostgREST error returned when a write violates a policy
+ */
+export function rowLevelSecurityError(table: string, usingExpression: boolean = false) {
+  const expression = usingExpression ? " (USING expression)" : ""
+  return createPostgrestError(
+    "42501",
+    `new row violates row-level security policy${expression} for table "${table}"`,
+  )
+}
@@ -1,70 +1,189 @@
 /**
  * Mock Supabase Realtime
  *
- * Mock implementation of Supabase realtime subscriptions
+ * Mock implementation of Supabase realtime subscriptions: postgres_changes,
+ * broadcast and presence. Channels with the same name share a topic, so several
+ * mock clients in one JS process see each other's broadcasts and presence.
  */
 
-import type { RealtimeEvent, RealtimeCallback, RealtimeSubscription, DatabaseRecord } from "./types"
+import { evaluateCondition } from "./filters"
+import { generateToken, simulateRequest } from "./helpers"
+import { canAccessRow } from "./policies"
+import type {
+  RealtimeEvent,
+  RealtimeCallback,
+  RealtimeSubscription,
+  RealtimeBroadcastMessage,
+  RealtimeChannelOptions,
+  PresenceChangePayload,
+  PresenceEntry,
+  PresenceEvent,
+  DatabaseFilter,
+  DatabaseRecord,
+} from "./types"
 import { sharedState } from "./types"
 import { logger } from "../../../utils/Logger"
+import { mockFaults } from "../faults"
 
 let _realtimeChannelCounter = 0
 
+const REALTIME_FILTER_PATTERN = /^([^=]+)=(eq|neq|lt|lte|gt|gte|in)\.(.*)$/s
+
+/**
+ * Parse a postgres_changes filter such as `user_id=eq.123` or `status=in.(open,closed)`.
+ * Returns null when the filter is malformed.
+ */
+function parseRealtimeFilter(filter: string): DatabaseFilter | null {
+  const match = REALTIME_FILTER_PATTERN.exec(filter.trim())
+  if (!match) return null
+  return { column: match[1].trim(), operator: match[2], value: match[3] }
+}
+
+/**
+ * Check whether a changed row matches a subscription's filter
+ */
+function matchesRealtimeFilter(filter: string | undefined, record: DatabaseRecord | null): boolean {
+  if (!filter) return true
+  const condition = parseRealtimeFilter(filter)
+  return condition !== null && record !== null && evaluateCondition(condition, record) === true
+}
+
+type ChannelStatus = "SUBSCRIBED" | "CHANNEL_ERROR" | "TIMED_OUT"
+type BroadcastCallback = (message: RealtimeBroadcastMessage) => void
+type PresenceCallback = (payload: PresenceChangePayload) => void
+
+/**
+ * Channels currently subscribed to a topic, across every mock client
+ */
+function channelsOn(name: string): MockRealtimeChannel[] {
+  return Array.from(sharedState.realtimeChannels.get(name) ?? [])
+}
+
 export class MockRealtimeChannel {
   private channelName: string
+  private options: RealtimeChannelOptions
   private subscriptions: RealtimeSubscription[] = []
+  private broadcastListeners: Array<{ event: string; callback: BroadcastCallback }> = []
+  private presenceListeners: Array<{ event: PresenceEvent; callback: PresenceCallback }> = []
+  private presence: PresenceEntry | null = null
   private isSubscribed = false
+  readonly presenceKey: string
 
-  constructor(channelName: string) {
+  constructor(channelName: string, options: RealtimeChannelOptions = {}) {
     this.channelName = channelName
+    this.options = options
     _realtimeChannelCounter++
+    this.presenceKey = options.config?.presence?.key ?? `presence-${_realtimeChannelCounter}`
   }
 
   on(
-    event: "postgres_changes",
+    type: "postgres_changes",
     config: { event: RealtimeEvent; schema: string; table: string; filter?: string },
     callback: RealtimeCallback,
+  ): MockRealtimeChannel
+  on(type: "broadcast", config: { event: string }, callback: BroadcastCallback): MockRealtimeChannel
+  on(
+    type: "presence",
+    config: { event: PresenceEvent },
+    callback: PresenceCallback,
+  ): MockRealtimeChannel
+  on(
+    type: "postgres_changes" | "broadcast" | "presence",
+    config: { event: string; schema?: string; table?: string; filter?: string },
+    callback: RealtimeCallback | BroadcastCallback | PresenceCallback,
   ): MockRealtimeChannel {
-    this.subscriptions.push({
-      table: config.table,
-      event: config.event,
-      callback,
-      filter: config.filter,
-    })
+    if (type === "broadcast") {
+      this.broadcastListeners.push({ event: config.event, callback: callback as BroadcastCallback })
+    } else if (type === "presence") {
+      this.presenceListeners.push({
+        event: config.event as PresenceEvent,
+        callback: callback as PresenceCallback,
+      })
+    } else {
+      this.subscriptions.push({
+        table: config.table ?? "",
+        event: config.event as RealtimeEvent,
+        callback: callback as RealtimeCallback,
+        filter: config.filter,
+      })
+    }
 
     if (__DEV__) {
       logger.debug(`[MockRealtime] Registered listener`, {
-        table: config.table,
+        channel: this.channelName,
+        type,
         event: config.event,
+        table: config.table,
       })
     }
 
     return this
   }
 
-  subscribe(
-    callback?: (status: "SUBSCRIBED" | "CHANNEL_ERROR" | "TIMED_OUT") => void,
-  ): MockRealtimeChannel {
+  subscribe(callback?: (status: ChannelStatus, error?: Error) => void): MockRealtimeChannel {
+    // Realtime rejects the whole channel when a postgres_changes filter is malformed
+    const invalid = this.subscriptions.find((sub) => sub.filter && !parseRealtimeFilter(sub.filter))
+    if (invalid) {
+      if (__DEV__) {
+        logger.debug(`[MockRealtime] Invalid filter`, {
+          channel: this.channelName,
+          filter: invalid.filter,
+        })
+      }
+      setTimeout(() => {
+        callback?.("CHANNEL_ERROR")
+      }, 100)
+      return this
+    }
+
+    if (this.isSubscribed) return this
     this.isSubscribed = true
 
-    // Store subscriptions globally
-    sharedState.realtimeSubscriptions.set(this.channelName, this.subscriptions)
+    // Store subscriptions globally, alongside other channels on the same topic
+    sharedState.realtimeSubscriptions.set(this.channelName, [
+      ...(sharedState.realtimeSubscriptions.get(this.channelName) ?? []),
+      ...this.subscriptions,
+    ])
+    const channels = sharedState.realtimeChannels.get(this.channelName) ?? new Set()
+    channels.add(this)
+    sharedState.realtimeChannels.set(this.channelName, channels)
 
     if (__DEV__) {
       logger.debug(`[MockRealtime] Subscribed to channel`, { channel: this.channelName })
     }
 
-    // Simulate async subscription confirmation
-    setTimeout(() => {
+    // Simulate async subscription confirmation, followed by the initial presence state
+    void simulateRequest("realtime.subscribe", 100).then((fault) => {
+      if (!this.isSubscribed) return
+      if (fault) {
+        void this.unsubscribe()
+        callback?.(fault.name === "TimeoutError" ? "TIMED_OUT" : "CHANNEL_ERROR", fault)
+        return
+      }
       callback?.("SUBSCRIBED")
-    }, 100)
+      Object.entries(this.presenceState()).forEach(([key, presences]) =>
+        this.emitPresence({ event: "join", key, currentPresences: [], newPresences: presences }),
+      )
+      this.emitPresence({ event: "sync" })
+    })
 
     return this
   }
 
   unsubscribe(): Promise<"ok" | "error"> {
+    if (this.isSubscribed) {
+      this.clearPresence()
+      sharedState.realtimeChannels.get(this.channelName)?.delete(this)
+      const remaining = (sharedState.realtimeSubscriptions.get(this.channelName) ?? []).filter(
+        (sub) => !this.subscriptions.includes(sub),
+      )
+      if (remaining.length > 0) {
+        sharedState.realtimeSubscriptions.set(this.channelName, remaining)
+      } else {
+        sharedState.realtimeSubscriptions.delete(this.channelName)
+      }
+    }
     this.isSubscribed = false
-    sharedState.realtimeSubscriptions.delete(this.channelName)
 
     if (__DEV__) {
       logger.debug(`[MockRealtime] Unsubscribed from channel`, { channel: this.channelName })
@@ -72,55 +191,179 @@ export class MockRealtimeChannel {
 
     return Promise.resolve("ok")
   }
+
+  /**
+   * Broadcast a message to every other channel on the topic (and this one when
+   * `config.broadcast.self` is set)
+   */
+  send(message: {
+    type: "broadcast"
+    event: string
+    payload?: Record<string, unknown>
+  }): Promise<"ok" | "error"> {
+    if (message.type !== "broadcast") return Promise.resolve("error")
+    if (mockFaults.check("supabase.realtime.send")) return Promise.resolve("error")
+
+    const broadcast: RealtimeBroadcastMessage = {
+      type: "broadcast",
+      event: message.event,
+      payload: message.payload ?? {},
+    }
+    const receiveOwn = this.options.config?.broadcast?.self ?? false
+    channelsOn(this.channelName)
+      .filter((channel) => channel !== this || receiveOwn)
+      .forEach((channel) => channel.receiveBroadcast(broadcast))
+
+    return Promise.resolve("ok")
+  }
+
+  /**
+   * Track this client's presence on the topic, replacing any previously tracked payload
+   */
+  track(payload: Record<string, unknown>): Promise<"ok" | "error"> {
+    if (!this.isSubscribed) return Promise.resolve("error")
+    if (mockFaults.check("supabase.realtime.track")) return Promise.resolve("error")
+
+    const previous = this.presence
+    const entry: PresenceEntry = { ...payload, presence_ref: generateToken("presence") }
+    const currentPresences = this.presenceState()[this.presenceKey] ?? []
+    this.presence = entry
+
+    this.broadcastPresence({
+      event: "join",
+      key: this.presenceKey,
+      currentPresences,
+      newPresences: [entry],
+    })
+    if (previous) {
+      this.broadcastPresence({
+        event: "leave",
+        key: this.presenceKey,
+        currentPresences: this.presenceState()[this.presenceKey] ?? [],
+        leftPresences: [previous],
+      })
+    }
+    this.broadcastPresence({ event: "sync" })
+
+    return Promise.resolve("ok")
+  }
+
+  /**
+   * Stop tracking this client's presence
+   */
+  untrack(): Promise<"ok" | "error"> {
+    this.clearPresence()
+    return Promise.resolve("ok")
+  }
+
+  /**
+   * Presences on the topic, grouped by presence key
+   */
+  presenceState<T extends Record<string, unknown> = Record<string, unknown>>(): Record<
+    string,
+    Array<T & { presence_ref: string }>
+  > {
+    const state: Record<string, Array<T & { presence_ref: string }>> = {}
+    channelsOn(this.channelName).forEach((channel) => {
+      if (!channel.presence) return
+      state[channel.presenceKey] = [
+        ...(state[channel.presenceKey] ?? []),
+        channel.presence as T & { presence_ref: string },
+      ]
+    })
+    return state
+  }
+
+  private clearPresence() {
+    const previous = this.presence
+    if (!previous) return
+    this.presence = null
+
+    this.broadcastPresence({
+      event: "leave",
+      key: this.presenceKey,
+      currentPresences: this.presenceState()[this.presenceKey] ?? [],
+      leftPresences: [previous],
+    })
+    this.broadcastPresence({ event: "sync" })
+  }
+
+  private broadcastPresence(payload: PresenceChangePayload) {
+    channelsOn(this.channelName).forEach((channel) => channel.emitPresence(payload))
+  }
+
+  private emitPresence(payload: PresenceChangePayload) {
+    this.presenceListeners
+      .filter((listener) => listener.event === payload.event)
+      .forEach((listener) => listener.callback(payload))
+  }
+
+  private receiveBroadcast(message: RealtimeBroadcastMessage) {
+    this.broadcastListeners
+      .filter((listener) => listener.event === message.event || listener.event === "*")
+      .forEach((listener) => listener.callback(message))
+  }
 }
 
 export class MockRealtime {
-  channel(name: string): MockRealtimeChannel {
-    return new MockRealtimeChannel(name)
+  private channels: MockRealtimeChannel[] = []
+
+  channel(name: string, options?: RealtimeChannelOptions): MockRealtimeChannel {
+    const channel = new MockRealtimeChannel(name, options)
+    this.channels.push(channel)
+    return channel
+  }
+
+  getChannels(): MockRealtimeChannel[] {
+    return [...this.channels]
   }
 
   removeChannel(channel: MockRealtimeChannel): Promise<"ok" | "error"> {
+    this.channels = this.channels.filter((existing) => existing !== channel)
     return channel.unsubscribe()
   }
 
   removeAllChannels(): Promise<Array<"ok" | "error">> {
-    const results: Array<"ok" | "error"> = []
-    sharedState.realtimeSubscriptions.clear()
+    const channels = this.channels
+    this.channels = []
 
     if (__DEV__) {
       logger.debug(`[MockRealtime] Removed all channels`)
     }
 
-    return Promise.resolve(results)
+    return Promise.all(channels.map((channel) => channel.unsubscribe()))
   }
 }
 
-// Helper to trigger realtime events (for testing)
+/**
+ * Deliver a postgres_changes event to every subscribed channel listening for it.
+ * Filters are matched against the new row (the old row for DELETE), and INSERT/UPDATE
+ * events are only delivered when the current session can SELECT the row, as Realtime
+ * does with row-level security.
+ */
 export function triggerRealtimeEvent(
   table: string,
   eventType: RealtimeEvent,
   newData: DatabaseRecord | null,
   oldData: DatabaseRecord | null = null,
 ): void {
+  const record = eventType === "DELETE" ? (oldData ?? newData) : (newData ?? oldData)
+  if (eventType !== "DELETE" && record && !canAccessRow(table, "SELECT", record)) return
+
+  const commitTimestamp = new Date().toISOString()
   sharedState.realtimeSubscriptions.forEach((subscriptions) => {
     subscriptions.forEach((sub) => {
-      if (sub.table === table && (sub.event === eventType || sub.event === "*")) {
-        // Check filter if present
-        if (sub.filter && newData) {
-          const [column, operator, value] = sub.filter.split(/[=<>]/).map((s) => s.trim())
-          if (operator === "eq" && newData[column] !== value) {
-            return
-          }
-        }
-
-        sub.callback({
-          eventType,
-          new: newData,
-          old: oldData,
-          schema: "public",
-          table,
-        })
-      }
+      if (sub.table !== table || (sub.event !== eventType && sub.event !== "*")) return
+      if (!matchesRealtimeFilter(sub.filter, record)) return
+
+      sub.callback({
+        eventType,
+        new: newData,
+        old: oldData,
+        schema: "public",
+        table,
+        commit_timestamp: commitTimestamp,
+      })
     })
   })
 }
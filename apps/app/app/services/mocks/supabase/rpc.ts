@@ -0,0 +1,271 @@
+/**
+ * Mock Postgres Functions
+ *
+ * Built-in versions of the functions in supabase-schema.sql, callable with
+ * `supabase.rpc()` in mock mode. They run as SECURITY DEFINER like the originals, so
+ * they read and write `sharedState.mockDatabase` without row-level security.
+ * Arguments are matched by name and cast like PostgREST does.
+ */
+
+import { createPostgrestError, persistDatabase, persistUsers } from "./helpers"
+import { getPolicyAuthContext } from "./policies"
+import { triggerRealtimeEvent } from "./realtime"
+import { applyColumnDefaults, castValue } from "./schema"
+import { sharedState, type ColumnType, type DatabaseRecord, type RpcHandler } from "./types"
+import type { DatabaseResponse } from "../../../types/database"
+
+export interface RpcParameter {
+  name: string
+  type: ColumnType
+  /** Parameters with a default may be omitted */
+  default?: unknown
+}
+
+export interface BuiltInRpcFunction {
+  /** Parameters in declaration order, mirroring the SQL signature */
+  params: RpcParameter[]
+  handler: (args: Record<string, unknown>) => Promise<DatabaseResponse>
+}
+
+/**
+ * PGRST202: no function with this name accepts the given argument names
+ */
+export function functionNotFoundError(fn: string, params?: Record<string, unknown>) {
+  const names = Object.keys(params ?? {})
+  const signature = names.length > 0 ? `(${names.join(", ")})` : " without parameters"
+  return createPostgrestError(
+    "PGRST202",
+    `Could not find the function public.${fn}${signature} in the schema cache`,
+    `Searched for the function public.${fn}${signature}, but no matches were found in the schema cache.`,
+  )
+}
+
+/**
+ * Delete rows from a table, publishing DELETE events and persisting the change
+ */
+async function deleteRows(
+  tableName: string,
+  predicate: (row: DatabaseRecord) => boolean,
+): Promise<number> {
+  const table = sharedState.mockDatabase.get(tableName)
+  if (!table) return 0
+
+  const deleted: DatabaseRecord[] = []
+  table.forEach((row, key) => {
+    if (predicate(row)) {
+      table.delete(key)
+      deleted.push(row)
+    }
+  })
+
+  if (deleted.length > 0) {
+    await persistDatabase()
+    deleted.forEach((row) => triggerRealtimeEvent(tableName, "DELETE", null, row))
+  }
+  return deleted.length
+}
+
+/**
+ * delete_expired_push_tokens(days_old INTEGER DEFAULT 90) RETURNS INTEGER
+ */
+async function deleteExpiredPushTokens(args: Record<string, unknown>): Promise<DatabaseResponse> {
+  const daysOld = args.days_old as number | null
+  // NOW() - (NULL || ' days')::INTERVAL is NULL, and comparisons with NULL match nothing
+  if (daysOld === null) return { data: 0, error: null }
+
+  const cutoff = Date.now() - daysOld * 24 * 60 * 60 * 1000
+  const count = await deleteRows("push_tokens", (row) => {
+    const lastUsedAt = typeof row.last_used_at === "string" ? Date.parse(row.last_used_at) : NaN
+    return row.is_active === false && lastUsedAt < cutoff
+  })
+  return { data: count, error: null }
+}
+
+/**
+ * get_user_profile(user_id UUID) RETURNS JSON
+ */
+async function getUserProfile(args: Record<string, unknown>): Promise<DatabaseResponse> {
+  const userId = args.user_id
+  const profile = userId ? sharedState.mockDatabase.get("profiles")?.get(userId as string) : null
+  if (!profile) return { data: null, error: null }
+
+  const preferences = sharedState.mockDatabase.get("user_preferences")?.get(userId as string)
+  return { data: { profile, preferences: preferences ?? null }, error: null }
+}
+
+/**
+ * delete_user_account() RETURNS VOID
+ */
+async function deleteUserAccount(): Promise<DatabaseResponse> {
+  const { uid } = getPolicyAuthContext()
+  if (!uid) {
+    return {
+      data: null,
+      error: createPostgrestError("P0001", "Must be authenticated to delete account"),
+    }
+  }
+
+  await deleteRows("credit_spends", (row) => row.user_id === uid)
+  await deleteRows("subscriptions", (row) => row.user_id === uid)
+  await deleteRows("push_tokens", (row) => row.user_id === uid)
+  await deleteRows("user_preferences", (row) => row.id === uid)
+  await deleteRows("profiles", (row) => row.id === uid)
+
+  // The session's JWT stays valid until it expires, like a real deleted auth user
+  let removedUser = false
+  sharedState.mockUsers.forEach((userData, email) => {
+    if (userData.user.id === uid) {
+      sharedState.mockUsers.delete(email)
+      removedUser = true
+    }
+  })
+  if (removedUser) await persistUsers()
+
+  return { data: null, error: null }
+}
+
+/**
+ * has_active_entitlement(entitlement_id TEXT) RETURNS BOOLEAN
+ */
+async function hasActiveEntitlement(args: Record<string, unknown>): Promise<DatabaseResponse> {
+  const { uid } = getPolicyAuthContext()
+  const now = Date.now()
+  const rows = Array.from(sharedState.mockDatabase.get("subscriptions")?.values() ?? [])
+
+  const active = rows.some((row) => {
+    if (row.user_id !== uid || row.status === "expired") return false
+    if (!Array.isArray(row.entitlements) || !row.entitlements.includes(args.entitlement_id)) {
+      return false
+    }
+    // GREATEST() ignores NULLs, so the grace period only extends a set expiry
+    const endsAt = [row.expires_at, row.grace_period_expires_at]
+      .filter((value): value is string => typeof value === "string")
+      .map((value) => Date.parse(value))
+    return row.expires_at === null || Math.max(...endsAt) > now
+  })
+  return { data: active, error: null }
+}
+
+/**
+ * Preference columns merge_user_preferences keeps in step with the merged preferences
+ */
+const PREFERENCE_COLUMNS = [
+  "dark_mode_enabled",
+  "notifications_enabled",
+  "push_notifications_enabled",
+  "email_notifications_enabled",
+]
+
+type PreferenceEntry = { value: unknown; updated_at: string }
+
+/**
+ * merge_user_preferences(patch JSONB) RETURNS JSONB
+ */
+async function mergeUserPreferences(args: Record<string, unknown>): Promise<DatabaseResponse> {
+  const { uid } = getPolicyAuthContext()
+  if (!uid) {
+    return {
+      data: null,
+      error: createPostgrestError("P0001", "Must be authenticated to sync preferences"),
+    }
+  }
+
+  if (!sharedState.mockDatabase.has("profiles")) sharedState.mockDatabase.set("profiles", new Map())
+  const table = sharedState.mockDatabase.get("profiles")!
+  const old = table.get(uid) ?? null
+  const row = old ?? applyColumnDefaults("profiles", { id: uid })
+
+  // Keep the newer entry of each key; the stored one wins ties
+  const stored = (row.preferences ?? {}) as Record<string, PreferenceEntry>
+  const merged = { ...stored }
+  for (const [key, entry] of Object.entries(
+    (args.patch ?? {}) as Record<string, PreferenceEntry>,
+  )) {
+    if (!stored[key] || Date.parse(entry.updated_at) > Date.parse(stored[key].updated_at)) {
+      merged[key] = entry
+    }
+  }
+
+  const updated: DatabaseRecord = {
+    ...row,
+    preferences: merged,
+    updated_at: new Date().toISOString(),
+  }
+  for (const column of PREFERENCE_COLUMNS) {
+    if (typeof merged[column]?.value === "boolean") updated[column] = merged[column].value
+  }
+
+  table.set(uid, updated)
+  await persistDatabase()
+  triggerRealtimeEvent("profiles", old ? "UPDATE" : "INSERT", updated, old)
+  return { data: merged, error: null }
+}
+
+/**
+ * Every function in supabase-schema.sql that can be called with rpc(). Functions
+ * that RETURN TRIGGER aren't exposed by PostgREST and have no entry here.
+ */
+export const BUILT_IN_RPC_FUNCTIONS: Record<string, BuiltInRpcFunction> = {
+  delete_expired_push_tokens: {
+    params: [{ name: "days_old", type: "integer", default: 90 }],
+    handler: deleteExpiredPushTokens,
+  },
+  get_user_profile: {
+    params: [{ name: "user_id", type: "uuid" }],
+    handler: getUserProfile,
+  },
+  delete_user_account: {
+    params: [],
+    handler: deleteUserAccount,
+  },
+  has_active_entitlement: {
+    params: [{ name: "entitlement_id", type: "text" }],
+    handler: hasActiveEntitlement,
+  },
+  merge_user_preferences: {
+    params: [{ name: "patch", type: "jsonb" }],
+    handler: mergeUserPreferences,
+  },
+}
+
+/**
+ * Bind named arguments to a built-in function's parameters, applying defaults and casts
+ */
+function bindArguments(
+  fn: string,
+  definition: BuiltInRpcFunction,
+  params: Record<string, unknown> = {},
+): Record<string, unknown> {
+  const declared = new Set(definition.params.map((param) => param.name))
+  const missing = definition.params.some(
+    (param) => !("default" in param) && params[param.name] === undefined,
+  )
+  if (missing || Object.keys(params).some((name) => !declared.has(name))) {
+    throw functionNotFoundError(fn, params)
+  }
+
+  const args: Record<string, unknown> = {}
+  for (const param of definition.params) {
+    const value = params[param.name] === undefined ? param.default : params[param.name]
+    args[param.name] = castValue({ type: param.type }, value)
+  }
+  return args
+}
+
+/**
+ * Handler for a built-in function, or undefined if the schema doesn't define it
+ */
+export function getBuiltInRpcHandler(fn: string): RpcHandler | undefined {
+  const definition = BUILT_IN_RPC_FUNCTIONS[fn]
+  if (!definition) return undefined
+
+  return async (params) => {
+    let args: Record<string, unknown>
+    try {
+      args = bindArguments(fn, definition, params)
+    } catch (error) {
+      return { data: null, error: error as Error }
+    }
+    return definition.handler(args)
+  }
+}
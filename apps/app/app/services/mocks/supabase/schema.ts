@@ -0,0 +1,213 @@
+/**
+ * Mock Supabase Schema Validation
+ *
+ * Validates mock writes against the table descriptors in `sharedState.tableSchemas`
+ * and fails the way Postgres and PostgREST do: PGRST204 for unknown columns,
+ * 22P02/22007 for values that don't cast to the column type, 23502 for NOT NULL
+ * violations and 23505 for duplicate keys. Tables without a schema accept any row.
+ */
+
+import { createPostgrestError, generateUUID } from "./helpers"
+import {
+  sharedState,
+  type ColumnSchema,
+  type ColumnType,
+  type DatabaseRecord,
+  type TableSchema,
+} from "./types"
+
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i
+const INTEGER_PATTERN = /^\s*[+-]?\d+\s*$/
+const NUMERIC_PATTERN = /^\s*[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i
+const TRUE_LITERALS = new Set(["t", "true", "y", "yes", "on", "1"])
+const FALSE_LITERALS = new Set(["f", "false", "n", "no", "off", "0"])
+const INT4_MAX = 2147483647
+
+/**
+ * Type names Postgres uses in cast error messages
+ */
+const TYPE_NAMES: Record<ColumnType, string> = {
+  uuid: "uuid",
+  text: "text",
+  boolean: "boolean",
+  integer: "integer",
+  numeric: "numeric",
+  timestamptz: "timestamp with time zone",
+  jsonb: "json",
+}
+
+export function getTableSchema(table: string): TableSchema | undefined {
+  return sharedState.tableSchemas.get(table)
+}
+
+/**
+ * Whether a table has a column; tables without a schema accept any column
+ */
+export function hasColumn(table: string, column: string): boolean {
+  const schema = getTableSchema(table)
+  return !schema || column in schema.columns
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "null"
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+function invalidInput(type: ColumnType, value: unknown) {
+  // Postgres reports malformed timestamps as invalid_datetime_format
+  const code = type === "timestamptz" ? "22007" : "22P02"
+  return createPostgrestError(
+    code,
+    `invalid input syntax for type ${TYPE_NAMES[type]}: "${formatValue(value)}"`,
+  )
+}
+
+/**
+ * Cast a JSON value to a column type the way Postgres casts PostgREST payloads
+ */
+export function castValue(column: ColumnSchema, value: unknown): unknown {
+  if (value === null) return null
+
+  switch (column.type) {
+    case "uuid":
+      if (typeof value === "string" && UUID_PATTERN.test(value)) return value.toLowerCase()
+      throw invalidInput("uuid", value)
+    case "text":
+      return typeof value === "object" ? JSON.stringify(value) : String(value)
+    case "boolean": {
+      if (typeof value === "boolean") return value
+      const literal = typeof value === "string" ? value.trim().toLowerCase() : null
+      if (literal && TRUE_LITERALS.has(literal)) return true
+      if (literal && FALSE_LITERALS.has(literal)) return false
+      throw invalidInput("boolean", value)
+    }
+    case "integer": {
+      const valid =
+        (typeof value === "number" && Number.isInteger(value)) ||
+        (typeof value === "string" && INTEGER_PATTERN.test(value))
+      if (!valid) throw invalidInput("integer", value)
+      const parsed = Number(value)
+      if (Math.abs(parsed) > INT4_MAX) {
+        throw createPostgrestError("22003", `value "${value}" is out of range for type integer`)
+      }
+      return parsed
+    }
+    case "numeric":
+      if (typeof value === "number" && Number.isFinite(value)) return value
+      if (typeof value === "string" && NUMERIC_PATTERN.test(value)) return Number(value)
+      throw invalidInput("numeric", value)
+    case "timestamptz":
+      if (typeof value === "string" && !Number.isNaN(Date.parse(value))) return value
+      throw invalidInput("timestamptz", value)
+    case "jsonb":
+      return value
+  }
+}
+
+/**
+ * Validate and cast the columns of an insert, update or upsert payload.
+ * Throws PGRST204 for unknown columns and 22P02/22007/22003 for values that don't cast.
+ */
+export function castColumns(table: string, values: DatabaseRecord): DatabaseRecord {
+  const schema = getTableSchema(table)
+  if (!schema) return { ...values }
+
+  const row: DatabaseRecord = {}
+  for (const [column, value] of Object.entries(values)) {
+    if (value === undefined) continue
+    const columnSchema = schema.columns[column]
+    if (!columnSchema) {
+      throw createPostgrestError(
+        "PGRST204",
+        `Could not find the '${column}' column of '${table}' in the schema cache`,
+      )
+    }
+    row[column] = castValue(columnSchema, value)
+  }
+  return row
+}
+
+/**
+ * Fill in defaults for columns missing from a new row. Explicit nulls are kept, as in Postgres.
+ */
+export function applyColumnDefaults(table: string, values: DatabaseRecord): DatabaseRecord {
+  const schema = getTableSchema(table)
+  if (!schema) return { ...values }
+
+  const row: DatabaseRecord = {}
+  for (const [column, columnSchema] of Object.entries(schema.columns)) {
+    if (column in values) {
+      row[column] = values[column]
+      continue
+    }
+    const fallback = columnSchema.default
+    if (fallback === "gen_random_uuid()" || fallback === "uuid_generate_v4()") {
+      row[column] = generateUUID()
+    } else if (fallback === "now()") {
+      row[column] = new Date().toISOString()
+    } else {
+      row[column] = fallback ? fallback.value : null
+    }
+  }
+  return row
+}
+
+function failingRowDetails(schema: TableSchema, row: DatabaseRecord): string {
+  const values = Object.keys(schema.columns).map((column) => formatValue(row[column]))
+  return `Failing row contains (${values.join(", ")}).`
+}
+
+/**
+ * Check NOT NULL and unique constraints for rows about to be written.
+ * `others` are the rows that stay in the table alongside them.
+ */
+export function checkConstraints(
+  table: string,
+  rows: DatabaseRecord[],
+  others: DatabaseRecord[],
+): void {
+  const schema = getTableSchema(table)
+  if (!schema) return
+
+  for (const row of rows) {
+    for (const [column, columnSchema] of Object.entries(schema.columns)) {
+      const notNull = columnSchema.nullable === false || schema.primaryKey.includes(column)
+      if (notNull && (row[column] === null || row[column] === undefined)) {
+        throw createPostgrestError(
+          "23502",
+          `null value in column "${column}" of relation "${table}" violates not-null constraint`,
+          failingRowDetails(schema, row),
+        )
+      }
+    }
+  }
+
+  const constraints = [
+    { name: `${table}_pkey`, columns: schema.primaryKey },
+    ...(schema.unique ?? []),
+  ]
+  for (const constraint of constraints) {
+    const keyOf = (row: DatabaseRecord) => {
+      const values = constraint.columns.map((column) => row[column])
+      // NULLs are distinct, so rows with a NULL key column never conflict
+      return values.some((value) => value === null || value === undefined)
+        ? null
+        : JSON.stringify(values)
+    }
+    const seen = new Set(others.map(keyOf).filter((key) => key !== null))
+
+    for (const row of rows) {
+      const key = keyOf(row)
+      if (key === null) continue
+      if (seen.has(key)) {
+        const values = constraint.columns.map((column) => formatValue(row[column]))
+        throw createPostgrestError(
+          "23505",
+          `duplicate key value violates unique constraint "${constraint.name}"`,
+          `Key (${constraint.columns.join(", ")})=(${values.join(", ")}) already exists.`,
+        )
+      }
+      seen.add(key)
+    }
+  }
+}
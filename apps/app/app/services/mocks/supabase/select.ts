@@ -0,0 +1,256 @@
+/**
+ * Mock Supabase Select
+ *
+ * Parses PostgREST select strings (column projection, aliases, embedded
+ * resources and `!inner` joins), checks the selected columns against the
+ * table schemas and resolves embedded resources against the declared
+ * foreign keys.
+ */
+
+import { createPostgrestError } from "./helpers"
+import { canAccessRow } from "./policies"
+import { hasColumn } from "./schema"
+import { sharedState, type DatabaseRecord, type ForeignKeyRelation } from "./types"
+
+export type SelectNode =
+  | { kind: "star" }
+  | { kind: "column"; name: string; alias?: string }
+  | {
+      kind: "embed"
+      relation: string
+      alias?: string
+      hint?: string
+      inner: boolean
+      children: SelectNode[]
+    }
+
+/**
+ * A relationship resolved from a table to an embedded resource
+ */
+interface ResolvedRelation {
+  table: string
+  /** Column on the parent row used for the join */
+  localColumn: string
+  /** Column on the embedded rows used for the join */
+  foreignColumn: string
+  /** Many-to-one and one-to-one relations embed an object, one-to-many an array */
+  isArray: boolean
+}
+
+/**
+ * Filter on an embedded resource, e.g. `.eq("profiles.first_name", "Jane")`
+ */
+export type EmbeddedRecordFilter = (path: string, record: DatabaseRecord) => boolean
+
+const IDENTIFIER = "[A-Za-z_][A-Za-z0-9_]*"
+const COLUMN_PATTERN = new RegExp(`^(?:(${IDENTIFIER}):)?(${IDENTIFIER})(?:::${IDENTIFIER})?$`)
+const EMBED_PATTERN = new RegExp(
+  `^(?:(${IDENTIFIER}):)?(${IDENTIFIER})((?:!${IDENTIFIER})*)\\((.*)\\)$`,
+  "s",
+)
+
+function parseError(columns: string, details: string) {
+  return createPostgrestError("PGRST100", `failed to parse select parameter (${columns})`, details)
+}
+
+/**
+ * Split a select string on top-level commas (ignoring commas inside embeds)
+ */
+function splitTopLevel(columns: string, source: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ""
+
+  for (const char of columns) {
+    if (char === "(") depth++
+    if (char === ")") depth--
+    if (depth < 0) {
+      throw parseError(source, 'unexpected ")"')
+    }
+    if (char === "," && depth === 0) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+
+  if (depth !== 0) {
+    throw parseError(source, 'unexpected end of input, expecting ")"')
+  }
+  parts.push(current)
+  return parts
+}
+
+function parseNodes(columns: string, source: string): SelectNode[] {
+  if (columns === "") return [{ kind: "star" }]
+
+  return splitTopLevel(columns, source).map((part): SelectNode => {
+    if (part === "*") return { kind: "star" }
+
+    const column = COLUMN_PATTERN.exec(part)
+    if (column) {
+      return { kind: "column", name: column[2], alias: column[1] }
+    }
+
+    const embed = EMBED_PATTERN.exec(part)
+    if (embed) {
+      const modifiers = embed[3].split("!").filter(Boolean)
+      let inner = false
+      let hint: string | undefined
+      modifiers.forEach((modifier) => {
+        if (modifier === "inner") inner = true
+        else if (modifier === "left") inner = false
+        else hint = modifier
+      })
+      return {
+        kind: "embed",
+        relation: embed[2],
+        alias: embed[1],
+        hint,
+        inner,
+        children: parseNodes(embed[4], source),
+      }
+    }
+
+    throw parseError(source, `unexpected "${part}"`)
+  })
+}
+
+/**
+ * Parse a PostgREST select string into a tree of nodes.
+ * Type casts (`id::text`) are accepted but not applied.
+ *
+ * @throws PostgREST-style PGRST100 error when the string cannot be parsed
+ * @example
+ * parseSelect("id, author:profiles!inner(first_name)")
+ */
+export function parseSelect(columns: string = "*"): SelectNode[] {
+  return parseNodes(columns.replace(/\s+/g, ""), columns)
+}
+
+function matchesHint(fk: ForeignKeyRelation, hint: string | undefined): boolean {
+  return !hint || fk.name === hint || fk.column === hint
+}
+
+/**
+ * Find the relationship between a table and an embedded resource.
+ * The relation name can be a table name or a foreign key column on the parent table.
+ */
+function resolveRelation(table: string, node: Extract<SelectNode, { kind: "embed" }>) {
+  const candidates: ResolvedRelation[] = []
+
+  sharedState.foreignKeys.forEach((fk) => {
+    // Many-to-one (or one-to-one): the parent table holds the foreign key
+    if (
+      fk.table === table &&
+      (fk.referencedTable === node.relation || fk.column === node.relation) &&
+      matchesHint(fk, node.hint)
+    ) {
+      candidates.push({
+        table: fk.referencedTable,
+        localColumn: fk.column,
+        foreignColumn: fk.referencedColumn,
+        isArray: false,
+      })
+    }
+    // One-to-many (or one-to-one when the foreign key is also the primary key)
+    if (fk.referencedTable === table && fk.table === node.relation && matchesHint(fk, node.hint)) {
+      candidates.push({
+        table: fk.table,
+        localColumn: fk.referencedColumn,
+        foreignColumn: fk.column,
+        isArray: fk.column !== "id",
+      })
+    }
+  })
+
+  if (candidates.length === 0) {
+    throw createPostgrestError(
+      "PGRST200",
+      `Could not find a relationship between '${table}' and '${node.relation}' in the schema cache`,
+      null,
+      node.hint ? `Searched for a foreign key relationship using the hint '${node.hint}'` : null,
+    )
+  }
+  if (candidates.length > 1) {
+    throw createPostgrestError(
+      "PGRST201",
+      `Could not embed because more than one relationship was found for '${table}' and '${node.relation}'`,
+      null,
+      `Try changing '${node.relation}' to one of the foreign key columns or constraint names`,
+    )
+  }
+  return candidates[0]
+}
+
+/**
+ * Check that every selected column and embedded resource exists, failing the whole
+ * query like Postgres does even when no rows match
+ */
+export function validateSelect(table: string, nodes: SelectNode[]): void {
+  for (const node of nodes) {
+    if (node.kind === "column" && !hasColumn(table, node.name)) {
+      throw createPostgrestError("42703", `column ${table}.${node.name} does not exist`)
+    }
+    if (node.kind === "embed") {
+      validateSelect(resolveRelation(table, node).table, node.children)
+    }
+  }
+}
+
+/**
+ * Project a row through the parsed select nodes, embedding related rows visible
+ * under row-level security.
+ * Returns null when an `!inner` embed has no matching rows, which drops the
+ * parent row the same way an inner join does.
+ *
+ * @param matchesEmbedded - Filters applied to embedded rows, keyed by dotted path
+ * @param path - Dotted path of the current embed (empty for the top-level table)
+ */
+export function projectRow(
+  table: string,
+  row: DatabaseRecord,
+  nodes: SelectNode[],
+  matchesEmbedded: EmbeddedRecordFilter,
+  path: string = "",
+): DatabaseRecord | null {
+  const result: DatabaseRecord = {}
+
+  for (const node of nodes) {
+    if (node.kind === "star") {
+      Object.assign(result, row)
+      continue
+    }
+
+    if (node.kind === "column") {
+      result[node.alias ?? node.name] = row[node.name] ?? null
+      continue
+    }
+
+    const relation = resolveRelation(table, node)
+    const key = node.alias ?? node.relation
+    const embedPath = path ? `${path}.${key}` : key
+    const localValue = row[relation.localColumn]
+    const related = Array.from(sharedState.mockDatabase.get(relation.table)?.values() ?? [])
+      .filter(
+        (candidate) =>
+          localValue !== null &&
+          localValue !== undefined &&
+          candidate[relation.foreignColumn] === localValue &&
+          canAccessRow(relation.table, "SELECT", candidate) &&
+          matchesEmbedded(embedPath, candidate),
+      )
+      .map((candidate) =>
+        projectRow(relation.table, candidate, node.children, matchesEmbedded, embedPath),
+      )
+      .filter((candidate): candidate is DatabaseRecord => candidate !== null)
+
+    if (node.inner && related.length === 0) {
+      return null
+    }
+    result[key] = relation.isArray ? related : (related[0] ?? null)
+  }
+
+  return result
+}
@@ -1,130 +1,614 @@
 /**
  * Mock Supabase Storage
  *
- * Mock implementation of Supabase storage operations
+ * Mock implementation of Supabase storage operations. Objects keep their bytes (as
+ * base64), content type and custom metadata; listing is folder-aware like storage.search();
+ * buckets enforce `file_size_limit` and `allowed_mime_types`; and signed URLs carry an
+ * expiring token that `resolveStorageUrl` checks the way the storage API does, for every
+ * fetch once `installMockStorageFetch` routes mock storage URLs to it. Public URLs
+ * with `transform` options are rendered locally (see imageTransform.ts) so images load offline.
  */
 
-import { delay, base64Utils } from "./helpers"
-import type { StorageFile } from "./types"
+import { Platform } from "react-native"
+import {
+  StorageApiError,
+  StorageError,
+  StorageUnknownError,
+  type TransformOptions,
+} from "@supabase/storage-js"
+
+import { base64Utils, decodeMockJwt, signMockJwt, simulateRequest } from "./helpers"
+import { canTransform, transformImage, type TransformedImage } from "./imageTransform"
+import type { StorageBucket, StorageFile } from "./types"
 import { sharedState } from "./types"
 import { logger } from "../../../utils/Logger"
 
+export const STORAGE_URL = "https://mock-storage.supabase.co/storage/v1"
+
+const DEFAULT_CACHE_CONTROL = "3600"
+const DEFAULT_CONTENT_TYPE = "text/plain;charset=UTF-8"
+const DEFAULT_LIST_LIMIT = 100
+/** Signed upload URLs are valid for two hours */
+const SIGNED_UPLOAD_URL_EXPIRY = 2 * 60 * 60
+/** Rendered image URLs kept so repeated getPublicUrl() calls don't re-encode */
+const RENDERED_URL_CACHE_SIZE = 20
+
+export type FileBody = Blob | ArrayBuffer | ArrayBufferView | FormData | string
+
+export interface FileOptions {
+  cacheControl?: string
+  /** Ignored for Blob and FormData bodies, which carry their own type */
+  contentType?: string
+  upsert?: boolean
+  metadata?: Record<string, unknown>
+}
+
+export interface SearchOptions {
+  /** Defaults to 100 */
+  limit?: number
+  offset?: number
+  sortBy?: { column?: string; order?: string }
+  /** Case-insensitive prefix of the names to return */
+  search?: string
+}
+
+export interface BucketOptions {
+  public: boolean
+  /** Bytes, or a string such as "5MB" */
+  fileSizeLimit?: number | string | null
+  allowedMimeTypes?: string[] | null
+}
+
+/**
+ * Entry returned by `list()`. Folders have a null id and metadata.
+ */
+export interface PublicUrlOptions {
+  download?: string | boolean
+  transform?: TransformOptions
+}
+
+export interface FileObject {
+  name: string
+  id: string | null
+  updated_at: string | null
+  created_at: string | null
+  last_accessed_at: string | null
+  metadata: Record<string, unknown> | null
+  bucket_id?: string
+}
+
+export interface StorageResponse<T> {
+  data: T | null
+  error: StorageError | null
+}
+
+interface SignedUrlClaims {
+  url?: string
+  exp?: number
+  upsert?: boolean
+}
+
+function storageError(message: string, status: number): StorageApiError {
+  return new StorageApiError(message, status, String(status))
+}
+
+/**
+ * Injected failures surface like storage-js fetch failures, unless they're already storage errors
+ */
+function toStorageError(error: Error): StorageError {
+  return error instanceof StorageError ? error : new StorageUnknownError(error.message, error)
+}
+
+const objectNotFound = () => storageError("Object not found", 404)
+const bucketNotFound = () => storageError("Bucket not found", 404)
+const alreadyExists = () => storageError("The resource already exists", 409)
+
+/**
+ * Collapse repeated slashes and trim leading/trailing ones, like storage-js
+ */
+function cleanPath(path: string): string {
+  return path.replace(/^\/|\/$/g, "").replace(/\/+/g, "/")
+}
+
+function getBucket(bucketId: string): StorageBucket | undefined {
+  return sharedState.mockBuckets.get(bucketId)
+}
+
+function getObject(bucketId: string, path: string): StorageFile | undefined {
+  return sharedState.mockFileStorage.get(`${bucketId}/${path}`)
+}
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+/**
+ * Read a Blob's bytes. React Native's Blob has no arrayBuffer(), so fall back to FileReader.
+ */
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === "function") {
+    return new Uint8Array(await blob.arrayBuffer())
+  }
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+  return base64Utils.decode(dataUrl.slice(dataUrl.indexOf(",") + 1))
+}
+
+/**
+ * Read an upload body the way storage-js sends it: Blobs and FormData as multipart
+ * (typed by the part), everything else as a raw body typed by `contentType`
+ */
+async function readFileBody(
+  body: FileBody,
+  options: FileOptions,
+): Promise<{
+  bytes: Uint8Array
+  mimeType: string
+  cacheControl: string
+  metadata?: Record<string, unknown>
+}> {
+  const cacheControl = options.cacheControl ?? DEFAULT_CACHE_CONTROL
+
+  if (typeof Blob !== "undefined" && body instanceof Blob) {
+    return {
+      bytes: await readBlob(body),
+      mimeType: body.type || "application/octet-stream",
+      cacheControl,
+      metadata: options.metadata,
+    }
+  }
+
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    let file: Blob | null = null
+    let formCacheControl: string | null = null
+    let formMetadata: string | null = null
+    body.forEach((value, key) => {
+      if (key === "cacheControl" && typeof value === "string") formCacheControl = value
+      else if (key === "metadata" && typeof value === "string") formMetadata = value
+      else if (!file && typeof value !== "string") file = value
+    })
+    const part = file as Blob | null
+    if (!part) throw storageError("No file found in form data", 400)
+    return {
+      bytes: await readBlob(part),
+      mimeType: part.type || "application/octet-stream",
+      cacheControl: formCacheControl ?? cacheControl,
+      metadata: formMetadata ? JSON.parse(formMetadata) : options.metadata,
+    }
+  }
+
+  let bytes: Uint8Array
+  if (typeof body === "string") {
+    bytes = new TextEncoder().encode(body)
+  } else if (body instanceof ArrayBuffer) {
+    bytes = new Uint8Array(body)
+  } else {
+    const view = body as ArrayBufferView
+    bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength)
+  }
+  return {
+    bytes: new Uint8Array(bytes),
+    mimeType: options.contentType ?? DEFAULT_CONTENT_TYPE,
+    cacheControl,
+    metadata: options.metadata,
+  }
+}
+
+function mimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+  const type = mimeType.split(";")[0].trim().toLowerCase()
+  return allowed.some((pattern) => {
+    const normalized = pattern.toLowerCase()
+    return normalized.endsWith("/*")
+      ? type.startsWith(normalized.slice(0, -1))
+      : type === normalized
+  })
+}
+
+/**
+ * Enforce the bucket's size and MIME type restrictions for an upload
+ */
+function checkBucketLimits(
+  bucket: StorageBucket,
+  size: number,
+  mimeType: string,
+): StorageApiError | null {
+  if (bucket.file_size_limit !== null && size > bucket.file_size_limit) {
+    return storageError("The object exceeded the maximum allowed size", 413)
+  }
+  if (bucket.allowed_mime_types?.length && !mimeTypeAllowed(mimeType, bucket.allowed_mime_types)) {
+    return storageError(`mime type ${mimeType} is not supported`, 415)
+  }
+  return null
+}
+
+/**
+ * Parse a bucket file size limit given in bytes or as "<n>B|KB|MB|GB"
+ */
+function parseFileSizeLimit(limit: number | string | null | undefined): number | null {
+  if (limit === null || limit === undefined) return null
+  if (typeof limit === "number") return limit
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(limit.trim())
+  if (!match) {
+    throw storageError("Invalid file size format, hint: use 20GB / 20MB / 30KB / 3B", 400)
+  }
+  const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 }
+  return Math.floor(Number(match[1]) * units[(match[2] ?? "b").toLowerCase()])
+}
+
+/**
+ * Stable tag for the object's contents, like the storage backend's ETag
+ */
+function computeETag(data: string): string {
+  let hash = 5381
+  for (let i = 0; i < data.length; i++) {
+    hash = ((hash << 5) + hash + data.charCodeAt(i)) >>> 0
+  }
+  return `"${hash.toString(16)}"`
+}
+
+function objectMetadata(file: StorageFile): Record<string, unknown> {
+  return {
+    eTag: computeETag(file.data),
+    size: file.size,
+    mimetype: file.mimeType,
+    cacheControl: `max-age=${file.cacheControl ?? DEFAULT_CACHE_CONTROL}`,
+    lastModified: file.updated_at,
+    contentLength: file.size,
+    httpStatusCode: 200,
+  }
+}
+
+function toFileObject(file: StorageFile, name: string): FileObject {
+  return {
+    name,
+    id: file.id,
+    updated_at: file.updated_at,
+    created_at: file.created_at,
+    last_accessed_at: file.updated_at,
+    metadata: objectMetadata(file),
+  }
+}
+
+function folderObject(name: string): FileObject {
+  return {
+    name,
+    id: null,
+    updated_at: null,
+    created_at: null,
+    last_accessed_at: null,
+    metadata: null,
+  }
+}
+
+/**
+ * Order list entries like Postgres: NULLs last ascending and first descending
+ */
+function compareEntries(column: string, order: string) {
+  const direction = order.toLowerCase() === "desc" ? -1 : 1
+  return (a: FileObject, b: FileObject) => {
+    const left = (a[column as keyof FileObject] ?? null) as string | null
+    const right = (b[column as keyof FileObject] ?? null) as string | null
+    if (left === null || right === null) {
+      if (left === right) return 0
+      return (left === null ? 1 : -1) * direction
+    }
+    return (left < right ? -1 : left > right ? 1 : 0) * direction
+  }
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+}
+
+/**
+ * Build a Blob from bytes. React Native's Blob can't be created from an ArrayBuffer, so
+ * there the bytes go through a data URI, which its fetch reads into a Blob.
+ */
+async function blobFromBytes(bytes: Uint8Array, type: string): Promise<Blob> {
+  try {
+    return new Blob([toArrayBuffer(bytes)], { type })
+  } catch {
+    const response = await fetch(`data:${type};base64,${base64Utils.encode(bytes)}`)
+    return response.blob()
+  }
+}
+
+function bytesToBlob(file: StorageFile): Promise<Blob> {
+  return blobFromBytes(base64Utils.decode(file.data), file.mimeType)
+}
+
+function downloadQuery(download?: string | boolean): string {
+  if (!download) return ""
+  return `download=${download === true ? "" : encodeURIComponent(download)}`
+}
+
+function hasTransform(transform?: TransformOptions): transform is TransformOptions {
+  return !!transform && Object.keys(transform).length > 0
+}
+
+/**
+ * Query string for transform options, in the same order supabase-js writes them
+ */
+function transformQuery(transform: TransformOptions): string {
+  const query = new URLSearchParams()
+  if (transform.width) query.set("width", transform.width.toString())
+  if (transform.height) query.set("height", transform.height.toString())
+  if (transform.resize) query.set("resize", transform.resize)
+  if (transform.format) query.set("format", transform.format)
+  if (transform.quality) query.set("quality", transform.quality.toString())
+  return query.toString()
+}
+
+function transformFromQuery(params: URLSearchParams): TransformOptions {
+  const number = (name: string) => (params.has(name) ? Number(params.get(name)) : undefined)
+  return {
+    width: number("width"),
+    height: number("height"),
+    resize: (params.get("resize") ?? undefined) as TransformOptions["resize"],
+    quality: number("quality"),
+    format: (params.get("format") ?? undefined) as TransformOptions["format"],
+  }
+}
+
+const renderedUrls = new Map<string, string>()
+const pendingRenders = new Map<string, Promise<void>>()
+const failedRenders = new Set<string>()
+
+/**
+ * Render a stored image after the current frame and cache a URL the Image component can
+ * load offline: a blob URL on web and a data URI elsewhere
+ */
+function renderImage(file: StorageFile, transform: TransformOptions, key: string): void {
+  if (pendingRenders.has(key)) return
+
+  const render = (async () => {
+    // Yield first so decoding never blocks the getPublicUrl() caller
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    try {
+      const image = transformImage(base64Utils.decode(file.data), file.mimeType, transform)
+      const url =
+        Platform.OS === "web" && typeof URL.createObjectURL === "function"
+          ? URL.createObjectURL(new Blob([toArrayBuffer(image.bytes)], { type: image.mimeType }))
+          : `data:${image.mimeType};base64,${base64Utils.encode(image.bytes)}`
+
+      renderedUrls.set(key, url)
+      if (renderedUrls.size > RENDERED_URL_CACHE_SIZE) {
+        const [oldestKey, oldestUrl] = renderedUrls.entries().next().value as [string, string]
+        renderedUrls.delete(oldestKey)
+        if (oldestUrl.startsWith("blob:")) URL.revokeObjectURL(oldestUrl)
+      }
+    } catch (error) {
+      failedRenders.add(key)
+      if (__DEV__) {
+        logger.warn(`[MockStorage] Could not render image`, { path: file.path, error })
+      }
+    } finally {
+      pendingRenders.delete(key)
+    }
+  })()
+  pendingRenders.set(key, render)
+}
+
+/**
+ * URL for a transformed public image: the rendered image once it is ready, and the
+ * original as a data URI while it renders. Returns null if the object can't be rendered.
+ */
+function transformedImageUrl(file: StorageFile, transform: TransformOptions): string | null {
+  if (!canTransform(file.mimeType)) return null
+
+  const key = `${file.bucket}/${file.path}?${transformQuery(transform)}#${computeETag(file.data)}`
+  if (failedRenders.has(key)) return null
+
+  const rendered = renderedUrls.get(key)
+  if (rendered) return rendered
+
+  renderImage(file, transform, key)
+  return `data:${file.mimeType};base64,${file.data}`
+}
+
+/**
+ * Wait for the image renders getPublicUrl() has started
+ */
+export async function waitForImageRenders(): Promise<void> {
+  await Promise.all(pendingRenders.values())
+}
+
+/**
+ * Check a signed URL token against the object key it should grant access to
+ */
+function verifySignedToken(
+  token: string | null,
+  key: string,
+): { claims: SignedUrlClaims | null; error: StorageApiError | null } {
+  const claims = token ? decodeMockJwt<SignedUrlClaims>(token) : null
+  if (!claims) return { claims: null, error: storageError("jwt malformed", 400) }
+  if (claims.exp !== undefined && claims.exp <= nowInSeconds()) {
+    return { claims: null, error: storageError("jwt expired", 400) }
+  }
+  if (claims.url !== key) return { claims: null, error: storageError("Invalid signature", 400) }
+  return { claims, error: null }
+}
+
 export class MockStorageFileApi {
   private bucket: string
   private path: string
 
   constructor(bucket: string, path: string) {
     this.bucket = bucket
-    this.path = path
+    this.path = cleanPath(path)
   }
 
   async upload(
-    fileBody: Blob | ArrayBuffer | string,
-    options?: { contentType?: string; upsert?: boolean },
-  ): Promise<{ data: { path: string } | null; error: Error | null }> {
-    await delay(500)
+    fileBody: FileBody,
+    options?: FileOptions,
+  ): Promise<StorageResponse<{ id: string; path: string; fullPath: string }>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.upload`, 500)
+    if (fault) return { data: null, error: toStorageError(fault) }
+    return this.write(fileBody, options ?? {}, options?.upsert ?? false)
+  }
 
-    const fullPath = `${this.bucket}/${this.path}`
+  /**
+   * Replace an existing object, or create it (the storage API upserts on PUT)
+   */
+  async update(
+    fileBody: FileBody,
+    options?: FileOptions,
+  ): Promise<StorageResponse<{ id: string; path: string; fullPath: string }>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.update`, 500)
+    if (fault) return { data: null, error: toStorageError(fault) }
+    return this.write(fileBody, options ?? {}, true)
+  }
 
-    // Check if file exists and upsert is false
-    if (sharedState.mockFileStorage.has(fullPath) && !options?.upsert) {
-      return {
-        data: null,
-        error: new Error("The resource already exists"),
-      }
-    }
+  /**
+   * Store an upload body, enforcing bucket limits and the upsert flag
+   */
+  async write(
+    fileBody: FileBody,
+    options: FileOptions,
+    upsert: boolean,
+  ): Promise<StorageResponse<{ id: string; path: string; fullPath: string }>> {
+    const bucket = getBucket(this.bucket)
+    if (!bucket) return { data: null, error: bucketNotFound() }
 
-    // Convert to base64 for storage
-    let base64Data = ""
-    let size = 0
+    const fullPath = `${this.bucket}/${this.path}`
+    const existing = sharedState.mockFileStorage.get(fullPath)
+    if (existing && !upsert) {
+      return { data: null, error: alreadyExists() }
+    }
 
-    if (typeof fileBody === "string") {
-      base64Data = fileBody
-      size = fileBody.length
-    } else if (fileBody instanceof ArrayBuffer) {
-      const bytes = new Uint8Array(fileBody)
-      base64Data = base64Utils.encode(bytes)
-      size = fileBody.byteLength
-    } else if (fileBody instanceof Blob) {
-      // For Blob, we'll store a placeholder
-      base64Data = "blob-placeholder"
-      size = fileBody.size
+    let body: Awaited<ReturnType<typeof readFileBody>>
+    try {
+      body = await readFileBody(fileBody, options)
+    } catch (error) {
+      return { data: null, error: error as StorageApiError }
     }
 
+    const limitError = checkBucketLimits(bucket, body.bytes.byteLength, body.mimeType)
+    if (limitError) return { data: null, error: limitError }
+
+    const now = new Date().toISOString()
     const file: StorageFile = {
-      id: `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: existing?.id ?? `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       name: this.path.split("/").pop() || "file",
       bucket: this.bucket,
       path: this.path,
-      size,
-      mimeType: options?.contentType || "application/octet-stream",
-      data: base64Data,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+      size: body.bytes.byteLength,
+      mimeType: body.mimeType,
+      data: base64Utils.encode(body.bytes),
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+      cacheControl: body.cacheControl,
+      metadata: body.metadata,
     }
 
     sharedState.mockFileStorage.set(fullPath, file)
 
     if (__DEV__) {
-      logger.debug(`[MockStorage] Uploaded`, { path: fullPath, size })
+      logger.debug(`[MockStorage] Uploaded`, { path: fullPath, size: file.size })
     }
 
-    return {
-      data: { path: this.path },
-      error: null,
-    }
+    return { data: { id: file.id, path: this.path, fullPath }, error: null }
   }
 
-  async download(): Promise<{ data: Blob | null; error: Error | null }> {
-    await delay(300)
+  async download(): Promise<StorageResponse<Blob>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.download`, 300)
+    if (fault) return { data: null, error: toStorageError(fault) }
 
     const fullPath = `${this.bucket}/${this.path}`
     const file = sharedState.mockFileStorage.get(fullPath)
 
     if (!file) {
-      return {
-        data: null,
-        error: new Error("Object not found"),
-      }
+      return { data: null, error: objectNotFound() }
     }
 
-    // Create a blob from the stored data
-    const decodedData = base64Utils.decode(file.data)
-    const arrayBuffer = decodedData.buffer.slice(
-      decodedData.byteOffset,
-      decodedData.byteOffset + decodedData.byteLength,
-    ) as ArrayBuffer
-    const blob = new Blob([arrayBuffer], { type: file.mimeType })
-
     if (__DEV__) {
       logger.debug(`[MockStorage] Downloaded`, { path: fullPath })
     }
 
+    return { data: await bytesToBlob(file), error: null }
+  }
+
+  /**
+   * Object details, including the custom metadata given at upload
+   */
+  async info(): Promise<StorageResponse<Record<string, unknown>>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.info`, 100)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    const file = getObject(this.bucket, this.path)
+    if (!file) return { data: null, error: objectNotFound() }
+
     return {
-      data: blob,
+      data: {
+        id: file.id,
+        version: file.id,
+        name: file.path,
+        bucketId: file.bucket,
+        createdAt: file.created_at,
+        lastModified: file.updated_at,
+        size: file.size,
+        cacheControl: `max-age=${file.cacheControl ?? DEFAULT_CACHE_CONTROL}`,
+        contentType: file.mimeType,
+        etag: computeETag(file.data),
+        metadata: file.metadata ?? {},
+      },
       error: null,
     }
   }
 
-  async remove(): Promise<{ data: { path: string }[] | null; error: Error | null }> {
-    await delay(200)
+  async exists(): Promise<{ data: boolean; error: StorageError | null }> {
+    const fault = await simulateRequest(`storage.${this.bucket}.exists`, 100)
+    if (fault) return { data: false, error: toStorageError(fault) }
+
+    return getObject(this.bucket, this.path)
+      ? { data: true, error: null }
+      : { data: false, error: objectNotFound() }
+  }
+
+  async remove(): Promise<StorageResponse<FileObject[]>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.remove`, 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
 
     const fullPath = `${this.bucket}/${this.path}`
-    const existed = sharedState.mockFileStorage.has(fullPath)
+    const file = sharedState.mockFileStorage.get(fullPath)
     sharedState.mockFileStorage.delete(fullPath)
 
     if (__DEV__) {
-      logger.debug(`[MockStorage] Removed`, { path: fullPath, existed })
+      logger.debug(`[MockStorage] Removed`, { path: fullPath, existed: !!file })
     }
 
     return {
-      data: [{ path: this.path }],
+      data: file ? [{ ...toFileObject(file, file.path), bucket_id: file.bucket }] : [],
       error: null,
     }
   }
 
-  getPublicUrl(): { data: { publicUrl: string } } {
-    const publicUrl = `https://mock-storage.supabase.co/${this.bucket}/${this.path}`
+  /**
+   * With `transform`, public images are rendered in memory and returned as a data URI
+   * (a blob URL on web) so they load offline. Anything that can't be rendered gets the
+   * usual render URL, which fails to load like it would against the real API.
+   */
+  getPublicUrl(options?: PublicUrlOptions): { data: { publicUrl: string } } {
+    const file = getObject(this.bucket, this.path)
+    if (hasTransform(options?.transform) && file && getBucket(this.bucket)?.public) {
+      const rendered = transformedImageUrl(file, options.transform)
+      if (rendered) return { data: { publicUrl: rendered } }
+    }
+
+    const query = [
+      downloadQuery(options?.download),
+      hasTransform(options?.transform) ? transformQuery(options.transform) : "",
+    ]
+      .filter(Boolean)
+      .join("&")
+    const renderPath = hasTransform(options?.transform) ? "render/image" : "object"
+    const publicUrl =
+      encodeURI(`${STORAGE_URL}/${renderPath}/public/${this.bucket}/${this.path}`) +
+      (query ? `?${query}` : "")
 
     if (__DEV__) {
       logger.debug(`[MockStorage] Public URL`, { url: publicUrl })
@@ -137,19 +621,73 @@ export class MockStorageFileApi {
 
   async createSignedUrl(
     expiresIn: number,
-  ): Promise<{ data: { signedUrl: string } | null; error: Error | null }> {
-    await delay(100)
+    options?: { download?: string | boolean },
+  ): Promise<StorageResponse<{ signedUrl: string }>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.createSignedUrl`, 100)
+    if (fault) return { data: null, error: toStorageError(fault) }
 
-    const signedUrl = `https://mock-storage.supabase.co/${this.bucket}/${this.path}?token=mock-signed-${Date.now()}&expires=${expiresIn}`
+    if (!getObject(this.bucket, this.path)) {
+      return { data: null, error: objectNotFound() }
+    }
+
+    const iat = nowInSeconds()
+    const token = signMockJwt({ url: `${this.bucket}/${this.path}`, iat, exp: iat + expiresIn })
+    const query = downloadQuery(options?.download)
+    const signedUrl = encodeURI(
+      `${STORAGE_URL}/object/sign/${this.bucket}/${this.path}?token=${token}${query ? `&${query}` : ""}`,
+    )
 
     if (__DEV__) {
       logger.debug(`[MockStorage] Signed URL`, { expiresIn, url: signedUrl })
     }
 
-    return {
-      data: { signedUrl },
-      error: null,
+    return { data: { signedUrl }, error: null }
+  }
+
+  async createSignedUploadUrl(options?: {
+    upsert: boolean
+  }): Promise<StorageResponse<{ signedUrl: string; token: string; path: string }>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.createSignedUploadUrl`, 100)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    if (!getBucket(this.bucket)) return { data: null, error: bucketNotFound() }
+    if (!options?.upsert && getObject(this.bucket, this.path)) {
+      return { data: null, error: alreadyExists() }
     }
+
+    const iat = nowInSeconds()
+    const token = signMockJwt({
+      owner: sharedState.currentSession?.user.id,
+      url: `${this.bucket}/${this.path}`,
+      upsert: options?.upsert ?? false,
+      iat,
+      exp: iat + SIGNED_UPLOAD_URL_EXPIRY,
+    })
+    const signedUrl = encodeURI(
+      `${STORAGE_URL}/object/upload/sign/${this.bucket}/${this.path}?token=${token}`,
+    )
+
+    return { data: { signedUrl, token, path: this.path }, error: null }
+  }
+
+  async uploadToSignedUrl(
+    token: string,
+    fileBody: FileBody,
+    options?: FileOptions,
+  ): Promise<StorageResponse<{ path: string; fullPath: string }>> {
+    const fault = await simulateRequest(`storage.${this.bucket}.uploadToSignedUrl`, 500)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    const { claims, error } = verifySignedToken(token, `${this.bucket}/${this.path}`)
+    if (error) return { data: null, error }
+
+    const { data, error: writeError } = await this.write(
+      fileBody,
+      options ?? {},
+      claims?.upsert ?? false,
+    )
+    if (writeError || !data) return { data: null, error: writeError }
+    return { data: { path: data.path, fullPath: data.fullPath }, error: null }
   }
 }
 
@@ -158,28 +696,49 @@ export class MockStorageBucket {
 
   constructor(bucketName: string) {
     this.bucketName = bucketName
-    sharedState.mockBuckets.add(bucketName)
   }
 
   upload(
     path: string,
-    fileBody: Blob | ArrayBuffer | string,
-    options?: { contentType?: string; upsert?: boolean },
-  ): Promise<{ data: { path: string } | null; error: Error | null }> {
+    fileBody: FileBody,
+    options?: FileOptions,
+  ): Promise<StorageResponse<{ id: string; path: string; fullPath: string }>> {
     return new MockStorageFileApi(this.bucketName, path).upload(fileBody, options)
   }
 
-  download(path: string): Promise<{ data: Blob | null; error: Error | null }> {
+  update(
+    path: string,
+    fileBody: FileBody,
+    options?: FileOptions,
+  ): Promise<StorageResponse<{ id: string; path: string; fullPath: string }>> {
+    return new MockStorageFileApi(this.bucketName, path).update(fileBody, options)
+  }
+
+  download(path: string): Promise<StorageResponse<Blob>> {
     return new MockStorageFileApi(this.bucketName, path).download()
   }
 
-  remove(paths: string[]): Promise<{ data: { path: string }[] | null; error: Error | null }> {
-    // Remove multiple files
-    const removed: { path: string }[] = []
+  info(path: string): Promise<StorageResponse<Record<string, unknown>>> {
+    return new MockStorageFileApi(this.bucketName, path).info()
+  }
+
+  exists(path: string): Promise<{ data: boolean; error: StorageError | null }> {
+    return new MockStorageFileApi(this.bucketName, path).exists()
+  }
+
+  async remove(paths: string[]): Promise<StorageResponse<FileObject[]>> {
+    const fault = await simulateRequest(`storage.${this.bucketName}.remove`, 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    // Only objects that existed are returned, like the storage API
+    const removed: FileObject[] = []
     paths.forEach((path) => {
-      const fullPath = `${this.bucketName}/${path}`
-      sharedState.mockFileStorage.delete(fullPath)
-      removed.push({ path })
+      const fullPath = `${this.bucketName}/${cleanPath(path)}`
+      const file = sharedState.mockFileStorage.get(fullPath)
+      if (file) {
+        sharedState.mockFileStorage.delete(fullPath)
+        removed.push({ ...toFileObject(file, file.path), bucket_id: file.bucket })
+      }
     })
 
     if (__DEV__) {
@@ -189,62 +748,176 @@ export class MockStorageBucket {
       })
     }
 
-    return Promise.resolve({
-      data: removed,
-      error: null,
+    return { data: removed, error: null }
+  }
+
+  /**
+   * Move an object, optionally into another bucket. The destination must not exist.
+   */
+  async move(
+    fromPath: string,
+    toPath: string,
+    options?: { destinationBucket?: string },
+  ): Promise<StorageResponse<{ message: string }>> {
+    const fault = await simulateRequest(`storage.${this.bucketName}.move`, 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    const result = this.transfer(fromPath, toPath, options?.destinationBucket, true)
+    if (result.error) return { data: null, error: result.error }
+    return { data: { message: "Successfully moved" }, error: null }
+  }
+
+  /**
+   * Copy an object, optionally into another bucket. The destination must not exist.
+   */
+  async copy(
+    fromPath: string,
+    toPath: string,
+    options?: { destinationBucket?: string },
+  ): Promise<StorageResponse<{ path: string }>> {
+    const fault = await simulateRequest(`storage.${this.bucketName}.copy`, 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    const result = this.transfer(fromPath, toPath, options?.destinationBucket, false)
+    if (result.error) return { data: null, error: result.error }
+    return { data: { path: result.key }, error: null }
+  }
+
+  private transfer(
+    fromPath: string,
+    toPath: string,
+    destinationBucket: string = this.bucketName,
+    removeSource: boolean,
+  ): { key: string; error: null } | { key: null; error: StorageApiError } {
+    const source = getObject(this.bucketName, cleanPath(fromPath))
+    if (!source) return { key: null, error: objectNotFound() }
+    if (!getBucket(destinationBucket)) return { key: null, error: bucketNotFound() }
+
+    const destinationPath = cleanPath(toPath)
+    const key = `${destinationBucket}/${destinationPath}`
+    if (sharedState.mockFileStorage.has(key)) return { key: null, error: alreadyExists() }
+
+    const now = new Date().toISOString()
+    sharedState.mockFileStorage.set(key, {
+      ...source,
+      // A move renames the object; a copy creates a new one
+      id: removeSource
+        ? source.id
+        : `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: destinationPath.split("/").pop() || "file",
+      bucket: destinationBucket,
+      path: destinationPath,
+      created_at: removeSource ? source.created_at : now,
+      updated_at: removeSource ? source.updated_at : now,
     })
+    if (removeSource) {
+      sharedState.mockFileStorage.delete(`${source.bucket}/${source.path}`)
+    }
+
+    if (__DEV__) {
+      logger.debug(`[MockStorage] ${removeSource ? "Moved" : "Copied"}`, {
+        from: `${source.bucket}/${source.path}`,
+        to: key,
+      })
+    }
+
+    return { key, error: null }
   }
 
-  async list(
-    path?: string,
-    options?: { limit?: number; offset?: number },
-  ): Promise<{
-    data: Array<{ name: string; id: string; metadata: any }> | null
-    error: Error | null
-  }> {
-    await delay(200)
-
-    const prefix = path ? `${this.bucketName}/${path}` : this.bucketName
-    const files: Array<{ name: string; id: string; metadata: any }> = []
-
-    sharedState.mockFileStorage.forEach((file, fullPath) => {
-      if (fullPath.startsWith(prefix)) {
-        files.push({
-          name: file.name,
-          id: file.id,
-          metadata: {
-            size: file.size,
-            mimeType: file.mimeType,
-            created_at: file.created_at,
-          },
-        })
+  /**
+   * List the files and folders directly inside a folder, like storage.search()
+   */
+  async list(path?: string, options?: SearchOptions): Promise<StorageResponse<FileObject[]>> {
+    const fault = await simulateRequest(`storage.${this.bucketName}.list`, 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    if (!getBucket(this.bucketName)) return { data: null, error: bucketNotFound() }
+
+    const folder = cleanPath(path ?? "")
+    const prefix = folder ? `${folder}/` : ""
+    const search = (options?.search ?? "").toLowerCase()
+    const entries = new Map<string, FileObject>()
+
+    sharedState.mockFileStorage.forEach((file) => {
+      if (file.bucket !== this.bucketName || !file.path.startsWith(prefix)) return
+
+      const rest = file.path.slice(prefix.length)
+      const slash = rest.indexOf("/")
+      const name = slash === -1 ? rest : rest.slice(0, slash)
+      if (!name.toLowerCase().startsWith(search)) return
+
+      if (slash === -1) {
+        entries.set(name, toFileObject(file, name))
+      } else if (!entries.has(name)) {
+        entries.set(name, folderObject(name))
       }
     })
 
-    // Apply limit/offset
-    const start = options?.offset || 0
-    const end = options?.limit ? start + options.limit : files.length
-    const result = files.slice(start, end)
+    const sorted = Array.from(entries.values()).sort(
+      compareEntries(options?.sortBy?.column ?? "name", options?.sortBy?.order ?? "asc"),
+    )
+    const start = options?.offset ?? 0
+    const result = sorted.slice(start, start + (options?.limit ?? DEFAULT_LIST_LIMIT))
 
     if (__DEV__) {
-      logger.debug(`[MockStorage] Listed files`, { prefix, count: result.length })
+      logger.debug(`[MockStorage] Listed files`, {
+        bucket: this.bucketName,
+        prefix,
+        count: result.length,
+      })
     }
 
-    return {
-      data: result,
-      error: null,
-    }
+    return { data: result, error: null }
   }
 
-  getPublicUrl(path: string): { data: { publicUrl: string } } {
-    return new MockStorageFileApi(this.bucketName, path).getPublicUrl()
+  getPublicUrl(path: string, options?: PublicUrlOptions): { data: { publicUrl: string } } {
+    return new MockStorageFileApi(this.bucketName, path).getPublicUrl(options)
   }
 
   createSignedUrl(
     path: string,
     expiresIn: number,
-  ): Promise<{ data: { signedUrl: string } | null; error: Error | null }> {
-    return new MockStorageFileApi(this.bucketName, path).createSignedUrl(expiresIn)
+    options?: { download?: string | boolean },
+  ): Promise<StorageResponse<{ signedUrl: string }>> {
+    return new MockStorageFileApi(this.bucketName, path).createSignedUrl(expiresIn, options)
+  }
+
+  async createSignedUrls(
+    paths: string[],
+    expiresIn: number,
+    options?: { download?: string | boolean },
+  ): Promise<
+    StorageResponse<Array<{ error: string | null; path: string | null; signedUrl: string | null }>>
+  > {
+    const results = await Promise.all(
+      paths.map(async (path) => {
+        const { data } = await this.createSignedUrl(path, expiresIn, options)
+        return data
+          ? { error: null, path, signedUrl: data.signedUrl }
+          : {
+              error: "Either the object does not exist or you do not have access to it",
+              path,
+              signedUrl: null,
+            }
+      }),
+    )
+    return { data: results, error: null }
+  }
+
+  createSignedUploadUrl(
+    path: string,
+    options?: { upsert: boolean },
+  ): Promise<StorageResponse<{ signedUrl: string; token: string; path: string }>> {
+    return new MockStorageFileApi(this.bucketName, path).createSignedUploadUrl(options)
+  }
+
+  uploadToSignedUrl(
+    path: string,
+    token: string,
+    fileBody: FileBody,
+    options?: FileOptions,
+  ): Promise<StorageResponse<{ path: string; fullPath: string }>> {
+    return new MockStorageFileApi(this.bucketName, path).uploadToSignedUrl(token, fileBody, options)
   }
 }
 
@@ -253,78 +926,208 @@ export class MockStorage {
     return new MockStorageBucket(bucket)
   }
 
-  async listBuckets(): Promise<{
-    data: Array<{ name: string; id: string }> | null
-    error: Error | null
-  }> {
-    await delay(100)
+  async listBuckets(): Promise<StorageResponse<StorageBucket[]>> {
+    const fault = await simulateRequest("storage.listBuckets", 100)
+    if (fault) return { data: null, error: toStorageError(fault) }
 
-    const buckets = Array.from(sharedState.mockBuckets).map((name) => ({
-      name,
-      id: `bucket-${name}`,
-    }))
+    const buckets = Array.from(sharedState.mockBuckets.values()).map((bucket) => ({ ...bucket }))
 
     if (__DEV__) {
       logger.debug(`[MockStorage] Listed buckets`, { count: buckets.length })
     }
 
-    return {
-      data: buckets,
-      error: null,
-    }
+    return { data: buckets, error: null }
+  }
+
+  async getBucket(id: string): Promise<StorageResponse<StorageBucket>> {
+    const fault = await simulateRequest("storage.getBucket", 100)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    const bucket = getBucket(id)
+    return bucket ? { data: { ...bucket }, error: null } : { data: null, error: bucketNotFound() }
   }
 
   async createBucket(
-    name: string,
-    options?: { public?: boolean },
-  ): Promise<{ data: { name: string } | null; error: Error | null }> {
-    await delay(200)
-
-    if (sharedState.mockBuckets.has(name)) {
-      return {
-        data: null,
-        error: new Error("Bucket already exists"),
-      }
+    id: string,
+    options: BucketOptions = { public: false },
+  ): Promise<StorageResponse<{ name: string }>> {
+    const fault = await simulateRequest("storage.createBucket", 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    if (sharedState.mockBuckets.has(id)) {
+      return { data: null, error: alreadyExists() }
     }
 
-    sharedState.mockBuckets.add(name)
+    let fileSizeLimit: number | null
+    try {
+      fileSizeLimit = parseFileSizeLimit(options.fileSizeLimit)
+    } catch (error) {
+      return { data: null, error: error as StorageApiError }
+    }
+
+    const now = new Date().toISOString()
+    sharedState.mockBuckets.set(id, {
+      id,
+      name: id,
+      owner: sharedState.currentSession?.user.id ?? "",
+      public: options.public,
+      file_size_limit: fileSizeLimit,
+      allowed_mime_types: options.allowedMimeTypes ?? null,
+      created_at: now,
+      updated_at: now,
+    })
 
     if (__DEV__) {
-      logger.debug(`[MockStorage] Created bucket`, { name, public: options?.public ?? false })
+      logger.debug(`[MockStorage] Created bucket`, { name: id, public: options.public })
     }
 
-    return {
-      data: { name },
-      error: null,
-    }
+    return { data: { name: id }, error: null }
   }
 
-  async deleteBucket(name: string): Promise<{ data: null; error: Error | null }> {
-    await delay(200)
+  async updateBucket(
+    id: string,
+    options: BucketOptions,
+  ): Promise<StorageResponse<{ message: string }>> {
+    const fault = await simulateRequest("storage.updateBucket", 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
 
-    if (!sharedState.mockBuckets.has(name)) {
-      return {
-        data: null,
-        error: new Error("Bucket not found"),
-      }
+    const bucket = getBucket(id)
+    if (!bucket) return { data: null, error: bucketNotFound() }
+
+    let fileSizeLimit: number | null
+    try {
+      fileSizeLimit = parseFileSizeLimit(options.fileSizeLimit)
+    } catch (error) {
+      return { data: null, error: error as StorageApiError }
     }
 
-    // Remove all files in bucket
-    sharedState.mockFileStorage.forEach((_, key) => {
-      if (key.startsWith(`${name}/`)) {
-        sharedState.mockFileStorage.delete(key)
-      }
+    sharedState.mockBuckets.set(id, {
+      ...bucket,
+      public: options.public,
+      file_size_limit: fileSizeLimit,
+      allowed_mime_types: options.allowedMimeTypes ?? null,
+      updated_at: new Date().toISOString(),
     })
 
-    sharedState.mockBuckets.delete(name)
+    return { data: { message: "Successfully updated" }, error: null }
+  }
+
+  async emptyBucket(id: string): Promise<StorageResponse<{ message: string }>> {
+    const fault = await simulateRequest("storage.emptyBucket", 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    if (!getBucket(id)) return { data: null, error: bucketNotFound() }
+
+    sharedState.mockFileStorage.forEach((file, key) => {
+      if (file.bucket === id) sharedState.mockFileStorage.delete(key)
+    })
+
+    return { data: { message: "Successfully emptied" }, error: null }
+  }
+
+  async deleteBucket(id: string): Promise<StorageResponse<{ message: string }>> {
+    const fault = await simulateRequest("storage.deleteBucket", 200)
+    if (fault) return { data: null, error: toStorageError(fault) }
+
+    if (!getBucket(id)) return { data: null, error: bucketNotFound() }
+
+    const hasObjects = Array.from(sharedState.mockFileStorage.values()).some(
+      (file) => file.bucket === id,
+    )
+    if (hasObjects) {
+      return { data: null, error: storageError("The bucket you tried to delete is not empty", 409) }
+    }
+
+    sharedState.mockBuckets.delete(id)
 
     if (__DEV__) {
-      logger.debug(`[MockStorage] Deleted bucket`, { name })
+      logger.debug(`[MockStorage] Deleted bucket`, { name: id })
     }
 
-    return {
-      data: null,
-      error: null,
+    return { data: { message: "Successfully deleted" }, error: null }
+  }
+}
+
+function errorResponse(error: StorageApiError): Response {
+  return new Response(
+    JSON.stringify({ statusCode: error.statusCode, error: error.name, message: error.message }),
+    { status: error.status, headers: { "Content-Type": "application/json" } },
+  )
+}
+
+/**
+ * Resolve a public or signed URL from the mock like the storage API would: public URLs
+ * only work for public buckets, and signed URLs stop working once their token expires.
+ * Render URLs return the transformed image.
+ */
+export async function resolveStorageUrl(url: string): Promise<Response> {
+  const parsed = new URL(url)
+  const match = /\/storage\/v1\/(object|render\/image)\/(public|sign)\/([^/]+)\/(.+)$/.exec(
+    decodeURI(parsed.pathname),
+  )
+  if (!match) return errorResponse(storageError("Not found", 404))
+
+  const [, route, kind, bucketId, path] = match
+  const bucket = getBucket(bucketId)
+
+  if (kind === "public") {
+    if (!bucket?.public) return errorResponse(bucketNotFound())
+  } else {
+    const { error } = verifySignedToken(parsed.searchParams.get("token"), `${bucketId}/${path}`)
+    if (error) return errorResponse(error)
+  }
+
+  const file = getObject(bucketId, path)
+  if (!file) return errorResponse(objectNotFound())
+
+  const headers: Record<string, string> = {
+    "Content-Type": file.mimeType,
+    "Cache-Control": `max-age=${file.cacheControl ?? DEFAULT_CACHE_CONTROL}`,
+    "ETag": computeETag(file.data),
+  }
+  const download = parsed.searchParams.get("download")
+  if (download !== null) {
+    headers["Content-Disposition"] = `attachment; filename="${download || file.name}"`
+  }
+
+  if (route === "render/image") {
+    if (!canTransform(file.mimeType)) {
+      return errorResponse(storageError(`mime type ${file.mimeType} is not supported`, 415))
+    }
+    let image: TransformedImage
+    try {
+      image = transformImage(
+        base64Utils.decode(file.data),
+        file.mimeType,
+        transformFromQuery(parsed.searchParams),
+      )
+    } catch {
+      return errorResponse(storageError("Invalid source image", 400))
     }
+    headers["Content-Type"] = image.mimeType
+    return new Response(await blobFromBytes(image.bytes, image.mimeType), {
+      status: 200,
+      headers,
+    })
   }
+
+  return new Response(await bytesToBlob(file), { status: 200, headers })
+}
+
+let storageFetchInstalled = false
+
+/**
+ * Route fetches of mock storage URLs through `resolveStorageUrl`, so the public and signed
+ * URLs the mock hands out load in the app, and signed URLs fail once their token expires.
+ * Other requests go to the original fetch.
+ */
+export function installMockStorageFetch(): void {
+  if (storageFetchInstalled) return
+  storageFetchInstalled = true
+
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url
+    return url.startsWith(STORAGE_URL) ? resolveStorageUrl(url) : originalFetch(input, init)
+  }) as typeof fetch
 }
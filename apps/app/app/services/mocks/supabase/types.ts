@@ -4,8 +4,10 @@
  * Type definitions for the mock Supabase implementation
  */
 
+import type { MockRealtimeChannel } from "./realtime"
 import type { User, Session, AuthStateChangeCallback } from "../../../types/auth"
 import type { DatabaseResponse } from "../../../types/database"
+import type { MockRevenueCatState, MockSubscriptionSeed } from "../revenueCat"
 
 export type RealtimeEvent = "INSERT" | "UPDATE" | "DELETE" | "*"
 
@@ -17,23 +19,314 @@ export type DatabaseRecord = Record<string, unknown>
 /**
  * Filter value type for query operations
  */
-export type FilterValue = string | number | boolean | null | string[] | number[]
+export type FilterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | readonly (string | number | boolean | null)[]
+  | Record<string, unknown>
+
+/**
+ * Foreign key between two mock tables, used to resolve embedded selects
+ * such as `select("*, push_tokens(*)")`
+ */
+export interface ForeignKeyRelation {
+  /** Constraint name, usable as a `!hint` in select strings */
+  name: string
+  /** Table holding the foreign key column */
+  table: string
+  column: string
+  referencedTable: string
+  referencedColumn: string
+}
+
+/**
+ * Foreign keys mirroring supabase-schema.sql.
+ * push_tokens and user_preferences reference auth.users and are joined through profiles,
+ * whose id matches auth.users.id. subscriptions and credit_spends reference auth.users as in
+ * the SQL; the auth schema isn't exposed through the API, so like PostgREST the mock can't
+ * embed it.
+ */
+export const DEFAULT_FOREIGN_KEYS: ForeignKeyRelation[] = [
+  {
+    name: "push_tokens_user_id_fkey",
+    table: "push_tokens",
+    column: "user_id",
+    referencedTable: "profiles",
+    referencedColumn: "id",
+  },
+  {
+    name: "user_preferences_id_fkey",
+    table: "user_preferences",
+    column: "id",
+    referencedTable: "profiles",
+    referencedColumn: "id",
+  },
+  {
+    name: "subscriptions_user_id_fkey",
+    table: "subscriptions",
+    column: "user_id",
+    referencedTable: "auth.users",
+    referencedColumn: "id",
+  },
+  {
+    name: "credit_spends_user_id_fkey",
+    table: "credit_spends",
+    column: "user_id",
+    referencedTable: "auth.users",
+    referencedColumn: "id",
+  },
+]
+
+/**
+ * Commands a row-level security policy applies to (`CREATE POLICY ... FOR <command>`)
+ */
+export type PolicyCommand = "SELECT" | "INSERT" | "UPDATE" | "DELETE" | "ALL"
+
+export type PolicyRole = "anon" | "authenticated"
+
+/**
+ * Auth context available to policies, mirroring `auth.uid()` and `auth.role()`
+ */
+export interface PolicyAuthContext {
+  uid: string | null
+  role: PolicyRole
+}
+
+export type PolicyExpression = (row: DatabaseRecord, auth: PolicyAuthContext) => boolean
+
+/**
+ * Permissive row-level security policy for a mock table
+ */
+export interface RowLevelSecurityPolicy {
+  name: string
+  command: PolicyCommand
+  /** Roles the policy applies to; defaults to every role (`TO public`) */
+  roles?: PolicyRole[]
+  /** Rows visible to SELECT, UPDATE and DELETE */
+  using?: PolicyExpression
+  /** Rows allowed to be written by INSERT and UPDATE; UPDATE falls back to `using` */
+  withCheck?: PolicyExpression
+}
+
+const isOwnRow =
+  (column: string): PolicyExpression =>
+  (row, auth) =>
+    auth.uid !== null && row[column] === auth.uid
+
+/**
+ * Policies mirroring supabase-schema.sql. Tables without an entry have RLS disabled.
+ */
+export const DEFAULT_TABLE_POLICIES: Record<string, RowLevelSecurityPolicy[]> = {
+  profiles: [
+    { name: "Public profiles are viewable by everyone", command: "SELECT", using: () => true },
+    { name: "Users can update own profile", command: "UPDATE", using: isOwnRow("id") },
+    { name: "Users can insert own profile", command: "INSERT", withCheck: isOwnRow("id") },
+  ],
+  push_tokens: [
+    { name: "Users can view own push tokens", command: "SELECT", using: isOwnRow("user_id") },
+    {
+      name: "Users can insert own push tokens",
+      command: "INSERT",
+      withCheck: isOwnRow("user_id"),
+    },
+    { name: "Users can update own push tokens", command: "UPDATE", using: isOwnRow("user_id") },
+    { name: "Users can delete own push tokens", command: "DELETE", using: isOwnRow("user_id") },
+  ],
+  user_preferences: [
+    { name: "Users can view own preferences", command: "SELECT", using: isOwnRow("id") },
+    { name: "Users can update own preferences", command: "UPDATE", using: isOwnRow("id") },
+    { name: "Users can insert own preferences", command: "INSERT", withCheck: isOwnRow("id") },
+  ],
+  subscriptions: [
+    { name: "Users can view own subscriptions", command: "SELECT", using: isOwnRow("user_id") },
+  ],
+  credit_spends: [
+    { name: "Users can view own credit spends", command: "SELECT", using: isOwnRow("user_id") },
+    {
+      name: "Users can insert own credit spends",
+      command: "INSERT",
+      withCheck: isOwnRow("user_id"),
+    },
+  ],
+  waitlist: [
+    { name: "Anyone can add to waitlist", command: "INSERT", withCheck: () => true },
+    { name: "Only authorized users can view waitlist", command: "SELECT", using: () => false },
+  ],
+}
+
+/**
+ * Postgres column types understood by the mock schema validator
+ */
+export type ColumnType =
+  "uuid" | "text" | "boolean" | "integer" | "numeric" | "timestamptz" | "jsonb"
+
+/**
+ * Column default: a SQL function evaluated per row, or a literal value
+ */
+export type ColumnDefault =
+  "gen_random_uuid()" | "uuid_generate_v4()" | "now()" | { value: unknown }
+
+export interface ColumnSchema {
+  type: ColumnType
+  /** Columns are nullable unless declared NOT NULL (primary keys are always NOT NULL) */
+  nullable?: boolean
+  default?: ColumnDefault
+}
+
+export interface UniqueConstraint {
+  /** Constraint name reported in 23505 errors (e.g. `waitlist_email_key`) */
+  name: string
+  columns: string[]
+}
+
+/**
+ * Table descriptor used to validate mock writes
+ */
+export interface TableSchema {
+  columns: Record<string, ColumnSchema>
+  primaryKey: string[]
+  unique?: UniqueConstraint[]
+}
+
+const NOW: ColumnSchema = { type: "timestamptz", default: "now()" }
+const literal = (type: ColumnType, value: unknown): ColumnSchema => ({ type, default: { value } })
+
+/**
+ * Table schemas mirroring supabase-schema.sql. Tables without an entry accept any columns.
+ */
+export const DEFAULT_TABLE_SCHEMAS: Record<string, TableSchema> = {
+  profiles: {
+    columns: {
+      id: { type: "uuid" },
+      first_name: { type: "text" },
+      last_name: { type: "text" },
+      full_name: { type: "text" },
+      avatar_url: { type: "text" },
+      bio: { type: "text" },
+      dark_mode_enabled: literal("boolean", false),
+      notifications_enabled: literal("boolean", true),
+      push_notifications_enabled: literal("boolean", true),
+      email_notifications_enabled: literal("boolean", true),
+      preferences: literal("jsonb", {}),
+      has_completed_onboarding: literal("boolean", false),
+      onboarding_completed_at: { type: "timestamptz" },
+      created_at: NOW,
+      updated_at: NOW,
+    },
+    primaryKey: ["id"],
+  },
+  push_tokens: {
+    columns: {
+      id: { type: "uuid", default: "uuid_generate_v4()" },
+      user_id: { type: "uuid", nullable: false },
+      token: { type: "text", nullable: false },
+      device_id: { type: "text" },
+      device_name: { type: "text" },
+      platform: { type: "text" },
+      is_active: literal("boolean", true),
+      last_used_at: NOW,
+      created_at: NOW,
+      updated_at: NOW,
+    },
+    primaryKey: ["id"],
+    unique: [{ name: "push_tokens_user_id_token_key", columns: ["user_id", "token"] }],
+  },
+  user_preferences: {
+    columns: {
+      id: { type: "uuid" },
+      language: literal("text", "en"),
+      timezone: literal("text", "UTC"),
+      profile_visibility: literal("text", "public"),
+      show_online_status: literal("boolean", true),
+      marketing_emails: literal("boolean", true),
+      product_updates: literal("boolean", true),
+      created_at: NOW,
+      updated_at: NOW,
+    },
+    primaryKey: ["id"],
+  },
+  subscriptions: {
+    columns: {
+      id: { type: "uuid", default: "uuid_generate_v4()" },
+      user_id: { type: "uuid", nullable: false },
+      product_id: { type: "text", nullable: false },
+      entitlements: { type: "jsonb", nullable: false, default: { value: [] } },
+      status: { type: "text", nullable: false },
+      will_renew: literal("boolean", false),
+      store: { type: "text" },
+      environment: { type: "text" },
+      expires_at: { type: "timestamptz" },
+      grace_period_expires_at: { type: "timestamptz" },
+      billing_issue_detected_at: { type: "timestamptz" },
+      last_event_id: { type: "text" },
+      last_event_type: { type: "text" },
+      last_event_at: { type: "timestamptz" },
+      created_at: NOW,
+      updated_at: NOW,
+    },
+    primaryKey: ["id"],
+    unique: [{ name: "subscriptions_user_id_product_id_key", columns: ["user_id", "product_id"] }],
+  },
+  credit_spends: {
+    columns: {
+      id: { type: "uuid", default: "uuid_generate_v4()" },
+      user_id: { type: "uuid", nullable: false },
+      transaction_id: { type: "text", nullable: false },
+      amount: { type: "integer", nullable: false },
+      created_at: NOW,
+    },
+    primaryKey: ["id"],
+  },
+  waitlist: {
+    columns: {
+      id: { type: "uuid", default: "uuid_generate_v4()" },
+      email: { type: "text", nullable: false },
+      source: literal("text", "marketing_page"),
+      user_agent: { type: "text" },
+      ip_address: { type: "text" },
+      email_sent: literal("boolean", false),
+      email_sent_at: { type: "timestamptz" },
+      created_at: NOW,
+    },
+    primaryKey: ["id"],
+    unique: [{ name: "waitlist_email_key", columns: ["email"] }],
+  },
+}
 
 /**
  * Database filter definition
  */
 export interface DatabaseFilter {
   column: string
+  /** PostgREST operator, e.g. "eq", "cs" or "fts(english)" */
   operator: string
   value: FilterValue
+  /** Set by `.not()` or a `not.` prefix inside `.or()` */
+  negate?: boolean
 }
 
+/**
+ * Logical group of conditions built by `.or()` and nested `and(...)`/`or(...)`
+ */
+export interface DatabaseFilterGroup {
+  operator: "and" | "or"
+  filters: DatabaseCondition[]
+  negate?: boolean
+  /** Embedded resource the group applies to (`.or(filters, { referencedTable })`) */
+  referencedTable?: string
+}
+
+export type DatabaseCondition = DatabaseFilter | DatabaseFilterGroup
+
 export type RealtimeCallback = (payload: {
   eventType: RealtimeEvent
   new: DatabaseRecord | null
   old: DatabaseRecord | null
   schema: string
   table: string
+  commit_timestamp: string
 }) => void
 
 export interface RealtimeSubscription {
@@ -43,6 +336,39 @@ export interface RealtimeSubscription {
   filter?: string
 }
 
+/**
+ * Channel options (`client.channel(name, { config })`)
+ */
+export interface RealtimeChannelOptions {
+  config?: {
+    /** Deliver broadcasts back to the sender (`self`, default false) */
+    broadcast?: { self?: boolean; ack?: boolean }
+    /** Key presences are grouped under (defaults to a random id per channel) */
+    presence?: { key?: string }
+  }
+}
+
+export interface RealtimeBroadcastMessage {
+  type: "broadcast"
+  event: string
+  payload: Record<string, unknown>
+}
+
+export type PresenceEvent = "sync" | "join" | "leave"
+
+/**
+ * Tracked presence payload, tagged with a unique ref like Phoenix presence metas
+ */
+export type PresenceEntry = Record<string, unknown> & { presence_ref: string }
+
+export interface PresenceChangePayload {
+  event: PresenceEvent
+  key?: string
+  currentPresences?: PresenceEntry[]
+  newPresences?: PresenceEntry[]
+  leftPresences?: PresenceEntry[]
+}
+
 export interface StorageFile {
   id: string
   name: string
@@ -53,6 +379,46 @@ export interface StorageFile {
   data: string // Base64 encoded data
   created_at: string
   updated_at: string
+  /** Cache-Control max-age in seconds, "3600" when not given */
+  cacheControl?: string
+  /** Custom metadata passed with `upload(..., { metadata })` */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Storage bucket, shaped like a row of storage.buckets
+ */
+export interface StorageBucket {
+  id: string
+  name: string
+  owner: string
+  public: boolean
+  /** Maximum object size in bytes, or null for no bucket limit */
+  file_size_limit: number | null
+  /** Allowed MIME types such as "image/png" or "image/*", or null to allow any */
+  allowed_mime_types: string[] | null
+  created_at: string
+  updated_at: string
+}
+
+const bucket = (name: string, isPublic: boolean): StorageBucket => ({
+  id: name,
+  name,
+  owner: "",
+  public: isPublic,
+  file_size_limit: null,
+  allowed_mime_types: null,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+})
+
+/**
+ * Buckets that exist in a fresh mock, matching the setup in vibe/BACKEND.md
+ */
+export const DEFAULT_STORAGE_BUCKETS: Record<string, StorageBucket> = {
+  avatars: bucket("avatars", true),
+  uploads: bucket("uploads", false),
+  public: bucket("public", true),
 }
 
 export interface MockUserData {
@@ -61,6 +427,50 @@ export interface MockUserData {
   user: User
 }
 
+/**
+ * User account declared in a fixture. Give an id when rows or files need to reference it.
+ */
+export interface MockFixtureUser {
+  email: string
+  id?: string
+  /** Defaults to "password" */
+  password?: string
+  /** Defaults to true so fixture users can sign in straight away */
+  emailConfirmed?: boolean
+  user_metadata?: Record<string, unknown>
+  app_metadata?: Record<string, unknown>
+}
+
+/**
+ * Mock state loaded in one call by `mockSupabaseHelpers.loadFixture`. Plain data, so
+ * fixtures can live in JSON files or TS modules.
+ */
+export interface MockFixture {
+  users?: MockFixtureUser[]
+  /** Email of the user to sign in; omit to start signed out */
+  session?: string
+  /** Rows per table. Tables with a schema get column defaults and constraint checks. */
+  tables?: Record<string, DatabaseRecord[]>
+  files?: Array<{ bucket: string; path: string; data: string; mimeType?: string }>
+  /** Mock RevenueCat subscriptions. Without them the user is on the free tier. */
+  revenueCat?: { subscriptions?: MockSubscriptionSeed[] }
+}
+
+/**
+ * Saved copy of the users, session, tables, files and mock RevenueCat state, kept in
+ * persisted storage by name
+ */
+export interface MockSnapshot {
+  name: string
+  created_at: string
+  users: Array<[string, MockUserData]>
+  session: Session | null
+  database: Record<string, Record<string, DatabaseRecord>>
+  files: Array<[string, StorageFile]>
+  /** Missing from snapshots saved before RevenueCat state was included */
+  revenueCat?: MockRevenueCatState
+}
+
 export interface PendingOAuthState {
   provider: string
   state: string
@@ -68,12 +478,10 @@ export interface PendingOAuthState {
   onComplete?: (session: Session | null, error: Error | null) => void
 }
 
-export interface SimulatedErrors {
-  auth?: { signIn?: Error; signUp?: Error; signOut?: Error }
-  database?: {
-    [table: string]: { select?: Error; insert?: Error; update?: Error; delete?: Error }
-  }
-}
+/**
+ * Edge function handler, the function a `supabase/functions/<name>/index.ts` passes to `serve()`
+ */
+export type EdgeFunctionHandler = (request: Request) => Response | Promise<Response>
 
 /**
  * RPC handler function type
@@ -88,9 +496,17 @@ export const sharedState = {
   authStateListeners: [] as AuthStateChangeCallback[],
   isInitialized: false,
   realtimeSubscriptions: new Map<string, RealtimeSubscription[]>(),
+  /** Subscribed channels by name, shared by every mock client in the process */
+  realtimeChannels: new Map<string, Set<MockRealtimeChannel>>(),
   mockRpcHandlers: new Map<string, RpcHandler>(),
+  edgeFunctions: new Map<string, EdgeFunctionHandler>(),
   mockFileStorage: new Map<string, StorageFile>(),
-  mockBuckets: new Set<string>(["avatars", "uploads", "public"]),
-  simulatedErrors: {} as SimulatedErrors,
+  mockBuckets: new Map<string, StorageBucket>(Object.entries(DEFAULT_STORAGE_BUCKETS)),
   pendingOAuthState: null as PendingOAuthState | null,
+  foreignKeys: [...DEFAULT_FOREIGN_KEYS] as ForeignKeyRelation[],
+  rowLevelSecurityEnabled: true,
+  /** Whether the bundled revenuecat-webhook applies SANDBOX events (REVENUECAT_ALLOW_SANDBOX) */
+  revenueCatWebhookAllowSandbox: true,
+  tablePolicies: new Map<string, RowLevelSecurityPolicy[]>(Object.entries(DEFAULT_TABLE_POLICIES)),
+  tableSchemas: new Map<string, TableSchema>(Object.entries(DEFAULT_TABLE_SCHEMAS)),
 }
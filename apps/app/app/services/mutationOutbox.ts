@@ -0,0 +1,510 @@
+/**
+ * Mutation Outbox
+ *
+ * Durable queue for Supabase writes made while offline. Writes go straight to Supabase
+ * when the device is online; otherwise (or when the request never reaches the server)
+ * they are stored on disk and replayed in order once `networkMonitor` reports a
+ * connection again.
+ *
+ * - Each write carries an idempotency key. A newer write with the same key replaces the
+ *   pending one, so toggling a setting five times offline replays a single upsert
+ * - Inserted rows get their `id` when the write is made and keep it through replays, so
+ *   the server rejects a replay of an insert that already landed (23505) instead of
+ *   adding a second row
+ * - Replays go through `retryWithBackoff`; a write that still can't reach the server
+ *   stays pending and blocks the ones behind it, keeping the original order. It is
+ *   tried again after `replayIntervalMs`, when the app comes to the foreground and on
+ *   reconnect
+ * - `rpc` writes call a Postgres function instead, for writes that must merge with the
+ *   server's copy rather than replace it
+ * - When Supabase rejects a replayed write, the conflict policy decides whether to drop
+ *   it, keep it as failed, or replace it with another write
+ */
+
+import { useEffect, useState } from "react"
+import { AppState, type AppStateStatus } from "react-native"
+
+import { networkMonitor } from "./NetworkMonitor"
+import { supabase } from "./supabase"
+import type { SupabaseDatabase } from "../types/supabase"
+import { retryWithBackoff } from "../utils/ErrorHandler"
+import { logger } from "../utils/Logger"
+import * as storage from "../utils/storage"
+import { generateUuid } from "../utils/uuid"
+
+const OUTBOX_STORAGE_KEY = "shipnative.mutationOutbox"
+
+export type OutboxTableName = keyof SupabaseDatabase["public"]["Tables"]
+export type OutboxOperation = "insert" | "update" | "upsert" | "delete" | "rpc"
+export type OutboxRow = Record<string, unknown>
+export type OutboxMatch = Record<string, string | number | boolean>
+
+export interface OutboxMutation {
+  /** Idempotency key */
+  id: string
+  /** Table written by insert, update, upsert and delete */
+  table?: OutboxTableName
+  operation: OutboxOperation
+  /** Postgres function called by an `rpc` write */
+  fn?: string
+  /** Rows to write, or the function's arguments for `rpc` */
+  values?: OutboxRow | OutboxRow[]
+  /** Equality filters for update and delete */
+  match?: OutboxMatch
+  onConflict?: string
+  createdAt: number
+  attempts: number
+  lastError?: string
+}
+
+export interface OutboxWriteError {
+  code: string
+  message: string
+}
+
+export interface OutboxWriteResult {
+  /** True when the write was stored for a later replay instead of sent */
+  queued: boolean
+  /** Set when Supabase rejected a write that was sent right away */
+  error?: OutboxWriteError
+}
+
+export interface OutboxWriteOptions {
+  /** Key for this write; defaults to a new UUID. Reuse it to replace a pending write */
+  idempotencyKey?: string
+}
+
+export interface OutboxStatus {
+  pending: number
+  failed: number
+  isReplaying: boolean
+}
+
+/**
+ * What to do with a replayed write that Supabase rejected: drop it, keep it in the
+ * failed list for the user to retry or discard, or send a replacement write instead
+ */
+export type ConflictResolution = "discard" | "fail" | OutboxMutation
+
+export type ConflictPolicy = (
+  mutation: OutboxMutation,
+  error: OutboxWriteError,
+) => ConflictResolution
+
+export interface MutationOutboxOptions {
+  maxRetries: number
+  retryDelayMs: number
+  /** How long a write that can't reach the server waits before the next replay */
+  replayIntervalMs: number
+}
+
+const DEFAULT_OPTIONS: MutationOutboxOptions = {
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  replayIntervalMs: 30 * 1000,
+}
+
+/**
+ * Default conflict policy. An insert that hits a unique violation on replay most likely
+ * landed before the connection dropped (its rows keep their ids), so it is dropped;
+ * anything else is kept as failed.
+ */
+export const defaultConflictPolicy: ConflictPolicy = (mutation, error) =>
+  mutation.operation === "insert" && error.code === "23505" ? "discard" : "fail"
+
+interface PersistedOutbox {
+  pending: OutboxMutation[]
+  failed: OutboxMutation[]
+}
+
+type WriteResponse = PromiseLike<{ error: { code?: string; message: string } | null }>
+
+interface FilterableWrite extends WriteResponse {
+  eq(column: string, value: unknown): FilterableWrite
+}
+
+// The generated table types don't allow a table name picked at runtime
+interface OutboxTable {
+  insert(values: OutboxRow | OutboxRow[]): WriteResponse
+  upsert(values: OutboxRow | OutboxRow[], options?: { onConflict?: string }): WriteResponse
+  update(values: OutboxRow): FilterableWrite
+  delete(): FilterableWrite
+}
+
+// supabase.rpc with a function name picked at runtime
+interface OutboxRpcClient {
+  rpc(fn: string, args: OutboxRow): WriteResponse
+}
+
+// Thrown when a write never got a response from Supabase, so retryWithBackoff retries it
+class OutboxTransportError extends Error {
+  name = "OutboxTransportError"
+}
+
+export class MutationOutbox {
+  private options: MutationOutboxOptions
+  private pending: OutboxMutation[]
+  private failed: OutboxMutation[]
+  private conflictPolicy: ConflictPolicy = defaultConflictPolicy
+  private replaying: Promise<void> | null = null
+  private started = false
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private listeners: Set<(status: OutboxStatus) => void> = new Set()
+
+  constructor(options: Partial<MutationOutboxOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+    const persisted = storage.load<PersistedOutbox>(OUTBOX_STORAGE_KEY)
+    this.pending = persisted?.pending ?? []
+    this.failed = persisted?.failed ?? []
+  }
+
+  /**
+   * Insert rows. Rows without an `id` get one now, so a replay can't insert them twice.
+   */
+  insert(
+    table: OutboxTableName,
+    values: OutboxRow | OutboxRow[],
+    options?: OutboxWriteOptions,
+  ): Promise<OutboxWriteResult> {
+    const withId = (row: OutboxRow) => ("id" in row ? row : { id: generateUuid(), ...row })
+    return this.write(
+      {
+        table,
+        operation: "insert",
+        values: Array.isArray(values) ? values.map(withId) : withId(values),
+      },
+      options,
+    )
+  }
+
+  upsert(
+    table: OutboxTableName,
+    values: OutboxRow | OutboxRow[],
+    options?: OutboxWriteOptions & { onConflict?: string },
+  ): Promise<OutboxWriteResult> {
+    return this.write(
+      { table, operation: "upsert", values, onConflict: options?.onConflict },
+      options,
+    )
+  }
+
+  update(
+    table: OutboxTableName,
+    values: OutboxRow,
+    match: OutboxMatch,
+    options?: OutboxWriteOptions,
+  ): Promise<OutboxWriteResult> {
+    return this.write({ table, operation: "update", values, match }, options)
+  }
+
+  delete(
+    table: OutboxTableName,
+    match: OutboxMatch,
+    options?: OutboxWriteOptions,
+  ): Promise<OutboxWriteResult> {
+    return this.write({ table, operation: "delete", match }, options)
+  }
+
+  /**
+   * Call a Postgres function that writes, e.g. one that merges values into a row on the
+   * server. The function must be safe to call again with the same arguments.
+   */
+  rpc(fn: string, args: OutboxRow, options?: OutboxWriteOptions): Promise<OutboxWriteResult> {
+    return this.write({ operation: "rpc", fn, values: args }, options)
+  }
+
+  /**
+   * Replace the conflict policy, or pass null to restore the default
+   */
+  setConflictPolicy(policy: ConflictPolicy | null): void {
+    this.conflictPolicy = policy ?? defaultConflictPolicy
+  }
+
+  /**
+   * Send pending writes in order. Stops at the first write that can't reach the server.
+   */
+  replay(): Promise<void> {
+    if (this.replaying) return this.replaying
+    if (this.pending.length === 0 || !this.isOnline()) return Promise.resolve()
+
+    this.replaying = this.replayPending().finally(() => {
+      this.replaying = null
+      this.notify()
+    })
+    this.notify()
+    return this.replaying
+  }
+
+  /**
+   * Replay on reconnect, when the app comes to the foreground and, while a write can't
+   * reach the server, every `replayIntervalMs`. Returns a function that stops the triggers.
+   */
+  start(): () => void {
+    this.started = true
+
+    let wasOnline = networkMonitor.getState()?.isConnected ?? true
+    const removeNetworkListener = networkMonitor.addListener((state) => {
+      if (state.isConnected && !wasOnline) void this.replay()
+      wasOnline = state.isConnected
+    })
+
+    const appStateSubscription = AppState.addEventListener("change", (status: AppStateStatus) => {
+      if (status === "active") void this.replay()
+    })
+
+    void this.replay()
+
+    return () => {
+      this.started = false
+      removeNetworkListener()
+      appStateSubscription.remove()
+      if (this.retryTimer) clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+  }
+
+  /**
+   * Move failed writes back into the queue, ahead of newer writes, and replay
+   */
+  retryFailed(): Promise<void> {
+    const retried = this.failed.map((mutation) => ({ ...mutation, lastError: undefined }))
+    this.failed = []
+    this.pending = [...retried, ...this.pending].sort((a, b) => a.createdAt - b.createdAt)
+    this.persist()
+    return this.replay()
+  }
+
+  discardFailed(): void {
+    this.failed = []
+    this.persist()
+  }
+
+  /**
+   * Drop every pending and failed write, e.g. when the user signs out
+   */
+  clear(): void {
+    this.pending = []
+    this.failed = []
+    this.persist()
+  }
+
+  getStatus(): OutboxStatus {
+    return {
+      pending: this.pending.length,
+      failed: this.failed.length,
+      isReplaying: this.replaying !== null,
+    }
+  }
+
+  getPending(): OutboxMutation[] {
+    return [...this.pending]
+  }
+
+  getFailed(): OutboxMutation[] {
+    return [...this.failed]
+  }
+
+  /**
+   * Listen for status changes. The listener is called right away with the current status.
+   */
+  addListener(listener: (status: OutboxStatus) => void): () => void {
+    this.listeners.add(listener)
+    listener(this.getStatus())
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async write(
+    write: Pick<OutboxMutation, "table" | "operation" | "fn" | "values" | "match" | "onConflict">,
+    options?: OutboxWriteOptions,
+  ): Promise<OutboxWriteResult> {
+    const mutation: OutboxMutation = {
+      ...write,
+      id: options?.idempotencyKey ?? generateUuid(),
+      createdAt: Date.now(),
+      attempts: 0,
+    }
+
+    // Writes queue up behind pending ones so they still reach the server in order
+    if (!this.isOnline() || this.pending.length > 0) {
+      this.enqueue(mutation)
+      void this.replay()
+      return { queued: true }
+    }
+
+    try {
+      const error = await this.execute(mutation)
+      return error ? { queued: false, error } : { queued: false }
+    } catch (error) {
+      if (!(error instanceof OutboxTransportError)) throw error
+      this.enqueue({ ...mutation, attempts: 1, lastError: error.message })
+      this.scheduleReplay()
+      return { queued: true }
+    }
+  }
+
+  private enqueue(mutation: OutboxMutation): void {
+    this.pending = [...this.pending.filter((existing) => existing.id !== mutation.id), mutation]
+    this.persist()
+
+    if (__DEV__) {
+      logger.debug("Queued Supabase write for replay", {
+        table: mutation.table,
+        fn: mutation.fn,
+        operation: mutation.operation,
+        pending: this.pending.length,
+      })
+    }
+  }
+
+  private async replayPending(): Promise<void> {
+    while (this.pending.length > 0 && this.isOnline()) {
+      const mutation = this.pending[0]
+      // Wrapped so a successful write still counts as data for retryWithBackoff
+      const attempt = await retryWithBackoff(
+        async () => ({ rejection: await this.execute(mutation) }),
+        this.options.maxRetries,
+        this.options.retryDelayMs,
+        { context: "mutation_outbox", table: mutation.table, operation: mutation.operation },
+      )
+
+      if (!attempt.data) {
+        this.updateHead({
+          ...mutation,
+          attempts: mutation.attempts + 1,
+          lastError: attempt.error?.message,
+        })
+        this.scheduleReplay()
+        return
+      }
+
+      const { rejection } = attempt.data
+      if (rejection) {
+        const resolution = this.conflictPolicy(mutation, rejection)
+        if (typeof resolution === "object") {
+          // The replacement takes the original's place and is sent on the next pass
+          this.updateHead({ ...resolution, attempts: 0, lastError: undefined })
+          continue
+        }
+        if (resolution === "fail") {
+          this.failed = [
+            ...this.failed,
+            { ...mutation, attempts: mutation.attempts + 1, lastError: rejection.message },
+          ]
+          logger.warn("Supabase write rejected during replay", {
+            table: mutation.table,
+            operation: mutation.operation,
+            code: rejection.code,
+          })
+        }
+      }
+
+      this.pending = this.pending.slice(1)
+      this.persist()
+    }
+  }
+
+  /**
+   * Send a write. Resolves with Supabase's error when it rejects the write and throws
+   * OutboxTransportError when there was no response.
+   */
+  private async execute(mutation: OutboxMutation): Promise<OutboxWriteError | null> {
+    const from = () => supabase.from(mutation.table as OutboxTableName) as unknown as OutboxTable
+    const match = Object.entries(mutation.match ?? {})
+    const values = mutation.values ?? {}
+
+    let request: WriteResponse
+    switch (mutation.operation) {
+      case "insert":
+        request = from().insert(values)
+        break
+      case "upsert":
+        request = from().upsert(
+          values,
+          mutation.onConflict ? { onConflict: mutation.onConflict } : undefined,
+        )
+        break
+      case "update":
+        request = match.reduce(
+          (query, [column, value]) => query.eq(column, value),
+          from().update(values as OutboxRow),
+        )
+        break
+      case "delete":
+        request = match.reduce((query, [column, value]) => query.eq(column, value), from().delete())
+        break
+      case "rpc":
+        request = (supabase as unknown as OutboxRpcClient).rpc(
+          mutation.fn as string,
+          values as OutboxRow,
+        )
+        break
+    }
+
+    let response: Awaited<WriteResponse>
+    try {
+      response = await request
+    } catch (error) {
+      throw new OutboxTransportError((error as Error).message)
+    }
+
+    const { error } = response
+    if (!error) return null
+    // PostgREST errors carry a code; fetch failures come back without one
+    if (!error.code) throw new OutboxTransportError(error.message)
+    return { code: error.code, message: error.message }
+  }
+
+  /**
+   * Try again later when the head write couldn't reach the server, without waiting for
+   * the connection to drop and come back
+   */
+  private scheduleReplay(): void {
+    if (!this.started || this.retryTimer) return
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      void this.replay()
+    }, this.options.replayIntervalMs)
+  }
+
+  private updateHead(mutation: OutboxMutation): void {
+    this.pending = [mutation, ...this.pending.slice(1)]
+    this.persist()
+  }
+
+  private isOnline(): boolean {
+    // Unknown until the monitor has initialized; try rather than hold writes back
+    return networkMonitor.getState()?.isConnected ?? true
+  }
+
+  private persist(): void {
+    storage.save(OUTBOX_STORAGE_KEY, { pending: this.pending, failed: this.failed })
+    this.notify()
+  }
+
+  private notify(): void {
+    const status = this.getStatus()
+    this.listeners.forEach((listener) => listener(status))
+  }
+}
+
+export const mutationOutbox = new MutationOutbox()
+
+/**
+ * React hook for outbox status, e.g. to show "3 changes waiting to sync"
+ */
+export function useOutboxStatus(): OutboxStatus {
+  const [status, setStatus] = useState<OutboxStatus>(() => mutationOutbox.getStatus())
+
+  useEffect(() => mutationOutbox.addListener(setStatus), [])
+
+  return status
+}
+
+/**
+ * React hook for the number of writes waiting to sync
+ */
+export function usePendingMutationCount(): number {
+  return useOutboxStatus().pending
+}
@@ -11,6 +11,7 @@ import { env } from "../config/env"
 import type {
   AnalyticsService,
   AnalyticsConfig,
+  CaptureOptions,
   EventProperties,
   UserProperties,
   ScreenProperties,
@@ -21,8 +22,8 @@ import { logger } from "../utils/Logger"
 import { MockPostHog } from "./mocks/posthog"
 
 type PostHogClient = {
-  capture: (event: string, properties?: EventProperties) => void
-  screen?: (name: string, properties?: ScreenProperties) => void
+  capture: (event: string, properties?: EventProperties, options?: CaptureOptions) => void
+  screen?: (name: string, properties?: ScreenProperties, options?: CaptureOptions) => void
   identify: (userId: string, properties?: UserProperties) => void
   reset: () => void
   setPersonProperties: (properties: UserProperties) => void
@@ -106,6 +107,15 @@ async function loadPostHogWebSdk(): Promise<PostHogWebModule | null> {
   return loadPostHogWebPromise
 }
 
+// posthog-js assigns its own event UUID, so on web the queue's id travels as a property
+function withEventId(properties: EventProperties | undefined, options?: CaptureOptions) {
+  return options?.uuid ? { ...properties, event_id: options.uuid } : properties
+}
+
+function webCaptureOptions(options?: CaptureOptions): CaptureOptions | undefined {
+  return options?.timestamp ? { timestamp: options.timestamp } : undefined
+}
+
 const apiKey = env.posthogApiKey || ""
 const host = env.posthogHost || "https://app.posthog.com"
 
@@ -202,14 +212,18 @@ class PostHogService implements AnalyticsService {
     }
   }
 
-  track(event: string, properties?: EventProperties): void {
+  isReady(): boolean {
+    return this.client !== null
+  }
+
+  track(event: string, properties?: EventProperties, options?: CaptureOptions): void {
     if (!this.client) return
 
     try {
       if (Platform.OS === "web") {
-        this.client.capture(event, properties)
+        this.client.capture(event, withEventId(properties, options), webCaptureOptions(options))
       } else {
-        this.client.capture(event, properties)
+        this.client.capture(event, properties, options)
       }
 
       if (__DEV__) {
@@ -220,17 +234,18 @@ class PostHogService implements AnalyticsService {
     }
   }
 
-  screen(name: string, properties?: ScreenProperties): void {
+  screen(name: string, properties?: ScreenProperties, options?: CaptureOptions): void {
     if (!this.client) return
 
     try {
       if (Platform.OS === "web") {
-        this.client.capture("$pageview", {
-          $current_url: name,
-          ...properties,
-        })
+        this.client.capture(
+          "$pageview",
+          withEventId({ $current_url: name, ...properties }, options),
+          webCaptureOptions(options),
+        )
       } else {
-        this.client.screen?.(name, properties)
+        this.client.screen?.(name, properties, options)
       }
 
       if (__DEV__) {
@@ -359,7 +374,8 @@ class PostHogService implements AnalyticsService {
   }
 
   async flush(): Promise<void> {
-    if (!this.client) return
+    // Nothing was captured without a client, so don't let the queue count it as sent
+    if (!this.client) throw new Error("PostHog is not initialized")
 
     try {
       await this.client.flush?.()
@@ -369,6 +385,8 @@ class PostHogService implements AnalyticsService {
       }
     } catch (error) {
       logger.error("PostHog flush error", {}, error as Error)
+      // Rethrow so the analytics queue holds further batches until the next flush
+      throw error
     }
   }
 
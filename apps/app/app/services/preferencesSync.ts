@@ -1,45 +1,202 @@
 /**
  * Preferences Sync Service
  *
- * Handles syncing user preferences (theme, notifications) between
- * local storage and the Supabase profiles table.
+ * Syncs user preferences (theme, notifications, language, haptics, ...) between devices
+ * through the `preferences` column of the Supabase profiles table.
+ *
+ * - Every preference carries the time it was set (see utils/preferences). Fetched and
+ *   local copies are merged field by field, and the newer value wins
+ * - While a user is signed in, changes to their profile row arrive over Realtime and are
+ *   merged and applied right away. Local changes are written back, and so are merge
+ *   results where this device had the newer value
+ * - Writes merge into the server copy with the `merge_user_preferences` function, which
+ *   also keeps the boolean profile columns in step for server-side readers. A column
+ *   changed on its own (e.g. by an older app version) counts as a change at `updated_at`
  *
  * Also handles push token synchronization to the push_tokens table.
  *
- * Uses fire-and-forget pattern for updates to avoid blocking UI.
+ * Uses fire-and-forget pattern for updates to avoid blocking UI. Writes go through the
+ * mutation outbox, so changes made offline are replayed when the connection comes back.
  */
 
 import { Platform } from "react-native"
 import * as Device from "expo-device"
 import { UnistylesRuntime } from "react-native-unistyles"
 
+import { mutationOutbox, type OutboxWriteResult } from "./mutationOutbox"
 import { supabase, isUsingMockSupabase } from "./supabase"
+import { applySyncedLanguage, type SupportedLanguage } from "../i18n/languageSwitcher"
 import { useNotificationStore } from "../stores/notificationStore"
+import {
+  PreferenceCatalog,
+  type PreferenceKey,
+  type PreferenceValue,
+  type VersionedPreference,
+  type VersionedPreferences,
+} from "../types/preferences"
 import type { SupabaseDatabase, UserPreferences } from "../types/supabase"
 import { logger } from "../utils/Logger"
+import {
+  addPreferenceListener,
+  getVersionedPreferences,
+  saveSyncedPreferences,
+  setPreference,
+} from "../utils/preferences"
 import { storage } from "../utils/storage"
 
-type _ProfilesUpdate = SupabaseDatabase["public"]["Tables"]["profiles"]["Update"]
+type ProfileRow = SupabaseDatabase["public"]["Tables"]["profiles"]["Row"]
 type PushTokenInsert = SupabaseDatabase["public"]["Tables"]["push_tokens"]["Insert"]
 
 // Storage keys (must match the keys used in theme context and notification store)
 const THEME_STORAGE_KEY = "shipnative.themeScheme"
 
 /**
- * Fetch user preferences from the database
- * Returns null if using mock Supabase or if fetch fails
+ * Preferences that also have a column of their own on the profiles table
  */
-export async function fetchUserPreferences(userId: string): Promise<UserPreferences | null> {
-  if (isUsingMockSupabase) {
-    return null
+const PROFILE_COLUMN_PREFERENCES = (Object.keys(PreferenceCatalog) as PreferenceKey[]).filter(
+  (key) => "column" in PreferenceCatalog[key],
+) as (keyof UserPreferences)[]
+
+/**
+ * The user whose profile row this device is subscribed to
+ */
+let activeSync: { userId: string; stop: () => void } | null = null
+
+/**
+ * Log the outcome of a fire-and-forget outbox write
+ */
+function logWriteResult(
+  write: Promise<OutboxWriteResult>,
+  description: string,
+  onSuccess?: () => void,
+): void {
+  write
+    .then(({ queued, error }) => {
+      if (error) {
+        logger.debug(`Failed to sync ${description}`, { error: error.message })
+      } else if (queued) {
+        logger.debug(`Queued ${description} to sync when back online`)
+      } else {
+        onSuccess?.()
+      }
+    })
+    .catch((err: unknown) => {
+      logger.debug(`Error syncing ${description}`, { error: err })
+    })
+}
+
+/**
+ * Read the versioned preferences of a profile row, including values that were written
+ * to a preference column without the `preferences` column
+ */
+function readProfilePreferences(row: Partial<ProfileRow>): VersionedPreferences {
+  const preferences: Record<string, VersionedPreference> = { ...row.preferences }
+
+  for (const key of PROFILE_COLUMN_PREFERENCES) {
+    const value = row[key]
+    if (value !== null && value !== undefined && preferences[key]?.value !== value) {
+      preferences[key] = { value, updated_at: row.updated_at ?? new Date(0).toISOString() }
+    }
+  }
+
+  return preferences as VersionedPreferences
+}
+
+/**
+ * Merge local and server preferences field by field; the newer value wins and the
+ * server wins ties. Keys this app version doesn't know are kept, so writing the merge
+ * back doesn't drop preferences set by a newer version.
+ */
+export function mergePreferences(
+  local: VersionedPreferences,
+  remote: VersionedPreferences,
+): { merged: VersionedPreferences; localIsNewer: boolean } {
+  const merged: Record<string, VersionedPreference> = { ...remote }
+  let localIsNewer = false
+
+  for (const [key, entry] of Object.entries(local) as [string, VersionedPreference][]) {
+    const remoteEntry = merged[key]
+    if (!remoteEntry || Date.parse(entry.updated_at) > Date.parse(remoteEntry.updated_at)) {
+      merged[key] = entry
+      localIsNewer = true
+    }
+  }
+
+  return { merged: merged as VersionedPreferences, localIsNewer }
+}
+
+/**
+ * Apply a preference that changed on another device to this one
+ */
+function applyPreference(key: PreferenceKey, value: unknown): void {
+  switch (key) {
+    case "dark_mode_enabled": {
+      const themeValue = value ? "dark" : "light"
+      storage.set(THEME_STORAGE_KEY, themeValue)
+      // Update Unistyles runtime
+      UnistylesRuntime.setAdaptiveThemes(false)
+      UnistylesRuntime.setTheme(themeValue)
+      break
+    }
+    case "push_notifications_enabled":
+      if (useNotificationStore.getState().isPushEnabled !== value) {
+        useNotificationStore.setState({ isPushEnabled: value as boolean })
+      }
+      break
+    case "language":
+      // No reload: a direction change (e.g. to Arabic) takes effect on the next launch
+      void applySyncedLanguage(value as SupportedLanguage)
+      break
+    default:
+      // Read where they are used, through getPreference or usePreference
+      break
   }
 
+  logger.debug("Applied synced preference", { key, value })
+}
+
+/**
+ * Merge this device's preferences into the user's profile (fire-and-forget). The server
+ * keeps the newer value of each field (`merge_user_preferences`), so a write replayed
+ * after being offline doesn't undo changes made on another device in the meantime.
+ */
+function pushPreferences(userId: string): void {
+  // Offline changes collapse into one write of the latest preferences
+  logWriteResult(
+    mutationOutbox.rpc(
+      "merge_user_preferences",
+      { patch: getVersionedPreferences() },
+      { idempotencyKey: `profiles:${userId}:preferences` },
+    ),
+    "preferences",
+    () => logger.debug("Synced preferences to database"),
+  )
+}
+
+/**
+ * Merge server preferences into local ones, apply what changed and write back the
+ * values this device had newer
+ */
+function mergeRemotePreferences(userId: string, remote: VersionedPreferences): void {
+  const { merged, localIsNewer } = mergePreferences(getVersionedPreferences(), remote)
+  for (const key of saveSyncedPreferences(merged)) {
+    applyPreference(key, merged[key]?.value)
+  }
+
+  if (localIsNewer) {
+    pushPreferences(userId)
+  }
+}
+
+/**
+ * Fetch user preferences from the database
+ * Returns null if the fetch fails or the user has no profile yet
+ */
+export async function fetchUserPreferences(userId: string): Promise<VersionedPreferences | null> {
   try {
     const { data, error } = await supabase
       .from("profiles")
-      .select(
-        "dark_mode_enabled, notifications_enabled, push_notifications_enabled, email_notifications_enabled",
-      )
+      .select(`preferences, updated_at, ${PROFILE_COLUMN_PREFERENCES.join(", ")}`)
       .eq("id", userId)
       .single()
 
@@ -49,7 +206,7 @@ export async function fetchUserPreferences(userId: string): Promise<UserPreferen
       return null
     }
 
-    return data as UserPreferences
+    return readProfilePreferences(data as Partial<ProfileRow>)
   } catch (error) {
     logger.debug("Error fetching user preferences", { error })
     return null
@@ -57,36 +214,80 @@ export async function fetchUserPreferences(userId: string): Promise<UserPreferen
 }
 
 /**
- * Update a single preference in the database (fire-and-forget)
- * Does not block - updates happen in background
+ * Fetch the user's preferences, merge them with this device's and apply the result.
+ * Returns true if preferences were successfully fetched and merged.
  */
-export function updatePreference(
-  userId: string,
-  preference: keyof UserPreferences,
-  value: boolean,
-): void {
-  if (isUsingMockSupabase) {
-    return
+export async function fetchAndApplyUserPreferences(userId: string): Promise<boolean> {
+  const remote = await fetchUserPreferences(userId)
+  if (!remote) {
+    return false
   }
 
-  const update = {
-    id: userId,
-    [preference]: value,
-    updated_at: new Date().toISOString(),
-  } as const
+  mergeRemotePreferences(userId, remote)
+  return true
+}
 
-  // Fire and forget - don't await
-  Promise.resolve(supabase.from("profiles").upsert(update))
-    .then(({ error }) => {
-      if (error) {
-        logger.debug(`Failed to sync ${preference} preference`, { error: error.message })
-      } else {
-        logger.debug(`Synced ${preference} preference to database`, { value })
-      }
-    })
-    .catch((err: unknown) => {
-      logger.debug(`Error syncing ${preference} preference`, { error: err })
+/**
+ * Keep a signed-in user's preferences in sync: merge the server copy now, then apply
+ * changes from other devices as they happen and write local changes back.
+ * Calling it again for the same user only merges again.
+ */
+export async function startPreferenceSync(userId: string): Promise<boolean> {
+  if (activeSync?.userId !== userId) {
+    stopPreferenceSync()
+
+    const removeListener = addPreferenceListener((_key, _value, source) => {
+      if (source === "local") pushPreferences(userId)
     })
+
+    const channel = supabase
+      .channel(`preferences:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "profiles", filter: `id=eq.${userId}` },
+        (payload) => {
+          if (payload.new && "id" in payload.new) {
+            mergeRemotePreferences(userId, readProfilePreferences(payload.new))
+          }
+        },
+      )
+      .subscribe()
+
+    activeSync = {
+      userId,
+      stop: () => {
+        removeListener()
+        void channel.unsubscribe()
+      },
+    }
+  }
+
+  return fetchAndApplyUserPreferences(userId)
+}
+
+/**
+ * Stop syncing preferences, e.g. on sign out. Preferences stay on the device.
+ */
+export function stopPreferenceSync(): void {
+  activeSync?.stop()
+  activeSync = null
+}
+
+/**
+ * Set a preference for a user. While their preferences are synced (see
+ * `startPreferenceSync`) this is the same as `setPreference`; otherwise the
+ * preferences are written to their profile right away.
+ */
+export function updatePreference<K extends PreferenceKey>(
+  userId: string,
+  preference: K,
+  value: PreferenceValue<K>,
+): void {
+  setPreference(preference, value)
+
+  if (activeSync?.userId !== userId && !isUsingMockSupabase) {
+    pushPreferences(userId)
+  }
 }
 
 /**
@@ -118,77 +319,18 @@ export function syncEmailNotificationsPreference(userId: string, enabled: boolea
 }
 
 /**
- * Sync all preferences at once (fire-and-forget)
+ * Set several preferences at once (fire-and-forget)
  */
 export function syncAllPreferences(userId: string, preferences: Partial<UserPreferences>): void {
-  if (isUsingMockSupabase) {
-    return
-  }
-
-  const update = {
-    id: userId,
-    ...preferences,
-    updated_at: new Date().toISOString(),
-  }
-
-  Promise.resolve(supabase.from("profiles").upsert({ ...update, id: userId }))
-    .then(({ error }) => {
-      if (error) {
-        logger.debug("Failed to sync preferences", { error: error.message })
-      } else {
-        logger.debug("Synced all preferences to database")
-      }
-    })
-    .catch((err: unknown) => {
-      logger.debug("Error syncing preferences", { error: err })
-    })
-}
-
-/**
- * Apply fetched preferences to local storage and stores
- * Call this after successful login to sync server preferences to local state
- */
-export function applyUserPreferences(preferences: UserPreferences): void {
-  // Apply dark mode preference
-  if (preferences.dark_mode_enabled !== null) {
-    const themeValue = preferences.dark_mode_enabled ? "dark" : "light"
-    storage.set(THEME_STORAGE_KEY, themeValue)
-    // Update Unistyles runtime
-    UnistylesRuntime.setAdaptiveThemes(false)
-    UnistylesRuntime.setTheme(themeValue)
-    logger.debug("Applied dark mode preference from database", {
-      value: preferences.dark_mode_enabled,
-    })
+  for (const [key, value] of Object.entries(preferences) as [keyof UserPreferences, unknown][]) {
+    if (typeof value === "boolean") setPreference(key, value)
   }
 
-  // Apply push notifications preference
-  if (preferences.push_notifications_enabled !== null) {
-    // Get the notification store state and update it
-    const notificationState = useNotificationStore.getState()
-    if (notificationState.isPushEnabled !== preferences.push_notifications_enabled) {
-      useNotificationStore.setState({ isPushEnabled: preferences.push_notifications_enabled })
-      logger.debug("Applied push notification preference from database", {
-        value: preferences.push_notifications_enabled,
-      })
-    }
+  if (activeSync?.userId !== userId && !isUsingMockSupabase) {
+    pushPreferences(userId)
   }
 }
 
-/**
- * Fetch and apply user preferences on login
- * Returns true if preferences were successfully fetched and applied
- */
-export async function fetchAndApplyUserPreferences(userId: string): Promise<boolean> {
-  const preferences = await fetchUserPreferences(userId)
-
-  if (preferences) {
-    applyUserPreferences(preferences)
-    return true
-  }
-
-  return false
-}
-
 // =====================================================================
 // PUSH TOKEN SYNC
 // =====================================================================
@@ -251,20 +393,18 @@ export function syncPushToken(userId: string, token: string): void {
   }
 
   // Fire and forget - use upsert with unique constraint on (user_id, token)
-  Promise.resolve(supabase.from("push_tokens").upsert(tokenData, { onConflict: "user_id,token" }))
-    .then(({ error }) => {
-      if (error) {
-        logger.debug("Failed to sync push token", { error: error.message })
-      } else {
-        logger.debug("Push token synced to database", {
-          platform: tokenData.platform,
-          deviceName: tokenData.device_name,
-        })
-      }
-    })
-    .catch((err: unknown) => {
-      logger.debug("Error syncing push token", { error: err })
-    })
+  logWriteResult(
+    mutationOutbox.upsert("push_tokens", tokenData, {
+      onConflict: "user_id,token",
+      idempotencyKey: `push_tokens:${userId}:${token}`,
+    }),
+    "push token",
+    () =>
+      logger.debug("Push token synced to database", {
+        platform: tokenData.platform,
+        deviceName: tokenData.device_name,
+      }),
+  )
 }
 
 /**
@@ -283,23 +423,16 @@ export function deactivatePushToken(userId: string, token: string): void {
     return
   }
 
-  Promise.resolve(
-    supabase
-      .from("push_tokens")
-      .update({ is_active: false, updated_at: new Date().toISOString() })
-      .eq("user_id", userId)
-      .eq("token", token),
+  logWriteResult(
+    mutationOutbox.update(
+      "push_tokens",
+      { is_active: false, updated_at: new Date().toISOString() },
+      { user_id: userId, token },
+      { idempotencyKey: `push_tokens:${userId}:${token}:deactivate` },
+    ),
+    "push token deactivation",
+    () => logger.debug("Push token deactivated"),
   )
-    .then(({ error }) => {
-      if (error) {
-        logger.debug("Failed to deactivate push token", { error: error.message })
-      } else {
-        logger.debug("Push token deactivated")
-      }
-    })
-    .catch((err: unknown) => {
-      logger.debug("Error deactivating push token", { error: err })
-    })
 }
 
 /**
@@ -312,20 +445,13 @@ export function deactivateAllPushTokens(userId: string): void {
     return
   }
 
-  Promise.resolve(
-    supabase
-      .from("push_tokens")
-      .update({ is_active: false, updated_at: new Date().toISOString() })
-      .eq("user_id", userId),
+  logWriteResult(
+    mutationOutbox.update(
+      "push_tokens",
+      { is_active: false, updated_at: new Date().toISOString() },
+      { user_id: userId },
+    ),
+    "push token deactivation",
+    () => logger.debug("All push tokens deactivated for user"),
   )
-    .then(({ error }) => {
-      if (error) {
-        logger.debug("Failed to deactivate all push tokens", { error: error.message })
-      } else {
-        logger.debug("All push tokens deactivated for user")
-      }
-    })
-    .catch((err: unknown) => {
-      logger.debug("Error deactivating all push tokens", { error: err })
-    })
 }
@@ -0,0 +1,116 @@
+/**
+ * Request Policy
+ *
+ * How network requests behave on the current connection, derived from the quality
+ * reported by NetworkMonitor. The API client, widget data, React Query retries and
+ * AutoImage read it, so a slow connection gets longer timeouts, fewer retries, no
+ * background prefetching and smaller images.
+ *
+ * Large uploads can also be held back on cellular or a poor connection, for users who
+ * opted in with the `defer_large_uploads` preference.
+ */
+
+import { useEffect, useState } from "react"
+
+import { networkMonitor, NetworkQuality, type NetworkState } from "./NetworkMonitor"
+import { API_CONFIG } from "../config/constants"
+import { getPreference } from "../utils/preferences"
+
+/**
+ * Request behaviour for one level of network quality
+ */
+export interface RequestPolicy {
+  /** Time a request may take before it fails */
+  timeoutMs: number
+  /** How many times a failed read is retried */
+  retries: number
+  /** Whether data and images may be fetched before they are needed */
+  prefetch: boolean
+  /** Fraction of the screen's pixel density that images are loaded at */
+  imageScale: number
+  /** Whether opted-in large uploads wait for a better connection */
+  deferLargeUploads: boolean
+}
+
+/**
+ * Policies by network quality. Slow connections get more time per request but fewer
+ * attempts; offline requests fail fast.
+ */
+export const REQUEST_POLICIES: Record<NetworkQuality, RequestPolicy> = {
+  [NetworkQuality.EXCELLENT]: {
+    timeoutMs: 15000,
+    retries: API_CONFIG.RETRY_ATTEMPTS,
+    prefetch: true,
+    imageScale: 1,
+    deferLargeUploads: false,
+  },
+  [NetworkQuality.GOOD]: {
+    timeoutMs: 20000,
+    retries: API_CONFIG.RETRY_ATTEMPTS,
+    prefetch: true,
+    imageScale: 1,
+    deferLargeUploads: false,
+  },
+  [NetworkQuality.FAIR]: {
+    timeoutMs: API_CONFIG.TIMEOUT,
+    retries: 2,
+    prefetch: false,
+    imageScale: 0.75,
+    deferLargeUploads: false,
+  },
+  [NetworkQuality.POOR]: {
+    timeoutMs: 45000,
+    retries: 1,
+    prefetch: false,
+    imageScale: 0.5,
+    deferLargeUploads: true,
+  },
+  [NetworkQuality.OFFLINE]: {
+    timeoutMs: 10000,
+    retries: 0,
+    prefetch: false,
+    imageScale: 0.5,
+    deferLargeUploads: true,
+  },
+}
+
+/**
+ * Quality used until NetworkMonitor reports the first state, matching the default of
+ * `useNetworkState`
+ */
+const DEFAULT_QUALITY = NetworkQuality.GOOD
+
+/**
+ * Policy for a network state, by default the current one
+ */
+export function getRequestPolicy(
+  state: NetworkState | null = networkMonitor.getState(),
+): RequestPolicy {
+  return REQUEST_POLICIES[state?.quality ?? DEFAULT_QUALITY]
+}
+
+/**
+ * Whether an upload of this size should wait for a better connection: the user opted
+ * in, the file is over `API_CONFIG.LARGE_UPLOAD_BYTES` and the connection is cellular
+ * or poor. Files of unknown size are never held back.
+ */
+export function shouldDeferUpload(
+  sizeBytes: number | undefined,
+  state: NetworkState | null = networkMonitor.getState(),
+): boolean {
+  if (!sizeBytes || sizeBytes <= API_CONFIG.LARGE_UPLOAD_BYTES) return false
+  if (!getPreference("defer_large_uploads")) return false
+
+  return state?.type === "cellular" || getRequestPolicy(state).deferLargeUploads
+}
+
+/**
+ * React hook for the current request policy, updated when network quality changes
+ */
+export function useRequestPolicy(): RequestPolicy {
+  const [policy, setPolicy] = useState(() => getRequestPolicy())
+
+  useEffect(() => networkMonitor.addListener((state) => setPolicy(getRequestPolicy(state))), [])
+
+  return policy
+}
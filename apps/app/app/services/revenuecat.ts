@@ -6,10 +6,22 @@
  * - Web: Uses @revenuecat/purchases-js SDK (Web Billing)
  */
 
-import { Platform } from "react-native"
+import { Linking, Platform } from "react-native"
 
+import { ENTITLEMENTS } from "../config/constants"
 import { env, isDevelopment } from "../config/env"
-import type { PricingPackage, SubscriptionService, SubscriptionInfo } from "../types/subscription"
+import type {
+  PricingPackage,
+  ProductChange,
+  ProductType,
+  PromotionalOffer,
+  ProrationMode,
+  PurchaseOptions,
+  SubscriptionService,
+  StoreTransaction,
+  SubscriptionInfo,
+  SubscriptionOffering,
+} from "../types/subscription"
 import { logger } from "../utils/Logger"
 import { formatPeriod } from "../utils/subscriptionHelpers"
 import { mockRevenueCat } from "./mocks/revenueCat"
@@ -20,6 +32,7 @@ type RevenueCatEntitlement = {
   productIdentifier?: string | null
   willRenew?: boolean
   periodType?: "TRIAL" | "INTRO" | "NORMAL" | "trial" | "intro" | "normal"
+  billingIssueDetectedAt?: string | null
 }
 
 type RevenueCatCustomerInfo = {
@@ -28,10 +41,24 @@ type RevenueCatCustomerInfo = {
   }
   latestExpirationDate?: string | null
   managementURL?: string | null
+  subscriptionsByProductIdentifier?: Record<string, { gracePeriodExpiresDate?: string | null }>
+  nonSubscriptionTransactions?: RevenueCatTransaction[]
+}
+
+type RevenueCatTransaction = {
+  transactionIdentifier: string
+  productIdentifier: string
+  purchaseDate: string | Date
+}
+
+type RevenueCatPurchaseResult = {
+  customerInfo?: RevenueCatCustomerInfo
+  transaction?: RevenueCatTransaction
 }
 
 type RevenueCatMobileSdk = {
   LOG_LEVEL: { DEBUG: number; INFO: number; WARN: number; ERROR: number }
+  PRORATION_MODE: Record<Uppercase<ProrationMode>, number>
   setLogLevel: (level: number) => void
   setLogHandler: (handler: (logLevel: number, message: string) => void) => void
   configure: (config: { apiKey: string }) => Promise<void> | void
@@ -40,22 +67,54 @@ type RevenueCatMobileSdk = {
   isAnonymous: () => Promise<boolean>
   getCustomerInfo: () => Promise<RevenueCatCustomerInfo>
   getOfferings: () => Promise<RevenueCatOfferings>
-  purchasePackage: (pkg: unknown) => Promise<{ customerInfo?: RevenueCatCustomerInfo }>
+  purchasePackage: (
+    pkg: unknown,
+    upgradeInfo?: null,
+    googleProductChangeInfo?: GoogleProductChangeInfo | null,
+  ) => Promise<RevenueCatPurchaseResult>
+  purchaseDiscountedPackage: (
+    pkg: unknown,
+    promotionalOffer: unknown,
+  ) => Promise<RevenueCatPurchaseResult>
+  getPromotionalOffer: (product: unknown, discount: RevenueCatDiscount) => Promise<unknown>
+  presentCodeRedemptionSheet: () => Promise<void>
   restorePurchases: () => Promise<RevenueCatCustomerInfo>
   addCustomerInfoUpdateListener: (listener: (info: RevenueCatCustomerInfo) => void) => void
   removeCustomerInfoUpdateListener: (listener: (info: RevenueCatCustomerInfo) => void) => void
 }
 
+type GoogleProductChangeInfo = {
+  oldProductIdentifier: string
+  prorationMode?: number
+}
+
+type RevenueCatDiscount = {
+  identifier: string
+  price: number
+  priceString: string
+  cycles: number
+  period: string
+}
+
+type RevenueCatOffering = {
+  identifier: string
+  serverDescription?: string
+  metadata?: Record<string, unknown>
+  availablePackages: RevenueCatPackage[]
+}
+
 type RevenueCatOfferings = {
-  current?: {
-    availablePackages: RevenueCatPackage[]
-  }
+  current?: RevenueCatOffering | null
+  all?: Record<string, RevenueCatOffering>
 }
 
 type RevenueCatPackage = {
   identifier: string
   packageType?: string
   product: {
+    identifier?: string
+    productCategory?: "SUBSCRIPTION" | "NON_SUBSCRIPTION" | "UNKNOWN" | null
+    productType?: string
     title: string
     description: string
     price: number
@@ -75,6 +134,7 @@ type RevenueCatPackage = {
       value: number
       unit: "DAY" | "WEEK" | "MONTH" | "YEAR"
     } | null
+    discounts?: RevenueCatDiscount[] | null
   }
 }
 
@@ -82,6 +142,8 @@ type RevenueCatWebPackage = {
   identifier: string
   packageType?: string
   rcBillingProduct?: {
+    identifier?: string
+    productType?: string
     displayName?: string
     description?: string
     currentPrice?: {
@@ -111,7 +173,10 @@ type RevenueCatWebSdk = {
 type RevenueCatWebInstance = {
   getCustomerInfo: () => Promise<RevenueCatCustomerInfo>
   getOfferings: () => Promise<RevenueCatOfferings>
-  purchase: (params: { rcPackage: unknown }) => Promise<{ customerInfo: RevenueCatCustomerInfo }>
+  purchase: (params: { rcPackage: unknown }) => Promise<{
+    customerInfo: RevenueCatCustomerInfo
+    storeTransaction?: { storeTransactionId: string; productIdentifier: string; purchaseDate: Date }
+  }>
   logIn?: (userId: string) => Promise<{ customerInfo: RevenueCatCustomerInfo }>
   logOut?: () => Promise<{ customerInfo: RevenueCatCustomerInfo }>
   restorePurchases?: () => Promise<{ customerInfo: RevenueCatCustomerInfo }>
@@ -194,24 +259,259 @@ function toSubscriptionInfo(
       willRenew: false,
       isActive: false,
       isTrial: false,
+      entitlements: [],
     }
   }
 
-  // Check for active "pro" entitlement
-  const proEntitlement = customerInfo.entitlements?.active?.pro
-  const isActive = !!proEntitlement
+  // Report on the "pro" entitlement, or another active one for add-on-only customers
+  const activeEntitlements = customerInfo.entitlements?.active ?? {}
+  const entitlements = Object.keys(activeEntitlements)
+  const primaryEntitlement =
+    activeEntitlements[ENTITLEMENTS.PRO] ?? Object.values(activeEntitlements)[0]
+  const isActive = !!primaryEntitlement
+  const productId = primaryEntitlement?.productIdentifier || null
+  const subscription = productId
+    ? customerInfo.subscriptionsByProductIdentifier?.[productId]
+    : undefined
 
   return {
     platform,
     status: isActive ? "active" : "none",
-    productId: proEntitlement?.productIdentifier || null,
-    expirationDate: proEntitlement?.expirationDate || customerInfo.latestExpirationDate || null,
-    willRenew: proEntitlement?.willRenew ?? false,
+    productId,
+    // An active entitlement without an expiration date is a lifetime purchase
+    expirationDate: primaryEntitlement
+      ? (primaryEntitlement.expirationDate ?? null)
+      : customerInfo.latestExpirationDate || null,
+    willRenew: primaryEntitlement?.willRenew ?? false,
     isActive,
-    isTrial: proEntitlement?.periodType === "TRIAL" || proEntitlement?.periodType === "trial",
+    isTrial:
+      primaryEntitlement?.periodType === "TRIAL" || primaryEntitlement?.periodType === "trial",
+    entitlements,
+    billingIssueDetectedAt: primaryEntitlement?.billingIssueDetectedAt ?? null,
+    gracePeriodExpiresAt: subscription?.gracePeriodExpiresDate ?? null,
+    nonSubscriptionTransactions: customerInfo.nonSubscriptionTransactions?.map(toStoreTransaction),
+  }
+}
+
+function toStoreTransaction(transaction: RevenueCatTransaction): StoreTransaction {
+  return {
+    transactionId: transaction.transactionIdentifier,
+    productId: transaction.productIdentifier,
+    purchaseDate: new Date(transaction.purchaseDate).toISOString(),
+  }
+}
+
+// Store product types come upper-case from react-native-purchases, lower-case from the web SDK
+function toProductType(productType?: string | null): ProductType {
+  const normalized = productType?.toLowerCase()
+  return normalized === "consumable" || normalized === "non_consumable"
+    ? normalized
+    : "subscription"
+}
+
+function toBillingPeriod(
+  packageType: string | undefined,
+  productType: ProductType,
+): PricingPackage["billingPeriod"] {
+  if (productType === "consumable") return "one_time"
+  if (productType === "non_consumable" || packageType === "LIFETIME") return "lifetime"
+  return packageType === "ANNUAL" ? "annual" : "monthly"
+}
+
+/**
+ * Convert a react-native-purchases package to a unified PricingPackage
+ */
+function toPricingPackage(pkg: RevenueCatPackage): PricingPackage {
+  // Only store products outside a subscription can be consumable or non-consumable
+  const productType =
+    pkg.product.productCategory === "NON_SUBSCRIPTION"
+      ? toProductType(pkg.product.productType)
+      : "subscription"
+
+  // Extract intro pricing info
+  const introPrice = pkg.product.introPrice
+  const introPriceData = introPrice
+    ? {
+        introPrice: introPrice.price,
+        introPriceString: introPrice.priceString,
+        introPricePeriodUnit: introPrice.periodUnit.toLowerCase() as
+          "day" | "week" | "month" | "year",
+        introPricePeriodCount: introPrice.period,
+        introPricePeriod: formatPeriod(
+          introPrice.period,
+          introPrice.periodUnit.toLowerCase() as "day" | "week" | "month" | "year",
+        ),
+      }
+    : {}
+
+  // Extract free trial info
+  const freeTrial = pkg.product.freeTrialPeriod
+  const freeTrialData = freeTrial
+    ? {
+        freeTrialPeriodUnit: freeTrial.unit.toLowerCase() as "day" | "week" | "month" | "year",
+        freeTrialPeriodCount: freeTrial.value,
+        freeTrialPeriod: formatPeriod(
+          freeTrial.value,
+          freeTrial.unit.toLowerCase() as "day" | "week" | "month" | "year",
+        ),
+      }
+    : {}
+
+  return {
+    id: pkg.identifier,
+    identifier: pkg.identifier,
+    productId: pkg.product.identifier,
+    title: pkg.product.title,
+    description: pkg.product.description,
+    price: pkg.product.price,
+    priceString: pkg.product.priceString,
+    currencyCode: pkg.product.currencyCode,
+    billingPeriod: toBillingPeriod(pkg.packageType, productType),
+    productType,
+    platform: "revenuecat" as const,
+    platformData: pkg,
+    ...introPriceData,
+    ...freeTrialData,
+  }
+}
+
+/**
+ * Convert a Web Billing package to a unified PricingPackage
+ */
+function toWebPricingPackage(pkg: RevenueCatWebPackage): PricingPackage {
+  const productType = toProductType(pkg.rcBillingProduct?.productType)
+
+  // Extract intro pricing info
+  const introPrice = pkg.rcBillingProduct?.introductoryPrice
+  const introPriceData = introPrice
+    ? {
+        introPrice: introPrice.amountMicros ? introPrice.amountMicros / 1_000_000 : null,
+        introPriceString: introPrice.formattedPrice || null,
+        introPricePeriodUnit: introPrice.periodUnit
+          ? (introPrice.periodUnit.toLowerCase() as "day" | "week" | "month" | "year")
+          : null,
+        introPricePeriodCount: introPrice.periodCount || null,
+        introPricePeriod:
+          introPrice.periodCount && introPrice.periodUnit
+            ? formatPeriod(
+                introPrice.periodCount,
+                introPrice.periodUnit.toLowerCase() as "day" | "week" | "month" | "year",
+              )
+            : null,
+      }
+    : {}
+
+  // Extract free trial info
+  const freeTrial = pkg.rcBillingProduct?.freeTrialPeriod
+  const freeTrialData = freeTrial
+    ? {
+        freeTrialPeriodUnit: freeTrial.periodUnit
+          ? (freeTrial.periodUnit.toLowerCase() as "day" | "week" | "month" | "year")
+          : null,
+        freeTrialPeriodCount: freeTrial.periodCount || null,
+        freeTrialPeriod:
+          freeTrial.periodCount && freeTrial.periodUnit
+            ? formatPeriod(
+                freeTrial.periodCount,
+                freeTrial.periodUnit.toLowerCase() as "day" | "week" | "month" | "year",
+              )
+            : null,
+      }
+    : {}
+
+  return {
+    id: pkg.identifier,
+    identifier: pkg.identifier,
+    productId: pkg.rcBillingProduct?.identifier,
+    title: pkg.rcBillingProduct?.displayName || pkg.identifier,
+    description: pkg.rcBillingProduct?.description || "",
+    price: pkg.rcBillingProduct?.currentPrice?.amountMicros
+      ? pkg.rcBillingProduct.currentPrice.amountMicros / 1_000_000
+      : 0,
+    priceString: pkg.rcBillingProduct?.currentPrice?.formattedPrice || "",
+    currencyCode: pkg.rcBillingProduct?.currentPrice?.currency || "USD",
+    billingPeriod: toBillingPeriod(pkg.packageType, productType),
+    productType,
+    platform: "revenuecat-web" as const,
+    platformData: pkg,
+    ...introPriceData,
+    ...freeTrialData,
   }
 }
 
+/**
+ * Convert a RevenueCat offering to a unified SubscriptionOffering
+ */
+function toSubscriptionOffering(
+  offering: RevenueCatOffering,
+  platform: "revenuecat" | "revenuecat-web",
+): SubscriptionOffering {
+  return {
+    identifier: offering.identifier,
+    description: offering.serverDescription ?? "",
+    packages:
+      platform === "revenuecat-web"
+        ? (offering.availablePackages as RevenueCatWebPackage[]).map(toWebPricingPackage)
+        : offering.availablePackages.map(toPricingPackage),
+    metadata: offering.metadata,
+  }
+}
+
+/**
+ * Sign each of a package's discounts the customer is eligible for. The store only signs
+ * offers for eligible customers, so the others are skipped.
+ */
+async function toPromotionalOffers(
+  pkg: PricingPackage,
+  getPromotionalOffer: (product: unknown, discount: RevenueCatDiscount) => Promise<unknown>,
+): Promise<PromotionalOffer[]> {
+  const product = (pkg.platformData as RevenueCatPackage | undefined)?.product
+  const offers: PromotionalOffer[] = []
+  for (const discount of product?.discounts ?? []) {
+    const signedOffer = await getPromotionalOffer(product, discount)
+    if (!signedOffer) continue
+    offers.push({
+      identifier: discount.identifier,
+      productId: product?.identifier ?? pkg.productId ?? pkg.identifier,
+      price: discount.price,
+      priceString: discount.priceString,
+      cycles: discount.cycles,
+      period: discount.period,
+      platformData: signedOffer,
+    })
+  }
+  return offers
+}
+
+/**
+ * Google Play needs to be told which product a purchase replaces; the App Store works out
+ * changes within a subscription group on its own
+ */
+function toGoogleProductChangeInfo(
+  mobilePurchases: RevenueCatMobileSdk,
+  productChange?: ProductChange,
+): GoogleProductChangeInfo | null {
+  if (!productChange || Platform.OS !== "android") return null
+  return {
+    oldProductIdentifier: productChange.oldProductId,
+    prorationMode: productChange.prorationMode
+      ? mobilePurchases.PRORATION_MODE[
+          productChange.prorationMode.toUpperCase() as Uppercase<ProrationMode>
+        ]
+      : undefined,
+  }
+}
+
+// The mock models product changes and promotional offers for both platforms
+function purchaseMockPackage(pkg: PricingPackage, options?: PurchaseOptions) {
+  return options?.promotionalOffer
+    ? mockRevenueCat.purchaseDiscountedPackage(
+        pkg.platformData,
+        options.promotionalOffer.platformData,
+      )
+    : mockRevenueCat.purchasePackage(pkg.platformData, options?.productChange)
+}
+
 /**
  * RevenueCat Service for Mobile (iOS/Android)
  */
@@ -442,58 +742,7 @@ const revenueCatMobile: SubscriptionService = {
       const offerings = await getMobilePurchases().getOfferings()
       if (!offerings.current || !offerings.current.availablePackages) return []
 
-      return offerings.current.availablePackages.map((pkg: RevenueCatPackage) => {
-        // Extract intro pricing info
-        const introPrice = pkg.product.introPrice
-        const introPriceData = introPrice
-          ? {
-              introPrice: introPrice.price,
-              introPriceString: introPrice.priceString,
-              introPricePeriodUnit: introPrice.periodUnit.toLowerCase() as
-                | "day"
-                | "week"
-                | "month"
-                | "year",
-              introPricePeriodCount: introPrice.period,
-              introPricePeriod: formatPeriod(
-                introPrice.period,
-                introPrice.periodUnit.toLowerCase() as "day" | "week" | "month" | "year",
-              ),
-            }
-          : {}
-
-        // Extract free trial info
-        const freeTrial = pkg.product.freeTrialPeriod
-        const freeTrialData = freeTrial
-          ? {
-              freeTrialPeriodUnit: freeTrial.unit.toLowerCase() as
-                | "day"
-                | "week"
-                | "month"
-                | "year",
-              freeTrialPeriodCount: freeTrial.value,
-              freeTrialPeriod: formatPeriod(
-                freeTrial.value,
-                freeTrial.unit.toLowerCase() as "day" | "week" | "month" | "year",
-              ),
-            }
-          : {}
-
-        return {
-          id: pkg.identifier,
-          identifier: pkg.identifier,
-          title: pkg.product.title,
-          description: pkg.product.description,
-          price: pkg.product.price,
-          priceString: pkg.product.priceString,
-          currencyCode: pkg.product.currencyCode,
-          billingPeriod: pkg.packageType === "ANNUAL" ? "annual" : "monthly",
-          platform: "revenuecat" as const,
-          platformData: pkg,
-          ...introPriceData,
-          ...freeTrialData,
-        }
-      })
+      return offerings.current.availablePackages.map(toPricingPackage)
     } catch (error) {
       // Handle "no products configured" error gracefully
       // This is expected when RevenueCat dashboard isn't set up yet
@@ -521,16 +770,47 @@ const revenueCatMobile: SubscriptionService = {
     }
   },
 
-  purchasePackage: async (pkg: PricingPackage) => {
+  getOffering: async (offeringId: string) => {
+    try {
+      const offerings = useMock
+        ? await mockRevenueCat.getOfferings()
+        : await getMobilePurchases().getOfferings()
+      const offering = offerings.all?.[offeringId]
+      return offering ? toSubscriptionOffering(offering, "revenuecat") : null
+    } catch (error) {
+      logger.error(
+        "Error fetching offering",
+        { offeringId },
+        error instanceof Error ? error : new Error(String(error)),
+      )
+      return null
+    }
+  },
+
+  purchasePackage: async (pkg: PricingPackage, options?: PurchaseOptions) => {
     try {
       if (useMock) {
-        const result = await mockRevenueCat.purchasePackage(pkg.platformData)
-        return { subscriptionInfo: toSubscriptionInfo(result.customerInfo, "revenuecat") }
+        const result = await purchaseMockPackage(pkg, options)
+        return {
+          subscriptionInfo: toSubscriptionInfo(result.customerInfo, "revenuecat"),
+          transaction: toStoreTransaction(result.transaction),
+        }
       }
 
-      const result = await getMobilePurchases().purchasePackage(pkg.platformData)
+      const mobilePurchases = getMobilePurchases()
+      const result = options?.promotionalOffer
+        ? await mobilePurchases.purchaseDiscountedPackage(
+            pkg.platformData,
+            options.promotionalOffer.platformData,
+          )
+        : await mobilePurchases.purchasePackage(
+            pkg.platformData,
+            null,
+            toGoogleProductChangeInfo(mobilePurchases, options?.productChange),
+          )
       return {
         subscriptionInfo: toSubscriptionInfo(result.customerInfo ?? null, "revenuecat"),
+        transaction: result.transaction ? toStoreTransaction(result.transaction) : undefined,
       }
     } catch (error) {
       return {
@@ -540,6 +820,45 @@ const revenueCatMobile: SubscriptionService = {
     }
   },
 
+  getPromotionalOffers: async (pkg: PricingPackage) => {
+    try {
+      const sdk = useMock ? mockRevenueCat : getMobilePurchases()
+      return await toPromotionalOffers(pkg, (product, discount) =>
+        sdk.getPromotionalOffer(product, discount),
+      )
+    } catch (error) {
+      logger.error(
+        "Error fetching promotional offers",
+        { packageId: pkg.identifier },
+        error instanceof Error ? error : new Error(String(error)),
+      )
+      return []
+    }
+  },
+
+  redeemOfferCode: async (code?: string) => {
+    try {
+      if (useMock) {
+        const info = await mockRevenueCat.redeemOfferCode(code ?? "")
+        return { subscriptionInfo: toSubscriptionInfo(info, "revenuecat") }
+      }
+
+      // The store collects and applies the code; the update listener delivers the result
+      if (Platform.OS === "ios") {
+        await getMobilePurchases().presentCodeRedemptionSheet()
+      } else {
+        const query = code ? `?code=${encodeURIComponent(code)}` : ""
+        await Linking.openURL(`https://play.google.com/redeem${query}`)
+      }
+      return { subscriptionInfo: await revenueCatMobile.getSubscriptionInfo() }
+    } catch (error) {
+      return {
+        subscriptionInfo: await revenueCatMobile.getSubscriptionInfo(),
+        error: error instanceof Error ? error : new Error(String(error)),
+      }
+    }
+  },
+
   restorePurchases: async () => {
     try {
       if (useMock) {
@@ -696,62 +1015,9 @@ const revenueCatWeb: SubscriptionService = {
       const offerings = await webPurchasesInstance.getOfferings()
       if (!offerings.current || !offerings.current.availablePackages) return []
 
-      return offerings.current.availablePackages.map((pkg: RevenueCatWebPackage) => {
-        // Extract intro pricing info
-        const introPrice = pkg.rcBillingProduct?.introductoryPrice
-        const introPriceData = introPrice
-          ? {
-              introPrice: introPrice.amountMicros ? introPrice.amountMicros / 1_000_000 : null,
-              introPriceString: introPrice.formattedPrice || null,
-              introPricePeriodUnit: introPrice.periodUnit
-                ? (introPrice.periodUnit.toLowerCase() as "day" | "week" | "month" | "year")
-                : null,
-              introPricePeriodCount: introPrice.periodCount || null,
-              introPricePeriod:
-                introPrice.periodCount && introPrice.periodUnit
-                  ? formatPeriod(
-                      introPrice.periodCount,
-                      introPrice.periodUnit.toLowerCase() as "day" | "week" | "month" | "year",
-                    )
-                  : null,
-            }
-          : {}
-
-        // Extract free trial info
-        const freeTrial = pkg.rcBillingProduct?.freeTrialPeriod
-        const freeTrialData = freeTrial
-          ? {
-              freeTrialPeriodUnit: freeTrial.periodUnit
-                ? (freeTrial.periodUnit.toLowerCase() as "day" | "week" | "month" | "year")
-                : null,
-              freeTrialPeriodCount: freeTrial.periodCount || null,
-              freeTrialPeriod:
-                freeTrial.periodCount && freeTrial.periodUnit
-                  ? formatPeriod(
-                      freeTrial.periodCount,
-                      freeTrial.periodUnit.toLowerCase() as "day" | "week" | "month" | "year",
-                    )
-                  : null,
-            }
-          : {}
-
-        return {
-          id: pkg.identifier,
-          identifier: pkg.identifier,
-          title: pkg.rcBillingProduct?.displayName || pkg.identifier,
-          description: pkg.rcBillingProduct?.description || "",
-          price: pkg.rcBillingProduct?.currentPrice?.amountMicros
-            ? pkg.rcBillingProduct.currentPrice.amountMicros / 1_000_000
-            : 0,
-          priceString: pkg.rcBillingProduct?.currentPrice?.formattedPrice || "",
-          currencyCode: pkg.rcBillingProduct?.currentPrice?.currency || "USD",
-          billingPeriod: pkg.packageType === "ANNUAL" ? "annual" : "monthly",
-          platform: "revenuecat-web" as const,
-          platformData: pkg,
-          ...introPriceData,
-          ...freeTrialData,
-        }
-      })
+      return (offerings.current.availablePackages as RevenueCatWebPackage[]).map(
+        toWebPricingPackage,
+      )
     } catch (error) {
       // Handle "no products configured" error gracefully
       // This is expected when RevenueCat dashboard isn't set up yet
@@ -779,25 +1045,68 @@ const revenueCatWeb: SubscriptionService = {
     }
   },
 
-  purchasePackage: async (pkg: PricingPackage) => {
+  getOffering: async (offeringId: string) => {
     try {
+      let offerings: RevenueCatOfferings
       if (useMock) {
-        const result = await mockRevenueCat.purchasePackage(pkg.platformData)
-        return { subscriptionInfo: toSubscriptionInfo(result.customerInfo, "revenuecat-web") }
+        offerings = await mockRevenueCat.getOfferings()
+      } else if (webPurchasesInstance) {
+        offerings = await webPurchasesInstance.getOfferings()
+      } else {
+        logger.warn("RevenueCat Web not initialized - call logIn first")
+        return null
+      }
+
+      const offering = offerings.all?.[offeringId]
+      return offering ? toSubscriptionOffering(offering, "revenuecat-web") : null
+    } catch (error) {
+      logger.error(
+        "Error fetching web offering",
+        { offeringId },
+        error instanceof Error ? error : new Error(String(error)),
+      )
+      return null
+    }
+  },
+
+  purchasePackage: async (pkg: PricingPackage, options?: PurchaseOptions) => {
+    try {
+      if (useMock) {
+        const result = await purchaseMockPackage(pkg, options)
+        return {
+          subscriptionInfo: toSubscriptionInfo(result.customerInfo, "revenuecat-web"),
+          transaction: toStoreTransaction(result.transaction),
+        }
       }
 
       if (!webPurchasesInstance) {
         throw new Error("RevenueCat Web not initialized")
       }
 
+      // Web Billing changes plans from the management page and takes discount codes at checkout
+      if (options?.productChange || options?.promotionalOffer) {
+        throw new Error("Plan changes and promotional offers are not available in web checkout")
+      }
+
       // Web SDK purchase - this opens a checkout modal/redirect
-      const { customerInfo } = await webPurchasesInstance.purchase({ rcPackage: pkg.platformData })
+      const { customerInfo, storeTransaction } = await webPurchasesInstance.purchase({
+        rcPackage: pkg.platformData,
+      })
 
       if (__DEV__) {
         logger.info("🌐 [RevenueCat Web] Purchase successful")
       }
 
-      return { subscriptionInfo: toSubscriptionInfo(customerInfo, "revenuecat-web") }
+      return {
+        subscriptionInfo: toSubscriptionInfo(customerInfo, "revenuecat-web"),
+        transaction: storeTransaction
+          ? toStoreTransaction({
+              transactionIdentifier: storeTransaction.storeTransactionId,
+              productIdentifier: storeTransaction.productIdentifier,
+              purchaseDate: storeTransaction.purchaseDate,
+            })
+          : undefined,
+      }
     } catch (error) {
       logger.error(
         "Web purchase failed",
@@ -811,6 +1120,42 @@ const revenueCatWeb: SubscriptionService = {
     }
   },
 
+  getPromotionalOffers: async (pkg: PricingPackage) => {
+    if (!useMock) return []
+
+    try {
+      return await toPromotionalOffers(pkg, (product, discount) =>
+        mockRevenueCat.getPromotionalOffer(product, discount),
+      )
+    } catch (error) {
+      logger.error(
+        "Error fetching web promotional offers",
+        { packageId: pkg.identifier },
+        error instanceof Error ? error : new Error(String(error)),
+      )
+      return []
+    }
+  },
+
+  redeemOfferCode: async (code?: string) => {
+    if (!useMock) {
+      return {
+        subscriptionInfo: await revenueCatWeb.getSubscriptionInfo(),
+        error: new Error("Offer codes are entered at checkout on web"),
+      }
+    }
+
+    try {
+      const info = await mockRevenueCat.redeemOfferCode(code ?? "")
+      return { subscriptionInfo: toSubscriptionInfo(info, "revenuecat-web") }
+    } catch (error) {
+      return {
+        subscriptionInfo: await revenueCatWeb.getSubscriptionInfo(),
+        error: error instanceof Error ? error : new Error(String(error)),
+      }
+    }
+  },
+
   restorePurchases: async () => {
     // Web doesn't have "restore" in the same sense - we just refetch customer info
     const subscriptionInfo = await revenueCatWeb.getSubscriptionInfo()
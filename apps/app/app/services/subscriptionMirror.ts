@@ -0,0 +1,57 @@
+/**
+ * Subscription Mirror Service
+ *
+ * Reads the server-side copy of the user's purchases from the subscriptions table,
+ * which the revenuecat-webhook Edge Function keeps in sync with RevenueCat. The backend
+ * and RLS policies (via `has_active_entitlement`) trust this table, so the app compares
+ * it against what the RevenueCat SDK reports on the device.
+ */
+
+import { supabase } from "./supabase"
+import type { ServerSubscription } from "../types/supabase"
+import { logger } from "../utils/Logger"
+
+/**
+ * Fetch the user's mirrored subscriptions, one row per product
+ */
+export async function fetchServerSubscriptions(
+  userId: string,
+): Promise<{ subscriptions: ServerSubscription[]; error?: Error }> {
+  try {
+    const { data, error } = await supabase.from("subscriptions").select("*").eq("user_id", userId)
+
+    if (error) {
+      logger.debug("Failed to fetch server subscriptions", { error: error.message })
+      return { subscriptions: [], error: new Error(error.message) }
+    }
+
+    return { subscriptions: (data ?? []) as ServerSubscription[] }
+  } catch (error) {
+    logger.debug("Error fetching server subscriptions", { error })
+    return { subscriptions: [], error: error as Error }
+  }
+}
+
+/**
+ * Entitlements the server considers active, matching `has_active_entitlement` in
+ * supabase-schema.sql: not expired, and before the expiry or the end of a grace period
+ */
+export function getActiveServerEntitlements(
+  subscriptions: ServerSubscription[],
+  now: number = Date.now(),
+): string[] {
+  const entitlements = new Set<string>()
+  for (const subscription of subscriptions) {
+    if (subscription.status === "expired") continue
+
+    const endsAt = Math.max(
+      ...[subscription.expires_at, subscription.grace_period_expires_at]
+        .filter((value): value is string => !!value)
+        .map((value) => Date.parse(value)),
+    )
+    if (subscription.expires_at === null || endsAt > now) {
+      subscription.entitlements.forEach((entitlement) => entitlements.add(entitlement))
+    }
+  }
+  return Array.from(entitlements).sort()
+}
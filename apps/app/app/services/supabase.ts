@@ -4,11 +4,12 @@ import type { SupportedStorage } from "@supabase/auth-js"
 import { createClient } from "@supabase/supabase-js"
 import "react-native-url-polyfill/auto"
 
+import { pinnedFetch } from "./certificatePinning"
 import { env } from "../config/env"
 import type { SupabaseDatabase } from "../types/supabase"
 import { logger } from "../utils/Logger"
 import { webSecureStorage } from "../utils/webStorageEncryption"
-import { createMockSupabaseClient } from "./mocks/supabase"
+import { createMockSupabaseClient, installMockStorageFetch } from "./mocks/supabase"
 
 const secureStoreOptions: SecureStore.SecureStoreOptions =
   Platform.OS === "ios"
@@ -146,9 +147,15 @@ export const supabase: SupabaseClient = useMock
         detectSessionInUrl: Platform.OS === "web", // Enable for web, disable for mobile
         flowType: "pkce", // PKCE flow for enhanced OAuth security (prevents authorization code interception)
       },
+      global: {
+        // Checks certificate pins for database, auth, storage and edge function requests
+        fetch: pinnedFetch,
+      },
     })
 
 if (useMock && __DEV__) {
+  // Mock storage URLs resolve in-process, and expired signed URLs fail like the real API
+  installMockStorageFetch()
   logger.warn("⚠️  Supabase credentials not found - using mock authentication")
   logger.info(
     "💡 Add EXPO_PUBLIC_SUPABASE_URL and EXPO_PUBLIC_SUPABASE_PUBLISHABLE_KEY to apps/app/.env",
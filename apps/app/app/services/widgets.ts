@@ -9,7 +9,10 @@
 import { Platform } from "react-native"
 import * as SecureStore from "expo-secure-store"
 
+import { getRequestPolicy } from "./requestPolicy"
 import { supabase, supabaseUrl, supabaseKey, isUsingMockSupabase } from "./supabase"
+import { API_CONFIG } from "../config/constants"
+import { delay } from "../utils/delay"
 import { logger } from "../utils/Logger"
 
 /**
@@ -116,9 +119,39 @@ function setCachedData<T>(key: string, data: T): void {
   })
 }
 
+/**
+ * Abort a request, and reject, if it takes longer than the timeout
+ */
+function withTimeout<T>(
+  request: (signal: AbortSignal) => PromiseLike<T>,
+  timeoutMs: number,
+): Promise<T> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new Error("Widget data request timed out"))
+    }, timeoutMs)
+  })
+  return Promise.race([request(controller.signal), timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Whether a failed attempt can succeed when repeated. Status 0 means no response:
+ * a timeout or network failure. Other 4xx errors (RLS, bad filters) fail the same way again.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 0 || status >= 500
+}
+
 /**
  * Fetch data from Supabase for widgets
  * Supports both authenticated and public queries
+ *
+ * Each attempt times out, and network and server errors are retried according to the
+ * request policy for the current network quality. This is the only retry layer;
+ * useWidgetData doesn't retry on top of it.
  */
 export async function fetchWidgetData<T = unknown>(options: {
   table: string
@@ -164,25 +197,48 @@ export async function fetchWidgetData<T = unknown>(options: {
       return { data: mockData, error: null }
     }
 
-    // Build query
-    let query = supabase.from(table).select(select).limit(limit)
+    const runQuery = (signal: AbortSignal) => {
+      // Build query
+      let query = supabase.from(table).select(select).limit(limit).abortSignal(signal)
+
+      // Apply filters
+      Object.entries(filters).forEach(([column, value]) => {
+        if (value !== undefined && value !== null) {
+          query = query.eq(column, value)
+        }
+      })
 
-    // Apply filters
-    Object.entries(filters).forEach(([column, value]) => {
-      if (value !== undefined && value !== null) {
-        query = query.eq(column, value)
+      // Apply ordering
+      if (orderBy) {
+        query = query.order(orderBy.column, {
+          ascending: orderBy.ascending !== false,
+        })
       }
-    })
 
-    // Apply ordering
-    if (orderBy) {
-      query = query.order(orderBy.column, {
-        ascending: orderBy.ascending !== false,
-      })
+      return query
     }
 
-    // Execute query
-    const { data, error } = await query
+    const attemptQuery = () =>
+      withTimeout(runQuery, getRequestPolicy().timeoutMs).catch((err: Error) => ({
+        data: null,
+        error: err,
+        status: 0,
+      }))
+
+    // Execute query, retrying network and server errors while the connection allows
+    let attempt = 0
+    let result = await attemptQuery()
+    while (
+      result.error &&
+      isRetryableStatus(result.status) &&
+      attempt < getRequestPolicy().retries
+    ) {
+      await delay(API_CONFIG.RETRY_DELAY * 2 ** attempt)
+      attempt++
+      logger.debug("Retrying widget data fetch", { table, attempt })
+      result = await attemptQuery()
+    }
+    const { data, error } = result
 
     if (error) {
       logger.error("Widget data fetch error", { error, table, filters })
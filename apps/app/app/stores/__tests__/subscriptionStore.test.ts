@@ -6,6 +6,9 @@
 
 import { renderHook } from "@testing-library/react-native"
 
+import { ENTITLEMENTS } from "../../config/constants"
+import type { SubscriptionInfo } from "../../types/subscription"
+import { selectEntitlements, selectHasEntitlement } from "../selectors/subscriptionSelectors"
 import { useSubscriptionStore } from "../subscriptionStore"
 
 // Mock dependencies
@@ -37,4 +40,53 @@ describe("SubscriptionStore", () => {
       expect(result.current).toBeDefined()
     })
   })
+
+  describe("entitlements", () => {
+    const storageOnly: SubscriptionInfo = {
+      platform: "revenuecat",
+      status: "active",
+      productId: "storage_plus_monthly",
+      expirationDate: null,
+      willRenew: true,
+      isActive: true,
+      isTrial: false,
+      entitlements: [ENTITLEMENTS.STORAGE_PLUS],
+    }
+
+    it("gates pro on the pro entitlement rather than any active subscription", () => {
+      useSubscriptionStore.setState({ platform: "revenuecat" })
+      useSubscriptionStore.getState().setCustomerInfo(storageOnly)
+
+      expect(useSubscriptionStore.getState().isPro).toBe(false)
+      expect(useSubscriptionStore.getState().hasEntitlement(ENTITLEMENTS.STORAGE_PLUS)).toBe(true)
+    })
+
+    it("exposes entitlement selectors", () => {
+      useSubscriptionStore.setState({ platform: "revenuecat", customerInfo: storageOnly })
+
+      const { result: hasStorage } = renderHook(() =>
+        selectHasEntitlement(ENTITLEMENTS.STORAGE_PLUS),
+      )
+      const { result: hasPro } = renderHook(() => selectHasEntitlement(ENTITLEMENTS.PRO))
+      const { result: entitlements } = renderHook(() => selectEntitlements())
+
+      expect(hasStorage.current).toBe(true)
+      expect(hasPro.current).toBe(false)
+      expect(entitlements.current).toEqual([ENTITLEMENTS.STORAGE_PLUS])
+    })
+
+    it("migrates persisted info saved before entitlements were tracked", async () => {
+      const { entitlements: _entitlements, ...legacyInfo } = { ...storageOnly, productId: "pro" }
+      const migrate = useSubscriptionStore.persist.getOptions().migrate!
+
+      const migrated = (await migrate(
+        { customerInfo: legacyInfo, webSubscriptionInfo: null },
+        0,
+      )) as {
+        customerInfo: SubscriptionInfo
+      }
+
+      expect(migrated.customerInfo.entitlements).toEqual([ENTITLEMENTS.PRO])
+    })
+  })
 })
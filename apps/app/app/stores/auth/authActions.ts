@@ -9,7 +9,10 @@ import * as Linking from "expo-linking"
 
 import { TIMING } from "../../config/constants"
 import { env } from "../../config/env"
-import { queryClient } from "../../hooks/queries"
+import { clearPersistedQueryCache, queryClient } from "../../hooks/queries"
+import { clearDeferredUploads } from "../../services/deferredUploads"
+import { mutationOutbox } from "../../services/mutationOutbox"
+import { stopPreferenceSync } from "../../services/preferencesSync"
 import { supabase, isUsingMockSupabase } from "../../services/supabase"
 import { isEmailConfirmed } from "../../types/auth"
 import { extractSupabaseError } from "../../types/supabaseErrors"
@@ -411,12 +414,19 @@ export async function signOutAction(
   } catch (error) {
     logger.warn("Sign out request failed, clearing local session anyway", { error })
   }
+  stopPreferenceSync()
   queryClient.clear()
+  await clearPersistedQueryCache()
+  // Queued writes belong to the signed-out user and would be rejected by RLS
+  mutationOutbox.clear()
+  clearDeferredUploads()
   const subscriptionState = useSubscriptionStore.getState()
   subscriptionState.setCustomerInfo(null)
   subscriptionState.setWebSubscriptionInfo(null)
   subscriptionState.setPackages([])
   subscriptionState.checkProStatus()
+  // The ledger stays, so credits already spent aren't granted again when the user signs back in
+  subscriptionState.resetCredits()
   const guestOnboarding = get().onboardingStatusByUserId[guestUserKey] ?? false
   set({
     session: null,
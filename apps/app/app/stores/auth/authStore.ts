@@ -30,7 +30,7 @@ import {
 import { syncOnboardingStatus, syncOnboardingToDatabase, updateUserState } from "./authHelpers"
 import type { AuthState } from "./authTypes"
 import { env } from "../../config/env"
-import { fetchAndApplyUserPreferences } from "../../services/preferencesSync"
+import { startPreferenceSync, stopPreferenceSync } from "../../services/preferencesSync"
 import { supabase, isUsingMockSupabase } from "../../services/supabase"
 import { isEmailConfirmed } from "../../types/auth"
 import { logger } from "../../utils/Logger"
@@ -194,9 +194,9 @@ export const useAuthStore = create<AuthState>()(
             const syncedStatus = await syncOnboardingStatus(user.id, localOnboardingCompleted)
             hasCompletedOnboarding = syncedStatus
 
-            // Fetch and apply user preferences (theme, notifications) from database
-            // This runs in background and doesn't block initialization
-            fetchAndApplyUserPreferences(user.id).catch((err) => {
+            // Merge user preferences (theme, notifications, ...) with the database and keep
+            // them in sync. This runs in background and doesn't block initialization
+            startPreferenceSync(user.id).catch((err) => {
               logger.debug("Failed to fetch user preferences", { error: err })
             })
           }
@@ -226,6 +226,7 @@ export const useAuthStore = create<AuthState>()(
             } = supabase.auth.onAuthStateChange(async (event, session) => {
               // Handle SIGNED_OUT event immediately - don't try to fetch user or preserve state
               if (event === "SIGNED_OUT") {
+                stopPreferenceSync()
                 const onboardingStatusByUserId = get().onboardingStatusByUserId
                 const guestOnboarding = onboardingStatusByUserId[GUEST_USER_KEY] ?? false
                 set({
@@ -286,8 +287,8 @@ export const useAuthStore = create<AuthState>()(
                 const syncedStatus = await syncOnboardingStatus(user.id, currentLocalOnboarding)
                 hasCompletedOnboarding = syncedStatus
 
-                // Fetch and apply user preferences on sign in
-                fetchAndApplyUserPreferences(user.id).catch((err) => {
+                // Merge user preferences on sign in and keep them in sync
+                startPreferenceSync(user.id).catch((err) => {
                   logger.debug("Failed to fetch user preferences on auth change", { error: err })
                 })
               }
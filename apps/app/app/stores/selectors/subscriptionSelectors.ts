@@ -6,6 +6,18 @@
 
 import { useSubscriptionStore } from "../subscriptionStore"
 
+const NO_ENTITLEMENTS: string[] = []
+
+type SubscriptionStoreState = ReturnType<typeof useSubscriptionStore.getState>
+
+/**
+ * Active entitlement identifiers for the store's platform
+ */
+const getEntitlements = (state: SubscriptionStoreState): string[] => {
+  const info = state.platform === "revenuecat-web" ? state.webSubscriptionInfo : state.customerInfo
+  return info?.isActive ? info.entitlements : NO_ENTITLEMENTS
+}
+
 /**
  * Check if user has pro subscription
  * Note: This is a hook but uses "select" prefix for consistency with selector pattern
@@ -44,24 +56,26 @@ export const selectSubscriptionStatus = () =>
 export const selectSubscriptionLoading = () => useSubscriptionStore((state) => state.loading)
 
 /**
- * Get entitlements
+ * Get active entitlement identifiers
  * Note: This is a hook but uses "select" prefix for consistency with selector pattern
  */
-export const selectEntitlements = () =>
-  // eslint-disable-next-line react-hooks/rules-of-hooks
-  useSubscriptionStore((state) => {
-    return state.isPro ? ["pro"] : []
-  })
+// eslint-disable-next-line react-hooks/rules-of-hooks
+export const selectEntitlements = () => useSubscriptionStore(getEntitlements)
 
 /**
- * Check if user has specific entitlement
+ * Check if user has specific entitlement (e.g. ENTITLEMENTS.STORAGE_PLUS)
  * Note: This is a hook but uses "select" prefix for consistency with selector pattern
  */
 export const selectHasEntitlement = (entitlementId: string) =>
   // eslint-disable-next-line react-hooks/rules-of-hooks
-  useSubscriptionStore((state) => {
-    return state.isPro && entitlementId === "pro"
-  })
+  useSubscriptionStore((state) => state.hasEntitlement(entitlementId))
+
+/**
+ * Get the credit balance from consumable purchases
+ * Note: This is a hook but uses "select" prefix for consistency with selector pattern
+ */
+// eslint-disable-next-line react-hooks/rules-of-hooks
+export const selectCredits = () => useSubscriptionStore((state) => state.credits)
 
 /**
  * Get full subscription state
@@ -77,6 +91,6 @@ export const selectSubscriptionState = () =>
         : state.platform === "revenuecat-web"
           ? (state.webSubscriptionInfo?.status ?? "inactive")
           : "inactive",
-    entitlements: state.isPro ? ["pro"] : [],
+    entitlements: getEntitlements(state),
     loading: state.loading,
   }))
@@ -2,17 +2,27 @@ import { Platform } from "react-native"
 import { create } from "zustand"
 import { persist, createJSONStorage } from "zustand/middleware"
 
+import { CREDIT_PRODUCTS, ENTITLEMENTS } from "../config/constants"
+import { fetchCreditSpends, recordCreditSpends, type CreditSpends } from "../services/creditSpends"
 import { revenueCat } from "../services/revenuecat"
+import {
+  fetchServerSubscriptions,
+  getActiveServerEntitlements,
+} from "../services/subscriptionMirror"
 import type {
   SubscriptionPlatform,
   SubscriptionInfo,
   PricingPackage,
+  PurchaseOptions,
+  StoreTransaction,
   SubscriptionService,
   SubscriptionLifecycleData,
 } from "../types/subscription"
+import type { ServerSubscription } from "../types/supabase"
 import { logger } from "../utils/Logger"
 import * as storage from "../utils/storage"
 import { detectLifecycleEvent, getLifecycleEventDescription } from "../utils/subscriptionHelpers"
+import { getUserKey } from "./auth/authConstants"
 
 const getAuthStore = () => {
   // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -20,6 +30,34 @@ const getAuthStore = () => {
   return useAuthStore
 }
 
+/**
+ * Credits one consumable transaction granted, and how many of them are still unspent
+ */
+interface CreditGrant {
+  granted: number
+  remaining: number
+}
+
+/** Credit grants by transaction ID */
+type CreditLedger = Record<string, CreditGrant>
+
+const sumRemaining = (ledger: CreditLedger = {}) =>
+  Object.values(ledger).reduce((sum, grant) => sum + grant.remaining, 0)
+
+/**
+ * Spend up to `amount` credits, from the oldest grants first
+ */
+function drawDown(ledger: CreditLedger, amount: number): CreditLedger {
+  let owed = amount
+  const updated: CreditLedger = {}
+  for (const [transactionId, grant] of Object.entries(ledger)) {
+    const spent = Math.min(owed, grant.remaining)
+    owed -= spent
+    updated[transactionId] = { ...grant, remaining: grant.remaining - spent }
+  }
+  return updated
+}
+
 interface SubscriptionState {
   isPro: boolean
   platform: SubscriptionPlatform
@@ -34,6 +72,17 @@ interface SubscriptionState {
   packages: PricingPackage[]
   loading: boolean
 
+  // Credits from consumable purchases, kept on the device per user. Each transaction
+  // RevenueCat reports is credited once to the signed-in user's ledger, spending draws down
+  // the oldest grants first, and a refund takes back what is left of that grant. Signed-in
+  // users' spends are also recorded in Supabase and applied when reconciling, so a new
+  // install or another device doesn't hand them back.
+  credits: number // Signed-in user's balance
+  creditLedgers: Record<string, CreditLedger> // User ID (or guest key) -> ledger
+
+  // Server-side mirror written by the revenuecat-webhook Edge Function
+  serverSubscriptions: ServerSubscription[]
+
   // Lifecycle tracking
   lifecycleListeners: Array<(event: SubscriptionLifecycleData) => void>
 
@@ -42,9 +91,18 @@ interface SubscriptionState {
   setWebSubscriptionInfo: (info: SubscriptionInfo | null) => void
   setPackages: (packages: PricingPackage[]) => void
   checkProStatus: () => void
-  fetchPackages: () => Promise<void>
-  purchasePackage: (pkg: PricingPackage) => Promise<{ error?: Error }>
+  hasEntitlement: (entitlementId: string) => boolean
+  fetchPackages: (offeringId?: string) => Promise<void>
+  purchasePackage: (
+    pkg: PricingPackage,
+    options?: PurchaseOptions,
+  ) => Promise<{ transaction?: StoreTransaction; error?: Error }>
   restorePurchases: () => Promise<{ error?: Error }>
+  consumeCredits: (amount: number) => boolean
+  reconcileCredits: () => void
+  syncCreditSpends: () => Promise<void>
+  resetCredits: (options?: { deleteLedgerOf?: string }) => void
+  reconcileWithServer: () => Promise<{ inSync: boolean; error?: Error }>
   initialize: () => Promise<void>
   getActiveService: () => SubscriptionService
   addLifecycleListener: (listener: (event: SubscriptionLifecycleData) => void) => () => void
@@ -73,6 +131,9 @@ export const useSubscriptionStore = create<SubscriptionState>()(
       webSubscriptionInfo: null,
       packages: [],
       loading: false,
+      credits: 0,
+      creditLedgers: {},
+      serverSubscriptions: [],
       lifecycleListeners: [],
 
       getActiveService: (): SubscriptionService => {
@@ -108,6 +169,7 @@ export const useSubscriptionStore = create<SubscriptionState>()(
 
         set({ customerInfo: info })
         get().checkProStatus()
+        get().reconcileCredits()
       },
 
       setWebSubscriptionInfo: (info) => {
@@ -138,6 +200,7 @@ export const useSubscriptionStore = create<SubscriptionState>()(
 
         set({ webSubscriptionInfo: info })
         get().checkProStatus()
+        get().reconcileCredits()
       },
 
       setPackages: (packages) => {
@@ -145,25 +208,22 @@ export const useSubscriptionStore = create<SubscriptionState>()(
       },
 
       checkProStatus: () => {
-        const { customerInfo, webSubscriptionInfo, platform } = get()
-
-        let isPro = false
-
-        if (platform === "revenuecat") {
-          isPro = customerInfo?.isActive ?? false
-        }
-
-        if (platform === "revenuecat-web") {
-          isPro = webSubscriptionInfo?.isActive ?? false
-        }
+        set({ isPro: get().hasEntitlement(ENTITLEMENTS.PRO) })
+      },
 
-        set({ isPro })
+      hasEntitlement: (entitlementId) => {
+        const { customerInfo, webSubscriptionInfo, platform } = get()
+        const info = platform === "revenuecat-web" ? webSubscriptionInfo : customerInfo
+        return !!info?.isActive && info.entitlements.includes(entitlementId)
       },
 
-      fetchPackages: async () => {
+      fetchPackages: async (offeringId) => {
         try {
           const service = get().getActiveService()
-          const packages = await service.getPackages()
+          // A named offering (e.g. a paywall experiment) replaces the current one
+          const packages = offeringId
+            ? ((await service.getOffering(offeringId))?.packages ?? [])
+            : await service.getPackages()
           set({ packages })
         } catch (error) {
           // getPackages already handles "no products" errors gracefully
@@ -180,13 +240,13 @@ export const useSubscriptionStore = create<SubscriptionState>()(
         }
       },
 
-      purchasePackage: async (pkg) => {
+      purchasePackage: async (pkg, options) => {
         try {
           set({ loading: true })
           const service = get().getActiveService()
           const { platform } = get()
 
-          const result = await service.purchasePackage(pkg)
+          const result = await service.purchasePackage(pkg, options)
 
           if (platform === "revenuecat-web") {
             set({
@@ -201,8 +261,9 @@ export const useSubscriptionStore = create<SubscriptionState>()(
           }
 
           get().checkProStatus()
+          get().reconcileCredits()
 
-          return result.error ? { error: result.error } : {}
+          return result.error ? { error: result.error } : { transaction: result.transaction }
         } catch (error) {
           set({ loading: false })
 
@@ -236,6 +297,7 @@ export const useSubscriptionStore = create<SubscriptionState>()(
           }
 
           get().checkProStatus()
+          get().reconcileCredits()
 
           return result.error ? { error: result.error } : {}
         } catch (error) {
@@ -244,6 +306,147 @@ export const useSubscriptionStore = create<SubscriptionState>()(
         }
       },
 
+      consumeCredits: (amount) => {
+        const userKey = getUserKey(getAuthStore().getState().user)
+        const ledger = get().creditLedgers[userKey] ?? {}
+        if (amount <= 0 || sumRemaining(ledger) < amount) return false
+
+        const updated = drawDown(ledger, amount)
+
+        set((state) => ({
+          credits: sumRemaining(updated),
+          creditLedgers: { ...state.creditLedgers, [userKey]: updated },
+        }))
+
+        const user = getAuthStore().getState().user
+        if (user) {
+          const spends: CreditSpends = {}
+          for (const [transactionId, grant] of Object.entries(ledger)) {
+            spends[transactionId] = grant.remaining - updated[transactionId].remaining
+          }
+          void recordCreditSpends(user.id, spends)
+        }
+        return true
+      },
+
+      reconcileCredits: () => {
+        const { customerInfo, webSubscriptionInfo, platform, creditLedgers } = get()
+        const info = platform === "revenuecat-web" ? webSubscriptionInfo : customerInfo
+        // Only reconcile against a purchase history RevenueCat actually reported
+        const transactions = info?.nonSubscriptionTransactions
+        if (!transactions) return
+
+        const userKey = getUserKey(getAuthStore().getState().user)
+        const ledger = creditLedgers[userKey] ?? {}
+
+        const reported: CreditLedger = {}
+        for (const transaction of transactions) {
+          const amount = CREDIT_PRODUCTS[transaction.productId]
+          if (!amount) continue
+          reported[transaction.transactionId] = ledger[transaction.transactionId] ?? {
+            granted: amount,
+            remaining: amount,
+          }
+        }
+
+        // Transactions RevenueCat no longer reports were refunded. Their grants are taken
+        // back in full, so credits already spent from them come out of the other grants.
+        let refundedSpend = 0
+        for (const [transactionId, grant] of Object.entries(ledger)) {
+          if (!(transactionId in reported)) refundedSpend += grant.granted - grant.remaining
+        }
+        const updated = drawDown(reported, refundedSpend)
+
+        set({
+          credits: sumRemaining(updated),
+          creditLedgers: { ...creditLedgers, [userKey]: updated },
+        })
+
+        if (getAuthStore().getState().user) void get().syncCreditSpends()
+      },
+
+      syncCreditSpends: async () => {
+        const authStore = getAuthStore()
+        const user = authStore.getState().user
+        if (!user) return
+
+        const { spends, error } = await fetchCreditSpends(user.id)
+        if (error) return
+
+        // The user may have changed while the spends were loading
+        const userKey = user.id
+        if (authStore.getState().user?.id !== userKey) return
+
+        // A grant keeps whichever is lower: what this device has left, or what the server
+        // says is left. Spends this device couldn't record still count here, and spends
+        // made on other devices or before a reinstall count too.
+        set((state) => {
+          const ledger = state.creditLedgers[userKey] ?? {}
+          const updated: CreditLedger = {}
+          for (const [transactionId, grant] of Object.entries(ledger)) {
+            const unspent = Math.max(0, grant.granted - (spends[transactionId] ?? 0))
+            updated[transactionId] = { ...grant, remaining: Math.min(grant.remaining, unspent) }
+          }
+          return {
+            credits: sumRemaining(updated),
+            creditLedgers: { ...state.creditLedgers, [userKey]: updated },
+          }
+        })
+      },
+
+      resetCredits: (options) => {
+        set((state) => {
+          const creditLedgers = { ...state.creditLedgers }
+          if (options?.deleteLedgerOf) delete creditLedgers[options.deleteLedgerOf]
+          return { credits: 0, creditLedgers }
+        })
+      },
+
+      reconcileWithServer: async () => {
+        const user = getAuthStore().getState().user
+        if (!user) {
+          set({ serverSubscriptions: [] })
+          return { inSync: true }
+        }
+
+        const { subscriptions, error } = await fetchServerSubscriptions(user.id)
+        if (error) return { inSync: false, error }
+        set({ serverSubscriptions: subscriptions })
+
+        const deviceEntitlements = () => {
+          const { platform, customerInfo, webSubscriptionInfo } = get()
+          const info = platform === "revenuecat-web" ? webSubscriptionInfo : customerInfo
+          return [...(info?.entitlements ?? [])].sort()
+        }
+        const serverEntitlements = getActiveServerEntitlements(subscriptions)
+        const matches = () => deviceEntitlements().join() === serverEntitlements.join()
+
+        // No rows yet: nothing bought, or the webhook hasn't delivered the first event
+        if (matches() || subscriptions.length === 0) return { inSync: matches() }
+
+        // The server saw a change the device hasn't, such as a purchase on another
+        // platform or a refund, so fetch fresh info from RevenueCat
+        try {
+          const info = await get().getActiveService().getSubscriptionInfo()
+          if (get().platform === "revenuecat-web") {
+            get().setWebSubscriptionInfo(info)
+          } else {
+            get().setCustomerInfo(info)
+          }
+        } catch (refreshError) {
+          return { inSync: false, error: refreshError as Error }
+        }
+
+        // RevenueCat on the device is the source of truth; webhooks may still be in flight
+        if (!matches()) {
+          logger.warn("Subscription differs from the server mirror", {
+            device: deviceEntitlements(),
+            server: serverEntitlements,
+          })
+        }
+        return { inSync: matches() }
+      },
+
       initialize: async () => {
         try {
           const user = getAuthStore().getState().user
@@ -261,6 +464,8 @@ export const useSubscriptionStore = create<SubscriptionState>()(
             }
 
             get().checkProStatus()
+            get().reconcileCredits()
+            void get().reconcileWithServer()
           } else {
             // When no user, just get subscription info for anonymous user
             // Don't call logOut() as it fails if user is already anonymous
@@ -300,13 +505,13 @@ export const useSubscriptionStore = create<SubscriptionState>()(
 
           // Listen for subscription updates (if supported)
           if (service.addSubscriptionUpdateListener) {
+            // Route updates through the setters so renewals and expiries emit lifecycle events
             service.addSubscriptionUpdateListener((info) => {
               if (platform === "revenuecat-web") {
-                set({ webSubscriptionInfo: info })
+                get().setWebSubscriptionInfo(info)
               } else {
-                set({ customerInfo: info })
+                get().setCustomerInfo(info)
               }
-              get().checkProStatus()
             })
           }
         } catch (error) {
@@ -331,12 +536,35 @@ export const useSubscriptionStore = create<SubscriptionState>()(
       name: "subscription-storage",
       storage: createJSONStorage(() => mmkvStorage),
       partialize: (state) => ({
-        // Only persist isPro and subscription info
+        // Only persist isPro, subscription info and the credit ledgers
         isPro: state.isPro,
         platform: state.platform,
         customerInfo: state.customerInfo,
         webSubscriptionInfo: state.webSubscriptionInfo,
+        credits: state.credits,
+        creditLedgers: state.creditLedgers,
       }),
+      // v1: subscription info gained `entitlements`; older info only knew if pro was active
+      // v2: credits are kept per user. The device-wide v1 ledger can't be attributed to a
+      // user, so it is dropped and the next reconcile credits the signed-in user's packs.
+      version: 2,
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<SubscriptionState> & {
+          creditedTransactions?: unknown
+        }
+        if (version < 2) {
+          delete state.creditedTransactions
+          state.credits = 0
+          state.creditLedgers = {}
+        }
+        if (version < 1) {
+          const withEntitlements = (info?: SubscriptionInfo | null) =>
+            info ? { ...info, entitlements: info.isActive ? [ENTITLEMENTS.PRO] : [] } : null
+          state.customerInfo = withEntitlements(state.customerInfo)
+          state.webSubscriptionInfo = withEntitlements(state.webSubscriptionInfo)
+        }
+        return state as SubscriptionState
+      },
     },
   ),
 )
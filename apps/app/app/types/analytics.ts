@@ -27,6 +27,15 @@ export interface GroupProperties {
   [key: string]: string | number | boolean | null | undefined
 }
 
+/**
+ * Options for a single capture. Queued events pass their original time and the id they
+ * were given when tracked.
+ */
+export interface CaptureOptions {
+  uuid?: string
+  timestamp?: Date
+}
+
 export interface AnalyticsConfig {
   apiKey: string
   host?: string
@@ -46,10 +55,12 @@ export interface AnalyticsService {
 
   // Initialization
   initialize(config: AnalyticsConfig): Promise<void>
+  /** False until the SDK has loaded; events tracked before then are dropped */
+  isReady(): boolean
 
   // Events
-  track(event: string, properties?: EventProperties): void
-  screen(name: string, properties?: ScreenProperties): void
+  track(event: string, properties?: EventProperties, options?: CaptureOptions): void
+  screen(name: string, properties?: ScreenProperties, options?: CaptureOptions): void
 
   // User identification
   identify(userId: string, properties?: UserProperties): void
@@ -84,6 +95,169 @@ export function createEventName(category: string, action: string, label?: string
   return parts.join("_").toLowerCase()
 }
 
+export type AnalyticsPropertyType = "string" | "number" | "boolean"
+
+export interface AnalyticsPropertyDefinition {
+  type: AnalyticsPropertyType
+  required?: boolean
+  /** Allowed values, for string properties with a fixed set */
+  values?: readonly string[]
+  description?: string
+}
+
+export interface AnalyticsEventDefinition {
+  description: string
+  properties: Readonly<Record<string, AnalyticsPropertyDefinition>>
+  /** Accept properties that aren't listed, e.g. error tags or log metadata */
+  additionalProperties?: boolean
+}
+
+const NETWORK_QUALITIES = ["EXCELLENT", "GOOD", "FAIR", "POOR", "OFFLINE"] as const
+
+const signInProperties = {
+  method: { type: "string", description: "Sign-in provider, e.g. email, google or apple" },
+} as const
+
+const subscriptionProperties = {
+  product_id: { type: "string", description: "Store product identifier" },
+  price: { type: "number" },
+  currency: { type: "string", description: "ISO 4217 currency code" },
+} as const
+
+/**
+ * Every event the app sends, with the properties dashboards can rely on.
+ * `trackEvent` only accepts events listed here and checks their properties at compile
+ * time; in development they are also validated at runtime. Add new events here first.
+ */
+export const AnalyticsEventCatalog = {
+  // Authentication
+  signup_started: { description: "User started creating an account", properties: signInProperties },
+  signup_completed: { description: "Account created", properties: signInProperties },
+  login_started: { description: "User started signing in", properties: signInProperties },
+  login_completed: { description: "User signed in", properties: signInProperties },
+  logout: { description: "User signed out", properties: {} },
+
+  // Subscription
+  subscription_started: {
+    description: "User started a purchase",
+    properties: subscriptionProperties,
+  },
+  subscription_completed: {
+    description: "Purchase completed",
+    properties: subscriptionProperties,
+  },
+  subscription_cancelled: {
+    description: "User cancelled a purchase or subscription",
+    properties: { ...subscriptionProperties, reason: { type: "string" } },
+  },
+  subscription_restored: {
+    description: "Purchases restored",
+    properties: { product_id: subscriptionProperties.product_id },
+  },
+
+  // Onboarding
+  onboarding_started: { description: "Onboarding shown", properties: {} },
+  onboarding_completed: { description: "Onboarding finished", properties: {} },
+  onboarding_skipped: {
+    description: "User left onboarding early",
+    properties: { step: { type: "number", description: "Step the user skipped from" } },
+  },
+
+  // App lifecycle
+  app_opened: { description: "App came to the foreground", properties: {} },
+  app_backgrounded: { description: "App went to the background", properties: {} },
+
+  // Interaction
+  button_clicked: {
+    description: "User pressed a tracked button",
+    properties: { button: { type: "string" }, screen: { type: "string" } },
+  },
+
+  // Screens
+  screen_viewed: {
+    description: "Screen view tracked as an event",
+    properties: { screen_name: { type: "string", required: true } },
+  },
+
+  // Connectivity
+  network_connected: {
+    description: "Device came back online",
+    properties: {
+      type: { type: "string", required: true, description: "NetInfo connection type" },
+      quality: { type: "string", required: true, values: NETWORK_QUALITIES },
+    },
+  },
+  network_disconnected: {
+    description: "Device went offline",
+    properties: {
+      type: { type: "string", required: true, description: "NetInfo connection type" },
+      quality: { type: "string", required: true, values: NETWORK_QUALITIES },
+    },
+  },
+
+  // Errors and logs
+  error_occurred: {
+    description: "Error reported through trackError; error tags are added as properties",
+    properties: {
+      error_message: { type: "string", required: true },
+      error_stack: { type: "string" },
+    },
+    additionalProperties: true,
+  },
+  log_warn: {
+    description: "Warning logged in production; log metadata is added as properties",
+    properties: { message: { type: "string", required: true } },
+    additionalProperties: true,
+  },
+  log_error: {
+    description: "Error logged in production; log metadata is added as properties",
+    properties: { message: { type: "string", required: true } },
+    additionalProperties: true,
+  },
+} as const satisfies Record<string, AnalyticsEventDefinition>
+
+export type AnalyticsEventName = keyof typeof AnalyticsEventCatalog
+
+type PropertyDefinitionsOf<E extends AnalyticsEventName> =
+  (typeof AnalyticsEventCatalog)[E]["properties"]
+
+type RequiredKeys<Properties> = {
+  [K in keyof Properties]: Properties[K] extends { required: true } ? K : never
+}[keyof Properties]
+
+type PropertyValue<Definition> = Definition extends { values: readonly (infer Value)[] }
+  ? Value
+  : Definition extends { type: "number" }
+    ? number
+    : Definition extends { type: "boolean" }
+      ? boolean
+      : string
+
+type DeclaredProperties<Properties> = {
+  [K in RequiredKeys<Properties>]: PropertyValue<Properties[K]>
+} & {
+  [K in Exclude<keyof Properties, RequiredKeys<Properties>>]?: PropertyValue<Properties[K]> | null
+}
+
+/**
+ * Properties accepted for an event in the catalog
+ */
+export type AnalyticsEventProperties<E extends AnalyticsEventName> =
+  (typeof AnalyticsEventCatalog)[E] extends { additionalProperties: true }
+    ? DeclaredProperties<PropertyDefinitionsOf<E>> & EventProperties
+    : [keyof PropertyDefinitionsOf<E>] extends [never]
+      ? Record<string, never>
+      : DeclaredProperties<PropertyDefinitionsOf<E>>
+
+/**
+ * Arguments after the event name: properties are optional unless the event requires some
+ */
+export type AnalyticsEventArgs<E extends AnalyticsEventName> = [
+  RequiredKeys<PropertyDefinitionsOf<E>>,
+] extends [never]
+  ? [properties?: AnalyticsEventProperties<E>]
+  : [properties: AnalyticsEventProperties<E>]
+
 /**
  * Standard event names for common actions
  */
@@ -110,12 +284,19 @@ export const AnalyticsEvents = {
   APP_OPENED: "app_opened",
   APP_BACKGROUNDED: "app_backgrounded",
 
+  // Interaction
+  BUTTON_CLICKED: "button_clicked",
+
   // Screens
   SCREEN_VIEWED: "screen_viewed",
 
+  // Connectivity
+  NETWORK_CONNECTED: "network_connected",
+  NETWORK_DISCONNECTED: "network_disconnected",
+
   // Errors
   ERROR_OCCURRED: "error_occurred",
-} as const
+} as const satisfies Record<string, AnalyticsEventName>
 
 /**
  * Standard screen names
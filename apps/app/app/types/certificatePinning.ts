@@ -0,0 +1,44 @@
+/**
+ * Certificate Pinning Types
+ */
+
+/**
+ * - `enforce`: requests to a host whose certificate doesn't match its pins are blocked
+ * - `report-only`: mismatches are reported to Sentry and requests still go out
+ * - `off`: pins are not checked
+ */
+export type CertificatePinningMode = "enforce" | "report-only" | "off"
+
+/**
+ * Pins for one host
+ */
+export interface CertificatePinConfig {
+  hostname: string
+  /** Base64 SHA-256 hashes of the certificate's public key, optionally prefixed with `sha256/` */
+  publicKeyHashes: string[]
+  /** Hashes of the next key, accepted alongside the current ones while certificates rotate */
+  backupHashes?: string[]
+  /** Last day (YYYY-MM-DD) the pins are checked, so an outdated app doesn't lock itself out */
+  expiresAt?: string
+  /** Also pin every subdomain of `hostname` */
+  includeSubdomains?: boolean
+}
+
+/**
+ * Pinning state, as reported by `runSecurityChecks`
+ */
+export interface CertificatePinningStatus {
+  mode: CertificatePinningMode
+  /** Whether requests are pinned on this platform (Android only; see certificatePinning.ts) */
+  platformSupported: boolean
+  /** Whether the native module that pins requests is usable (not on iOS, web or in Expo Go) */
+  nativeModuleAvailable: boolean
+  /** Hosts with pins that are checked */
+  pinnedHosts: string[]
+  /** Hosts whose pins have expired and are no longer checked */
+  expiredHosts: string[]
+  /** Hosts whose pins expire within `PIN_EXPIRY_WARNING_DAYS` */
+  expiringHosts: string[]
+  /** Hosts whose last check found a certificate that matches none of their pins */
+  failedHosts: string[]
+}
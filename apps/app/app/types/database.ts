@@ -7,10 +7,44 @@
 
 export type DatabaseProvider = "supabase" | "mock"
 
+/**
+ * PostgREST filter operators
+ * - cs/cd/ov: contains, contained by, overlaps (arrays, jsonb and ranges)
+ * - sl/sr/nxl/nxr/adj: range left of, right of, not extending left/right, adjacent
+ * - fts/plfts/phfts/wfts: full text search (to_tsquery, plain, phrase, websearch)
+ */
+export type FilterOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "like"
+  | "ilike"
+  | "match"
+  | "imatch"
+  | "in"
+  | "is"
+  | "isdistinct"
+  | "cs"
+  | "cd"
+  | "ov"
+  | "sl"
+  | "sr"
+  | "nxl"
+  | "nxr"
+  | "adj"
+  | "fts"
+  | "plfts"
+  | "phfts"
+  | "wfts"
+
 export interface QueryFilter {
   column: string
-  operator: "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "like" | "ilike" | "in"
+  operator: FilterOperator
   value: unknown
+  negate?: boolean
 }
 
 export interface QueryOptions {
@@ -21,6 +55,26 @@ export interface QueryOptions {
   select?: string
 }
 
+/**
+ * Options for select queries
+ * - count: also return the number of matching rows, ignoring range/limit
+ * - head: only return the count, without any rows
+ */
+export interface SelectOptions {
+  count?: "exact" | "planned" | "estimated"
+  head?: boolean
+}
+
+/**
+ * Options for upserts
+ * - onConflict: comma-separated columns of the unique constraint to resolve conflicts on
+ * - ignoreDuplicates: skip conflicting rows instead of updating them
+ */
+export interface UpsertOptions {
+  onConflict?: string
+  ignoreDuplicates?: boolean
+}
+
 export interface DatabaseResponse<T = unknown> {
   data: T | null
   error: Error | null
@@ -29,7 +83,7 @@ export interface DatabaseResponse<T = unknown> {
 
 export interface DatabaseTable<T = unknown> {
   // Select
-  select(columns?: string): DatabaseQuery<T>
+  select(columns?: string, options?: SelectOptions): DatabaseQuery<T>
 
   // Insert
   insert(data: Partial<T> | Partial<T>[]): Promise<DatabaseResponse<T>>
@@ -41,7 +95,7 @@ export interface DatabaseTable<T = unknown> {
   delete(): DatabaseQuery<T>
 
   // Upsert
-  upsert?(data: Partial<T> | Partial<T>[]): Promise<DatabaseResponse<T>>
+  upsert?(data: Partial<T> | Partial<T>[], options?: UpsertOptions): Promise<DatabaseResponse<T>>
 }
 
 export interface DatabaseQuery<T = unknown> {
@@ -54,7 +108,38 @@ export interface DatabaseQuery<T = unknown> {
   lte(column: string, value: unknown): DatabaseQuery<T>
   like(column: string, pattern: string): DatabaseQuery<T>
   ilike(column: string, pattern: string): DatabaseQuery<T>
-  in(column: string, values: unknown[]): DatabaseQuery<T>
+  in(column: string, values: readonly unknown[]): DatabaseQuery<T>
+  is(column: string, value: boolean | null): DatabaseQuery<T>
+  contains(
+    column: string,
+    value: string | readonly unknown[] | Record<string, unknown>,
+  ): DatabaseQuery<T>
+  containedBy(
+    column: string,
+    value: string | readonly unknown[] | Record<string, unknown>,
+  ): DatabaseQuery<T>
+  overlaps(column: string, value: string | readonly unknown[]): DatabaseQuery<T>
+  textSearch(
+    column: string,
+    query: string,
+    options?: { config?: string; type?: "plain" | "phrase" | "websearch" },
+  ): DatabaseQuery<T>
+
+  // Range filters
+  rangeGt(column: string, range: string): DatabaseQuery<T>
+  rangeGte(column: string, range: string): DatabaseQuery<T>
+  rangeLt(column: string, range: string): DatabaseQuery<T>
+  rangeLte(column: string, range: string): DatabaseQuery<T>
+  rangeAdjacent(column: string, range: string): DatabaseQuery<T>
+
+  // Logical filters
+  not(column: string, operator: FilterOperator, value: unknown): DatabaseQuery<T>
+  or(filters: string, options?: { referencedTable?: string }): DatabaseQuery<T>
+  filter(
+    column: string,
+    operator: FilterOperator | `not.${FilterOperator}`,
+    value: unknown,
+  ): DatabaseQuery<T>
 
   // Ordering
   order(column: string, options?: { ascending?: boolean }): DatabaseQuery<T>
@@ -0,0 +1,83 @@
+/**
+ * User Preference Types
+ *
+ * Every preference the app syncs between devices. Values are stored per field with the
+ * time they were set, in the `preferences` column of the profiles table.
+ */
+
+export type PreferenceType = "boolean" | "string" | "number"
+
+export interface PreferenceDefinition {
+  type: PreferenceType
+  /** Value used until the user sets one */
+  default: boolean | string | number
+  description: string
+  /** Also written to the profiles column of the same name, for server-side readers */
+  column?: boolean
+}
+
+/**
+ * Synced user preferences. Add new ones here; `getPreference` and `setPreference` pick
+ * up their types.
+ */
+export const PreferenceCatalog = {
+  dark_mode_enabled: {
+    type: "boolean",
+    default: false,
+    description: "Dark theme instead of light",
+    column: true,
+  },
+  notifications_enabled: {
+    type: "boolean",
+    default: true,
+    description: "Notifications of any kind",
+    column: true,
+  },
+  push_notifications_enabled: {
+    type: "boolean",
+    default: true,
+    description: "Push notifications",
+    column: true,
+  },
+  email_notifications_enabled: {
+    type: "boolean",
+    default: true,
+    description: "Email notifications",
+    column: true,
+  },
+  language: { type: "string", default: "en", description: "App language code" },
+  haptics_enabled: { type: "boolean", default: true, description: "Haptic feedback on touch" },
+  reduce_motion_enabled: {
+    type: "boolean",
+    default: false,
+    description: "Fewer and shorter animations",
+  },
+  defer_large_uploads: {
+    type: "boolean",
+    default: false,
+    description: "Hold large uploads until off cellular or a poor connection",
+  },
+} as const satisfies Record<string, PreferenceDefinition>
+
+export type PreferenceKey = keyof typeof PreferenceCatalog
+
+interface PreferenceTypeMap {
+  boolean: boolean
+  string: string
+  number: number
+}
+
+export type PreferenceValue<K extends PreferenceKey> =
+  PreferenceTypeMap[(typeof PreferenceCatalog)[K]["type"]]
+
+/**
+ * A preference value and when it was set (ISO 8601)
+ */
+export interface VersionedPreference<T = unknown> {
+  value: T
+  updated_at: string
+}
+
+export type VersionedPreferences = {
+  [K in PreferenceKey]?: VersionedPreference<PreferenceValue<K>>
+}
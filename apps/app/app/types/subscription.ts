@@ -9,6 +9,12 @@ export type SubscriptionPlatform = "revenuecat" | "revenuecat-web" | "mock"
 
 export type SubscriptionStatus = "active" | "cancelled" | "expired" | "trial" | "none"
 
+/**
+ * Consumables (e.g. credit packs) can be bought again and again; non-consumables
+ * (e.g. a lifetime unlock) are bought once and restored on every device
+ */
+export type ProductType = "subscription" | "consumable" | "non_consumable"
+
 /**
  * Subscription lifecycle events
  */
@@ -40,6 +46,7 @@ export interface SubscriptionInfo {
   willRenew: boolean
   isActive: boolean
   isTrial: boolean
+  entitlements: string[] // Active entitlement identifiers (e.g., ["pro", "storage_plus"])
   // Enhanced fields
   introPrice?: string | null // Introductory pricing (e.g., "$0.99 for first month")
   introPricePeriod?: string | null // "1 month", "3 months", etc.
@@ -47,17 +54,29 @@ export interface SubscriptionInfo {
   originalPurchaseDate?: string | null
   billingIssueDetectedAt?: string | null
   gracePeriodExpiresAt?: string | null
+  nonSubscriptionTransactions?: StoreTransaction[] // One-off purchases, undefined if not reported
+}
+
+/**
+ * A store purchase, as recorded by RevenueCat
+ */
+export interface StoreTransaction {
+  transactionId: string
+  productId: string
+  purchaseDate: string
 }
 
 export interface PricingPackage {
   id: string
   identifier: string
+  productId?: string // Store product identifier (e.g., "pro_monthly")
   title: string
   description: string
   price: number
   priceString: string
   currencyCode: string
-  billingPeriod: "monthly" | "annual" | "lifetime"
+  billingPeriod: "monthly" | "annual" | "lifetime" | "one_time" // "one_time" for consumables
+  productType?: ProductType // Defaults to "subscription"
   platform: SubscriptionPlatform
   // Platform-specific data
   platformData?: unknown
@@ -72,6 +91,50 @@ export interface PricingPackage {
   freeTrialPeriodCount?: number | null
 }
 
+/**
+ * A named set of packages configured in RevenueCat, e.g. for a paywall experiment
+ */
+export interface SubscriptionOffering {
+  identifier: string
+  description: string
+  packages: PricingPackage[]
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * How a change between subscription products is billed. Mirrors Google Play's replacement
+ * modes; the App Store applies upgrades immediately and defers downgrades on its own.
+ */
+export type ProrationMode =
+  | "immediate_with_time_proration" // Switch now; unused time becomes extra time on the new plan
+  | "immediate_and_charge_prorated_price" // Switch now; charge the price difference, keep the billing date
+  | "immediate_without_proration" // Switch now at no charge; the new price applies from the billing date
+  | "immediate_and_charge_full_price" // Switch now and charge a full period; unused time is credited
+  | "deferred" // Switch at the next renewal
+
+export interface ProductChange {
+  oldProductId: string
+  prorationMode?: ProrationMode // Defaults to "immediate_with_time_proration"
+}
+
+/**
+ * A signed discount on a subscription product, such as a win-back or upgrade offer
+ */
+export interface PromotionalOffer {
+  identifier: string
+  productId: string
+  price: number
+  priceString: string
+  cycles: number // Number of billing periods the discount applies for
+  period: string // ISO 8601 duration of one discounted period (e.g., "P1M")
+  platformData?: unknown // Signed offer passed back to the store at purchase
+}
+
+export interface PurchaseOptions {
+  productChange?: ProductChange
+  promotionalOffer?: PromotionalOffer
+}
+
 export interface SubscriptionService {
   platform: SubscriptionPlatform
 
@@ -87,9 +150,21 @@ export interface SubscriptionService {
 
   // Packages/Products
   getPackages(): Promise<PricingPackage[]>
+  getOffering(offeringId: string): Promise<SubscriptionOffering | null>
 
   // Purchase
-  purchasePackage(pkg: PricingPackage): Promise<{
+  purchasePackage(
+    pkg: PricingPackage,
+    options?: PurchaseOptions,
+  ): Promise<{
+    subscriptionInfo: SubscriptionInfo
+    transaction?: StoreTransaction
+    error?: Error
+  }>
+
+  // Offers
+  getPromotionalOffers?(pkg: PricingPackage): Promise<PromotionalOffer[]>
+  redeemOfferCode?(code?: string): Promise<{
     subscriptionInfo: SubscriptionInfo
     error?: Error
   }>
@@ -124,6 +199,7 @@ export function createSubscriptionInfo(
     willRenew: false,
     isActive: false,
     isTrial: false,
+    entitlements: [],
   }
 
   if (!data) return defaultInfo
@@ -1,3 +1,5 @@
+import type { VersionedPreferences } from "./preferences"
+
 export type SupabaseDatabase = {
   public: {
     Tables: {
@@ -12,6 +14,7 @@ export type SupabaseDatabase = {
           notifications_enabled: boolean | null
           push_notifications_enabled: boolean | null
           email_notifications_enabled: boolean | null
+          preferences: VersionedPreferences | null
           updated_at: string | null
         }
         Insert: {
@@ -24,6 +27,7 @@ export type SupabaseDatabase = {
           notifications_enabled?: boolean | null
           push_notifications_enabled?: boolean | null
           email_notifications_enabled?: boolean | null
+          preferences?: VersionedPreferences | null
           updated_at?: string | null
         }
         Update: {
@@ -36,6 +40,7 @@ export type SupabaseDatabase = {
           notifications_enabled?: boolean | null
           push_notifications_enabled?: boolean | null
           email_notifications_enabled?: boolean | null
+          preferences?: VersionedPreferences | null
           updated_at?: string | null
         }
         Relationships: []
@@ -79,16 +84,71 @@ export type SupabaseDatabase = {
         }
         Relationships: []
       }
+      subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          product_id: string
+          entitlements: string[]
+          status: "active" | "trial" | "cancelled" | "expired"
+          will_renew: boolean
+          store: string | null
+          environment: "SANDBOX" | "PRODUCTION" | null
+          expires_at: string | null
+          grace_period_expires_at: string | null
+          billing_issue_detected_at: string | null
+          last_event_id: string | null
+          last_event_type: string | null
+          last_event_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        // Written only by the revenuecat-webhook Edge Function
+        Insert: Record<string, never>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      credit_spends: {
+        Row: {
+          id: string
+          user_id: string
+          transaction_id: string
+          amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          transaction_id: string
+          amount: number
+          created_at?: string
+        }
+        // Append-only: no update policy
+        Update: Record<string, never>
+        Relationships: []
+      }
     }
     Views: Record<string, never>
-    Functions: Record<string, never>
+    Functions: {
+      // Merges versioned preferences into the caller's profile, keeping the newer entry per key
+      merge_user_preferences: {
+        Args: { patch: Record<string, { value: unknown; updated_at: string }> }
+        Returns: Record<string, { value: unknown; updated_at: string }>
+      }
+    }
     Enums: Record<string, never>
     CompositeTypes: Record<string, never>
   }
 }
 
 /**
- * User preferences that sync to the profiles table
+ * A product the user bought, as mirrored from RevenueCat webhooks
+ */
+export type ServerSubscription = SupabaseDatabase["public"]["Tables"]["subscriptions"]["Row"]
+
+/**
+ * Preference columns on the profiles table, kept for server-side readers.
+ * The app syncs the versioned `preferences` column (see types/preferences).
  */
 export interface UserPreferences {
   dark_mode_enabled: boolean | null
@@ -0,0 +1,117 @@
+/**
+ * Analytics Event Schema Tests
+ */
+
+import { AnalyticsEventCatalog } from "../../types/analytics"
+import { trackEvent } from "../analytics"
+import { getAnalyticsEventJsonSchema, validateAnalyticsEvent } from "../analyticsSchema"
+import { logger } from "../Logger"
+
+const mockQueueTrack = jest.fn()
+
+jest.mock("../../services/analyticsQueue", () => ({
+  analyticsQueue: { track: (...args: unknown[]) => mockQueueTrack(...args) },
+}))
+
+describe("validateAnalyticsEvent", () => {
+  it("accepts events that match the catalog", () => {
+    expect(validateAnalyticsEvent("logout")).toEqual([])
+    expect(validateAnalyticsEvent("login_completed", { method: "email" })).toEqual([])
+    expect(validateAnalyticsEvent("subscription_started", { price: null })).toEqual([])
+  })
+
+  it("reports unknown events", () => {
+    expect(validateAnalyticsEvent("product_viewed")).toEqual([
+      'unknown event "product_viewed"; add it to AnalyticsEventCatalog',
+    ])
+  })
+
+  it("reports missing, mistyped and out-of-range properties", () => {
+    expect(validateAnalyticsEvent("network_connected", { quality: "AMAZING" })).toEqual([
+      'missing required property "type"',
+      '"quality" should be one of EXCELLENT, GOOD, FAIR, POOR, OFFLINE, got "AMAZING"',
+    ])
+    expect(validateAnalyticsEvent("onboarding_skipped", { step: "2" })).toEqual([
+      '"step" should be a number, got string',
+    ])
+  })
+
+  it("reports unexpected properties unless the event allows them", () => {
+    expect(validateAnalyticsEvent("logout", { reason: "idle" })).toEqual([
+      'unexpected property "reason"',
+    ])
+    expect(
+      validateAnalyticsEvent("error_occurred", { error_message: "Boom", screen: "Home" }),
+    ).toEqual([])
+  })
+})
+
+describe("getAnalyticsEventJsonSchema", () => {
+  it("describes every event in the catalog", () => {
+    const schema = getAnalyticsEventJsonSchema() as { $defs: Record<string, unknown> }
+
+    expect(Object.keys(schema.$defs)).toEqual(Object.keys(AnalyticsEventCatalog))
+    expect(schema.$defs.network_connected).toEqual({
+      description: "Device came back online",
+      type: "object",
+      properties: {
+        type: { type: "string", description: "NetInfo connection type" },
+        quality: { type: "string", enum: ["EXCELLENT", "GOOD", "FAIR", "POOR", "OFFLINE"] },
+      },
+      required: ["type", "quality"],
+      additionalProperties: false,
+    })
+    expect(schema.$defs.onboarding_skipped).toMatchObject({
+      properties: { step: { type: ["number", "null"] } },
+      required: [],
+    })
+  })
+
+  it("is serializable", () => {
+    const schema = getAnalyticsEventJsonSchema()
+    expect(JSON.parse(JSON.stringify(schema))).toEqual(schema)
+  })
+})
+
+describe("trackEvent", () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it("queues catalog events without warnings", () => {
+    trackEvent("network_disconnected", { type: "none", quality: "OFFLINE" })
+
+    expect(mockQueueTrack).toHaveBeenCalledWith("network_disconnected", {
+      type: "none",
+      quality: "OFFLINE",
+    })
+    expect(logger.warn).not.toHaveBeenCalled()
+  })
+
+  it("rejects events and properties outside the catalog at compile time", () => {
+    // @ts-expect-error unknown event
+    trackEvent("product_viewed")
+    // @ts-expect-error required properties missing
+    trackEvent("screen_viewed")
+    // @ts-expect-error wrong property type
+    trackEvent("onboarding_skipped", { step: "2" })
+    // @ts-expect-error value outside the allowed set
+    trackEvent("network_connected", { type: "wifi", quality: "AMAZING" })
+    // @ts-expect-error event has no properties
+    trackEvent("logout", { reason: "idle" })
+
+    expect(logger.warn).toHaveBeenCalledTimes(5)
+  })
+
+  it("warns in development when untyped code sends a bad event", () => {
+    const untypedTrackEvent = trackEvent as (event: string, properties?: object) => void
+    untypedTrackEvent("log_warn", { message: 42 })
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Analytics event "log_warn" does not match the catalog',
+      { problems: ['"message" should be a string, got number'] },
+    )
+    // Still queued, so a bad event is never lost
+    expect(mockQueueTrack).toHaveBeenCalledWith("log_warn", { message: 42 })
+  })
+})
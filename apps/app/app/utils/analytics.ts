@@ -4,9 +4,15 @@
  * Convenient helpers for tracking events, screens, and errors across the app.
  */
 
+import { validateAnalyticsEvent } from "./analyticsSchema"
+import { logger } from "./Logger"
+import { analyticsQueue } from "../services/analyticsQueue"
 import { posthog } from "../services/posthog"
 import { sentry } from "../services/sentry"
 import type {
+  AnalyticsEventArgs,
+  AnalyticsEventName,
+  AnalyticsEventProperties,
   EventProperties,
   UserProperties,
   ScreenProperties,
@@ -17,17 +23,28 @@ import type { ErrorContext, Breadcrumb } from "../types/errorTracking"
 import { BreadcrumbCategories } from "../types/errorTracking"
 
 /**
- * Track a custom event
+ * Track an event from `AnalyticsEventCatalog`. Events are queued on disk and sent to
+ * PostHog in batches.
  */
-export function trackEvent(event: string, properties?: EventProperties): void {
-  posthog.track(event, properties)
+export function trackEvent<E extends AnalyticsEventName>(
+  event: E,
+  ...[properties]: AnalyticsEventArgs<E>
+): void {
+  if (__DEV__) {
+    // Catches events tracked from untyped code, e.g. dynamic names or spread metadata
+    const problems = validateAnalyticsEvent(event, properties as EventProperties | undefined)
+    if (problems.length > 0) {
+      logger.warn(`Analytics event "${event}" does not match the catalog`, { problems })
+    }
+  }
+  analyticsQueue.track(event, properties as EventProperties | undefined)
 }
 
 /**
  * Track a screen view
  */
 export function trackScreen(screenName: string, properties?: ScreenProperties): void {
-  posthog.screen(screenName, properties)
+  analyticsQueue.screen(screenName, properties)
 
   // Also add breadcrumb for Sentry
   sentry.addBreadcrumb({
@@ -42,6 +59,8 @@ export function trackScreen(screenName: string, properties?: ScreenProperties):
  * Identify a user
  */
 export function identifyUser(userId: string, properties?: UserProperties): void {
+  // Capture what's queued first so earlier events aren't attributed to the new user
+  analyticsQueue.captureAll()
   posthog.identify(userId, properties)
 
   sentry.setUser({
@@ -54,6 +73,7 @@ export function identifyUser(userId: string, properties?: UserProperties): void
  * Clear user identification (on logout)
  */
 export function clearUser(): void {
+  analyticsQueue.captureAll()
   posthog.reset()
   sentry.setUser(null)
 }
@@ -66,7 +86,7 @@ export function trackError(error: Error, context?: ErrorContext): void {
   sentry.captureException(error, context)
 
   // Also track in analytics
-  posthog.track(AnalyticsEvents.ERROR_OCCURRED, {
+  trackEvent(AnalyticsEvents.ERROR_OCCURRED, {
     error_message: error.message,
     error_stack: error.stack,
     ...context?.tags,
@@ -112,21 +132,35 @@ export function setUserProperties(properties: UserProperties): void {
   posthog.setUserProperties(properties)
 }
 
+/**
+ * Grant or withdraw analytics consent. Withdrawing drops any events not yet sent.
+ */
+export function setAnalyticsConsent(granted: boolean): void {
+  analyticsQueue.setConsent(granted)
+}
+
+/**
+ * Whether analytics events are being collected
+ */
+export function hasAnalyticsConsent(): boolean {
+  return analyticsQueue.hasConsent()
+}
+
 /**
  * Track authentication events
  */
 export const trackAuth = {
-  signupStarted: (properties?: EventProperties) => {
+  signupStarted: (properties?: AnalyticsEventProperties<"signup_started">) => {
     trackEvent(AnalyticsEvents.SIGNUP_STARTED, properties)
   },
-  signupCompleted: (userId: string, properties?: EventProperties) => {
+  signupCompleted: (userId: string, properties?: AnalyticsEventProperties<"signup_completed">) => {
     trackEvent(AnalyticsEvents.SIGNUP_COMPLETED, properties)
     identifyUser(userId, properties as UserProperties)
   },
-  loginStarted: (properties?: EventProperties) => {
+  loginStarted: (properties?: AnalyticsEventProperties<"login_started">) => {
     trackEvent(AnalyticsEvents.LOGIN_STARTED, properties)
   },
-  loginCompleted: (userId: string, properties?: EventProperties) => {
+  loginCompleted: (userId: string, properties?: AnalyticsEventProperties<"login_completed">) => {
     trackEvent(AnalyticsEvents.LOGIN_COMPLETED, properties)
     identifyUser(userId, properties as UserProperties)
   },
@@ -140,7 +174,7 @@ export const trackAuth = {
  * Track subscription events
  */
 export const trackSubscription = {
-  started: (properties?: EventProperties) => {
+  started: (properties?: AnalyticsEventProperties<"subscription_started">) => {
     trackEvent(AnalyticsEvents.SUBSCRIPTION_STARTED, properties)
     addBreadcrumb({
       category: BreadcrumbCategories.SUBSCRIPTION,
@@ -148,7 +182,7 @@ export const trackSubscription = {
       data: properties,
     })
   },
-  completed: (properties?: EventProperties) => {
+  completed: (properties?: AnalyticsEventProperties<"subscription_completed">) => {
     trackEvent(AnalyticsEvents.SUBSCRIPTION_COMPLETED, properties)
     addBreadcrumb({
       category: BreadcrumbCategories.SUBSCRIPTION,
@@ -156,7 +190,7 @@ export const trackSubscription = {
       data: properties,
     })
   },
-  cancelled: (properties?: EventProperties) => {
+  cancelled: (properties?: AnalyticsEventProperties<"subscription_cancelled">) => {
     trackEvent(AnalyticsEvents.SUBSCRIPTION_CANCELLED, properties)
     addBreadcrumb({
       category: BreadcrumbCategories.SUBSCRIPTION,
@@ -164,7 +198,7 @@ export const trackSubscription = {
       data: properties,
     })
   },
-  restored: (properties?: EventProperties) => {
+  restored: (properties?: AnalyticsEventProperties<"subscription_restored">) => {
     trackEvent(AnalyticsEvents.SUBSCRIPTION_RESTORED, properties)
   },
 }
@@ -0,0 +1,94 @@
+/**
+ * Analytics Event Schema
+ *
+ * Runtime checks and JSON Schema export for the event catalog in `types/analytics.ts`.
+ */
+
+import type {
+  AnalyticsEventDefinition,
+  AnalyticsPropertyDefinition,
+  EventProperties,
+} from "../types/analytics"
+import { AnalyticsEventCatalog } from "../types/analytics"
+
+const catalog: Readonly<Record<string, AnalyticsEventDefinition>> = AnalyticsEventCatalog
+
+function describeValue(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : String(value)
+}
+
+function checkProperty(
+  name: string,
+  definition: AnalyticsPropertyDefinition,
+  value: EventProperties[string],
+): string | null {
+  if (value === undefined || value === null) {
+    return definition.required ? `missing required property "${name}"` : null
+  }
+  if (typeof value !== definition.type) {
+    return `"${name}" should be a ${definition.type}, got ${typeof value}`
+  }
+  if (definition.values && !definition.values.includes(value as string)) {
+    return `"${name}" should be one of ${definition.values.join(", ")}, got ${describeValue(value)}`
+  }
+  return null
+}
+
+/**
+ * Check an event against the catalog. Returns the problems found, or an empty array.
+ */
+export function validateAnalyticsEvent(event: string, properties?: EventProperties): string[] {
+  const definition = catalog[event]
+  if (!definition) return [`unknown event "${event}"; add it to AnalyticsEventCatalog`]
+
+  const problems: string[] = []
+  for (const [name, propertyDefinition] of Object.entries(definition.properties)) {
+    const problem = checkProperty(name, propertyDefinition, properties?.[name])
+    if (problem) problems.push(problem)
+  }
+
+  if (!definition.additionalProperties) {
+    for (const name of Object.keys(properties ?? {})) {
+      if (!(name in definition.properties)) problems.push(`unexpected property "${name}"`)
+    }
+  }
+  return problems
+}
+
+/**
+ * JSON Schema (draft 2020-12) describing every event in the catalog, for the data team.
+ * Each event is a definition under `$defs`, keyed by event name.
+ */
+export function getAnalyticsEventJsonSchema(): Record<string, unknown> {
+  const definitions: Record<string, unknown> = {}
+
+  for (const [event, definition] of Object.entries(catalog)) {
+    const properties: Record<string, unknown> = {}
+    for (const [name, property] of Object.entries(definition.properties)) {
+      properties[name] = {
+        type: property.required ? property.type : [property.type, "null"],
+        ...(property.values && {
+          enum: property.required ? [...property.values] : [...property.values, null],
+        }),
+        ...(property.description && { description: property.description }),
+      }
+    }
+
+    definitions[event] = {
+      description: definition.description,
+      type: "object",
+      properties,
+      required: Object.entries(definition.properties)
+        .filter(([, property]) => property.required)
+        .map(([name]) => name),
+      additionalProperties: definition.additionalProperties ?? false,
+    }
+  }
+
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "Analytics events",
+    description: "Properties sent with each analytics event, keyed by event name",
+    $defs: definitions,
+  }
+}
@@ -4,6 +4,7 @@
  * Provides haptic feedback for interactive elements.
  * Gracefully handles platforms where haptics are not available (web).
  * Checks device capabilities before triggering haptics to prevent errors.
+ * Does nothing when the user has turned off the `haptics_enabled` preference.
  */
 
 import { Platform } from "react-native"
@@ -11,6 +12,7 @@ import * as Haptics from "expo-haptics"
 
 import { checkHapticsSupport, checkHapticsSupportSync } from "./hapticsCapability"
 import { logger } from "./Logger"
+import { getPreference } from "./preferences"
 
 /**
  * Check if haptics are available on this platform
@@ -23,7 +25,7 @@ const isHapticsAvailable = Platform.OS === "ios" || Platform.OS === "android"
  * Checks device capabilities before triggering
  */
 async function _safeHapticTrigger(hapticFunction: () => Promise<void> | void): Promise<void> {
-  if (!isHapticsAvailable) {
+  if (!isHapticsAvailable || !getPreference("haptics_enabled")) {
     return
   }
 
@@ -51,7 +53,7 @@ async function _safeHapticTrigger(hapticFunction: () => Promise<void> | void): P
  * Uses cached capability result or defaults to attempting haptics
  */
 function safeHapticTriggerSync(hapticFunction: () => Promise<void> | void): void {
-  if (!isHapticsAvailable) {
+  if (!isHapticsAvailable || !getPreference("haptics_enabled")) {
     return
   }
 
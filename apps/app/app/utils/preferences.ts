@@ -0,0 +1,115 @@
+/**
+ * User Preferences
+ *
+ * Typed preferences stored on the device, each with the time it was set. The timestamps
+ * let preferencesSync merge them field by field with the copy in Supabase, so a change
+ * made on one device is not overwritten by an older change from another.
+ */
+
+import { useCallback, useEffect, useState } from "react"
+
+import * as storage from "./storage"
+import {
+  PreferenceCatalog,
+  type PreferenceKey,
+  type PreferenceValue,
+  type VersionedPreferences,
+} from "../types/preferences"
+
+const PREFERENCES_STORAGE_KEY = "shipnative.preferences"
+
+/**
+ * Whether a change was made on this device or came from another one through sync
+ */
+export type PreferenceChangeSource = "local" | "remote"
+
+export type PreferenceListener = (
+  key: PreferenceKey,
+  value: unknown,
+  source: PreferenceChangeSource,
+) => void
+
+const listeners = new Set<PreferenceListener>()
+
+/**
+ * All preferences set on this device, with their timestamps
+ */
+export function getVersionedPreferences(): VersionedPreferences {
+  return storage.load<VersionedPreferences>(PREFERENCES_STORAGE_KEY) ?? {}
+}
+
+/**
+ * Current value of a preference, or its catalog default
+ */
+export function getPreference<K extends PreferenceKey>(key: K): PreferenceValue<K> {
+  const value = getVersionedPreferences()[key]?.value ?? PreferenceCatalog[key].default
+  return value as PreferenceValue<K>
+}
+
+/**
+ * Set a preference on this device. Setting the current value does nothing, so applying a
+ * synced value can't come back as a new local change.
+ */
+export function setPreference<K extends PreferenceKey>(key: K, value: PreferenceValue<K>): void {
+  const preferences = getVersionedPreferences()
+  if (preferences[key]?.value === value) return
+
+  storage.save(PREFERENCES_STORAGE_KEY, {
+    ...preferences,
+    [key]: { value, updated_at: new Date().toISOString() },
+  })
+  listeners.forEach((listener) => listener(key, value, "local"))
+}
+
+/**
+ * Replace the stored preferences with the result of a merge with the server copy,
+ * keeping its timestamps. Returns the keys whose value changed; listeners hear about
+ * each of them.
+ */
+export function saveSyncedPreferences(preferences: VersionedPreferences): PreferenceKey[] {
+  const previous = getVersionedPreferences()
+  storage.save(PREFERENCES_STORAGE_KEY, preferences)
+
+  const changed = (Object.keys(preferences) as PreferenceKey[]).filter(
+    (key) => preferences[key]?.value !== previous[key]?.value,
+  )
+  changed.forEach((key) => {
+    listeners.forEach((listener) => listener(key, preferences[key]?.value, "remote"))
+  })
+  return changed
+}
+
+/**
+ * Listen for preference changes. Returns a function that removes the listener.
+ */
+export function addPreferenceListener(listener: PreferenceListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * React hook for a single preference, updated when it changes here or through sync
+ *
+ * @example
+ * const [reduceMotion] = usePreference("reduce_motion_enabled")
+ * const [hapticsEnabled, setHapticsEnabled] = usePreference("haptics_enabled")
+ */
+export function usePreference<K extends PreferenceKey>(
+  key: K,
+): [PreferenceValue<K>, (value: PreferenceValue<K>) => void] {
+  const [value, setValue] = useState(() => getPreference(key))
+
+  useEffect(
+    () =>
+      addPreferenceListener((changedKey) => {
+        if (changedKey === key) setValue(getPreference(key))
+      }),
+    [key],
+  )
+
+  const update = useCallback((next: PreferenceValue<K>) => setPreference(key, next), [key])
+
+  return [value, update]
+}
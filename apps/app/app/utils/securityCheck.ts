@@ -7,11 +7,13 @@
 
 import { logger } from "./Logger"
 import { certificatePinning } from "../services/certificatePinning"
+import type { CertificatePinningStatus } from "../types/certificatePinning"
 
 interface SecurityCheckResult {
   certificatePinning: {
     enabled: boolean
     configured: boolean
+    status: CertificatePinningStatus
     message: string
   }
   environment: {
@@ -25,6 +27,32 @@ interface SecurityCheckResult {
   }
 }
 
+function describePinning(status: CertificatePinningStatus, isProduction: boolean): string {
+  if (status.failedHosts.length > 0) {
+    return `⚠️ Certificate pin mismatch for ${status.failedHosts.join(", ")}`
+  }
+  if (status.mode === "off") {
+    return isProduction
+      ? "⚠️ Certificate pinning is turned off - recommended for production"
+      : "Certificate pinning disabled (development mode)"
+  }
+  if (status.pinnedHosts.length === 0) {
+    return isProduction
+      ? "⚠️ Certificate pinning is not configured - recommended for production"
+      : "Certificate pinning not configured"
+  }
+  if (!status.platformSupported) {
+    return "⚠️ Certificate pins are configured but pinning is Android only - requests on this platform are not pinned"
+  }
+  if (!status.nativeModuleAvailable) {
+    return "⚠️ Certificate pins are configured but the pinning native module is unavailable (Expo Go) - requests are not pinned"
+  }
+  if (status.mode === "report-only") {
+    return "Certificate pinning is in report-only mode - mismatches are reported, not blocked"
+  }
+  return "Certificate pinning is enabled"
+}
+
 /**
  * Run security configuration checks
  */
@@ -33,18 +61,16 @@ export function runSecurityChecks(): SecurityCheckResult {
   const isDevelopment = __DEV__
 
   // Check certificate pinning
+  const pinningStatus = certificatePinning.getStatus()
   const pinningEnabled = certificatePinning.isEnabled()
-  const pinningConfigured = pinningEnabled
+  const pinningConfigured = pinningStatus.pinnedHosts.length > 0
 
   const result: SecurityCheckResult = {
     certificatePinning: {
       enabled: pinningEnabled,
       configured: pinningConfigured,
-      message: pinningEnabled
-        ? "Certificate pinning is enabled"
-        : isProduction
-          ? "⚠️ Certificate pinning is not configured - recommended for production"
-          : "Certificate pinning disabled (development mode)",
+      status: pinningStatus,
+      message: describePinning(pinningStatus, isProduction),
     },
     environment: {
       isProduction,
@@ -58,10 +84,19 @@ export function runSecurityChecks(): SecurityCheckResult {
   }
 
   // Determine overall status
-  if (isProduction && !pinningConfigured) {
+  if (pinningStatus.failedHosts.length > 0) {
+    result.overall.status = "error"
+    result.overall.message = "A server certificate did not match its pins"
+  } else if (isProduction && !pinningEnabled) {
+    result.overall.status = "warning"
+    result.overall.message = "Production mode detected but certificate pinning not enforced"
+  } else if (isProduction && pinningStatus.mode === "report-only") {
+    result.overall.status = "warning"
+    result.overall.message = "Certificate pinning is in report-only mode"
+  } else if (pinningStatus.expiredHosts.length > 0 || pinningStatus.expiringHosts.length > 0) {
     result.overall.status = "warning"
-    result.overall.message = "Production mode detected but certificate pinning not configured"
-  } else if (isProduction && pinningConfigured) {
+    result.overall.message = "Certificate pins have expired or expire soon"
+  } else if (isProduction) {
     result.overall.status = "secure"
     result.overall.message = "All security checks passed"
   } else {
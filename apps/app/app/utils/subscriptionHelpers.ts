@@ -91,11 +91,12 @@ export function getPromotionalOfferText(pkg: PricingPackage, _locale?: string):
 /**
  * Get short billing period string for display
  */
-export function getBillingPeriodShort(period: "monthly" | "annual" | "lifetime"): string {
+export function getBillingPeriodShort(period: PricingPackage["billingPeriod"]): string {
   const map: Record<string, string> = {
     monthly: "mo",
     annual: "yr",
     lifetime: "lifetime",
+    one_time: "one-time",
   }
   return map[period] || period
 }
@@ -127,8 +128,12 @@ export function getFullPricingDescription(pkg: PricingPackage): string {
     parts.push(`${pkg.introPriceString} for ${pkg.introPricePeriod}`)
   }
 
-  // Regular price
-  parts.push(`${pkg.priceString}/${getBillingPeriodShort(pkg.billingPeriod)}`)
+  // Regular price (consumables are bought one at a time)
+  parts.push(
+    pkg.billingPeriod === "one_time"
+      ? pkg.priceString
+      : `${pkg.priceString}/${getBillingPeriodShort(pkg.billingPeriod)}`,
+  )
 
   return parts.join(" • ")
 }
@@ -144,8 +149,8 @@ export function detectLifecycleEvent(
   oldInfo: SubscriptionInfo | null,
   newInfo: SubscriptionInfo,
 ): SubscriptionLifecycleData | null {
-  // No previous state - initial subscription check
-  if (!oldInfo) {
+  // No previous state (initial subscription check) or never subscribed before
+  if (!oldInfo || (!oldInfo.isActive && !oldInfo.expirationDate)) {
     if (newInfo.isActive && newInfo.isTrial) {
       return {
         event: "trial_started",
@@ -185,6 +190,16 @@ export function detectLifecycleEvent(
     }
   }
 
+  // Billing issue detected (checked before renewal: a grace period also extends expiration)
+  if (!oldInfo.billingIssueDetectedAt && newInfo.billingIssueDetectedAt) {
+    return {
+      event: "billing_issue",
+      timestamp: new Date().toISOString(),
+      productId: newInfo.productId,
+      expirationDate: newInfo.expirationDate,
+    }
+  }
+
   // Subscription renewed (expiration date extended)
   if (
     oldInfo.isActive &&
@@ -221,16 +236,6 @@ export function detectLifecycleEvent(
     }
   }
 
-  // Billing issue detected
-  if (!oldInfo.billingIssueDetectedAt && newInfo.billingIssueDetectedAt) {
-    return {
-      event: "billing_issue",
-      timestamp: new Date().toISOString(),
-      productId: newInfo.productId,
-      expirationDate: newInfo.expirationDate,
-    }
-  }
-
   // Subscription restored (became active again)
   if (!oldInfo.isActive && newInfo.isActive) {
     return {
@@ -268,24 +273,25 @@ export function getLifecycleEventDescription(event: SubscriptionLifecycleEvent):
 // SUBSCRIPTION STATUS HELPERS
 // =============================================================================
 
+// The status helpers take an optional `now` so they can follow a mock clock
+
 /**
  * Check if subscription is in grace period
  */
-export function isInGracePeriod(info: SubscriptionInfo): boolean {
+export function isInGracePeriod(info: SubscriptionInfo, now: Date = new Date()): boolean {
   if (!info.gracePeriodExpiresAt) return false
 
   const gracePeriodExpiry = new Date(info.gracePeriodExpiresAt)
-  return gracePeriodExpiry > new Date()
+  return gracePeriodExpiry > now
 }
 
 /**
  * Get days remaining in subscription
  */
-export function getDaysRemaining(info: SubscriptionInfo): number | null {
+export function getDaysRemaining(info: SubscriptionInfo, now: Date = new Date()): number | null {
   if (!info.expirationDate) return null
 
   const expiry = new Date(info.expirationDate)
-  const now = new Date()
   const diff = expiry.getTime() - now.getTime()
   const days = Math.ceil(diff / (1000 * 60 * 60 * 24))
 
@@ -295,8 +301,12 @@ export function getDaysRemaining(info: SubscriptionInfo): number | null {
 /**
  * Check if subscription is about to expire (within X days)
  */
-export function isExpiringWithin(info: SubscriptionInfo, days: number): boolean {
-  const remaining = getDaysRemaining(info)
+export function isExpiringWithin(
+  info: SubscriptionInfo,
+  days: number,
+  now: Date = new Date(),
+): boolean {
+  const remaining = getDaysRemaining(info, now)
   return remaining !== null && remaining <= days && remaining > 0
 }
 
@@ -304,10 +314,14 @@ export function isExpiringWithin(info: SubscriptionInfo, days: number): boolean
  * Format expiration date relative to now
  * Examples: "expires in 5 days", "renews on Jan 15", "expired 3 days ago"
  */
-export function formatExpirationStatus(info: SubscriptionInfo, locale?: string): string | null {
+export function formatExpirationStatus(
+  info: SubscriptionInfo,
+  locale?: string,
+  now: Date = new Date(),
+): string | null {
   if (!info.expirationDate) return null
 
-  const remaining = getDaysRemaining(info)
+  const remaining = getDaysRemaining(info, now)
   if (remaining === null) return null
 
   const expiryDate = new Date(info.expirationDate)
@@ -0,0 +1,11 @@
+/**
+ * Generate a random v4 UUID, for ids that servers expect in UUID format
+ * (PostHog event ids, outbox idempotency keys).
+ */
+export function generateUuid(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16)
+    const value = char === "x" ? random : (random & 0x3) | 0x8
+    return value.toString(16)
+  })
+}
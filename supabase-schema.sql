@@ -9,6 +9,7 @@
 -- - User profiles with preferences
 -- - Push notification tokens
 -- - User preferences (dark mode, notifications, etc.)
+-- - Subscriptions mirrored from RevenueCat webhooks
 -- - Waitlist table for marketing page email collection
 -- =====================================================================
 
@@ -38,6 +39,9 @@ CREATE TABLE IF NOT EXISTS public.profiles (
     push_notifications_enabled BOOLEAN DEFAULT true,
     email_notifications_enabled BOOLEAN DEFAULT true,
 
+    -- Synced preferences: { "<key>": { "value": ..., "updated_at": "<ISO 8601>" } }
+    preferences JSONB DEFAULT '{}'::jsonb,
+
     -- Onboarding
     has_completed_onboarding BOOLEAN DEFAULT false,
     onboarding_completed_at TIMESTAMPTZ,
@@ -74,6 +78,20 @@ CREATE POLICY "Users can insert own profile"
 -- Create index for faster queries
 CREATE INDEX IF NOT EXISTS profiles_id_idx ON public.profiles(id);
 
+-- Add the preferences column to profiles tables created before it existed
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS preferences JSONB DEFAULT '{}'::jsonb;
+
+-- Broadcast profile changes over Realtime so preferences sync live between devices
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'profiles'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.profiles;
+    END IF;
+END $$;
+
 -- =====================================================================
 -- PUSH NOTIFICATION TOKENS TABLE
 -- =====================================================================
@@ -197,6 +215,101 @@ CREATE POLICY "Users can insert own preferences"
 -- Create index
 CREATE INDEX IF NOT EXISTS user_preferences_id_idx ON public.user_preferences(id);
 
+-- =====================================================================
+-- SUBSCRIPTIONS TABLE
+-- =====================================================================
+-- Server-side mirror of each user's RevenueCat purchases, one row per product
+-- Written only by the revenuecat-webhook Edge Function (service role)
+
+CREATE TABLE IF NOT EXISTS public.subscriptions (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+    -- User reference (RevenueCat app user id)
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+    -- Purchase
+    product_id TEXT NOT NULL,
+    entitlements JSONB NOT NULL DEFAULT '[]'::jsonb,
+    status TEXT NOT NULL CHECK (status IN ('active', 'trial', 'cancelled', 'expired')),
+    will_renew BOOLEAN DEFAULT false,
+    store TEXT,
+    environment TEXT CHECK (environment IN ('SANDBOX', 'PRODUCTION')),
+
+    -- Billing (expires_at is NULL for lifetime purchases)
+    expires_at TIMESTAMPTZ,
+    grace_period_expires_at TIMESTAMPTZ,
+    billing_issue_detected_at TIMESTAMPTZ,
+
+    -- Last webhook applied, used to skip retries and out-of-order deliveries
+    last_event_id TEXT,
+    last_event_type TEXT,
+    last_event_at TIMESTAMPTZ,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- One row per product per user
+    UNIQUE(user_id, product_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Policies for subscriptions table
+-- Users can view their own subscriptions (no write policies: only the webhook writes)
+DROP POLICY IF EXISTS "Users can view own subscriptions" ON public.subscriptions;
+CREATE POLICY "Users can view own subscriptions"
+    ON public.subscriptions
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Create index
+CREATE INDEX IF NOT EXISTS subscriptions_user_id_idx ON public.subscriptions(user_id);
+
+-- =====================================================================
+-- CREDIT SPENDS TABLE
+-- =====================================================================
+-- Credits spent from consumable purchases, one row per purchase drawn from.
+-- The app subtracts these from what RevenueCat reports, so spent credits stay
+-- spent after a reinstall or on another device.
+
+CREATE TABLE IF NOT EXISTS public.credit_spends (
+    -- Primary key
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+    -- User reference
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+    -- Consumable purchase (RevenueCat transaction id) the credits came from
+    transaction_id TEXT NOT NULL,
+    amount INTEGER NOT NULL CHECK (amount > 0),
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.credit_spends ENABLE ROW LEVEL SECURITY;
+
+-- Policies for credit_spends table
+-- Spends are append-only: users can record and view their own, never change them
+DROP POLICY IF EXISTS "Users can view own credit spends" ON public.credit_spends;
+CREATE POLICY "Users can view own credit spends"
+    ON public.credit_spends
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own credit spends" ON public.credit_spends;
+CREATE POLICY "Users can insert own credit spends"
+    ON public.credit_spends
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- Create index
+CREATE INDEX IF NOT EXISTS credit_spends_user_id_idx ON public.credit_spends(user_id);
+
 -- =====================================================================
 -- TRIGGERS
 -- =====================================================================
@@ -231,6 +344,13 @@ CREATE TRIGGER on_user_preferences_updated
     FOR EACH ROW
     EXECUTE FUNCTION public.handle_updated_at();
 
+-- Trigger for subscriptions table
+DROP TRIGGER IF EXISTS on_subscriptions_updated ON public.subscriptions;
+CREATE TRIGGER on_subscriptions_updated
+    BEFORE UPDATE ON public.subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
 -- Function to create profile on user signup
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -308,6 +428,8 @@ BEGIN
     END IF;
 
     -- App tables (extend to any tables that reference the user)
+    DELETE FROM public.credit_spends WHERE user_id = v_user_id;
+    DELETE FROM public.subscriptions WHERE user_id = v_user_id;
     DELETE FROM public.push_tokens WHERE user_id = v_user_id;
     DELETE FROM public.user_preferences WHERE id = v_user_id;
     DELETE FROM public.profiles WHERE id = v_user_id;
@@ -319,6 +441,62 @@ $$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
 
 GRANT EXECUTE ON FUNCTION public.delete_user_account() TO authenticated;
 
+-- Function to check if the authenticated user has an active entitlement
+-- Use it in policies to gate Pro data, e.g. USING (public.has_active_entitlement('pro'))
+CREATE OR REPLACE FUNCTION public.has_active_entitlement(entitlement_id TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.subscriptions
+        WHERE user_id = auth.uid()
+        AND status <> 'expired'
+        AND entitlements ? entitlement_id
+        -- Active until expiry, or the end of a billing grace period; lifetime never expires
+        AND (expires_at IS NULL OR GREATEST(expires_at, grace_period_expires_at) > NOW())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.has_active_entitlement(TEXT) TO authenticated;
+
+-- Function to merge synced preferences into the authenticated user's profile
+-- Keeps the newer entry of each key ({ "value", "updated_at" }), the stored one on ties,
+-- so a write replayed after being offline can't overwrite fields another device changed
+CREATE OR REPLACE FUNCTION public.merge_user_preferences(patch JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    merged JSONB;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Must be authenticated to sync preferences';
+    END IF;
+
+    INSERT INTO public.profiles (id) VALUES (v_user_id) ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.profiles p
+    SET preferences = COALESCE(p.preferences, '{}'::jsonb) || COALESCE((
+        SELECT jsonb_object_agg(entry.key, entry.value)
+        FROM jsonb_each(patch) AS entry
+        WHERE NOT (COALESCE(p.preferences, '{}'::jsonb) ? entry.key)
+           OR (entry.value->>'updated_at')::timestamptz
+              > (p.preferences->entry.key->>'updated_at')::timestamptz
+    ), '{}'::jsonb)
+    WHERE p.id = v_user_id
+    RETURNING p.preferences INTO merged;
+
+    -- Keep the preference columns in step for server-side readers
+    UPDATE public.profiles
+    SET dark_mode_enabled = COALESCE((merged->'dark_mode_enabled'->>'value')::boolean, dark_mode_enabled),
+        notifications_enabled = COALESCE((merged->'notifications_enabled'->>'value')::boolean, notifications_enabled),
+        push_notifications_enabled = COALESCE((merged->'push_notifications_enabled'->>'value')::boolean, push_notifications_enabled),
+        email_notifications_enabled = COALESCE((merged->'email_notifications_enabled'->>'value')::boolean, email_notifications_enabled)
+    WHERE id = v_user_id;
+
+    RETURN merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.merge_user_preferences(JSONB) TO authenticated;
+
 -- =====================================================================
 -- WAITLIST TABLE
 -- =====================================================================
@@ -390,9 +568,11 @@ CREATE INDEX IF NOT EXISTS waitlist_created_at_idx ON public.waitlist(created_at
 -- 1. This schema works with both real Supabase and Shipnative's mock mode
 -- 2. All tables have Row Level Security (RLS) enabled
 -- 3. Triggers automatically create profiles when users sign up
--- 4. The profiles table stores user preferences like dark mode and notifications
+-- 4. The profiles table stores user preferences like dark mode and notifications,
+--    with per-field timestamps in the preferences column for cross-device sync
 -- 5. Push tokens table supports multiple devices per user
 -- 6. User preferences table can be extended with app-specific settings
+-- 7. Subscriptions are kept in sync by the revenuecat-webhook Edge Function
 --
 -- To use this schema:
 -- 1. Go to your Supabase project dashboard
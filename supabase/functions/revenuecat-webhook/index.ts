@@ -0,0 +1,234 @@
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+// Mirrors RevenueCat purchases into public.subscriptions, one row per user and product,
+// so the backend and RLS policies (public.has_active_entitlement) can tell who is Pro.
+//
+// Setup:
+//   1. npx supabase secrets set REVENUECAT_WEBHOOK_AUTH="<random secret>"
+//   2. npx supabase functions deploy revenuecat-webhook --no-verify-jwt
+//   3. In RevenueCat > Integrations > Webhooks, set the URL to
+//      https://<project>.supabase.co/functions/v1/revenuecat-webhook and the
+//      Authorization header value to the same secret
+//   4. Development and staging projects only:
+//      npx supabase secrets set REVENUECAT_ALLOW_SANDBOX=true
+//      Without it, SANDBOX events are acknowledged but not mirrored, so test purchases
+//      can't grant access in production.
+//
+// Local testing with the recorded payloads in ./fixtures, which are SANDBOX events (replace
+// the app_user_id with the id of a user in your local auth.users first, and add
+// REVENUECAT_ALLOW_SANDBOX=true to supabase/.env.local):
+//   npx supabase functions serve revenuecat-webhook --no-verify-jwt --env-file supabase/.env.local
+//   curl -i http://localhost:54321/functions/v1/revenuecat-webhook \
+//     -H "Authorization: $REVENUECAT_WEBHOOK_AUTH" -H "Content-Type: application/json" \
+//     --data @supabase/functions/revenuecat-webhook/fixtures/initial_purchase.json
+
+const jsonHeaders = { "Content-Type": "application/json" }
+
+interface RevenueCatEvent {
+  id: string
+  type: string
+  app_user_id: string
+  original_app_user_id?: string
+  aliases?: string[]
+  product_id?: string
+  entitlement_ids?: string[] | null
+  period_type?: string
+  expiration_at_ms?: number | null
+  grace_period_expiration_at_ms?: number | null
+  event_timestamp_ms: number
+  environment?: string
+  store?: string
+  transferred_from?: string[]
+  transferred_to?: string[]
+}
+
+// Events that don't change what a customer has access to
+const IGNORED_EVENTS = new Set([
+  "TEST",
+  "SUBSCRIPTION_PAUSED",
+  "INVOICE_ISSUANCE",
+  "SUBSCRIBER_ALIAS",
+  "REFUND_REVERSED",
+])
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: jsonHeaders })
+}
+
+// Constant-time comparison so the secret can't be guessed byte by byte from response times
+function safeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a)
+  const right = new TextEncoder().encode(b)
+  let diff = left.length ^ right.length
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0)
+  }
+  return diff === 0
+}
+
+// Supabase user ids are UUIDs; anonymous RevenueCat ids ($RCAnonymousID:...) can't be mirrored
+function findUserId(ids: (string | undefined)[]): string | null {
+  return ids.find((id): id is string => !!id && UUID_PATTERN.test(id)) ?? null
+}
+
+const toTimestamp = (ms?: number | null) => (ms ? new Date(ms).toISOString() : null)
+
+// Row for the event's product, or null if the event doesn't describe access
+function toSubscriptionRow(event: RevenueCatEvent, userId: string) {
+  const entitlements = event.entitlement_ids ?? []
+  // Consumables arrive as NON_RENEWING_PURCHASE without entitlements
+  if (event.type === "NON_RENEWING_PURCHASE" && entitlements.length === 0) return null
+
+  const isTrial = event.period_type === "TRIAL"
+  const expiresAt = toTimestamp(event.expiration_at_ms)
+  const row = {
+    user_id: userId,
+    product_id: event.product_id,
+    entitlements,
+    status: isTrial ? "trial" : "active",
+    will_renew: expiresAt !== null,
+    store: event.store ?? null,
+    environment: event.environment ?? null,
+    expires_at: expiresAt,
+    grace_period_expires_at: null as string | null,
+    billing_issue_detected_at: null as string | null,
+    last_event_id: event.id,
+    last_event_type: event.type,
+    last_event_at: toTimestamp(event.event_timestamp_ms),
+  }
+
+  switch (event.type) {
+    case "CANCELLATION":
+      // Access continues until expires_at; refunds arrive with an expiration in the past
+      return { ...row, status: "cancelled", will_renew: false }
+    case "BILLING_ISSUE":
+      return {
+        ...row,
+        grace_period_expires_at: toTimestamp(event.grace_period_expiration_at_ms),
+        billing_issue_detected_at: row.last_event_at,
+      }
+    case "EXPIRATION":
+      return { ...row, entitlements: [], status: "expired", will_renew: false }
+    case "NON_RENEWING_PURCHASE":
+      return { ...row, will_renew: false }
+    default:
+      // INITIAL_PURCHASE, RENEWAL, UNCANCELLATION, PRODUCT_CHANGE, SUBSCRIPTION_EXTENDED,
+      // TEMPORARY_ENTITLEMENT_GRANT
+      return row
+  }
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ code: 405, message: "Method not allowed" }, 405)
+  }
+
+  // RevenueCat sends the Authorization header value configured in its dashboard
+  const secret = Deno.env.get("REVENUECAT_WEBHOOK_AUTH")
+  if (!secret) {
+    console.error("REVENUECAT_WEBHOOK_AUTH is not configured")
+    return jsonResponse({ code: 500, message: "Webhook secret not configured" }, 500)
+  }
+  const authorization = req.headers.get("authorization") ?? ""
+  if (!safeEqual(authorization.replace(/^bearer\s+/i, ""), secret.replace(/^bearer\s+/i, ""))) {
+    return jsonResponse({ code: 401, message: "Invalid webhook authorization" }, 401)
+  }
+
+  let event: RevenueCatEvent
+  try {
+    const body = await req.json()
+    event = body?.event
+    if (!event?.id || !event.type) throw new Error("Missing event")
+  } catch {
+    return jsonResponse({ code: 400, message: "Invalid webhook payload" }, 400)
+  }
+
+  // Successful responses stop RevenueCat's retries, so events we can't use still return 200
+  if (IGNORED_EVENTS.has(event.type)) {
+    return jsonResponse({ received: true, ignored: event.type }, 200)
+  }
+
+  // Sandbox purchases cost nothing, so they only grant access where explicitly allowed
+  if (event.environment === "SANDBOX" && Deno.env.get("REVENUECAT_ALLOW_SANDBOX") !== "true") {
+    return jsonResponse({ received: true, ignored: "sandbox" }, 200)
+  }
+
+  try {
+    const adminClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } },
+    )
+
+    if (event.type === "TRANSFER") {
+      const from = (event.transferred_from ?? []).filter((id) => UUID_PATTERN.test(id))
+      const to = findUserId(event.transferred_to ?? [])
+      if (!to || from.length === 0) {
+        return jsonResponse({ received: true, ignored: event.type }, 200)
+      }
+
+      const { data: rows, error } = await adminClient
+        .from("subscriptions")
+        .select("*")
+        .in("user_id", from)
+      if (error) throw error
+
+      for (const { id: _id, created_at: _created, updated_at: _updated, ...row } of rows ?? []) {
+        const { error: upsertError } = await adminClient
+          .from("subscriptions")
+          .upsert({ ...row, user_id: to }, { onConflict: "user_id,product_id" })
+        if (upsertError) throw upsertError
+      }
+      const { error: deleteError } = await adminClient
+        .from("subscriptions")
+        .delete()
+        .in("user_id", from)
+      if (deleteError) throw deleteError
+
+      console.log("Transferred subscriptions", { from, to })
+      return jsonResponse({ received: true }, 200)
+    }
+
+    const userId = findUserId([
+      event.app_user_id,
+      event.original_app_user_id,
+      ...(event.aliases ?? []),
+    ])
+    const row = userId ? toSubscriptionRow(event, userId) : null
+    if (!userId || !row?.product_id) {
+      return jsonResponse({ received: true, ignored: event.type }, 200)
+    }
+
+    // Skip retries of an applied event and deliveries older than the last one applied
+    const { data: existing, error: existingError } = await adminClient
+      .from("subscriptions")
+      .select("last_event_id, last_event_at")
+      .eq("user_id", userId)
+      .eq("product_id", row.product_id)
+      .maybeSingle()
+    if (existingError) throw existingError
+
+    if (
+      existing &&
+      (existing.last_event_id === event.id ||
+        (existing.last_event_at && Date.parse(existing.last_event_at) > event.event_timestamp_ms))
+    ) {
+      return jsonResponse({ received: true, ignored: "stale" }, 200)
+    }
+
+    const { error: upsertError } = await adminClient
+      .from("subscriptions")
+      .upsert(row, { onConflict: "user_id,product_id" })
+    if (upsertError) throw upsertError
+
+    console.log("Applied RevenueCat event", { type: event.type, userId, productId: row.product_id })
+    return jsonResponse({ received: true }, 200)
+  } catch (error) {
+    // Non-2xx makes RevenueCat retry the delivery
+    console.error("RevenueCat webhook error:", error)
+    return jsonResponse({ code: 500, message: "Internal server error" }, 500)
+  }
+})